@@ -34,6 +34,221 @@ const rules = {
     ],
   },
   
+  // Cart lines belong to the signed-in user who owns them
+  cart: {
+    allow: {
+      view: "isOwner",
+      create: "isOwner",
+      update: "isOwner",
+      delete: "isOwner",
+    },
+    bind: ["isOwner", "auth.id != null && auth.id == data.userId"],
+  },
+
+  // Shoppers keep their own profile; staff set the customer group and record refused deliveries
+  customers: {
+    allow: {
+      view: "isOwner",
+      create: "isOwner && data.customerGroup == null && data.refusedDeliveries == null",
+      update: "isOwner && newData.email == data.email && newData.customerGroup == data.customerGroup && newData.refusedDeliveries == data.refusedDeliveries",
+      delete: "false",
+    },
+    bind: ["isOwner", "auth.email != null && auth.email == data.email"],
+  },
+
+  // Discount codes are looked up at checkout; the admin app keeps their usage counts from the redemptions
+  discounts: {
+    allow: {
+      view: "true",
+      create: "false",
+      update: "false",
+      delete: "false",
+    },
+  },
+
+  // Redemptions are recorded with the order by the customer who used them, and reversed only when that order is cancelled
+  discountredemptions: {
+    allow: {
+      view: "isOwner",
+      create: "isOwner",
+      update: "isOwner && isUnchanged && isOrderCancelled",
+      delete: "false",
+    },
+    bind: [
+      "isOwner", "auth.email != null && auth.email == data.customerEmail",
+      "isUnchanged", "newData.amount == data.amount && newData.discountId == data.discountId && newData.orderId == data.orderId && newData.customerEmail == data.customerEmail",
+      "isOrderCancelled", "'cancelled' in data.ref('order.status')"
+    ],
+  },
+
+  // Each redemption also records a use without customer details, so every shopper can count a
+  // code's total uses; the customer reverses it with the redemption when the order is cancelled
+  discountuses: {
+    allow: {
+      view: "true",
+      create: "isAuthenticated",
+      update: "isOwner && isUnchanged && isOrderCancelled",
+      delete: "false",
+    },
+    bind: [
+      "isAuthenticated", "auth.id != null",
+      "isOwner", "auth.email != null && auth.email in data.ref('order.customerEmail')",
+      "isUnchanged", "newData.discountId == data.discountId && newData.orderId == data.orderId",
+      "isOrderCancelled", "'cancelled' in data.ref('order.status')"
+    ],
+  },
+
+  // Metal rates drive live prices for every shopper; the admin app publishes them and flags the current one per metal and purity
+  metalrates: {
+    allow: {
+      view: "true",
+      create: "false",
+      update: "false",
+      delete: "false",
+    },
+  },
+
+  // Stock levels are written from the quantities that were read, so a change to them must
+  // bump the version it read; a write built from stale stock is rejected and retried
+  items: {
+    allow: {
+      update: "isStockUnchanged || isNextVersion",
+    },
+    bind: [
+      "isStockUnchanged", "newData.totalAvailable == data.totalAvailable && newData.totalCommitted == data.totalCommitted && newData.totalOnHand == data.totalOnHand",
+      "isNextVersion", "newData.version == (data.version == null ? 0 : data.version) + 1"
+    ],
+  },
+
+  // Per-location stock follows the same versioning as item totals
+  ilocations: {
+    allow: {
+      update: "isStockUnchanged || isNextVersion",
+    },
+    bind: [
+      "isStockUnchanged", "newData.available == data.available && newData.committed == data.committed && newData.onHand == data.onHand",
+      "isNextVersion", "newData.version == (data.version == null ? 0 : data.version) + 1"
+    ],
+  },
+
+  // The order timeline is append-only, and only the order's customer sees or adds to it
+  orderevents: {
+    allow: {
+      view: "isOwner",
+      create: "isOwner",
+      update: "false",
+      delete: "false",
+    },
+    bind: ["isOwner", "auth.email != null && auth.email in data.ref('order.customerEmail')"],
+  },
+
+  // Customers record their own payment attempts at checkout and void unpaid ones when they cancel
+  // the order; capturing, webhooks and reconciliation run from the admin app and the payments backend
+  payments: {
+    allow: {
+      view: "isOwner",
+      create: "isOwner && data.status in ['pending', 'authorized', 'failed'] && data.capturedAmount == 0",
+      update: "isOwner && isVoidedOnCancel && isUnchanged",
+      delete: "false",
+    },
+    bind: [
+      "isOwner", "auth.email != null && auth.email in data.ref('order.customerEmail')",
+      "isVoidedOnCancel", "'cancelled' in data.ref('order.status') && data.status == 'pending' && newData.status == 'voided'",
+      "isUnchanged", "newData.amount == data.amount && newData.capturedAmount == data.capturedAmount && newData.refundedAmount == data.refundedAmount && newData.method == data.method && newData.provider == data.provider && newData.orderId == data.orderId"
+    ],
+  },
+
+  // Refunds are created with the order change that causes them; the admin app marks them
+  // processed once the gateway settles them
+  refunds: {
+    allow: {
+      view: "isOwner",
+      create: "isOwner && data.status == 'pending'",
+      update: "false",
+      delete: "false",
+    },
+    bind: ["isOwner", "auth.email != null && auth.email in data.ref('order.customerEmail')"],
+  },
+
+  // Customers request returns on their own orders; staff move them through approval, receipt and refund
+  returns: {
+    allow: {
+      view: "isOwner",
+      create: "isOwner && data.status == 'requested'",
+      update: "false",
+      delete: "false",
+    },
+    bind: ["isOwner", "auth.email != null && auth.email in data.ref('order.customerEmail')"],
+  },
+
+  // Staff pack and ship orders from the admin app; customers follow the tracking on their own orders
+  shipments: {
+    allow: {
+      view: "isOwner",
+      create: "false",
+      update: "false",
+      delete: "false",
+    },
+    bind: ["isOwner", "auth.email != null && auth.email in data.ref('order.customerEmail')"],
+  },
+
+  // Invoices are numbered in sequence and issued with their documents, so they are never changed or deleted
+  invoices: {
+    allow: {
+      view: "isOwner",
+      create: "isOwner",
+      update: "false",
+      delete: "false",
+    },
+    bind: ["isOwner", "auth.email != null && auth.email in data.ref('order.customerEmail')"],
+  },
+
+  // Claimed invoice numbers, readable by every issuer so each customer continues the same sequence
+  invoicenumbers: {
+    allow: {
+      view: "isAuthenticated",
+      create: "isAuthenticated",
+      update: "false",
+      delete: "false",
+    },
+    bind: ["isAuthenticated", "auth.id != null"],
+  },
+
+  // Claimed order numbers; the unique number is what keeps devices from taking the same one
+  ordernumbers: {
+    allow: {
+      view: "isAuthenticated",
+      create: "isAuthenticated",
+      update: "false",
+      delete: "false",
+    },
+    bind: ["isAuthenticated", "auth.id != null"],
+  },
+
+  // Price lists are only visible to the customer groups they are for; retail lists are public
+  pricelists: {
+    allow: {
+      view: "isRetail || isInShopperGroup",
+      create: "false",
+      update: "false",
+      delete: "false",
+    },
+    bind: [
+      "isRetail", "'retail' in data.customerGroups",
+      "isInShopperGroup", "data.customerGroups.exists(group, group in auth.ref('$user.customer.customerGroup'))"
+    ],
+  },
+
+  // Automatic promotions are applied in every shopper's cart
+  promotions: {
+    allow: {
+      view: "true",
+      create: "false",
+      update: "false",
+      delete: "false",
+    },
+  },
+
   // Products should be viewable by everyone
   products: {
     allow: {
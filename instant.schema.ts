@@ -31,14 +31,18 @@ const _schema = i.schema({
       name: i.string().unique().indexed(),
     }),
     cart: i.entity({
+      collectionId: i.string().optional(),
       createdAt: i.date(),
+      hsnCode: i.string().optional(),
       image: i.string().optional(),
       itemId: i.string().indexed().optional(),
+      metalPricing: i.json().optional(),
       price: i.number(),
       productId: i.string().indexed(),
       quantity: i.number(),
       sessionId: i.string().indexed().optional(),
       sku: i.string().optional(),
+      taxClass: i.string().optional(),
       title: i.string(),
       updatedAt: i.date().optional(),
       userId: i.string().indexed().optional(),
@@ -62,17 +66,53 @@ const _schema = i.schema({
     customers: i.entity({
       addresses: i.json().optional(),
       createdAt: i.date().indexed(),
+      customerGroup: i.string().indexed().optional(),
       defaultAddress: i.any().optional(),
       email: i.string().indexed().optional(),
       lastOrderDate: i.date().indexed().optional(),
       name: i.string(),
       notes: i.string().optional(),
       phone: i.string().indexed().optional(),
+      refusedDeliveries: i.number().optional(),
       tags: i.string().optional(),
       totalOrders: i.number().optional(),
       totalSpent: i.number().optional(),
       updatedAt: i.date().optional(),
     }),
+    discountredemptions: i.entity({
+      amount: i.number(),
+      code: i.string().indexed(),
+      createdAt: i.date().indexed(),
+      customerEmail: i.string().indexed().optional(),
+      customerId: i.string().indexed().optional(),
+      discountId: i.string().indexed(),
+      orderId: i.string().indexed(),
+      reversedAt: i.date().optional(),
+    }),
+    discounts: i.entity({
+      code: i.string().unique().indexed(),
+      collectionIds: i.json().optional(),
+      createdAt: i.date(),
+      description: i.string().optional(),
+      endsAt: i.date().optional(),
+      isActive: i.boolean(),
+      maximumDiscount: i.number().optional(),
+      minimumAmount: i.number().optional(),
+      productIds: i.json().optional(),
+      startsAt: i.date().optional(),
+      type: i.string(),
+      updatedAt: i.date().optional(),
+      usageCount: i.number().optional(),
+      usageLimit: i.number().optional(),
+      usageLimitPerCustomer: i.number().optional(),
+      value: i.number(),
+    }),
+    discountuses: i.entity({
+      createdAt: i.date().indexed(),
+      discountId: i.string().indexed(),
+      orderId: i.string().indexed(),
+      reversedAt: i.date().optional(),
+    }),
     files: i.entity({
       alt: i.string().optional(),
       dateAdded: i.date(),
@@ -144,6 +184,30 @@ const _schema = i.schema({
       reserved: i.number().indexed().optional(),
       updatedAt: i.date(),
     }),
+    invoicenumbers: i.entity({
+      createdAt: i.date(),
+      financialYear: i.string().indexed(),
+      number: i.string().unique().indexed(),
+      sequence: i.number().indexed(),
+    }),
+    invoices: i.entity({
+      createdAt: i.date().indexed(),
+      currency: i.string().optional(),
+      financialYear: i.string().indexed(),
+      htmlKey: i.string().optional(),
+      htmlUrl: i.string().optional(),
+      number: i.string().unique().indexed(),
+      orderId: i.string().unique().indexed(),
+      pdfKey: i.string().optional(),
+      pdfUrl: i.string().optional(),
+      placeOfSupply: i.string().optional(),
+      sellerGstin: i.string().optional(),
+      sequence: i.number().indexed(),
+      taxAmount: i.number(),
+      taxableValue: i.number(),
+      total: i.number(),
+      updatedAt: i.date().optional(),
+    }),
     items: i.entity({
       allowPreorder: i.boolean().optional(),
       available: i.number().optional(),
@@ -151,9 +215,14 @@ const _schema = i.schema({
       committed: i.number().optional(),
       cost: i.number().optional(),
       createdAt: i.date().optional(),
+      grossWeight: i.number().optional(),
       image: i.string().optional(),
+      makingCharge: i.number().optional(),
+      makingChargeType: i.string().optional(),
       margin: i.number().optional(),
       metafields: i.any().optional(),
+      metal: i.string().optional(),
+      netWeight: i.number().optional(),
       onhand: i.number().optional(),
       option1: i.string().optional(),
       option2: i.string().optional(),
@@ -161,6 +230,7 @@ const _schema = i.schema({
       path: i.string().optional(),
       price: i.number().optional(),
       productId: i.string().indexed(),
+      purity: i.string().optional(),
       reorderlevel: i.number().optional(),
       saleprice: i.number().optional(),
       sku: i.string().indexed(),
@@ -170,6 +240,9 @@ const _schema = i.schema({
       trackQty: i.boolean().optional(),
       unavailable: i.number().optional(),
       updatedAt: i.date().optional(),
+      version: i.number().optional(),
+      wastage: i.number().optional(),
+      weight: i.number().optional(),
     }),
     locations: i.entity({
       address: i.json().optional(),
@@ -189,6 +262,15 @@ const _schema = i.schema({
       type: i.string().optional(),
       url: i.string().optional(),
     }),
+    metalrates: i.entity({
+      createdAt: i.date(),
+      current: i.boolean().indexed().optional(),
+      effectiveAt: i.date().indexed(),
+      metal: i.string().indexed(),
+      purity: i.string().indexed(),
+      rate: i.number(),
+      source: i.string().optional(),
+    }),
     metasets: i.entity({
       category: i.string().indexed(),
       config: i.any().optional(),
@@ -238,21 +320,35 @@ const _schema = i.schema({
       setId: i.string().indexed(),
       updatedAt: i.date(),
     }),
+    orderevents: i.entity({
+      actor: i.string(),
+      createdAt: i.date().indexed(),
+      field: i.string().indexed(),
+      from: i.string().optional(),
+      note: i.string().optional(),
+      orderId: i.string().indexed(),
+      to: i.string(),
+    }),
     orderitems: i.entity({
       compareAtPrice: i.number().optional(),
       cost: i.number().optional(),
       discountAmount: i.number().optional(),
       fulfillmentStatus: i.string().optional(),
+      hsnCode: i.string().optional(),
       itemId: i.string().indexed().optional(),
       lineTotal: i.number(),
+      metalPrice: i.json().optional(),
       price: i.number(),
+      priceListId: i.string().optional(),
       productId: i.string().indexed().optional(),
       productImage: i.string().optional(),
       productType: i.string().optional(),
       qty: i.number().optional(),
       quantity: i.number(),
+      reservations: i.json().optional(),
       sku: i.string().optional(),
       taxAmount: i.number().optional(),
+      taxBreakdown: i.json().optional(),
       taxRate: i.number().optional(),
       title: i.string(),
       total: i.number().optional(),
@@ -261,15 +357,23 @@ const _schema = i.schema({
       variantTitle: i.string().optional(),
       vendor: i.string().optional(),
     }),
+    ordernumbers: i.entity({
+      createdAt: i.date(),
+      number: i.string().unique().indexed(),
+      prefix: i.string().indexed(),
+      sequence: i.number().indexed(),
+    }),
     orders: i.entity({
+      appliedPromotions: i.json().optional(),
       billingAddress: i.json().optional(),
+      cancelReason: i.string().optional(),
       cancelledAt: i.date().optional(),
       closedAt: i.date().optional(),
       createdAt: i.date().indexed(),
       currency: i.string().optional(),
-      customerEmail: i.string().optional(),
+      customerEmail: i.string().indexed().optional(),
       customerId: i.string().indexed().optional(),
-      customerName: i.string().optional(),
+      customerName: i.string().indexed().optional(),
       customerPhone: i.string().optional(),
       deviceId: i.string().optional(),
       discount: i.number().optional(),
@@ -279,20 +383,27 @@ const _schema = i.schema({
       fulfillmentStatus: i.string().indexed(),
       locationId: i.string().indexed().optional(),
       market: i.string().optional(),
+      metalRates: i.json().optional(),
       notes: i.string().optional(),
       orderNumber: i.string().unique().indexed(),
+      paymentFee: i.number().optional(),
+      paymentMethod: i.string().optional(),
+      paymentReference: i.string().indexed().optional(),
       paymentStatus: i.string().indexed(),
       receiptNumber: i.string().optional(),
       referenceId: i.string().unique().indexed(),
       referid: i.string().unique().indexed().optional(),
       shippingAddress: i.json().optional(),
       shippingAmount: i.number().optional(),
+      shippingMethod: i.json().optional(),
       source: i.string().optional(),
       staffId: i.string().optional(),
       status: i.string().indexed(),
       subtotal: i.number(),
       tags: i.string().optional(),
       taxAmount: i.number().optional(),
+      taxBreakdown: i.json().optional(),
+      taxesIncluded: i.boolean().optional(),
       total: i.number(),
       totalPaid: i.number().optional(),
       totalRefunded: i.number().optional(),
@@ -304,6 +415,21 @@ const _schema = i.schema({
       parentId: i.string().indexed(),
       title: i.string().optional(),
     }),
+    payments: i.entity({
+      amount: i.number(),
+      capturedAmount: i.number().optional(),
+      createdAt: i.date().indexed(),
+      currency: i.string().optional(),
+      error: i.string().optional(),
+      method: i.string(),
+      orderId: i.string().indexed(),
+      provider: i.string(),
+      providerPaymentId: i.string().indexed().optional(),
+      reference: i.string().indexed().optional(),
+      refundedAmount: i.number().optional(),
+      status: i.string().indexed(),
+      updatedAt: i.date().optional(),
+    }),
     peoplea: i.entity({
       bio: i.string().optional(),
       createdAt: i.date(),
@@ -313,6 +439,18 @@ const _schema = i.schema({
       updatedAt: i.date().optional(),
       userId: i.string().unique().indexed(),
     }),
+    pricelists: i.entity({
+      createdAt: i.date(),
+      customerGroups: i.json(),
+      endsAt: i.date().optional(),
+      entries: i.json().optional(),
+      isActive: i.boolean().indexed(),
+      minQuantity: i.number().optional(),
+      name: i.string(),
+      percentOff: i.number().optional(),
+      startsAt: i.date().optional(),
+      updatedAt: i.date().optional(),
+    }),
     products: i.entity({
       barcode: i.string().indexed().optional(),
       blurb: i.string().optional(),
@@ -321,19 +459,26 @@ const _schema = i.schema({
       collectionId: i.string().indexed().optional(),
       cost: i.number().optional(),
       createdAt: i.date().indexed(),
-      description: i.string().optional(),
+      description: i.string().indexed().optional(),
       featured: i.boolean().indexed(),
+      grossWeight: i.number().optional(),
+      hsnCode: i.string().optional(),
       image: i.string().optional(),
+      makingCharge: i.number().optional(),
+      makingChargeType: i.string().optional(),
       medias: i.json().optional(),
       metafields: i.json().optional(),
+      metal: i.string().optional(),
       modifiers: i.any().optional(),
       name: i.string().optional(),
+      netWeight: i.number().optional(),
       notes: i.string().optional(),
       options: i.string().optional(),
       pos: i.boolean().indexed(),
       price: i.number().optional(),
       promoinfo: i.any().optional(),
       publishAt: i.date().optional(),
+      purity: i.string().optional(),
       relproducts: i.any().optional(),
       saleinfo: i.any().optional(),
       saleprice: i.number().optional(),
@@ -343,12 +488,78 @@ const _schema = i.schema({
       status: i.string().indexed(),
       stock: i.number().optional(),
       tags: i.string().indexed().optional(),
+      taxClass: i.string().optional(),
       title: i.string().indexed(),
       typeId: i.string().indexed().optional(),
       updatedAt: i.date().optional(),
       vendorId: i.string().indexed().optional(),
+      wastage: i.number().optional(),
       website: i.boolean().indexed(),
     }),
+    promotions: i.entity({
+      collectionIds: i.json().optional(),
+      config: i.json(),
+      createdAt: i.date(),
+      description: i.string().optional(),
+      endsAt: i.date().optional(),
+      isActive: i.boolean().indexed(),
+      name: i.string(),
+      priority: i.number().optional(),
+      productIds: i.json().optional(),
+      startsAt: i.date().optional(),
+      type: i.string(),
+      updatedAt: i.date().optional(),
+    }),
+    refunds: i.entity({
+      actor: i.string(),
+      amount: i.number(),
+      createdAt: i.date().indexed(),
+      lines: i.json().optional(),
+      orderId: i.string().indexed(),
+      processedAt: i.date().optional(),
+      reason: i.string().optional(),
+      shippingAmount: i.number().optional(),
+      status: i.string().indexed(),
+      subtotal: i.number().optional(),
+      taxAmount: i.number().optional(),
+      type: i.string().optional(),
+    }),
+    returns: i.entity({
+      actor: i.string(),
+      createdAt: i.date().indexed(),
+      locationId: i.string().optional(),
+      note: i.string().optional(),
+      orderId: i.string().indexed(),
+      orderItemId: i.string().indexed(),
+      quantity: i.number(),
+      reason: i.string(),
+      receivedAt: i.date().optional(),
+      refundAmount: i.number().optional(),
+      resolution: i.string().optional(),
+      resolutionNote: i.string().optional(),
+      rmaNumber: i.string().unique().indexed(),
+      status: i.string().indexed(),
+      updatedAt: i.date().optional(),
+    }),
+    shipments: i.entity({
+      actor: i.string().optional(),
+      carrier: i.string().optional(),
+      createdAt: i.date().indexed(),
+      deliveredAt: i.date().optional(),
+      labelCost: i.number().optional(),
+      labelFormat: i.string().optional(),
+      labelKey: i.string().optional(),
+      labelUrl: i.string().optional(),
+      lines: i.json(),
+      orderId: i.string().indexed(),
+      service: i.string().optional(),
+      shippedAt: i.date().optional(),
+      status: i.string().indexed(),
+      trackingNumber: i.string().indexed().optional(),
+      trackingStatus: i.string().optional(),
+      trackingUrl: i.string().optional(),
+      updatedAt: i.date().optional(),
+    }),
     stocks: i.entity({
       available: i.number().optional(),
       committed: i.number().optional(),
@@ -377,6 +588,150 @@ const _schema = i.schema({
     }),
   },
   links: {
+    invoicesOrder: {
+      forward: {
+        on: "invoices",
+        has: "one",
+        label: "order",
+      },
+      reverse: {
+        on: "orders",
+        has: "one",
+        label: "invoice",
+      },
+    },
+    shipmentsOrder: {
+      forward: {
+        on: "shipments",
+        has: "one",
+        label: "order",
+      },
+      reverse: {
+        on: "orders",
+        has: "many",
+        label: "shipments",
+      },
+    },
+    shipmentsOrderitems: {
+      forward: {
+        on: "shipments",
+        has: "many",
+        label: "orderitems",
+      },
+      reverse: {
+        on: "orderitems",
+        has: "many",
+        label: "shipments",
+      },
+    },
+    paymentsOrder: {
+      forward: {
+        on: "payments",
+        has: "one",
+        label: "order",
+      },
+      reverse: {
+        on: "orders",
+        has: "many",
+        label: "payments",
+      },
+    },
+    refundsOrderitems: {
+      forward: {
+        on: "refunds",
+        has: "many",
+        label: "orderitems",
+      },
+      reverse: {
+        on: "orderitems",
+        has: "many",
+        label: "refunds",
+      },
+    },
+    returnsOrder: {
+      forward: {
+        on: "returns",
+        has: "one",
+        label: "order",
+      },
+      reverse: {
+        on: "orders",
+        has: "many",
+        label: "returns",
+      },
+    },
+    returnsOrderitem: {
+      forward: {
+        on: "returns",
+        has: "one",
+        label: "orderitem",
+      },
+      reverse: {
+        on: "orderitems",
+        has: "many",
+        label: "returns",
+      },
+    },
+    refundsOrder: {
+      forward: {
+        on: "refunds",
+        has: "one",
+        label: "order",
+      },
+      reverse: {
+        on: "orders",
+        has: "many",
+        label: "refunds",
+      },
+    },
+    ordereventsOrder: {
+      forward: {
+        on: "orderevents",
+        has: "one",
+        label: "order",
+      },
+      reverse: {
+        on: "orders",
+        has: "many",
+        label: "events",
+      },
+    },
+    discountredemptionsDiscount: {
+      forward: {
+        on: "discountredemptions",
+        has: "one",
+        label: "discount",
+      },
+      reverse: {
+        on: "discounts",
+        has: "many",
+        label: "redemptions",
+      },
+    },
+    discountredemptionsOrder: {
+      forward: {
+        on: "discountredemptions",
+        has: "one",
+        label: "order",
+      },
+      reverse: {
+        on: "orders",
+        has: "many",
+        label: "discountredemptions",
+      },
+    },
+    discountusesOrder: {
+      forward: {
+        on: "discountuses",
+        has: "one",
+        label: "order",
+      },
+      reverse: {
+        on: "orders",
+        has: "many",
+        label: "discountuses",
+      },
+    },
     cart$users: {
       forward: {
         on: "cart",
@@ -413,6 +768,18 @@ const _schema = i.schema({
         label: "cart",
       },
     },
+    customers$users: {
+      forward: {
+        on: "customers",
+        has: "one",
+        label: "$users",
+      },
+      reverse: {
+        on: "$users",
+        has: "one",
+        label: "customer",
+      },
+    },
     customersOrders: {
       forward: {
         on: "customers",
@@ -10,7 +10,8 @@ module.exports = {
   ],
   testPathIgnorePatterns: [
     '<rootDir>/node_modules/',
-    '<rootDir>/src/__tests__/setup.ts'
+    '<rootDir>/src/__tests__/setup.ts',
+    '<rootDir>/src/__tests__/mock-instant.ts'
   ],
   collectCoverageFrom: [
     'src/**/*.{js,jsx,ts,tsx}',
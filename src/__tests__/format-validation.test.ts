@@ -177,15 +177,10 @@ describe('Format Validation Utilities', () => {
       }
     });
 
-    test('should generate valid order numbers', () => {
-      const orderNumber1 = OrderNumberValidator.generate('STORE1');
-      const orderNumber2 = OrderNumberValidator.generate('STORE2');
-      
-      expect(OrderNumberValidator.validate(orderNumber1).isValid).toBe(true);
-      expect(OrderNumberValidator.validate(orderNumber2).isValid).toBe(true);
-      expect(orderNumber1.startsWith('STO')).toBe(true); // First 3 chars of STORE1
-      expect(orderNumber2.startsWith('STO')).toBe(true); // First 3 chars of STORE2
-      expect(orderNumber1).not.toBe(orderNumber2); // Should be unique
+    test('should format sequence numbers as valid order numbers', () => {
+      expect(OrderNumberValidator.format('ORD', 1001)).toBe('ORD-001001');
+      expect(OrderNumberValidator.format('TEST', 1234567)).toBe('TEST-1234567');
+      expect(OrderNumberValidator.validate(OrderNumberValidator.format('ORD', 1001)).isValid).toBe(true);
     });
   });
 
@@ -0,0 +1,17 @@
+// Shared mock of ../lib/instant for service tests:
+// jest.mock('../../lib/instant', () => require('../../__tests__/mock-instant').mockInstant());
+
+// db.tx accepts any chain of entity, id, update and link calls
+export function mockInstant() {
+  const chain: any = new Proxy(() => chain, {
+    get: () => chain,
+    apply: () => chain,
+  });
+  return {
+    db: {
+      transact: jest.fn(),
+      queryOnce: jest.fn(),
+      tx: chain,
+    },
+  };
+}
@@ -4,6 +4,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Feather, MaterialCommunityIcons } from '@expo/vector-icons';
 import { db, formatCurrency } from '../../lib/instant';
+import { isCloseToBottom, usePaginatedQuery } from '../../hooks/usePaginatedQuery';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import { ProductService } from '../../services/product-service';
 
 import ProductGrid, { EmptyProductGrid } from '../../components/ui/product-grid';
 import R2Image from '../../components/ui/r2-image';
@@ -14,50 +17,41 @@ export default function CategoryScreen() {
   const insets = useSafeAreaInsets();
   const [searchQuery, setSearchQuery] = useState('');
 
-  // Query products and categories
-  const { isLoading, error, data } = db.useQuery({
-    products: {
-      category: {}
-    },
-    categories: {}
+  // Search runs in the database once typing pauses
+  const debouncedSearch = useDebouncedValue(searchQuery.trim());
+
+  // Only the current category
+  const { data } = db.useQuery({
+    categories: {
+      $: {
+        where: {
+          id
+        }
+      }
+    }
   });
 
-  const products = data?.products || [];
-  const categories = data?.categories || [];
+  const currentCategory = data?.categories?.[0];
 
-  // Find the current category
-  const currentCategory = categories.find(cat => cat.id === id);
+  // This category's products, a page at a time
+  const productQuery = useMemo(() => {
+    const plan = ProductService.getInstance().buildProductQuery({ category: id, search: debouncedSearch });
+    return { $: { where: plan.where, order: plan.order } };
+  }, [id, debouncedSearch]);
 
-  // Filter products by category and search
-  const filteredProducts = useMemo(() => {
-    if (!products) return [];
+  const {
+    items: products,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    error,
+  } = usePaginatedQuery('products', productQuery);
 
-    return products.filter((product: any) => {
-      if (!product) return false;
+  // Category and search are applied by the query
+  const filteredProducts = useMemo(() => products.filter((product: any) => !!product), [products]);
 
-      // Category filter
-      const matchesCategory = product.categoryId === id || 
-                             (product.category && product.category.id === id);
-
-      // Search filter
-      const searchTerm = searchQuery.toLowerCase();
-      const title = product.title || '';
-      const tags = product.tags || [];
-      const tagsString = Array.isArray(tags) ? tags.join(' ') : (typeof tags === 'string' ? tags : '');
-      
-      const matchesSearch = !searchTerm || (
-        title.toLowerCase().includes(searchTerm) ||
-        tagsString.toLowerCase().includes(searchTerm) ||
-        (product.sku || '').toLowerCase().includes(searchTerm) ||
-        (product.barcode || '').toLowerCase().includes(searchTerm) ||
-        (product.description || '').toLowerCase().includes(searchTerm)
-      );
-
-      return matchesCategory && matchesSearch;
-    });
-  }, [products, id, searchQuery]);
-
-  if (isLoading) {
+  if (isLoading && products.length === 0 && !searchQuery) {
     return (
       <View className="flex-1 bg-gray-50 justify-center items-center" style={{ paddingTop: insets.top }}>
         <Text className="text-gray-500">Loading products...</Text>
@@ -90,7 +84,7 @@ export default function CategoryScreen() {
               {currentCategory?.name || 'Category'}
             </Text>
             <Text className="text-white/80 text-sm text-center">
-              {filteredProducts.length} products
+              {filteredProducts.length}{hasMore ? '+' : ''} products
             </Text>
           </View>
           
@@ -118,7 +112,16 @@ export default function CategoryScreen() {
       </View>
 
       {/* Products Grid */}
-      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+      <ScrollView
+        className="flex-1"
+        showsVerticalScrollIndicator={false}
+        scrollEventThrottle={200}
+        onScroll={({ nativeEvent }) => {
+          if (isCloseToBottom(nativeEvent)) {
+            loadMore();
+          }
+        }}
+      >
         {filteredProducts.length === 0 ? (
           <EmptyProductGrid
             searchQuery={searchQuery}
@@ -151,6 +154,8 @@ export default function CategoryScreen() {
 
             <ProductGrid
               products={filteredProducts}
+              isLoadingMore={isLoadingMore}
+              hasMore={hasMore}
               selectedProducts={new Set()}
               isMultiSelectMode={false}
               onProductPress={(product) => {
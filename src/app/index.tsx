@@ -234,6 +234,7 @@ export default function Page() {
       case 'my-orders':
         return <MyOrdersScreen
           onClose={() => handleNavigate('profile')}
+          onNavigateToCart={() => handleNavigate('cart')}
           onOrderSelect={(order) => {
             setNavigationData({ order });
             handleNavigate('order-details');
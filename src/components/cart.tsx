@@ -4,7 +4,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Feather, MaterialCommunityIcons } from '@expo/vector-icons';
 import { formatCurrency } from '../lib/instant';
 import { useCart } from '../lib/cart-context';
+import { max, money, subtract, toMajor } from '../lib/money';
 import R2Image from './ui/r2-image';
+import DiscountCodeInput from './ui/discount-code-input';
 
 interface CartScreenProps {
   onClose?: () => void;
@@ -13,8 +15,13 @@ interface CartScreenProps {
 
 export default function CartScreen({ onClose, onCheckout }: CartScreenProps) {
   const insets = useSafeAreaInsets();
-  const { items: cartItems, totals, updateQuantity, removeItem, clearCart } = useCart();
+  const { items: cartItems, totals, pricing, promotions, updateQuantity, removeItem, clearCart, stockStatus, hasStockIssues } = useCart();
   const [isLoading, setIsLoading] = useState(false);
+  // Promotions are listed individually; the discount row covers the code
+  const codeDiscount = toMajor(max(
+    subtract(money(totals.discount, pricing.currency), money(promotions.total, pricing.currency)),
+    money(0, pricing.currency)
+  ));
 
   const handleUpdateQuantity = (itemId: string, newQuantity: number) => {
     updateQuantity(itemId, newQuantity);
@@ -56,10 +63,31 @@ export default function CartScreen({ onClose, onCheckout }: CartScreenProps) {
       return;
     }
 
+    if (hasStockIssues) {
+      Alert.alert('Stock Changed', 'Some items in your cart are out of stock or short. Please update them before checking out.');
+      return;
+    }
+
     // Navigate to checkout screen
     onCheckout?.();
   };
 
+  const renderStockWarning = (itemId: string) => {
+    const status = stockStatus[itemId];
+    if (!status || status.status === 'in_stock') return null;
+
+    return (
+      <View className="flex-row items-center mt-2">
+        <Feather name="alert-circle" size={14} color="#DC2626" />
+        <Text className="text-xs text-red-600 ml-1">
+          {status.status === 'out_of_stock'
+            ? 'Out of stock - remove to continue'
+            : `Only ${status.available} available - reduce quantity to continue`}
+        </Text>
+      </View>
+    );
+  };
+
   const renderCartItem = (item: any) => (
     <View key={item.id} className="bg-white p-4 mb-3 rounded-lg shadow-sm">
       <View className="flex-row">
@@ -96,9 +124,16 @@ export default function CartScreen({ onClose, onCheckout }: CartScreenProps) {
           )}
           
           <View className="flex-row items-center justify-between mt-2">
-            <Text className="text-lg font-semibold text-gray-900">
-              {formatCurrency(item.price)}
-            </Text>
+            <View className="flex-row items-center">
+              <Text className="text-lg font-semibold text-gray-900">
+                {formatCurrency(item.price)}
+              </Text>
+              {item.regularPrice !== undefined && (
+                <Text className="text-sm text-gray-400 line-through ml-2">
+                  {formatCurrency(item.regularPrice)}
+                </Text>
+              )}
+            </View>
             
             {/* Quantity Controls */}
             <View className="flex-row items-center">
@@ -121,6 +156,7 @@ export default function CartScreen({ onClose, onCheckout }: CartScreenProps) {
               </TouchableOpacity>
             </View>
           </View>
+          {renderStockWarning(item.id)}
         </View>
 
         {/* Remove Button */}
@@ -182,13 +218,22 @@ export default function CartScreen({ onClose, onCheckout }: CartScreenProps) {
 
           {/* Order Summary */}
           <View className="bg-white p-4 border-t border-gray-200">
+            {promotions.availableGifts.map(promotion => (
+              <View key={promotion.id} className="flex-row items-center bg-amber-50 px-3 py-2 rounded-lg mb-3">
+                <Feather name="gift" size={16} color="#D97706" />
+                <Text className="text-amber-700 text-sm ml-2 flex-1">
+                  You qualify for a free gift: {promotion.name}
+                </Text>
+              </View>
+            ))}
+            <DiscountCodeInput />
             <View className="space-y-2 mb-4">
               <View className="flex-row justify-between">
                 <Text className="text-gray-600">Subtotal</Text>
                 <Text className="text-gray-900">{formatCurrency(totals.subtotal)}</Text>
               </View>
               <View className="flex-row justify-between">
-                <Text className="text-gray-600">Tax</Text>
+                <Text className="text-gray-600">{pricing.taxesIncluded ? 'Tax (included)' : 'Tax'}</Text>
                 <Text className="text-gray-900">{formatCurrency(totals.tax)}</Text>
               </View>
               {totals.shipping > 0 && (
@@ -197,10 +242,16 @@ export default function CartScreen({ onClose, onCheckout }: CartScreenProps) {
                   <Text className="text-gray-900">{formatCurrency(totals.shipping)}</Text>
                 </View>
               )}
-              {totals.discount > 0 && (
+              {promotions.applied.map(promotion => (
+                <View key={promotion.promotionId} className="flex-row justify-between">
+                  <Text className="text-gray-600">{promotion.name}</Text>
+                  <Text className="text-green-600">-{formatCurrency(promotion.amount)}</Text>
+                </View>
+              ))}
+              {codeDiscount > 0 && (
                 <View className="flex-row justify-between">
                   <Text className="text-gray-600">Discount</Text>
-                  <Text className="text-green-600">-{formatCurrency(totals.discount)}</Text>
+                  <Text className="text-green-600">-{formatCurrency(codeDiscount)}</Text>
                 </View>
               )}
               <View className="flex-row justify-between border-t border-gray-200 pt-2">
@@ -211,7 +262,8 @@ export default function CartScreen({ onClose, onCheckout }: CartScreenProps) {
 
             <TouchableOpacity
               onPress={handleCheckout}
-              className="py-4 rounded-lg items-center bg-blue-600"
+              disabled={hasStockIssues}
+              className={`py-4 rounded-lg items-center ${hasStockIssues ? 'bg-gray-300' : 'bg-blue-600'}`}
             >
               <Text className="text-white font-semibold text-lg">
                 Checkout
@@ -2,7 +2,10 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { View, Text, TouchableOpacity, ScrollView, TextInput, BackHandler } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Feather, MaterialCommunityIcons } from '@expo/vector-icons';
-import { db, formatCurrency } from '../lib/instant';
+import { formatCurrency } from '../lib/instant';
+import { isCloseToBottom, usePaginatedQuery } from '../hooks/usePaginatedQuery';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { ProductService } from '../services/product-service';
 
 import ProductGrid, { EmptyProductGrid } from './ui/product-grid';
 import { Image } from 'expo-image';
@@ -34,18 +37,23 @@ export default function CategoryProductsScreen({
     return () => backHandler.remove();
   }, [onClose]);
 
-  // Query products only (removed categories query since we use hardcoded categories)
-  const { isLoading, error, data } = db.useQuery({
-    products: {
-      $: {
-        order: {
-          createdAt: 'desc'
-        }
-      }
-    }
-  });
+  // Search runs in the database once typing pauses
+  const debouncedSearch = useDebouncedValue(searchQuery.trim());
 
-  const products = data?.products || [];
+  // Only this category's products, a page at a time
+  const productQuery = useMemo(() => {
+    const plan = ProductService.getInstance().buildProductQuery({ category: categoryId, search: debouncedSearch });
+    return { $: { where: plan.where, order: plan.order } };
+  }, [categoryId, debouncedSearch]);
+
+  const {
+    items: products,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    error,
+  } = usePaginatedQuery('products', productQuery);
 
   // Hardcoded categories with images (same as in products.tsx)
   const categories = [
@@ -65,35 +73,10 @@ export default function CategoryProductsScreen({
     image: undefined
   };
 
-  // Filter products by category and search
-  const filteredProducts = useMemo(() => {
-    if (!products) return [];
-
-    return products.filter((product: any) => {
-      if (!product) return false;
-
-      // Category filter - check if product's categoryId matches the selected category
-      const matchesCategory = product.categoryId === categoryId;
-
-      // Search filter
-      const searchTerm = searchQuery.toLowerCase();
-      const title = product.title || '';
-      const tags = product.tags || [];
-      const tagsString = Array.isArray(tags) ? tags.join(' ') : (typeof tags === 'string' ? tags : '');
-
-      const matchesSearch = !searchTerm || (
-        title.toLowerCase().includes(searchTerm) ||
-        tagsString.toLowerCase().includes(searchTerm) ||
-        (product.sku || '').toLowerCase().includes(searchTerm) ||
-        (product.barcode || '').toLowerCase().includes(searchTerm) ||
-        (product.description || '').toLowerCase().includes(searchTerm)
-      );
-
-      return matchesCategory && matchesSearch;
-    });
-  }, [products, categoryId, searchQuery]);
+  // Category and search are applied by the query
+  const filteredProducts = useMemo(() => products.filter((product: any) => !!product), [products]);
 
-  if (isLoading) {
+  if (isLoading && products.length === 0 && !searchQuery) {
     return (
       <View className="flex-1 bg-gray-50 justify-center items-center" style={{ paddingTop: insets.top }}>
         <Text className="text-gray-500">Loading products...</Text>
@@ -160,7 +143,16 @@ export default function CategoryProductsScreen({
       </View>
 
       {/* Products Grid */}
-      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+      <ScrollView
+        className="flex-1"
+        showsVerticalScrollIndicator={false}
+        scrollEventThrottle={200}
+        onScroll={({ nativeEvent }) => {
+          if (isCloseToBottom(nativeEvent)) {
+            loadMore();
+          }
+        }}
+      >
         {filteredProducts.length === 0 ? (
           <EmptyProductGrid
             searchQuery={searchQuery}
@@ -173,6 +165,8 @@ export default function CategoryProductsScreen({
 
             <ProductGrid
               products={filteredProducts}
+              isLoadingMore={isLoadingMore}
+              hasMore={hasMore}
               selectedProducts={new Set()}
               isMultiSelectMode={false}
               onProductPress={(product) => {
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Alert, Modal } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
 import { useAuth } from '../lib/auth-context';
@@ -7,6 +7,14 @@ import { useCart } from '../lib/cart-context';
 
 import { userCustomerService } from '../services/user-customer-service';
 import { addressService, Address } from '../services/address-service';
+import { inventoryService } from '../services/inventory-service';
+import { summarizeMetalRates } from '../lib/metal-pricing';
+import { discountService } from '../services/discount-service';
+import { OrderData, OrderService } from '../services/order-service';
+import { getPaymentMethodOptions } from '../services/payments';
+import { checkCodEligibility, COD_PAYMENT_METHOD } from '../lib/cod';
+import DiscountCodeInput from './ui/discount-code-input';
+import UpiPaymentPanel from './ui/upi-payment-panel';
 import { formatCurrency, db } from '../lib/instant';
 import { id } from '@instantdb/react-native';
 
@@ -27,10 +35,15 @@ export default function CheckoutScreen({
 }: CheckoutScreenProps) {
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
-  const { items: cartItems, totals, clearCart } = useCart();
+  const { items: cartItems, totals, pricing, promotions, setDeliveryAddress, shippingQuotes, selectedShipping, setShippingMethod, parcelWeight, paymentMethodId, setPaymentMethod, appliedDiscount, discountEvaluation, clearCart, hasStockIssues } = useCart();
   const [isLoading, setIsLoading] = useState(false);
   const [selectedAddress, setSelectedAddress] = useState<Address | null>(null);
   const [customer, setCustomer] = useState<any>(null);
+  // Orders paid by UPI wait on this screen while the customer pays from their UPI app
+  const [upiOrder, setUpiOrder] = useState<{ id: string; orderNumber: string; total: number; currency: string } | null>(null);
+  // Idempotency key for this checkout, kept across retries so a lost response never places a second order
+  const idempotencyKey = useRef(id());
+  const isPlacing = useRef(false);
 
   // Use InstantDB's reactive query for addresses
   const { data: addressData } = db.useQuery(
@@ -78,6 +91,37 @@ export default function CheckoutScreen({
     }
   }, [addresses, selectedAddress]);
 
+  // Tax and shipping depend on where the order is delivered
+  useEffect(() => {
+    setDeliveryAddress(selectedAddress
+      ? { country: selectedAddress.country || 'United States', state: selectedAddress.state, postalCode: selectedAddress.zipCode }
+      : undefined);
+  }, [selectedAddress, setDeliveryAddress]);
+
+  // Orders are saved in the currency the cart was priced in
+  const orderCurrency = pricing.currency;
+
+  // Cash on delivery depends on the order value, the delivery address and past refusals
+  const codEligibility = checkCodEligibility({
+    orderValue: pricing.subtotal,
+    postalCode: selectedAddress?.zipCode,
+    refusedDeliveries: customer?.refusedDeliveries,
+  });
+
+  // Methods this order can be paid with; the selection falls back to one that works
+  const paymentOptions = getPaymentMethodOptions({ currency: orderCurrency, codEligibility });
+  const selectedPayment = paymentOptions.find(option => option.method.id === paymentMethodId);
+  const canPaySelected = !!selectedPayment && !selectedPayment.unavailableReason;
+  const firstAvailableMethodId = paymentOptions.find(option => !option.unavailableReason)?.method.id;
+
+  useEffect(() => {
+    if (!canPaySelected && firstAvailableMethodId) {
+      setPaymentMethod(firstAvailableMethodId);
+    }
+  }, [canPaySelected, firstAvailableMethodId, setPaymentMethod]);
+
+  const canPlaceOrder = !isLoading && !!selectedAddress && !!selectedShipping && !hasStockIssues && canPaySelected;
+
   const handlePlaceOrder = async () => {
     if (cartItems.length === 0) {
       Alert.alert('Empty Cart', 'Please add items to your cart before checking out.');
@@ -89,14 +133,54 @@ export default function CheckoutScreen({
       return;
     }
 
+    if (hasStockIssues) {
+      Alert.alert('Stock Changed', 'Some items in your cart are no longer available. Please review your cart.');
+      return;
+    }
+
+    if (!selectedShipping) {
+      Alert.alert('Shipping Unavailable', 'We do not ship to this address yet. Please choose another address.');
+      return;
+    }
 
+    // Never claim a number and reserve stock for an order that cannot be paid
+    if (!canPaySelected) {
+      Alert.alert('Payment Method', selectedPayment?.unavailableReason || 'Please choose another payment method.');
+      return;
+    }
 
+    // A second tap while the first is in flight would otherwise place the order twice
+    if (isPlacing.current) {
+      return;
+    }
+    isPlacing.current = true;
     setIsLoading(true);
 
     try {
-      const orderId = id();
-      const orderNumber = `ORD-${Date.now().toString().slice(-6)}-${Math.random().toString(36).substring(2, 5).toUpperCase()}`;
-      
+      // Re-check stock against the latest inventory before reserving it
+      const reservation = await inventoryService.prepareReservation(cartItems);
+      if (!reservation.success || !reservation.plan || !reservation.stock) {
+        Alert.alert('Stock Changed', reservation.error || 'Some items in your cart are no longer available.');
+        return;
+      }
+
+      // Re-check the discount code; usage limits may have been reached since it was applied
+      let redemption = null;
+      if (appliedDiscount) {
+        const discountCheck = await discountService.validateCode(appliedDiscount.code, cartItems, user?.email || undefined);
+        if (!discountCheck.success || !discountCheck.discount || !discountCheck.evaluation) {
+          Alert.alert('Discount Code', discountCheck.error || 'This code can no longer be applied.');
+          return;
+        }
+        if (discountCheck.evaluation.amount !== discountEvaluation?.amount) {
+          Alert.alert('Discount Code', 'Your discount has changed. Please review your order total.');
+          return;
+        }
+        redemption = { discount: discountCheck.discount, evaluation: discountCheck.evaluation };
+      }
+
+      const orderService = OrderService.getInstance();
+
       // Create order data with properly mapped address
       const mappedShippingAddress = {
         id: selectedAddress.id,
@@ -114,10 +198,9 @@ export default function CheckoutScreen({
         phone: selectedAddress.phone
       };
 
-      const orderData = {
-        orderNumber,
-        referenceId: orderId,
-        createdAt: new Date(),
+      // The order number is claimed when the order is placed
+      const orderData: Omit<OrderData, 'orderNumber'> = {
+        referenceId: idempotencyKey.current,
         customerId: customer?.id,
         customerName: customer?.name || selectedAddress.name,
         customerEmail: user?.email,
@@ -125,57 +208,98 @@ export default function CheckoutScreen({
         status: 'pending',
         fulfillmentStatus: 'unfulfilled',
         paymentStatus: 'pending',
-        currency: 'USD',
-        subtotal: totals.subtotal,
-        taxAmount: totals.tax,
-        shippingAmount: totals.shipping,
-        discountAmount: totals.discount,
-        total: totals.total,
-        totalPaid: 0,
-        totalRefunded: 0,
+        paymentMethod: paymentMethodId,
+        currency: orderCurrency,
+        subtotal: pricing.subtotal,
+        taxAmount: pricing.taxAmount,
+        taxesIncluded: pricing.taxesIncluded,
+        taxBreakdown: {
+          jurisdiction: pricing.taxBreakdown.jurisdiction,
+          components: pricing.taxBreakdown.components,
+          shipping: pricing.taxBreakdown.shipping,
+        },
+        shippingAmount: pricing.shippingAmount,
+        shippingMethod: {
+          method: selectedShipping.method,
+          name: selectedShipping.name,
+          amount: selectedShipping.amount,
+          estimatedDays: selectedShipping.estimatedDays,
+          zoneId: selectedShipping.zoneId,
+          weight: parcelWeight,
+        },
+        discountAmount: pricing.discountAmount,
+        discountCode: redemption?.discount.code,
+        paymentFee: pricing.paymentFee,
+        metalRates: summarizeMetalRates(cartItems.map(item => item.metalPrice)),
+        appliedPromotions: promotions.applied.map(promotion => ({
+          promotionId: promotion.promotionId,
+          name: promotion.name,
+          amount: promotion.amount,
+        })),
+        total: pricing.total,
         shippingAddress: mappedShippingAddress,
         billingAddress: mappedShippingAddress, // Use same address for billing
         source: 'storefront',
         market: 'online',
+        items: cartItems.map((item, index) => {
+          const pricedLine = pricing.lines[index];
+          return {
+            productId: item.productId,
+            itemId: item.itemId,
+            sku: item.sku,
+            title: item.title,
+            variantTitle: item.variantTitle,
+            hsnCode: item.hsnCode,
+            quantity: item.quantity,
+            price: item.price,
+            lineTotal: pricedLine.lineTotal,
+            taxRate: pricedLine.taxRate,
+            taxAmount: pricedLine.taxAmount,
+            taxBreakdown: pricedLine.taxComponents,
+            discountAmount: pricedLine.discountAmount,
+            metalPrice: item.metalPrice,
+            compareAtPrice: item.regularPrice,
+            priceListId: item.priceListId,
+          };
+        }),
       };
 
-      // Create order items without orderId - will use relationship linking
-      const orderItemIds = cartItems.map(() => id());
-      const orderItemTransactions = cartItems.map((item, index) => {
-        const itemId = orderItemIds[index];
-        return db.tx.orderitems[itemId].update({
-          productId: item.productId,
-          itemId: item.itemId,
-          sku: item.sku,
-          title: item.title,
-          variantTitle: item.variantTitle,
-          quantity: item.quantity,
-          price: item.price,
-          lineTotal: item.total,
-          taxRate: 0.08,
-          taxAmount: (item.total * 0.08),
-          discountAmount: 0,
-          fulfillmentStatus: 'unfulfilled'
-        });
+      // Creates the order with its stock and discount writes, takes payment, then updates stats and empties the cart
+      const placed = await orderService.placeOrder(orderData, {
+        actor: user?.email || 'customer',
+        paymentMethodId,
+        reservation: { plan: reservation.plan, stock: reservation.stock },
+        redemption: redemption || undefined,
+        clearCart,
       });
+      if (!placed.success || !placed.orderId) {
+        if (placed.orderId) {
+          // The order was cancelled, so the next attempt is a new order
+          idempotencyKey.current = id();
+          Alert.alert('Payment Failed', `${placed.error || 'Your payment could not be completed.'} Please try again.`);
+        } else {
+          Alert.alert('Error', placed.error || 'Failed to place order. Please try again.');
+        }
+        return;
+      }
 
-      // Execute transaction with relationship linking
-      await db.transact([
-        db.tx.orders[orderId].update(orderData),
-        ...orderItemTransactions,
-        // Link order items to order using the relationship
-        ...orderItemIds.map(itemId =>
-          db.tx.orders[orderId].link({ orderitems: itemId })
-        )
-      ]);
-
-      // Update customer stats if customer exists
-      if (customer) {
-        await userCustomerService.updateCustomerOrderStats(user?.email || '');
+      const orderId = placed.orderId;
+      const orderNumber = placed.orderNumber!;
+      idempotencyKey.current = id();
+
+      if (placed.paymentPending && paymentMethodId === COD_PAYMENT_METHOD) {
+        Alert.alert(
+          'Order Placed!',
+          `Your order #${orderNumber} has been placed. Please keep ${formatCurrency(pricing.total)} ready to pay the courier on delivery.`,
+          [{ text: 'OK', onPress: () => onSuccess?.(orderId) }]
+        );
+        return;
       }
 
-      // Clear cart and show success
-      await clearCart();
+      if (placed.paymentPending) {
+        setUpiOrder({ id: orderId, orderNumber, total: pricing.total, currency: orderCurrency });
+        return;
+      }
       
       Alert.alert(
         'Order Placed!',
@@ -187,6 +311,7 @@ export default function CheckoutScreen({
       console.error('Error placing order:', error);
       Alert.alert('Error', 'Failed to place order. Please try again.');
     } finally {
+      isPlacing.current = false;
       setIsLoading(false);
     }
   };
@@ -244,6 +369,42 @@ export default function CheckoutScreen({
             )}
           </View>
 
+          {/* Shipping Method */}
+          {selectedAddress && (
+            <View className="bg-white rounded-xl p-4 mb-4">
+              <Text className="text-lg font-semibold text-gray-900 mb-4">Shipping Method</Text>
+              {shippingQuotes.length === 0 ? (
+                <Text className="text-sm text-red-600">We do not ship to this address yet.</Text>
+              ) : (
+                shippingQuotes.map(quote => {
+                  const isSelected = quote.method === selectedShipping?.method;
+                  return (
+                    <TouchableOpacity
+                      key={quote.method}
+                      onPress={() => setShippingMethod(quote.method)}
+                      className={`flex-row items-center justify-between p-3 mb-2 rounded-lg border ${
+                        isSelected ? 'border-blue-600 bg-blue-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <View className="flex-row items-center flex-1">
+                        <Feather name={isSelected ? 'check-circle' : 'circle'} size={18} color={isSelected ? '#2563EB' : '#9CA3AF'} />
+                        <View className="ml-3">
+                          <Text className="text-base text-gray-900">{quote.name}</Text>
+                          {quote.estimatedDays && (
+                            <Text className="text-sm text-gray-500">{quote.estimatedDays}</Text>
+                          )}
+                        </View>
+                      </View>
+                      <Text className="text-base font-medium text-gray-900">
+                        {quote.amount > 0 ? formatCurrency(quote.amount) : 'Free'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })
+              )}
+            </View>
+          )}
+
           {/* Order Summary */}
           <View className="bg-white rounded-xl p-4 mb-4">
             <Text className="text-lg font-semibold text-gray-900 mb-4">Order Summary</Text>
@@ -264,18 +425,38 @@ export default function CheckoutScreen({
             ))}
 
             <View className="border-t border-gray-200 mt-4 pt-4">
+              <DiscountCodeInput />
               <View className="flex-row justify-between py-1">
                 <Text className="text-gray-600">Subtotal</Text>
                 <Text className="text-gray-900">{formatCurrency(totals.subtotal)}</Text>
               </View>
               <View className="flex-row justify-between py-1">
-                <Text className="text-gray-600">Tax</Text>
+                <Text className="text-gray-600">{pricing.taxesIncluded ? 'Tax (included)' : 'Tax'}</Text>
                 <Text className="text-gray-900">{formatCurrency(totals.tax)}</Text>
               </View>
+              {pricing.taxBreakdown.components.some(component => component.name !== pricing.taxBreakdown.jurisdiction) &&
+                pricing.taxBreakdown.components.map(component => (
+                  <View key={`${component.name}-${component.rate}`} className="flex-row justify-between pl-3">
+                    <Text className="text-sm text-gray-500">{component.name} ({component.rate}%)</Text>
+                    <Text className="text-sm text-gray-500">{formatCurrency(component.amount)}</Text>
+                  </View>
+                ))}
               <View className="flex-row justify-between py-1">
                 <Text className="text-gray-600">Shipping</Text>
                 <Text className="text-gray-900">{formatCurrency(totals.shipping)}</Text>
               </View>
+              {totals.discount > 0 && (
+                <View className="flex-row justify-between py-1">
+                  <Text className="text-gray-600">Discount</Text>
+                  <Text className="text-green-600">-{formatCurrency(totals.discount)}</Text>
+                </View>
+              )}
+              {pricing.paymentFee > 0 && (
+                <View className="flex-row justify-between py-1">
+                  <Text className="text-gray-600">Cash on delivery fee</Text>
+                  <Text className="text-gray-900">{formatCurrency(pricing.paymentFee)}</Text>
+                </View>
+              )}
               <View className="flex-row justify-between py-2 border-t border-gray-200 mt-2">
                 <Text className="text-lg font-semibold text-gray-900">Total</Text>
                 <Text className="text-lg font-bold text-gray-900">{formatCurrency(totals.total)}</Text>
@@ -283,31 +464,68 @@ export default function CheckoutScreen({
             </View>
           </View>
 
-          {/* Payment Method (Placeholder) */}
+          {/* Payment Method */}
           <View className="bg-white rounded-xl p-4 mb-6">
             <Text className="text-lg font-semibold text-gray-900 mb-4">Payment Method</Text>
-            <View className="flex-row items-center">
-              <View className="w-10 h-6 bg-blue-600 rounded mr-3 items-center justify-center">
-                <Text className="text-white text-xs font-bold">💳</Text>
-              </View>
-              <Text className="text-gray-700">Cash on Delivery</Text>
-            </View>
+            {paymentOptions.map(({ method, unavailableReason }) => {
+              return (
+                <TouchableOpacity
+                  key={method.id}
+                  onPress={() => setPaymentMethod(method.id)}
+                  disabled={!!unavailableReason}
+                  className={`flex-row items-center p-3 mb-2 rounded-lg border ${
+                    paymentMethodId === method.id ? 'border-blue-600 bg-blue-50' : 'border-gray-200'
+                  } ${unavailableReason ? 'opacity-50' : ''}`}
+                >
+                  <Feather
+                    name={paymentMethodId === method.id ? 'check-circle' : 'circle'}
+                    size={20}
+                    color={paymentMethodId === method.id ? '#2563EB' : '#9CA3AF'}
+                  />
+                  <View className="ml-3 flex-1">
+                    <Text className="text-gray-900 font-medium">{method.label}</Text>
+                    {(unavailableReason || method.description) && (
+                      <Text className="text-xs text-gray-500 mt-1">{unavailableReason || method.description}</Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
           </View>
         </View>
       </ScrollView>
 
+      <Modal visible={!!upiOrder} animationType="slide" presentationStyle="pageSheet">
+        {upiOrder && (
+          <View className="flex-1 bg-gray-50" style={{ paddingTop: insets.top }}>
+            <View className="bg-white px-4 py-4 border-b border-gray-200">
+              <Text className="text-xl font-semibold text-gray-900">Order #{upiOrder.orderNumber} Placed</Text>
+              <Text className="text-sm text-gray-500 mt-1">Your order is confirmed once we receive your payment.</Text>
+            </View>
+            <ScrollView className="flex-1 px-4 pt-4">
+              <UpiPaymentPanel
+                orderId={upiOrder.id}
+                orderNumber={upiOrder.orderNumber}
+                amount={upiOrder.total}
+                currency={upiOrder.currency}
+                onReferenceSubmitted={() => onSuccess?.(upiOrder.id)}
+              />
+              <TouchableOpacity onPress={() => onSuccess?.(upiOrder.id)} className="py-4 items-center">
+                <Text className="text-blue-600 font-medium">I'll Pay Later</Text>
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        )}
+      </Modal>
+
       {/* Place Order Button */}
       <View className="bg-white border-t border-gray-200 px-4 py-4">
         <TouchableOpacity
           onPress={handlePlaceOrder}
-          disabled={isLoading || !selectedAddress}
-          className={`w-full py-4 rounded-lg ${
-            isLoading || !selectedAddress ? 'bg-gray-300' : 'bg-green-600'
-          }`}
+          disabled={!canPlaceOrder}
+          className={`w-full py-4 rounded-lg ${canPlaceOrder ? 'bg-green-600' : 'bg-gray-300'}`}
         >
-          <Text className={`text-center font-semibold text-lg ${
-            isLoading || !selectedAddress ? 'text-gray-500' : 'text-white'
-          }`}>
+          <Text className={`text-center font-semibold text-lg ${canPlaceOrder ? 'text-white' : 'text-gray-500'}`}>
             {isLoading ? 'Placing Order...' : `Place Order • ${formatCurrency(totals.total)}`}
           </Text>
         </TouchableOpacity>
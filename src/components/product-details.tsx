@@ -5,6 +5,10 @@ import { Feather, MaterialCommunityIcons } from '@expo/vector-icons';
 import { formatCurrency, db } from '../lib/instant';
 import { useCart } from '../lib/cart-context';
 import { useFavorites } from '../hooks/useFavorites';
+import { useMetalRates } from '../hooks/useMetalRates';
+import { usePriceLists } from '../hooks/usePriceLists';
+import { getMetalPricingSpec, resolveCartPrice } from '../lib/metal-pricing';
+import { resolvePriceListPrice } from '../lib/price-lists';
 import R2Image from './ui/r2-image';
 import QuantitySelector from './ui/qty';
 
@@ -24,6 +28,8 @@ export default function ProductDetailsScreen({ product, onClose }: ProductDetail
   const insets = useSafeAreaInsets();
   const { addItem } = useCart();
   const { isFavorited, toggleFavorite, isLoading: favoritesLoading } = useFavorites();
+  const { rates: metalRates } = useMetalRates();
+  const priceListContext = usePriceLists();
   const [quantity, setQuantity] = useState(1);
   const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
   const [selectedItem, setSelectedItem] = useState<any>(null);
@@ -141,10 +147,14 @@ export default function ProductDetailsScreen({ product, onClose }: ProductDetail
         productId: product.id,
         itemId: selectedItem.id,
         title: product.title,
-        price: selectedItem.price || product.price || 0,
+        price: livePrice.price,
         quantity: quantity,
         sku: selectedItem.sku || product.sku || '',
         image: product.image,
+        collectionId: product.collectionId,
+        taxClass: product.taxClass,
+        hsnCode: product.hsnCode,
+        metalPricing: getMetalPricingSpec(product, selectedItem),
         options: selectedOptions
       });
 
@@ -166,9 +176,18 @@ export default function ProductDetailsScreen({ product, onClose }: ProductDetail
     }
   };
 
-  const currentPrice = selectedItem?.price || product.price || 0;
-  const salePrice = selectedItem?.saleprice || product.saleprice;
-  const hasDiscount = salePrice && salePrice < currentPrice;
+  // The line is added at the sale or live price and the cart applies price lists on top,
+  // so the button shows what the cart line will cost
+  const livePrice = resolveCartPrice(product, selectedItem, metalRates);
+  const priceBreakdown = livePrice.breakdown;
+  const currentPrice = livePrice.regularPrice;
+  // The customer's price list is checked at the chosen quantity (wholesale minimums)
+  const groupPrice = resolvePriceListPrice(
+    { productId: product.id, itemId: selectedItem?.id, quantity, price: livePrice.price },
+    priceListContext
+  );
+  const unitPrice = groupPrice.price;
+  const hasDiscount = unitPrice < currentPrice;
 
   return (
     <View className="flex-1 bg-white" style={{ paddingTop: insets.top }}>
@@ -228,11 +247,16 @@ export default function ProductDetailsScreen({ product, onClose }: ProductDetail
               {hasDiscount ? (
                 <>
                   <Text className="text-2xl font-bold text-red-600 mr-3">
-                    {formatCurrency(salePrice)}
+                    {formatCurrency(unitPrice)}
                   </Text>
                   <Text className="text-lg text-gray-500 line-through">
                     {formatCurrency(currentPrice)}
                   </Text>
+                  {groupPrice.priceListId && (
+                    <Text className="ml-3 text-sm text-gray-600 capitalize">
+                      {priceListContext.customerGroup} price
+                    </Text>
+                  )}
                 </>
               ) : (
                 <Text className="text-2xl font-bold text-gray-900">
@@ -240,6 +264,31 @@ export default function ProductDetailsScreen({ product, onClose }: ProductDetail
                 </Text>
               )}
             </View>
+
+            {priceBreakdown && (
+              <View className="mt-3 bg-gray-50 rounded-lg p-3">
+                <View className="flex-row justify-between mb-1">
+                  <Text className="text-sm text-gray-600">
+                    {priceBreakdown.metal} {priceBreakdown.purity} · {priceBreakdown.netWeight} g @ {formatCurrency(priceBreakdown.rate)}/g
+                  </Text>
+                  <Text className="text-sm text-gray-900">{formatCurrency(priceBreakdown.metalValue)}</Text>
+                </View>
+                {priceBreakdown.wastageWeight > 0 && (
+                  <Text className="text-xs text-gray-500 mb-1">
+                    Includes {priceBreakdown.wastageWeight.toFixed(2)} g wastage
+                  </Text>
+                )}
+                {priceBreakdown.makingCharges > 0 && (
+                  <View className="flex-row justify-between">
+                    <Text className="text-sm text-gray-600">Making charges</Text>
+                    <Text className="text-sm text-gray-900">{formatCurrency(priceBreakdown.makingCharges)}</Text>
+                  </View>
+                )}
+                <Text className="text-xs text-gray-500 mt-2">
+                  Rate as of {new Date(priceBreakdown.effectiveAt).toLocaleString()}
+                </Text>
+              </View>
+            )}
           </View>
 
           {/* Product Description */}
@@ -313,7 +362,7 @@ export default function ProductDetailsScreen({ product, onClose }: ProductDetail
           }`}
         >
           <Text className="text-white font-semibold text-lg">
-            {isLoading ? 'Adding...' : `Add to Cart • ${formatCurrency(currentPrice * quantity)}`}
+            {isLoading ? 'Adding...' : `Add to Cart • ${formatCurrency(unitPrice * quantity)}`}
           </Text>
         </TouchableOpacity>
       </View>
@@ -5,6 +5,9 @@ import { Feather, MaterialCommunityIcons } from '@expo/vector-icons';
 import { db, formatCurrency } from '../lib/instant';
 import { useAuth } from '../lib/auth-context';
 import { useFavorites } from '../hooks/useFavorites';
+import { isCloseToBottom, usePaginatedQuery } from '../hooks/usePaginatedQuery';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { ProductService } from '../services/product-service';
 
 import { log, trackError, PerformanceMonitor } from '../lib/logger';
 import { LoadingError, EmptyState } from './ui/error-boundary';
@@ -51,19 +54,23 @@ export default function ProductsScreen({ onClose, onNavigateToCart, onNavigateTo
 
   // Removed custom BackHandler logic to allow default navigation behavior
 
-  // Query products with their items (removed categories query)
-  const { isLoading, error, data } = db.useQuery({
-    products: {
-      $: {
-        order: {
-          createdAt: 'desc' // Use consistent field naming
-        }
-      },
-      item: {} // Keep item relationship as it's working
-    }
-  });
+  // Search runs in the database once typing pauses
+  const debouncedSearch = useDebouncedValue(searchQuery.trim());
+
+  // Newest products a page at a time, with their items
+  const productQuery = useMemo(() => {
+    const plan = ProductService.getInstance().buildProductQuery({ search: debouncedSearch });
+    return { $: { where: plan.where, order: plan.order }, item: {} };
+  }, [debouncedSearch]);
 
-  const products = data?.products || [];
+  const {
+    items: products,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    error,
+  } = usePaginatedQuery('products', productQuery);
 
   // Hardcoded categories with their images
   const categories = [
@@ -83,31 +90,10 @@ export default function ProductsScreen({ onClose, onNavigateToCart, onNavigateTo
 
 
 
-  // Filter products based on search only - memoized for performance
+  // Search is applied by the query; only drop empty rows here
   const filteredProducts = useMemo(() => {
-    return PerformanceMonitor.measure('filter-products', () => {
-      const searchTerm = searchQuery.toLowerCase();
-
-      return (products || []).filter((product: any) => {
-        if (!product) return false;
-
-        const title = product.title || '';
-        const tags = product.tags || [];
-
-        // Search filter - simplified to work with current schema
-        const tagsString = Array.isArray(tags) ? tags.join(' ') : (typeof tags === 'string' ? tags : '');
-        const matchesSearch = !searchTerm || (
-          title.toLowerCase().includes(searchTerm) ||
-          tagsString.toLowerCase().includes(searchTerm) ||
-          (product.sku || '').toLowerCase().includes(searchTerm) ||
-          (product.barcode || '').toLowerCase().includes(searchTerm) ||
-          (product.description || '').toLowerCase().includes(searchTerm)
-        );
-
-        return matchesSearch;
-      });
-    });
-  }, [products, searchQuery]);
+    return PerformanceMonitor.measure('filter-products', () => products.filter((product: any) => !!product));
+  }, [products]);
 
 
 
@@ -124,7 +110,8 @@ export default function ProductsScreen({ onClose, onNavigateToCart, onNavigateTo
 
 
 
-  if (isLoading) {
+  // Keep the screen (and search box) mounted while a new search loads
+  if (isLoading && products.length === 0 && !searchQuery) {
     return (
       <View className="flex-1 justify-center items-center">
         <Text className="text-lg">Loading...</Text>
@@ -135,7 +122,7 @@ export default function ProductsScreen({ onClose, onNavigateToCart, onNavigateTo
   if (error) {
     return (
       <View className="flex-1 justify-center items-center">
-        <Text className="text-lg text-red-500">Error: {error.message}</Text>
+        <Text className="text-lg text-red-500">Error: {error}</Text>
       </View>
     );
   }
@@ -194,7 +181,7 @@ export default function ProductsScreen({ onClose, onNavigateToCart, onNavigateTo
   if (error) {
     return (
       <LoadingError
-        error={error.toString()}
+        error={error}
         onRetry={() => {
           log.info('Retrying products query', 'ProductsScreen');
           // The query will automatically retry when component re-renders
@@ -212,6 +199,12 @@ export default function ProductsScreen({ onClose, onNavigateToCart, onNavigateTo
         showsVerticalScrollIndicator={false}
         bounces={true}
         nestedScrollEnabled={true}
+        scrollEventThrottle={200}
+        onScroll={({ nativeEvent }) => {
+          if (isCloseToBottom(nativeEvent)) {
+            loadMore();
+          }
+        }}
       >
         {/* Hero Section */}
         <HeroSection
@@ -283,6 +276,8 @@ export default function ProductsScreen({ onClose, onNavigateToCart, onNavigateTo
             <ProductGrid
               products={filteredProducts}
               onProductPress={handleProductPress}
+              isLoadingMore={isLoadingMore}
+              hasMore={hasMore}
             />
           )}
         </View>
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Alert } from 'react-native';
+import { useAuth } from '../../lib/auth-context';
+import { formatCurrency } from '../../lib/instant';
+import { canCustomerCancel } from '../../lib/order-state';
+import { OrderService } from '../../services/order-service';
+import LoadingButton from './LoadingButton';
+
+const CANCEL_REASONS = [
+  'Changed my mind',
+  'Ordered by mistake',
+  'Found a better price',
+  'Delivery is too slow',
+];
+
+interface CancelOrderButtonProps {
+  order: any;
+  size?: 'small' | 'medium' | 'large';
+  onCancelled?: () => void;
+}
+
+export default function CancelOrderButton({ order, size = 'medium', onCancelled }: CancelOrderButtonProps) {
+  const { user } = useAuth();
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  if (!canCustomerCancel(order)) {
+    return null;
+  }
+
+  const cancelOrder = async (reason: string) => {
+    setIsCancelling(true);
+    try {
+      const result = await OrderService.getInstance().cancelOrder(order.id, {
+        reason,
+        actor: user?.email || 'customer',
+      });
+
+      if (!result.success) {
+        Alert.alert('Unable to Cancel', result.error || 'Please try again.');
+        return;
+      }
+
+      Alert.alert(
+        'Order Cancelled',
+        result.refundAmount
+          ? `Your order #${order.orderNumber} has been cancelled. A refund of ${formatCurrency(result.refundAmount)} is on its way.`
+          : `Your order #${order.orderNumber} has been cancelled.`
+      );
+      onCancelled?.();
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handlePress = () => {
+    Alert.alert(
+      'Cancel Order',
+      'Why are you cancelling this order?',
+      [
+        ...CANCEL_REASONS.map(reason => ({ text: reason, onPress: () => cancelOrder(reason) })),
+        { text: 'Keep Order', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  return (
+    <LoadingButton
+      title="Cancel Order"
+      onPress={handlePress}
+      loading={isCancelling}
+      variant="danger"
+      size={size}
+      icon="x-circle"
+      fullWidth
+    />
+  );
+}
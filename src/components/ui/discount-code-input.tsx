@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { useCart } from '../../lib/cart-context';
+import { formatCurrency } from '../../lib/instant';
+
+export default function DiscountCodeInput() {
+  const { appliedDiscount, discountEvaluation, applyDiscountCode, removeDiscountCode } = useCart();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      const result = await applyDiscountCode(code);
+      if (result.success) {
+        setCode('');
+      } else {
+        setError(result.error || 'This code is not valid');
+      }
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (appliedDiscount) {
+    const isValid = discountEvaluation?.valid;
+
+    return (
+      <View className="mb-3">
+        <View className={`flex-row items-center justify-between px-3 py-2 rounded-lg ${isValid ? 'bg-green-50' : 'bg-red-50'}`}>
+          <View className="flex-row items-center flex-1">
+            <Feather name="tag" size={16} color={isValid ? '#16A34A' : '#DC2626'} />
+            <Text className={`ml-2 font-medium ${isValid ? 'text-green-700' : 'text-red-700'}`}>
+              {appliedDiscount.code}
+            </Text>
+            {isValid && (
+              <Text className="ml-2 text-green-700">-{formatCurrency(discountEvaluation!.amount)}</Text>
+            )}
+          </View>
+          <TouchableOpacity onPress={removeDiscountCode}>
+            <Feather name="x" size={18} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+        {!isValid && discountEvaluation?.error && (
+          <Text className="text-red-500 text-sm mt-1">{discountEvaluation.error}</Text>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View className="mb-3">
+      <View className="flex-row items-center">
+        <TextInput
+          value={code}
+          onChangeText={(text) => {
+            setCode(text);
+            setError(null);
+          }}
+          placeholder="Discount code"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          className={`flex-1 px-3 py-2 bg-white rounded-lg text-base border ${error ? 'border-red-300' : 'border-gray-200'}`}
+          style={{ fontSize: 16 }}
+        />
+        <TouchableOpacity
+          onPress={handleApply}
+          disabled={isApplying || !code.trim()}
+          className={`ml-2 px-4 py-2 rounded-lg ${isApplying || !code.trim() ? 'bg-gray-300' : 'bg-gray-900'}`}
+        >
+          <Text className="text-white font-medium">{isApplying ? 'Applying...' : 'Apply'}</Text>
+        </TouchableOpacity>
+      </View>
+      {error && (
+        <Text className="text-red-500 text-sm mt-1">{error}</Text>
+      )}
+    </View>
+  );
+}
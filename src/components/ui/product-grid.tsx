@@ -1,21 +1,32 @@
 import React from 'react';
-import { View, Text, TouchableOpacity, Dimensions } from 'react-native';
+import { View, Text, TouchableOpacity, Dimensions, ActivityIndicator } from 'react-native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { formatCurrency } from '../../lib/instant';
 import R2Image from './r2-image';
+import { useMetalRates } from '../../hooks/useMetalRates';
+import { MetalRate, resolveLivePrice } from '../../lib/metal-pricing';
+import { usePriceLists } from '../../hooks/usePriceLists';
+import { PriceListContext, resolvePriceListPrice } from '../../lib/price-lists';
 
 const { width: screenWidth } = Dimensions.get('window');
 const cardWidth = (screenWidth - 48) / 2; // 48 = padding (24) * 2
 
 interface ProductCardProps {
   product: any;
+  metalRates: MetalRate[];
+  priceListContext: PriceListContext;
   onPress: () => void;
 }
 
 function ProductCard({
   product,
+  metalRates,
+  priceListContext,
   onPress
 }: ProductCardProps) {
+  const { price } = resolveLivePrice(product, undefined, metalRates);
+  const groupPrice = resolvePriceListPrice({ productId: product.id, quantity: 1, price }, priceListContext);
+
   return (
     <TouchableOpacity
       onPress={onPress}
@@ -44,11 +55,23 @@ function ProductCard({
         )}
       </View>
 
-      {/* Product Name Only */}
+      {/* Product Name and Price */}
       <View className="p-3">
         <Text className="text-sm font-medium text-gray-900 text-center" numberOfLines={2}>
           {product.title || 'Untitled Product'}
         </Text>
+        {price > 0 && (
+          <View className="flex-row justify-center items-center mt-1">
+            <Text className="text-sm text-gray-600">
+              {formatCurrency(groupPrice.price)}
+            </Text>
+            {groupPrice.priceListId && (
+              <Text className="text-xs text-gray-400 line-through ml-2">
+                {formatCurrency(price)}
+              </Text>
+            )}
+          </View>
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -57,12 +80,19 @@ function ProductCard({
 interface ProductGridProps {
   products: any[];
   onProductPress: (product: any) => void;
+  isLoadingMore?: boolean; // Next page is loading
+  hasMore?: boolean; // More products can be loaded by scrolling
 }
 
 export default function ProductGrid({
   products,
-  onProductPress
+  onProductPress,
+  isLoadingMore = false,
+  hasMore = false
 }: ProductGridProps) {
+  const { rates: metalRates } = useMetalRates();
+  const priceListContext = usePriceLists();
+
   if (products.length === 0) {
     return (
       <View className="justify-center items-center py-20 px-8">
@@ -88,10 +118,18 @@ export default function ProductGrid({
           <ProductCard
             key={product.id}
             product={product}
+            metalRates={metalRates}
+            priceListContext={priceListContext}
             onPress={() => onProductPress(product)}
           />
         ))}
       </View>
+
+      {(isLoadingMore || hasMore) && (
+        <View className="py-4 items-center">
+          {isLoadingMore && <ActivityIndicator size="small" color="#378388" />}
+        </View>
+      )}
     </View>
   );
 }
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useAuth } from '../../lib/auth-context';
+import { RETURN_POLICY, ReturnReasonCode } from '../../lib/returns';
+import { returnService } from '../../services/return-service';
+import LoadingButton from './LoadingButton';
+import QuantitySelector from './qty';
+
+interface ReturnRequestModalProps {
+  visible: boolean;
+  orderId: string;
+  orderItem: { id: string; title: string; variantTitle?: string } | null;
+  returnableQuantity: number;
+  onClose: () => void;
+}
+
+const REASON_CODES = Object.keys(RETURN_POLICY.reasons) as ReturnReasonCode[];
+
+export default function ReturnRequestModal({ visible, orderId, orderItem, returnableQuantity, onClose }: ReturnRequestModalProps) {
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const [quantity, setQuantity] = useState(1);
+  const [reason, setReason] = useState<ReturnReasonCode | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start fresh each time a different item is opened
+  useEffect(() => {
+    setQuantity(1);
+    setReason(null);
+    setNote('');
+  }, [orderItem?.id]);
+
+  if (!orderItem) {
+    return null;
+  }
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      Alert.alert('Choose a Reason', 'Please tell us why you are returning this item.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await returnService.requestReturn({
+        orderId,
+        orderItemId: orderItem.id,
+        quantity,
+        reason,
+        note: note.trim() || undefined,
+        actor: user?.email || 'customer',
+      });
+
+      if (!result.success) {
+        Alert.alert('Unable to Request Return', result.error || 'Please try again.');
+        return;
+      }
+
+      Alert.alert(
+        'Return Requested',
+        `Your return ${result.rmaNumber} has been sent for review. We will let you know once it is approved.`
+      );
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View className="flex-1 bg-gray-50" style={{ paddingTop: insets.top }}>
+        {/* Header */}
+        <View className="px-6 py-4 bg-white border-b border-gray-100 flex-row items-center justify-between">
+          <Text className="text-xl font-medium text-gray-900">Return Item</Text>
+          <TouchableOpacity onPress={onClose} className="w-10 h-10 items-center justify-center">
+            <Feather name="x" size={24} color="#374151" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+          <View className="px-6 py-4">
+            <View className="bg-white rounded-xl p-4 mb-4 shadow-sm">
+              <Text className="text-base font-medium text-gray-900">{orderItem.title}</Text>
+              {orderItem.variantTitle && (
+                <Text className="text-sm text-gray-500 mt-1">{orderItem.variantTitle}</Text>
+              )}
+              <Text className="text-xs text-gray-400 mt-2">
+                Returns are accepted within {RETURN_POLICY.windowDays} days of delivery
+              </Text>
+            </View>
+
+            <View className="bg-white rounded-xl p-4 mb-4 shadow-sm">
+              <Text className="text-base font-semibold text-gray-900 mb-3">Quantity</Text>
+              <QuantitySelector
+                value={quantity}
+                onValueChange={setQuantity}
+                min={1}
+                max={returnableQuantity}
+                size="small"
+              />
+            </View>
+
+            <View className="bg-white rounded-xl p-4 mb-4 shadow-sm">
+              <Text className="text-base font-semibold text-gray-900 mb-3">Reason</Text>
+              <View className="flex-row flex-wrap">
+                {REASON_CODES.map(code => (
+                  <TouchableOpacity
+                    key={code}
+                    onPress={() => setReason(code)}
+                    className={`px-3 py-2 rounded-full mr-2 mb-2 border ${
+                      reason === code ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-200'
+                    }`}
+                  >
+                    <Text className={`text-sm ${reason === code ? 'text-white' : 'text-gray-700'}`}>
+                      {RETURN_POLICY.reasons[code]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                value={note}
+                onChangeText={setNote}
+                placeholder="Anything else we should know? (optional)"
+                multiline
+                className="mt-2 border border-gray-200 rounded-lg p-3 text-gray-900 min-h-[80px]"
+              />
+            </View>
+
+            <LoadingButton
+              title="Request Return"
+              onPress={handleSubmit}
+              loading={isSubmitting}
+              disabled={!reason}
+              icon="rotate-ccw"
+              fullWidth
+            />
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Alert, Linking, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import QRCode from 'react-native-qrcode-svg';
+import { formatCurrency } from '../../lib/order-calculations';
+import { buildUpiPaymentUri, isValidVpa, STORE_UPI_PAYEE, UPI_CURRENCY } from '../../lib/upi';
+import { OrderService } from '../../services/order-service';
+import LoadingButton from './LoadingButton';
+
+interface UpiPaymentPanelProps {
+  orderId: string;
+  orderNumber: string;
+  amount: number;
+  currency: string;
+  paymentReference?: string;
+  onReferenceSubmitted?: () => void;
+}
+
+export default function UpiPaymentPanel({ orderId, orderNumber, amount, currency, paymentReference, onReferenceSubmitted }: UpiPaymentPanelProps) {
+  const [utr, setUtr] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!isValidVpa(STORE_UPI_PAYEE.vpa) || currency !== UPI_CURRENCY) {
+    return (
+      <View className="bg-yellow-50 rounded-xl p-4 mb-4">
+        <Text className="text-yellow-800">UPI payments are not available right now. Please contact us to complete your payment.</Text>
+      </View>
+    );
+  }
+
+  const uri = buildUpiPaymentUri(STORE_UPI_PAYEE, { amount, orderNumber, currency });
+
+  const openUpiApp = async () => {
+    try {
+      await Linking.openURL(uri);
+    } catch {
+      Alert.alert('No UPI App Found', 'Scan the QR code from another phone, or install a UPI app to pay.');
+    }
+  };
+
+  const submitReference = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await OrderService.getInstance().submitPaymentReference(orderId, utr);
+      if (!result.success) {
+        Alert.alert('Check the Reference', result.error || 'Please try again.');
+        return;
+      }
+      Alert.alert('Thank You', 'We will confirm your payment shortly.');
+      setUtr('');
+      onReferenceSubmitted?.();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <View className="bg-white rounded-xl p-4 mb-4 shadow-sm">
+      <Text className="text-lg font-semibold text-gray-900 mb-1">Pay {formatCurrency(amount, currency)} by UPI</Text>
+      <Text className="text-sm text-gray-500 mb-4">
+        Scan with any UPI app or tap the button below. Pay to {STORE_UPI_PAYEE.vpa}.
+      </Text>
+
+      <View className="items-center mb-4">
+        <QRCode value={uri} size={200} />
+      </View>
+
+      <TouchableOpacity onPress={openUpiApp} className="flex-row items-center justify-center py-3 rounded-lg bg-blue-600 mb-4">
+        <Feather name="smartphone" size={18} color="#FFFFFF" />
+        <Text className="text-white font-semibold ml-2">Pay with UPI App</Text>
+      </TouchableOpacity>
+
+      {paymentReference ? (
+        <Text className="text-sm text-gray-600">
+          Reference {paymentReference} received. We will confirm your payment shortly.
+        </Text>
+      ) : (
+        <>
+          <Text className="text-sm text-gray-600 mb-2">Already paid? Enter the UTR number from your UPI app.</Text>
+          <TextInput
+            value={utr}
+            onChangeText={setUtr}
+            placeholder="12-digit UTR"
+            keyboardType="number-pad"
+            maxLength={14}
+            className="border border-gray-200 rounded-lg p-3 text-gray-900 mb-3"
+          />
+          <LoadingButton
+            title="Submit Reference"
+            onPress={submitReference}
+            loading={isSubmitting}
+            disabled={utr.trim().length === 0}
+            variant="secondary"
+            fullWidth
+          />
+        </>
+      )}
+    </View>
+  );
+}
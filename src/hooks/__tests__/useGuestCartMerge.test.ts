@@ -0,0 +1,72 @@
+// Tests for merging the guest cart after sign-in
+import { renderHook, act } from '@testing-library/react-native';
+import { useGuestCartMerge, MERGE_RETRY_DELAY_MS } from '../useGuestCartMerge';
+import { cartService } from '../../services/cart-service';
+
+// Mock the cart service
+jest.mock('../../services/cart-service', () => ({
+  cartService: {
+    mergeGuestCart: jest.fn(),
+  },
+}));
+
+const mockCartService = cartService as jest.Mocked<typeof cartService>;
+
+const guestLine = {
+  id: 'guest-1',
+  productId: 'product-1',
+  title: 'Silver Anklet',
+  price: 1080,
+  quantity: 1,
+  createdAt: new Date('2026-01-01'),
+} as any;
+
+describe('useGuestCartMerge', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should retry a failed merge until it succeeds', async () => {
+    mockCartService.mergeGuestCart
+      .mockResolvedValueOnce({ success: false, error: 'Network request failed' })
+      .mockResolvedValueOnce({ success: true });
+    const onMerged = jest.fn();
+
+    renderHook(() => useGuestCartMerge('user-1', [guestLine], false, onMerged));
+    await act(async () => {});
+
+    expect(mockCartService.mergeGuestCart).toHaveBeenCalledTimes(1);
+    expect(onMerged).not.toHaveBeenCalled();
+
+    await act(async () => {
+      jest.advanceTimersByTime(MERGE_RETRY_DELAY_MS);
+    });
+
+    expect(mockCartService.mergeGuestCart).toHaveBeenCalledTimes(2);
+    expect(onMerged).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop retrying once the shopper signs out', async () => {
+    mockCartService.mergeGuestCart.mockResolvedValue({ success: false, error: 'Network request failed' });
+
+    const { rerender } = renderHook(
+      ({ userId }: { userId?: string }) => useGuestCartMerge(userId, [guestLine], false, jest.fn()),
+      { initialProps: { userId: 'user-1' as string | undefined } }
+    );
+    await act(async () => {});
+    rerender({ userId: undefined });
+
+    await act(async () => {
+      jest.advanceTimersByTime(MERGE_RETRY_DELAY_MS * 10);
+    });
+
+    expect(mockCartService.mergeGuestCart).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,57 @@
+// Tests for loading a namespace a page at a time
+import { renderHook, act } from '@testing-library/react-native';
+import { usePaginatedQuery } from '../usePaginatedQuery';
+import { db } from '../../lib/instant';
+
+// Mock the database
+jest.mock('../../lib/instant', () => ({
+  db: {
+    useQuery: jest.fn(),
+    queryOnce: jest.fn(),
+  },
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const cursor = (rowId: string) => [rowId, 'createdAt', rowId, 1] as any;
+
+describe('usePaginatedQuery', () => {
+  const query = { $: { order: { createdAt: 'desc' as const } } };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.useQuery.mockReturnValue({
+      isLoading: false,
+      data: { products: [{ id: 'product-1' }, { id: 'product-2' }] },
+      pageInfo: { products: { endCursor: cursor('product-2'), hasNextPage: true } },
+    } as any);
+  });
+
+  it('should fetch the next page after the last cursor and append it', async () => {
+    mockDb.queryOnce
+      .mockResolvedValueOnce({
+        data: { products: [{ id: 'product-2' }, { id: 'product-3' }] },
+        pageInfo: { products: { endCursor: cursor('product-3'), hasNextPage: true } },
+      } as any)
+      .mockResolvedValueOnce({
+        data: { products: [{ id: 'product-4' }] },
+        pageInfo: { products: { endCursor: cursor('product-4'), hasNextPage: false } },
+      } as any);
+
+    const { result } = renderHook(() => usePaginatedQuery('products', query, 2));
+
+    expect(mockDb.useQuery).toHaveBeenCalledWith({ products: { $: { order: { createdAt: 'desc' }, first: 2 } } });
+
+    await act(async () => {
+      result.current.loadMore();
+    });
+    await act(async () => {
+      result.current.loadMore();
+    });
+
+    expect(mockDb.queryOnce).toHaveBeenNthCalledWith(1, { products: { $: { order: { createdAt: 'desc' }, first: 2, after: cursor('product-2') } } });
+    expect(mockDb.queryOnce).toHaveBeenNthCalledWith(2, { products: { $: { order: { createdAt: 'desc' }, first: 2, after: cursor('product-3') } } });
+    expect(result.current.items.map(row => row.id)).toEqual(['product-1', 'product-2', 'product-3', 'product-4']);
+    expect(result.current.hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,16 @@
+import React from 'react';
+
+/**
+ * The value once it has stopped changing for `delay` ms, e.g. a search box
+ * that should only query the database when typing pauses.
+ */
+export function useDebouncedValue<T>(value: T, delay: number = 300): T {
+  const [debounced, setDebounced] = React.useState(value);
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
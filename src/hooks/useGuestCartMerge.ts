@@ -0,0 +1,77 @@
+import React from 'react';
+import { cartService } from '../services/cart-service';
+import type { CartItem } from '../lib/cart-context';
+
+// Wait before retrying a failed merge, doubling each time up to the cap
+export const MERGE_RETRY_DELAY_MS = 2000;
+export const MAX_MERGE_RETRY_DELAY_MS = 60000;
+
+/**
+ * Merges the guest cart into the signed-in shopper's server cart once per
+ * sign-in. A failed merge is retried with backoff until one succeeds, and
+ * `onMerged` runs only after the server cart holds the guest lines.
+ */
+export function useGuestCartMerge(
+  userId: string | undefined,
+  guestItems: CartItem[],
+  isStorageLoading: boolean,
+  onMerged: () => void | Promise<void>
+): void {
+  const mergedUserIdRef = React.useRef<string | null>(null);
+  const isMergingRef = React.useRef(false);
+  const retryTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [failedAttempts, setFailedAttempts] = React.useState(0);
+
+  // A new shopper starts over with no failed attempts
+  React.useEffect(() => {
+    setFailedAttempts(0);
+  }, [userId]);
+
+  // Drop a pending retry when the provider unmounts
+  React.useEffect(() => () => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    if (!userId) {
+      mergedUserIdRef.current = null;
+      return;
+    }
+
+    if (isStorageLoading || mergedUserIdRef.current === userId || isMergingRef.current) {
+      return;
+    }
+
+    if (guestItems.length === 0) {
+      mergedUserIdRef.current = userId;
+      return;
+    }
+
+    const mergeGuestCart = async () => {
+      isMergingRef.current = true;
+      try {
+        const result = await cartService.mergeGuestCart(userId, guestItems);
+        if (result.success) {
+          mergedUserIdRef.current = userId;
+          await onMerged();
+        } else {
+          console.error('Failed to merge guest cart:', result.error);
+          // Bumping the attempt count re-runs this effect once the delay has passed
+          const delay = Math.min(MERGE_RETRY_DELAY_MS * 2 ** failedAttempts, MAX_MERGE_RETRY_DELAY_MS);
+          retryTimerRef.current = setTimeout(() => setFailedAttempts(attempts => attempts + 1), delay);
+        }
+      } finally {
+        isMergingRef.current = false;
+      }
+    };
+
+    mergeGuestCart();
+  }, [userId, isStorageLoading, guestItems, failedAttempts]);
+}
@@ -0,0 +1,20 @@
+import { db } from '../lib/instant';
+import { MetalRate } from '../lib/metal-pricing';
+
+export function useMetalRates() {
+  // Only the rate in force for each metal and purity, not the whole history;
+  // the admin app moves the `current` flag when it publishes a new rate
+  const { data, isLoading } = db.useQuery({
+    metalrates: {
+      $: {
+        where: {
+          current: true
+        }
+      }
+    }
+  });
+
+  const rates = (data?.metalrates || []) as MetalRate[];
+
+  return { rates, isLoading };
+}
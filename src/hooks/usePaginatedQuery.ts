@@ -0,0 +1,123 @@
+import React from 'react';
+import type { InstaQLResult } from '@instantdb/react-native';
+import { AppSchema, db } from '../lib/instant';
+
+// Queries the app's database accepts, keyed by namespace
+type AppQuery = NonNullable<Parameters<typeof db.useQuery>[0]>;
+
+export type PaginatedNamespace = keyof AppSchema['entities'] & keyof AppQuery;
+
+// Filters, order and linked entities for one namespace; the hook adds the page size
+export type NamespaceQuery<N extends PaginatedNamespace> = NonNullable<AppQuery[N]>;
+
+export type PaginatedRow<N extends PaginatedNamespace, Q extends NamespaceQuery<N>> =
+  InstaQLResult<AppSchema, { [K in N]: Q }> extends { [K in N]: (infer Row)[] } ? Row : never;
+
+// Where a page ended, passed back as `after` to fetch the page following it
+type Cursor = NonNullable<NonNullable<AppQuery['products']>['$']>['after'];
+
+export interface PaginatedResult<T> {
+  items: T[];
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => void;
+}
+
+// How close to the end of a scroll view (in points) the next page starts loading
+const LOAD_MORE_THRESHOLD = 400;
+
+export function isCloseToBottom({ layoutMeasurement, contentOffset, contentSize }: any): boolean {
+  return layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD;
+}
+
+// Pages after the first, fetched with the cursor the previous page ended on
+interface LaterPages<Q, T> {
+  query: Q | null;
+  rows: T[];
+  endCursor?: Cursor;
+  hasNextPage: boolean;
+}
+
+/**
+ * Loads a namespace a page at a time. The first page is a live subscription,
+ * so its rows update as they change; each later page is fetched once from the
+ * cursor the page before it ended on and appended. A new query starts again
+ * from the first page.
+ */
+export function usePaginatedQuery<N extends PaginatedNamespace, Q extends NamespaceQuery<N>>(
+  namespace: N,
+  query: Q | null,
+  pageSize: number = 20
+): PaginatedResult<PaginatedRow<N, Q>> {
+  type Row = PaginatedRow<N, Q>;
+  const [laterPages, setLaterPages] = React.useState<LaterPages<Q, Row>>({ query: null, rows: [], hasNextPage: false });
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false);
+  const [loadMoreError, setLoadMoreError] = React.useState<string | null>(null);
+  // Only set once a later page has loaded for the current query
+  const later = query && laterPages.query === query ? laterPages : null;
+
+  const pageQuery = (after?: Cursor) =>
+    ({ [namespace]: { ...query, $: { ...query?.$, first: pageSize, ...(after ? { after } : {}) } } } as { [K in N]: Q });
+
+  const { data, pageInfo, isLoading, error } = db.useQuery(query ? pageQuery() : null);
+
+  // TypeScript cannot index the generic result type by N, so name its shape here
+  const firstPage = (data as unknown as { [K in N]: Row[] } | undefined)?.[namespace];
+  const firstPageInfo = pageInfo?.[namespace];
+
+  // Keep showing the rows already loaded while the first page refreshes
+  const loadedRef = React.useRef<Row[]>([]);
+  if (!query) {
+    loadedRef.current = [];
+  } else if (firstPage) {
+    loadedRef.current = firstPage;
+  }
+
+  // A row the live first page pushed back may also be in the next page; show it once
+  const firstIds = new Set(loadedRef.current.map(row => (row as { id: string }).id));
+  const items = [
+    ...loadedRef.current,
+    ...(later?.rows || []).filter(row => !firstIds.has((row as { id: string }).id)),
+  ];
+
+  const isFetching = !!query && isLoading;
+  const hasMore = later ? later.hasNextPage : !!firstPageInfo?.hasNextPage;
+  const endCursor = later ? later.endCursor : firstPageInfo?.endCursor;
+
+  const loadMore = React.useCallback(() => {
+    if (!query || !hasMore || !endCursor || isFetching || isLoadingMore) return;
+
+    const fetchNextPage = async () => {
+      setIsLoadingMore(true);
+      setLoadMoreError(null);
+      try {
+        const result = await db.queryOnce(pageQuery(endCursor));
+        const rows = (result.data as unknown as { [K in N]: Row[] })[namespace] || [];
+        const info = result.pageInfo?.[namespace];
+        setLaterPages(current => ({
+          query,
+          rows: current.query === query ? [...current.rows, ...rows] : rows,
+          endCursor: info?.endCursor,
+          hasNextPage: !!info?.hasNextPage,
+        }));
+      } catch (loadError: any) {
+        setLoadMoreError(loadError?.message || 'Failed to load more');
+      } finally {
+        setIsLoadingMore(false);
+      }
+    };
+
+    fetchNextPage();
+  }, [query, hasMore, endCursor, isFetching, isLoadingMore, namespace, pageSize]);
+
+  return {
+    items,
+    isLoading: isFetching && !later,
+    isLoadingMore,
+    error: error?.message || loadMoreError,
+    hasMore,
+    loadMore,
+  };
+}
@@ -0,0 +1,40 @@
+import React from 'react';
+import { db } from '../lib/instant';
+import { useAuth } from '../lib/auth-context';
+import { DEFAULT_CUSTOMER_GROUP, PriceList, PriceListContext } from '../lib/price-lists';
+
+export function usePriceLists(): PriceListContext {
+  const { user } = useAuth();
+
+  // The signed-in shopper's customer record decides their group
+  const { data: customerData } = db.useQuery(
+    user?.email ? {
+      customers: {
+        $: {
+          where: {
+            email: user.email
+          },
+          limit: 1
+        }
+      }
+    } : null
+  );
+
+  const { data: priceListData } = db.useQuery({
+    pricelists: {
+      $: {
+        where: {
+          isActive: true
+        }
+      }
+    }
+  });
+
+  const customerGroup = customerData?.customers?.[0]?.customerGroup || DEFAULT_CUSTOMER_GROUP;
+  const priceLists = React.useMemo(
+    () => (priceListData?.pricelists || []) as PriceList[],
+    [priceListData]
+  );
+
+  return React.useMemo(() => ({ customerGroup, priceLists }), [customerGroup, priceLists]);
+}
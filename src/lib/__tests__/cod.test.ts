@@ -0,0 +1,48 @@
+// Tests for cash-on-delivery eligibility and the COD fee
+import { checkCodEligibility, getPaymentFee, STORE_COD_RULES } from '../cod';
+import { priceOrder, validatePricing, STORE_PRICING } from '../pricing';
+
+describe('Cash on delivery', () => {
+  const rules = {
+    enabled: true,
+    maxOrderValue: 5000,
+    postalCodes: [{ from: '600001', to: '600130' }],
+    fee: 49,
+    maxRefusedDeliveries: 2,
+  };
+
+  it('should allow orders that meet every rule', () => {
+    expect(checkCodEligibility({ orderValue: 5000, postalCode: '600 040', refusedDeliveries: 1 }, rules)).toEqual({ eligible: true });
+  });
+
+  it('should explain why an order is not eligible', () => {
+    expect(checkCodEligibility({ orderValue: 5000.01, postalCode: '600040' }, rules).reason).toContain('orders up to');
+    expect(checkCodEligibility({ orderValue: 100, postalCode: '110001' }, rules).reason).toBe('Cash on delivery is not available for this delivery address');
+    expect(checkCodEligibility({ orderValue: 100 }, rules).eligible).toBe(false);
+    expect(checkCodEligibility({ orderValue: 100, postalCode: '600040' }, { ...rules, enabled: false }).eligible).toBe(false);
+  });
+
+  it('should block customers who have refused deliveries', () => {
+    const result = checkCodEligibility({ orderValue: 100, postalCode: '600040', refusedDeliveries: 2 }, rules);
+
+    expect(result.eligible).toBe(false);
+    expect(result.reason).toContain('Please pay online');
+  });
+
+  it('should allow any postal code when none are listed', () => {
+    expect(checkCodEligibility({ orderValue: 100 }, { ...rules, postalCodes: [] }).eligible).toBe(true);
+  });
+
+  it('should add the fee to the order total after tax', () => {
+    const lines = [{ id: 'a', price: 100, quantity: 1 }];
+    const prepaid = priceOrder(lines);
+    const cod = priceOrder(lines, { ...STORE_PRICING, paymentFee: getPaymentFee('cod') });
+
+    expect(getPaymentFee('card')).toBe(0);
+    expect(cod.paymentFee).toBe(STORE_COD_RULES.fee);
+    expect(cod.taxAmount).toBe(prepaid.taxAmount);
+    expect(cod.total).toBe(prepaid.total + STORE_COD_RULES.fee);
+    expect(validatePricing(cod).isValid).toBe(true);
+    expect(validatePricing({ ...cod, paymentFee: 0 }).isValid).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+// Tests for GST invoice numbering and documents
+import { buildInvoice, formatInvoiceNumber, getFinancialYear, getStateCode, renderInvoiceHtml, renderInvoicePdf } from '../invoices';
+
+describe('Invoices', () => {
+  const settings = {
+    legalName: 'Silvers',
+    gstin: '33ABCDE1234F1Z5',
+    address: ['12 Anna Salai', 'Chennai 600002'],
+    state: 'Tamil Nadu',
+    prefix: 'SLV',
+    hsnCodes: { jewellery: '7113' },
+    shippingSac: '996812',
+  };
+  const order = {
+    orderNumber: 'ORD-1042',
+    currency: 'INR',
+    taxesIncluded: true,
+    shippingAmount: 103,
+    paymentFee: 49,
+    total: 2212,
+    taxBreakdown: {
+      shipping: { taxableAmount: 100, taxAmount: 3, components: [{ name: 'CGST', rate: 1.5, amount: 1.5 }, { name: 'SGST', rate: 1.5, amount: 1.5 }] },
+    },
+    customerName: 'Priya R',
+    shippingAddress: { name: 'Priya R', street: '4 Main Rd', city: 'Madurai', state: 'Tamil Nadu', zipCode: '625001', country: 'India' },
+  };
+  const items = [
+    {
+      productId: 'product-1',
+      title: 'Silver Anklet',
+      quantity: 2,
+      price: 1080,
+      lineTotal: 2160,
+      discountAmount: 100,
+      taxAmount: 60,
+      taxBreakdown: [{ name: 'CGST', rate: 1.5, amount: 30 }, { name: 'SGST', rate: 1.5, amount: 30 }],
+    },
+  ];
+
+  it('should number invoices per Indian financial year', () => {
+    expect(getFinancialYear(new Date('2026-03-31T18:00:00Z'))).toBe('2025-26');
+    expect(getFinancialYear(new Date('2026-03-31T19:00:00Z'))).toBe('2026-27');
+    expect(formatInvoiceNumber('SLV', '2025-26', 42)).toBe('SLV/25-26/000042');
+    expect(formatInvoiceNumber('SLV', '2025-26', 42).length).toBeLessThanOrEqual(16);
+  });
+
+  it('should resolve GST state codes from names and codes', () => {
+    expect(getStateCode('Tamil Nadu')).toBe('33');
+    expect(getStateCode(' jammu & kashmir ')).toBe('01');
+    expect(getStateCode('29')).toBe('29');
+    expect(getStateCode('California')).toBeUndefined();
+  });
+
+  it('should split lines into taxable value and tax that add up to the order total', () => {
+    const invoice = buildInvoice(order, items, { number: 'SLV/25-26/000001', issuedAt: new Date('2025-06-01T10:00:00Z') }, settings);
+
+    expect(invoice.lines.map(line => [line.hsnCode, line.taxableValue, line.total])).toEqual([['7113', 2000, 2060], ['996812', 100, 103]]);
+    expect(invoice.taxTotals).toEqual([{ name: 'CGST', rate: 1.5, amount: 31.5 }, { name: 'SGST', rate: 1.5, amount: 31.5 }]);
+    expect(invoice.taxNames).toEqual(['CGST', 'SGST']);
+    expect(invoice.placeOfSupply).toBe('Tamil Nadu (33)');
+    expect(invoice.roundOff).toBe(0);
+    expect(invoice.total).toBe(2212);
+  });
+
+  it('should render HTML and PDF documents with the invoice details', () => {
+    const invoice = buildInvoice(order, items, { number: 'SLV/25-26/000001', issuedAt: new Date('2025-06-01T10:00:00Z') }, settings);
+    const html = renderInvoiceHtml({ ...invoice, buyer: { ...invoice.buyer, name: 'Priya <R>' } });
+    const pdf = renderInvoicePdf(invoice);
+
+    expect(html).toContain('SLV/25-26/000001');
+    expect(html).toContain('GSTIN: 33ABCDE1234F1Z5');
+    expect(html).toContain('Priya &lt;R&gt;');
+    expect(html).toContain('01-06-2025');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Place of Supply: Tamil Nadu \\(33\\)) Tj');
+  });
+});
@@ -0,0 +1,69 @@
+// Tests for live metal-rate pricing
+import { calculateMetalPrice, findMetalRate, getMetalPricingSpec, resolveCartPrice, resolveLivePrice, summarizeMetalRates, MetalRate } from '../metal-pricing';
+
+const rates: MetalRate[] = [
+  { id: 'old', metal: 'silver', purity: '925', rate: 80, effectiveAt: '2024-01-01T00:00:00Z' },
+  { id: 'current', metal: 'silver', purity: '925', rate: 85.5, effectiveAt: '2024-03-01T00:00:00Z' },
+  { id: 'future', metal: 'silver', purity: '925', rate: 95, effectiveAt: '2024-06-01T00:00:00Z' },
+  { id: 'fine', metal: 'Silver', purity: '999', rate: 92, effectiveAt: '2024-03-01T00:00:00Z' },
+];
+
+const now = new Date('2024-04-01T00:00:00Z');
+
+describe('Metal pricing', () => {
+  it('should use the latest rate already in force', () => {
+    expect(findMetalRate(rates, 'silver', '925', now)?.id).toBe('current');
+    expect(findMetalRate(rates, 'silver', '925', new Date('2024-02-01T00:00:00Z'))?.id).toBe('old');
+    expect(findMetalRate(rates, 'silver', '999', now)?.id).toBe('fine');
+    expect(findMetalRate(rates, 'gold', '22K', now)).toBeUndefined();
+  });
+
+  it('should add wastage as extra metal and apply each making charge type', () => {
+    const spec = { metal: 'silver', purity: '925', netWeight: 12.5, wastage: 8 };
+    const rate = rates[1];
+
+    const flat = calculateMetalPrice({ ...spec, makingChargeType: 'flat', makingCharge: 150 }, rate);
+    expect(flat.wastageWeight).toBe(1);
+    expect(flat.metalValue).toBe(1154.25); // 13.5 g × 85.5
+    expect(flat.makingCharges).toBe(150);
+    expect(flat.price).toBe(1304.25);
+
+    expect(calculateMetalPrice({ ...spec, makingChargeType: 'per_gram', makingCharge: 12 }, rate).makingCharges).toBe(150);
+    expect(calculateMetalPrice({ ...spec, makingChargeType: 'percentage', makingCharge: 10 }, rate).makingCharges).toBe(115.43);
+  });
+
+  it('should let variant attributes override the product', () => {
+    const product = { metal: 'silver', purity: '925', netWeight: 10, makingChargeType: 'flat', makingCharge: 100 };
+
+    expect(getMetalPricingSpec(product, { netWeight: 20 })?.netWeight).toBe(20);
+    expect(getMetalPricingSpec({ price: 500 })).toBeUndefined();
+  });
+
+  it('should fall back to the stored price without metal attributes or a rate', () => {
+    expect(resolveLivePrice({ price: 500 }, undefined, rates, now)).toEqual({ price: 500 });
+    expect(resolveLivePrice({ metal: 'gold', purity: '22K', netWeight: 2, price: 900 }, undefined, rates, now).price).toBe(900);
+
+    const live = resolveLivePrice({ metal: 'silver', purity: '999', netWeight: 5, price: 1 }, undefined, rates, now);
+    expect(live.price).toBe(460);
+    expect(live.breakdown?.rateId).toBe('fine');
+  });
+
+  it('should add fixed-price products to the cart at their sale price', () => {
+    expect(resolveCartPrice({ price: 500, saleprice: 400 }, undefined, rates, now)).toEqual({ price: 400, regularPrice: 500 });
+    expect(resolveCartPrice({ price: 500, saleprice: 400 }, { price: 450, saleprice: 350 }, rates, now).price).toBe(350);
+    expect(resolveCartPrice({ price: 500, saleprice: 600 }, undefined, rates, now).price).toBe(500);
+
+    const metal = resolveCartPrice({ metal: 'silver', purity: '999', netWeight: 5, price: 1, saleprice: 100 }, undefined, rates, now);
+    expect(metal.price).toBe(460);
+    expect(metal.regularPrice).toBe(460);
+  });
+
+  it('should summarise one locked rate per metal and purity', () => {
+    const spec = { metal: 'silver', purity: '925', netWeight: 5 };
+    const breakdown = calculateMetalPrice(spec, rates[1]);
+
+    expect(summarizeMetalRates([breakdown, undefined, breakdown])).toEqual([
+      { id: 'current', metal: 'silver', purity: '925', rate: 85.5, effectiveAt: '2024-03-01T00:00:00.000Z' },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+// Tests for integer minor-unit money arithmetic
+import { add, allocate, allocateAmount, fromMinor, money, multiply, percentage, roundAmount, roundMinor, sum, toMajor } from '../money';
+import { calculateOrderTotals } from '../order-calculations';
+
+describe('Money', () => {
+  it('should store amounts as integer minor units', () => {
+    expect(money(19.99)).toEqual({ amount: 1999, currency: 'USD' });
+    expect(money(1.005).amount).toBe(101);
+    expect(money(500, 'JPY').amount).toBe(500);
+    expect(toMajor(money(1.234, 'KWD'))).toBe(1.234);
+  });
+
+  it('should add without floating point drift', () => {
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(toMajor(add(money(0.1), money(0.2)))).toBe(0.3);
+    expect(toMajor(sum(Array(10).fill(money(0.1))))).toBe(1);
+  });
+
+  it('should round with the requested mode', () => {
+    expect(roundMinor(2.5, 'half_up')).toBe(3);
+    expect(roundMinor(-2.5, 'half_up')).toBe(-3);
+    expect(roundMinor(2.5, 'half_even')).toBe(2);
+    expect(roundMinor(3.5, 'half_even')).toBe(4);
+    expect(roundMinor(2.1, 'ceil')).toBe(3);
+    expect(roundMinor(2.9, 'floor')).toBe(2);
+    expect(roundAmount(0.125, 'USD', 'half_even')).toBe(0.12);
+  });
+
+  it('should multiply and take percentages in minor units', () => {
+    expect(toMajor(multiply(money(19.99), 3))).toBe(59.97);
+    expect(toMajor(percentage(money(33.33), 3))).toBe(1);
+  });
+
+  it('should allocate by largest remainder and always add back up', () => {
+    expect(allocate(money(1), [1, 1, 1]).map(part => part.amount)).toEqual([34, 33, 33]);
+    expect(allocateAmount(10, [2, 1])).toEqual([6.67, 3.33]);
+    expect(allocateAmount(5, [0, 0])).toEqual([0, 0]);
+
+    const parts = allocate(money(100.01), [3, 7, 11, 13]);
+    expect(sum(parts).amount).toBe(10001);
+  });
+
+  it('should refuse to mix currencies', () => {
+    expect(() => add(money(1, 'USD'), money(1, 'INR'))).toThrow('Currency mismatch');
+    expect(() => fromMinor(1.5)).toThrow();
+  });
+
+  it('should keep order totals exact', () => {
+    const totals = calculateOrderTotals(
+      [
+        { id: '1', productId: 'p1', sku: 'A', title: 'A', qty: 3, price: 0.1, lineTotal: 0.3 },
+        { id: '2', productId: 'p2', sku: 'B', title: 'B', qty: 1, price: 0.2, lineTotal: 0.2 },
+      ],
+      undefined,
+      undefined,
+      { rate: 10, inclusive: false, enabled: true }
+    );
+
+    expect(totals.subtotal).toBe(0.5);
+    expect(totals.taxAmount).toBe(0.05);
+    expect(totals.total).toBe(0.55);
+  });
+});
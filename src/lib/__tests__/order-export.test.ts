@@ -0,0 +1,81 @@
+// Tests for accounting exports of orders
+import { buildLineRecords, buildOrderExport, buildOrderRecord, getExportProfile, toCsv } from '../order-export';
+
+describe('Order export', () => {
+  const order = {
+    orderNumber: 'ORD-1042',
+    receiptNumber: 'SLV/25-26/000001',
+    createdAt: new Date(2025, 5, 1, 10, 30),
+    customerName: 'Priya, R',
+    currency: 'INR',
+    taxesIncluded: true,
+    subtotal: 2160,
+    discountAmount: 100,
+    shippingAmount: 103,
+    taxAmount: 63,
+    paymentFee: 49,
+    total: 2212,
+    taxBreakdown: {
+      components: [{ name: 'CGST', rate: 1.5, amount: 31.5 }, { name: 'SGST', rate: 1.5, amount: 31.5 }],
+      shipping: { taxableAmount: 100, taxAmount: 3, components: [{ name: 'CGST', rate: 1.5, amount: 1.5 }, { name: 'SGST', rate: 1.5, amount: 1.5 }] },
+    },
+    orderitems: [
+      {
+        sku: 'ANK-M',
+        title: 'Silver Anklet',
+        quantity: 2,
+        price: 1080,
+        lineTotal: 2160,
+        discountAmount: 100,
+        taxAmount: 60,
+        taxBreakdown: [{ name: 'CGST', rate: 1.5, amount: 30 }, { name: 'SGST', rate: 1.5, amount: 30 }],
+      },
+    ],
+  };
+
+  it('should split an order into taxable value, GST components and fees', () => {
+    expect(buildOrderRecord(order)).toMatchObject({
+      voucherNumber: 'SLV/25-26/000001',
+      taxableValue: 2100,
+      cgst: 31.5,
+      sgst: 31.5,
+      igst: 0,
+      roundOff: 0,
+      total: 2212,
+    });
+  });
+
+  it('should add shipping, fee and round off lines so line amounts match the order total', () => {
+    const lines = buildLineRecords({ ...order, total: 2212.01 });
+
+    expect(lines.map(line => [line.lineType, line.amount])).toEqual([
+      ['item', 2060],
+      ['shipping', 103],
+      ['fee', 49],
+      ['adjustment', 0.01],
+    ]);
+  });
+
+  it('should write Tally CSV with fixed columns, quoting and two-decimal amounts', () => {
+    const profile = getExportProfile('tally')!;
+    const csv = toCsv([buildOrderRecord(order)], profile.columns.order, profile.dateFormat);
+
+    expect(csv.split('\r\n')[0]).toBe('Voucher Date,Voucher Type,Voucher Number,Party Name,Sales Ledger,Sales Amount,CGST,SGST,IGST,Other Charges,Round Off,Voucher Total');
+    expect(csv.split('\r\n')[1]).toBe('01-06-2025,Sales,SLV/25-26/000001,"Priya, R",Sales,2100.00,31.50,31.50,0.00,49.00,0.00,2212.00');
+  });
+
+  it('should reconcile exported totals and honour custom columns', () => {
+    const file = buildOrderExport([order, { ...order, orderNumber: 'ORD-1043', receiptNumber: undefined, total: 100.1, subtotal: 100.1, shippingAmount: 0, paymentFee: 0, discountAmount: 0, taxAmount: 0, taxBreakdown: undefined, orderitems: [] }], {
+      format: 'json',
+      level: 'line',
+      profile: getExportProfile('quickbooks')!,
+      columns: [{ header: 'Invoice', field: 'voucherNumber' }, { header: 'Amount', field: 'amount' }],
+      generatedAt: new Date(2025, 6, 1),
+    });
+    const parsed = JSON.parse(file.content);
+
+    expect(file.fileName).toBe('orders-lines-quickbooks-2025-07-01.json');
+    expect(file.totals).toEqual({ orders: 2, rows: 4, total: 2312.1, exported: 2312.1, reconciled: true });
+    expect(parsed.rows[3]).toEqual({ Invoice: 'ORD-1043', Amount: 100.1 });
+  });
+});
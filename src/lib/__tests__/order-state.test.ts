@@ -0,0 +1,68 @@
+// Tests for the order lifecycle state machines
+import { canCustomerCancel, canTransition, getOrderEventTitle, orderPlacedEvent, planStatusChange } from '../order-state';
+
+const now = new Date('2024-05-01T10:00:00Z');
+const placed = { status: 'pending', paymentStatus: 'pending', fulfillmentStatus: 'unfulfilled' } as const;
+
+describe('Order state machines', () => {
+  it('should allow forward transitions and reject going backwards', () => {
+    expect(canTransition('status', 'pending', 'processing')).toBe(true);
+    expect(canTransition('status', 'completed', 'pending')).toBe(false);
+    expect(canTransition('paymentStatus', 'paid', 'refunded')).toBe(true);
+    expect(canTransition('fulfillmentStatus', 'fulfilled', 'unfulfilled')).toBe(false);
+  });
+
+  it('should plan updates and one event per changed field', () => {
+    const plan = planStatusChange(placed, { status: 'processing', paymentStatus: 'paid' }, { actor: 'staff@silvers.test', note: 'Paid by card', now });
+
+    expect(plan.valid).toBe(true);
+    expect(plan.updates).toEqual({ status: 'processing', paymentStatus: 'paid', updatedAt: now });
+    expect(plan.events).toEqual([
+      { field: 'status', from: 'pending', to: 'processing', actor: 'staff@silvers.test', note: 'Paid by card', createdAt: now },
+      { field: 'paymentStatus', from: 'pending', to: 'paid', actor: 'staff@silvers.test', note: 'Paid by card', createdAt: now },
+    ]);
+  });
+
+  it('should stamp closing and cancellation times', () => {
+    expect(planStatusChange(placed, { status: 'completed' }, { actor: 'system', now }).updates.closedAt).toEqual(now);
+    expect(planStatusChange(placed, { status: 'cancelled' }, { actor: 'system', now }).updates.cancelledAt).toEqual(now);
+  });
+
+  it('should reject illegal and unknown transitions', () => {
+    const shipped = { ...placed, fulfillmentStatus: 'fulfilled' } as const;
+
+    expect(planStatusChange(shipped, { fulfillmentStatus: 'unfulfilled' }, { actor: 'system' })).toMatchObject({
+      valid: false,
+      error: 'Cannot change fulfillment status from fulfilled to unfulfilled',
+    });
+    expect(planStatusChange(placed, { status: 'shipped' as any }, { actor: 'system' }).error).toBe('Unknown order status "shipped"');
+  });
+
+  it('should apply rules that span statuses', () => {
+    const shipped = { ...placed, fulfillmentStatus: 'partial' } as const;
+    const cancelled = { ...placed, status: 'cancelled' } as const;
+
+    expect(planStatusChange(shipped, { status: 'cancelled' }, { actor: 'system' }).valid).toBe(false);
+    expect(planStatusChange(cancelled, { fulfillmentStatus: 'fulfilled' }, { actor: 'system' }).valid).toBe(false);
+  });
+
+  it('should treat unchanged fields as a no-op', () => {
+    const plan = planStatusChange(placed, { status: 'pending' }, { actor: 'system' });
+
+    expect(plan.valid).toBe(true);
+    expect(plan.events).toHaveLength(0);
+    expect(plan.updates).toEqual({});
+  });
+
+  it('should describe events for the customer timeline', () => {
+    expect(getOrderEventTitle(orderPlacedEvent('customer', now))).toBe('Order placed');
+    expect(getOrderEventTitle({ field: 'fulfillmentStatus', to: 'fulfilled' })).toBe('Shipped');
+  });
+
+  it('should only let customers cancel pending orders that have not shipped', () => {
+    expect(canCustomerCancel(placed)).toBe(true);
+    expect(canCustomerCancel({ ...placed, paymentStatus: 'paid' })).toBe(true);
+    expect(canCustomerCancel({ ...placed, status: 'processing' })).toBe(false);
+    expect(canCustomerCancel({ ...placed, fulfillmentStatus: 'partial' })).toBe(false);
+  });
+});
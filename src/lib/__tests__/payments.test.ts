@@ -0,0 +1,46 @@
+// Tests for rolling payment attempts up into the order
+import { getCapturedTotal, reconcilePayments } from '../payments';
+
+describe('Payment reconciliation', () => {
+  it('should only count captured attempts', () => {
+    expect(getCapturedTotal([
+      { status: 'captured', amount: 60.1, capturedAmount: 60.1 },
+      { status: 'captured', amount: 39.9 },
+      { status: 'failed', amount: 100 },
+      { status: 'authorized', amount: 100 },
+    ])).toBe(100);
+  });
+
+  it('should mark orders paid or partially paid', () => {
+    const order = { total: 100, paymentStatus: 'pending' };
+
+    expect(reconcilePayments(order, [{ status: 'captured', amount: 100 }])).toEqual({ totalPaid: 100, paymentStatus: 'paid' });
+    expect(reconcilePayments(order, [{ status: 'captured', amount: 40 }])).toEqual({ totalPaid: 40, paymentStatus: 'partial' });
+    expect(reconcilePayments(order, [{ status: 'failed', amount: 100 }])).toEqual({ totalPaid: 0 });
+  });
+
+  it('should wait for confirmation of payments made outside the app', () => {
+    expect(reconcilePayments({ total: 100, paymentStatus: 'pending' }, [{ status: 'pending', amount: 100 }]))
+      .toEqual({ totalPaid: 0, paymentStatus: 'awaiting_payment' });
+    expect(reconcilePayments({ total: 100, paymentStatus: 'pending' }, [{ status: 'authorized', method: 'card', amount: 100 }]))
+      .toEqual({ totalPaid: 0, paymentStatus: 'awaiting_payment' });
+  });
+
+  it('should follow cash on delivery from the door to the remittance', () => {
+    const order = { total: 100, paymentStatus: 'cod_pending' };
+
+    expect(reconcilePayments({ ...order, paymentStatus: 'pending' }, [{ status: 'pending', method: 'cod', amount: 100 }]))
+      .toEqual({ totalPaid: 0, paymentStatus: 'cod_pending' });
+    expect(reconcilePayments(order, [{ status: 'collected', method: 'cod', amount: 100 }]))
+      .toEqual({ totalPaid: 0, paymentStatus: 'cod_collected' });
+    expect(reconcilePayments(order, [{ status: 'captured', method: 'cod', amount: 100 }]))
+      .toEqual({ totalPaid: 100, paymentStatus: 'paid' });
+    expect(reconcilePayments({ ...order, paymentStatus: 'cod_refused' }, [{ status: 'voided', method: 'cod', amount: 100 }]))
+      .toEqual({ totalPaid: 0 });
+  });
+
+  it('should leave refunded orders alone', () => {
+    expect(reconcilePayments({ total: 100, paymentStatus: 'partially_refunded' }, [{ status: 'captured', amount: 100 }]))
+      .toEqual({ totalPaid: 100 });
+  });
+});
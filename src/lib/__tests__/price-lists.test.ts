@@ -0,0 +1,46 @@
+// Tests for customer-group price lists
+import { isPriceListLive, resolvePriceListPrice, PriceList } from '../price-lists';
+
+const wholesale: PriceList = {
+  id: 'wholesale',
+  name: 'Wholesale',
+  customerGroups: ['wholesale'],
+  isActive: true,
+  percentOff: 20,
+  minQuantity: 10,
+  entries: [
+    { productId: 'anklet', price: 15, minQuantity: 5 },
+    { productId: 'anklet', itemId: 'anklet-large', price: 18, minQuantity: 1 },
+  ],
+};
+
+const staff: PriceList = {
+  id: 'staff',
+  name: 'Staff',
+  customerGroups: ['staff', 'wholesale'],
+  isActive: true,
+  percentOff: 10,
+};
+
+const context = { customerGroup: 'wholesale', priceLists: [wholesale, staff] };
+
+describe('Price lists', () => {
+  it('should only apply live lists assigned to the group', () => {
+    expect(isPriceListLive(wholesale, 'Wholesale')).toBe(true);
+    expect(isPriceListLive(wholesale, 'retail')).toBe(false);
+    expect(isPriceListLive({ ...wholesale, endsAt: '2020-01-01' }, 'wholesale')).toBe(false);
+    expect(resolvePriceListPrice({ productId: 'ring', quantity: 1, price: 100 }, { customerGroup: 'retail', priceLists: [wholesale] })).toEqual({ price: 100 });
+  });
+
+  it('should prefer variant entries over product entries and honour minimum quantities', () => {
+    expect(resolvePriceListPrice({ productId: 'anklet', itemId: 'anklet-large', quantity: 1, price: 25 }, context)).toEqual({ price: 18, priceListId: 'wholesale' });
+    // Below the product entry minimum only the staff percentage applies
+    expect(resolvePriceListPrice({ productId: 'anklet', itemId: 'anklet-small', quantity: 2, price: 20 }, context)).toEqual({ price: 18, priceListId: 'staff' });
+    expect(resolvePriceListPrice({ productId: 'anklet', itemId: 'anklet-small', quantity: 5, price: 20 }, context)).toEqual({ price: 15, priceListId: 'wholesale' });
+  });
+
+  it('should take the lowest price and never raise the regular price', () => {
+    expect(resolvePriceListPrice({ productId: 'ring', quantity: 10, price: 49.99 }, context)).toEqual({ price: 39.99, priceListId: 'wholesale' });
+    expect(resolvePriceListPrice({ productId: 'anklet', itemId: 'anklet-large', quantity: 1, price: 12 }, context).priceListId).toBe('staff');
+  });
+});
@@ -0,0 +1,75 @@
+// Tests for the shared pricing pipeline
+import { priceOrder, validatePricing, STORE_PRICING } from '../pricing';
+import { allocateAmount } from '../money';
+import { DEFAULT_TAX_SETTINGS } from '../order-calculations';
+
+describe('Pricing pipeline', () => {
+  const lines = [
+    { id: 'a', price: 19.99, quantity: 3 },
+    { id: 'b', price: 7.35, quantity: 1 },
+    { id: 'c', price: 0.99, quantity: 7 },
+  ];
+
+  it('should use the store tax settings by default', () => {
+    const pricing = priceOrder(lines);
+
+    expect(pricing.subtotal).toBe(74.25);
+    expect(pricing.taxAmount).toBe(6.31);
+    expect(pricing.total).toBe(80.56);
+    expect(pricing.itemCount).toBe(11);
+    expect(pricing.lines.every(line => line.taxRate === DEFAULT_TAX_SETTINGS.rate / 100)).toBe(true);
+  });
+
+  it('should not add tax on top of tax-inclusive prices', () => {
+    const pricing = priceOrder([{ id: 'a', price: 103, quantity: 1 }], {
+      ...STORE_PRICING,
+      taxAddress: { country: 'India', state: 'Kerala' },
+    });
+
+    expect(pricing.taxesIncluded).toBe(true);
+    expect(pricing.taxAmount).toBe(3);
+    expect(pricing.total).toBe(103);
+    expect(validatePricing(pricing).isValid).toBe(true);
+  });
+
+  it('should allocate tax and discount so line amounts add up to the order amounts', () => {
+    const pricing = priceOrder(lines, {
+      ...STORE_PRICING,
+      discount: { type: 'percentage', value: 15 },
+      shipping: { type: 'fixed', amount: 4.99 },
+    });
+
+    const lineTax = pricing.lines.reduce((sum, line) => sum + line.taxAmount, 0)
+      + (pricing.taxBreakdown.shipping?.taxAmount || 0);
+    const lineDiscount = pricing.lines.reduce((sum, line) => sum + line.discountAmount, 0);
+
+    expect(Math.round(lineTax * 100)).toBe(Math.round(pricing.taxAmount * 100));
+    expect(Math.round(lineDiscount * 100)).toBe(Math.round(pricing.discountAmount * 100));
+  });
+
+  it('should always produce totals that pass the order totals rule', () => {
+    [0.01, 0.333, 1.005, 12.345, 99.999].forEach(price => {
+      const pricing = priceOrder([{ id: 'a', price, quantity: 3 }], {
+        ...STORE_PRICING,
+        discount: { type: 'percentage', value: 12.5 },
+        shipping: { type: 'fixed', amount: 3.33 },
+      });
+      expect(validatePricing(pricing).isValid).toBe(true);
+    });
+  });
+
+  it('should only allocate a scoped discount to the lines it applies to', () => {
+    const pricing = priceOrder(lines, {
+      ...STORE_PRICING,
+      discount: { type: 'fixed', value: 5 },
+      discountLineIds: ['b'],
+    });
+
+    expect(pricing.lines.map(line => line.discountAmount)).toEqual([0, 5, 0]);
+  });
+
+  it('should split amounts in whole cents without losing any', () => {
+    expect(allocateAmount(1, [1, 1, 1])).toEqual([0.34, 0.33, 0.33]);
+    expect(allocateAmount(5, [0, 0])).toEqual([0, 0]);
+  });
+});
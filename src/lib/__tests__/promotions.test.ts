@@ -0,0 +1,103 @@
+// Tests for automatic promotion rules
+import { evaluatePromotions, Promotion } from '../promotions';
+import { priceOrder, STORE_PRICING } from '../pricing';
+
+const promotion = (overrides: Partial<Promotion>): Promotion => ({
+  id: 'promo-1',
+  name: 'Promotion',
+  type: 'bogo',
+  isActive: true,
+  config: {},
+  ...overrides,
+});
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+describe('Promotions', () => {
+  it('should make the cheaper unit free for buy-one-get-one', () => {
+    const lines = [
+      { id: 'a', productId: 'ring', price: 30, quantity: 1 },
+      { id: 'b', productId: 'toe-ring', price: 10, quantity: 1 },
+    ];
+
+    const result = evaluatePromotions([promotion({ type: 'bogo' })], lines, now);
+
+    expect(result.total).toBe(10);
+    expect(result.lineDiscounts).toEqual({ b: 10 });
+  });
+
+  it('should apply 3 for 2 only to the promoted collection', () => {
+    const lines = [
+      { id: 'a', productId: 'anklet', collectionId: 'anklets', price: 15, quantity: 3 },
+      { id: 'b', productId: 'chain', collectionId: 'chains', price: 5, quantity: 2 },
+    ];
+
+    const result = evaluatePromotions(
+      [promotion({ type: 'buy_x_get_y', collectionIds: ['anklets'], config: { buyQuantity: 2, getQuantity: 1 } })],
+      lines,
+      now
+    );
+
+    expect(result.lineDiscounts).toEqual({ a: 15 });
+  });
+
+  it('should apply the highest spend tier reached', () => {
+    const lines = [
+      { id: 'a', productId: 'ring', price: 60, quantity: 1 },
+      { id: 'b', productId: 'chain', price: 90, quantity: 1 },
+    ];
+    const tiered = promotion({
+      type: 'tiered',
+      config: {
+        tiers: [
+          { minimumAmount: 50, type: 'percentage', value: 5 },
+          { minimumAmount: 150, type: 'percentage', value: 10 },
+        ],
+      },
+    });
+
+    const result = evaluatePromotions([tiered], lines, now);
+
+    expect(result.total).toBe(15);
+    expect(result.lineDiscounts).toEqual({ a: 6, b: 9 });
+  });
+
+  it('should make the gift free once the spend is reached', () => {
+    const gift = promotion({ type: 'gift', name: 'Free pouch', config: { giftProductId: 'pouch', minimumAmount: 50 } });
+    const ring = { id: 'a', productId: 'ring', price: 60, quantity: 1 };
+
+    const withoutGift = evaluatePromotions([gift], [ring], now);
+    expect(withoutGift.total).toBe(0);
+    expect(withoutGift.availableGifts).toHaveLength(1);
+
+    const withGift = evaluatePromotions([gift], [ring, { id: 'b', productId: 'pouch', price: 4, quantity: 2 }], now);
+    expect(withGift.lineDiscounts).toEqual({ b: 4 });
+  });
+
+  it('should skip promotions that are inactive or out of date', () => {
+    const lines = [{ id: 'a', productId: 'ring', price: 30, quantity: 2 }];
+    const result = evaluatePromotions(
+      [
+        promotion({ isActive: false }),
+        promotion({ id: 'promo-2', endsAt: new Date('2024-05-01') }),
+      ],
+      lines,
+      now
+    );
+
+    expect(result.applied).toHaveLength(0);
+  });
+
+  it('should keep promotion discounts on their lines when priced', () => {
+    const lines = [
+      { id: 'a', productId: 'ring', price: 30, quantity: 1 },
+      { id: 'b', productId: 'toe-ring', price: 10, quantity: 1 },
+    ];
+    const promotions = evaluatePromotions([promotion({ type: 'bogo' })], lines, now);
+
+    const pricing = priceOrder(lines, { ...STORE_PRICING, lineDiscounts: promotions.lineDiscounts });
+
+    expect(pricing.discountAmount).toBe(10);
+    expect(pricing.lines.map(line => line.discountAmount)).toEqual([0, 10]);
+  });
+});
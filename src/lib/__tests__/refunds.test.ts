@@ -0,0 +1,100 @@
+// Tests for the refund ledger
+import { getRefundableAmount, planRefund, RecordedRefund } from '../refunds';
+
+// 3 rings and a chain, 12% tax on top, 10.00 shipping taxed at 1.20
+const order = {
+  total: 168,
+  paymentStatus: 'paid',
+  totalPaid: 168,
+  totalRefunded: 0,
+  taxAmount: 18,
+  taxesIncluded: false,
+  shippingAmount: 10,
+  taxBreakdown: { shipping: { taxAmount: 1.2 } },
+};
+const items = [
+  { id: 'rings', quantity: 3, lineTotal: 100, discountAmount: 10, taxAmount: 10.8 },
+  { id: 'chain', quantity: 1, lineTotal: 50, taxAmount: 6 },
+];
+
+describe('Refund ledger', () => {
+  it('should refund what was captured less earlier refunds', () => {
+    expect(getRefundableAmount({ total: 100, paymentStatus: 'partial', totalPaid: 60.3, totalRefunded: 20.1 })).toBe(40.2);
+    expect(getRefundableAmount({ total: 100, paymentStatus: 'paid', totalPaid: 0 })).toBe(100);
+    expect(getRefundableAmount({ total: 100, paymentStatus: 'pending', totalPaid: 0 })).toBe(0);
+    expect(getRefundableAmount({ total: 100, paymentStatus: 'paid', totalRefunded: 150 })).toBe(0);
+  });
+
+  it('should prorate discounts and tax for line refunds', () => {
+    const plan = planRefund(order, items, [], { type: 'line', lines: [{ orderItemId: 'rings', quantity: 1 }] });
+
+    expect(plan.valid).toBe(true);
+    expect(plan.lines).toEqual([{ orderItemId: 'rings', quantity: 1, subtotal: 30, taxAmount: 3.6 }]);
+    expect(plan.amount).toBe(33.6);
+    expect(plan.paymentStatus).toBe('partially_refunded');
+  });
+
+  it('should leave rounding to the last units refunded', () => {
+    const line = { id: 'studs', quantity: 3, lineTotal: 10 };
+    const paid = { total: 10, paymentStatus: 'paid', taxesIncluded: true };
+    const first = planRefund(paid, [line], [], { type: 'line', lines: [{ orderItemId: 'studs', quantity: 1 }] });
+    const second = planRefund({ ...paid, totalRefunded: first.amount }, [line], [first], {
+      type: 'line',
+      lines: [{ orderItemId: 'studs', quantity: 2 }]
+    });
+
+    expect(first.amount).toBe(3.33);
+    expect(second.amount).toBe(6.67);
+    expect(second.paymentStatus).toBe('refunded');
+  });
+
+  it('should not refund more units than were bought', () => {
+    const refunds: RecordedRefund[] = [{ amount: 67.2, lines: [{ orderItemId: 'rings', quantity: 2, subtotal: 60, taxAmount: 7.2 }] }];
+    const plan = planRefund({ ...order, totalRefunded: 67.2 }, items, refunds, {
+      type: 'line',
+      lines: [{ orderItemId: 'rings', quantity: 2 }]
+    });
+
+    expect(plan.valid).toBe(false);
+    expect(plan.error).toBe('Only 1 of this item can be refunded');
+  });
+
+  it('should refund shipping and its tax once', () => {
+    const plan = planRefund(order, items, [], { type: 'shipping' });
+
+    expect(plan.amount).toBe(11.2);
+    expect(plan.shippingAmount).toBe(10);
+    expect(plan.taxAmount).toBe(1.2);
+    expect(planRefund(order, items, [{ amount: 11.2, shippingAmount: 10 }], { type: 'shipping' }).valid).toBe(false);
+  });
+
+  it('should split ad-hoc amounts between merchandise and tax', () => {
+    const plan = planRefund(order, items, [], { type: 'partial', amount: 84 });
+
+    expect(plan.taxAmount).toBe(9);
+    expect(plan.subtotal).toBe(75);
+    expect(planRefund(order, items, [], { type: 'partial', amount: 168.01 }).error)
+      .toBe('Refund cannot exceed 168 still captured on this order');
+  });
+
+  it('should cap a full refund to what is still captured', () => {
+    const plan = planRefund({ ...order, totalRefunded: 84 }, items, [{ amount: 84 }], { type: 'full' });
+
+    expect(plan.amount).toBe(84);
+    expect(plan.taxAmount).toBe(9);
+    expect(plan.lines.map(line => line.quantity)).toEqual([3, 1]);
+    expect(plan.paymentStatus).toBe('refunded');
+  });
+
+  it('should not add tax to refunds when prices include it', () => {
+    const plan = planRefund({ ...order, taxesIncluded: true }, items, [], { type: 'line', lines: [{ orderItemId: 'rings', quantity: 1 }] });
+
+    expect(plan.amount).toBe(30);
+    expect(plan.taxAmount).toBe(3.6);
+  });
+
+  it('should reject refunds on unpaid orders', () => {
+    expect(planRefund({ ...order, paymentStatus: 'pending', totalPaid: 0 }, items, [], { type: 'full' }).error)
+      .toBe('Nothing left to refund on this order');
+  });
+});
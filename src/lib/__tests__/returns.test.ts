@@ -0,0 +1,58 @@
+// Tests for return windows, returnable quantities and refund values
+import {
+  canTransitionReturn,
+  generateRmaNumber,
+  getReturnableQuantity,
+  isWithinReturnWindow,
+} from '../returns';
+
+const delivered = {
+  status: 'completed',
+  fulfillmentStatus: 'fulfilled',
+  closedAt: '2024-05-01T10:00:00Z',
+  createdAt: '2024-04-20T10:00:00Z',
+};
+
+describe('Returns', () => {
+  it('should accept returns only within the window after delivery', () => {
+    expect(isWithinReturnWindow(delivered, new Date('2024-05-16T10:00:00Z'))).toBe(true);
+    expect(isWithinReturnWindow(delivered, new Date('2024-05-16T10:00:01Z'))).toBe(false);
+    expect(isWithinReturnWindow({ ...delivered, fulfillmentStatus: 'unfulfilled' }, new Date('2024-05-02'))).toBe(false);
+    expect(isWithinReturnWindow({ ...delivered, status: 'cancelled' }, new Date('2024-05-02'))).toBe(false);
+  });
+
+  it('should start the window at the last delivery, not at later edits', () => {
+    const shipped = {
+      status: 'completed',
+      fulfillmentStatus: 'fulfilled',
+      updatedAt: '2024-06-20T10:00:00Z',
+      shipments: [{ deliveredAt: '2024-05-01T10:00:00Z' }, { deliveredAt: '2024-05-03T10:00:00Z' }, { deliveredAt: null }],
+    };
+
+    expect(isWithinReturnWindow(shipped, new Date('2024-05-18T10:00:00Z'))).toBe(true);
+    expect(isWithinReturnWindow(shipped, new Date('2024-05-18T10:00:01Z'))).toBe(false);
+    expect(isWithinReturnWindow({ ...shipped, shipments: [] }, new Date('2024-06-21'))).toBe(false);
+  });
+
+  it('should not count rejected returns against the returnable quantity', () => {
+    const returns = [
+      { orderItemId: 'line-1', quantity: 1, status: 'approved' as const },
+      { orderItemId: 'line-1', quantity: 2, status: 'rejected' as const },
+      { orderItemId: 'line-2', quantity: 1, status: 'requested' as const },
+    ];
+
+    expect(getReturnableQuantity({ id: 'line-1', quantity: 3 }, returns)).toBe(2);
+    expect(getReturnableQuantity({ id: 'line-2', quantity: 1 }, returns)).toBe(0);
+  });
+
+  it('should follow the return status flow', () => {
+    expect(canTransitionReturn('requested', 'approved')).toBe(true);
+    expect(canTransitionReturn('approved', 'received')).toBe(true);
+    expect(canTransitionReturn('requested', 'received')).toBe(false);
+    expect(canTransitionReturn('refunded', 'exchanged')).toBe(false);
+  });
+
+  it('should number returns per order', () => {
+    expect(generateRmaNumber('1042', 2)).toBe('RMA-1042-2');
+  });
+});
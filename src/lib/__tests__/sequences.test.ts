@@ -0,0 +1,37 @@
+// Tests for claiming numbers from a shared sequence
+import { claimNextInSequence, MAX_SEQUENCE_ATTEMPTS } from '../sequences';
+
+describe('claimNextInSequence', () => {
+  it('should start at the first number and continue after the latest claim', async () => {
+    const claim = jest.fn(async (sequence: number) => sequence);
+
+    await expect(claimNextInSequence({ start: 1001, latest: async () => undefined, claim })).resolves.toBe(1001);
+    await expect(claimNextInSequence({ start: 1001, latest: async () => 1041, claim })).resolves.toBe(1042);
+  });
+
+  it('should read the latest claim again after a conflict', async () => {
+    const latest = jest.fn().mockResolvedValueOnce(4).mockResolvedValueOnce(5);
+    const claim = jest.fn()
+      .mockRejectedValueOnce(new Error('Unique attribute already exists'))
+      .mockImplementation(async (sequence: number) => sequence);
+
+    await expect(claimNextInSequence({ start: 1, latest, claim })).resolves.toBe(6);
+    expect(claim).toHaveBeenCalledWith(5);
+  });
+
+  it('should stop when the conflict handler returns a result', async () => {
+    const claim = jest.fn().mockRejectedValue(new Error('Unique attribute already exists'));
+
+    const result = await claimNextInSequence({ start: 1, latest: async () => 1, claim, onConflict: async () => 'claimed elsewhere' });
+
+    expect(result).toBe('claimed elsewhere');
+    expect(claim).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow the conflict once the attempts run out', async () => {
+    const claim = jest.fn().mockRejectedValue(new Error('Unique attribute already exists'));
+
+    await expect(claimNextInSequence({ start: 1, latest: async () => 1, claim })).rejects.toThrow('Unique attribute already exists');
+    expect(claim).toHaveBeenCalledTimes(MAX_SEQUENCE_ATTEMPTS);
+  });
+});
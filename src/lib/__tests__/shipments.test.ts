@@ -0,0 +1,69 @@
+// Tests for packing order items into shipments and deriving fulfillment
+import {
+  buildTrackingUrl,
+  canTransitionShipment,
+  deriveFulfillmentStatus,
+  getLineFulfillmentStatus,
+  getUnpackedQuantity,
+  ShipmentRecord,
+  validateShipmentLines,
+} from '../shipments';
+
+describe('Shipments', () => {
+  const items = [
+    { id: 'ring', quantity: 3 },
+    { id: 'chain', quantity: 1 },
+  ];
+
+  const shipment = (status: ShipmentRecord['status'], lines: ShipmentRecord['lines']): ShipmentRecord => ({ status, lines });
+
+  it('should only count packages that were not cancelled', () => {
+    const shipments = [
+      shipment('shipped', [{ orderItemId: 'ring', quantity: 1 }]),
+      shipment('cancelled', [{ orderItemId: 'ring', quantity: 2 }]),
+      shipment('pending', [{ orderItemId: 'ring', quantity: 1 }]),
+    ];
+
+    expect(getUnpackedQuantity(items[0], shipments)).toBe(1);
+  });
+
+  it('should not pack more than is left on the order', () => {
+    const shipments = [shipment('shipped', [{ orderItemId: 'ring', quantity: 2 }])];
+
+    expect(validateShipmentLines(items, shipments, [{ orderItemId: 'ring', quantity: 1 }]).valid).toBe(true);
+    expect(validateShipmentLines(items, shipments, [{ orderItemId: 'ring', quantity: 2 }]).error).toBe('Only 1 of this item are left to pack');
+    expect(validateShipmentLines(items, [], [{ orderItemId: 'ring', quantity: 2 }, { orderItemId: 'ring', quantity: 2 }]).valid).toBe(false);
+    expect(validateShipmentLines(items, [], [{ orderItemId: 'bangle', quantity: 1 }]).error).toBe('Item not found on this order');
+    expect(validateShipmentLines(items, [], [{ orderItemId: 'chain', quantity: 0 }]).valid).toBe(false);
+  });
+
+  it('should derive fulfillment from the packages that have shipped', () => {
+    const packed = [shipment('pending', [{ orderItemId: 'ring', quantity: 3 }, { orderItemId: 'chain', quantity: 1 }])];
+    const partial = [
+      shipment('delivered', [{ orderItemId: 'ring', quantity: 2 }]),
+      shipment('pending', [{ orderItemId: 'ring', quantity: 1 }, { orderItemId: 'chain', quantity: 1 }]),
+    ];
+    const complete = [
+      shipment('delivered', [{ orderItemId: 'ring', quantity: 2 }]),
+      shipment('shipped', [{ orderItemId: 'ring', quantity: 1 }, { orderItemId: 'chain', quantity: 1 }]),
+    ];
+
+    expect(deriveFulfillmentStatus(items, packed)).toBe('unfulfilled');
+    expect(deriveFulfillmentStatus(items, partial)).toBe('partial');
+    expect(getLineFulfillmentStatus(items[0], partial)).toBe('partial');
+    expect(getLineFulfillmentStatus(items[1], partial)).toBe('unfulfilled');
+    expect(deriveFulfillmentStatus(items, complete)).toBe('fulfilled');
+  });
+
+  it('should only cancel packages that have not shipped', () => {
+    expect(canTransitionShipment('pending', 'cancelled')).toBe(true);
+    expect(canTransitionShipment('shipped', 'cancelled')).toBe(false);
+    expect(canTransitionShipment('delivered', 'shipped')).toBe(false);
+  });
+
+  it('should build tracking links for known carriers', () => {
+    expect(buildTrackingUrl('delhivery', ' 1234 5678 ')).toBe('https://www.delhivery.com/track/package/1234%205678');
+    expect(buildTrackingUrl('indiapost', 'EE123456789IN')).toBeUndefined();
+    expect(buildTrackingUrl('delhivery', undefined)).toBeUndefined();
+  });
+});
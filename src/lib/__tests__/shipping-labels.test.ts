@@ -0,0 +1,38 @@
+// Tests for ZPL and PDF shipping label documents
+import { buildPdfLabel, buildZplLabel, formatLabelAddress, LabelContent } from '../shipping-labels';
+
+describe('Shipping labels', () => {
+  const content: LabelContent = {
+    trackingNumber: 'MOCK00000001',
+    carrierName: 'Mock Carrier',
+    service: 'Mock Standard',
+    reference: 'ORD-1042',
+    weight: 750,
+    from: { name: 'Silvers', street: '12 Anna Salai', city: 'Chennai', state: 'Tamil Nadu', postalCode: '600002', country: 'IN' },
+    to: { name: 'Priya (Home)', street: '4 Main Rd^FS', city: 'Madurai', state: 'Tamil Nadu', postalCode: '625001', phone: '9876543210' },
+  };
+
+  it('should print addresses one line each and skip blanks', () => {
+    expect(formatLabelAddress({ name: 'Anbu', city: 'Salem', postalCode: '636001' })).toEqual(['Anbu', 'Salem, 636001']);
+  });
+
+  it('should build a ZPL label with a barcode and no stray commands', () => {
+    const zpl = buildZplLabel(content);
+
+    expect(zpl.startsWith('^XA')).toBe(true);
+    expect(zpl.endsWith('^XZ')).toBe(true);
+    expect(zpl).toContain('^BCN,150,Y,N,N^FDMOCK00000001^FS');
+    expect(zpl).toContain('^FD4 Main Rd FS^FS');
+  });
+
+  it('should build a PDF whose cross-reference offsets point at its objects', () => {
+    const pdf = buildPdfLabel(content);
+    const startxref = parseInt(pdf.match(/startxref\n(\d+)/)![1], 10);
+    const offsets = [...pdf.matchAll(/(\d{10}) 00000 n/g)].map(match => parseInt(match[1], 10));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.slice(startxref).startsWith('xref')).toBe(true);
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true));
+    expect(pdf).toContain('(Priya \\(Home\\)) Tj');
+  });
+});
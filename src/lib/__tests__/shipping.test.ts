@@ -0,0 +1,57 @@
+// Tests for shipping zones and rate tables
+import { calculateParcelWeight, findShippingZone, isPostalCodeInRange, quoteShipping, STORE_SHIPPING_ZONES } from '../shipping';
+import { calculateShipping } from '../order-calculations';
+
+describe('Shipping', () => {
+  it('should match the most specific zone listed first', () => {
+    expect(findShippingZone(STORE_SHIPPING_ZONES, { country: 'India', state: 'Tamil Nadu', postalCode: '600040' })?.id).toBe('chennai');
+    expect(findShippingZone(STORE_SHIPPING_ZONES, { country: 'IN', state: 'tamil nadu', postalCode: '641001' })?.id).toBe('tamil-nadu');
+    expect(findShippingZone(STORE_SHIPPING_ZONES, { country: 'IN', state: 'Kerala' })?.id).toBe('india');
+    expect(findShippingZone(STORE_SHIPPING_ZONES, { country: 'United States', state: 'CA' })?.id).toBe('international');
+    expect(findShippingZone(STORE_SHIPPING_ZONES, undefined)).toBeUndefined();
+  });
+
+  it('should compare postal codes numerically when possible', () => {
+    expect(isPostalCodeInRange('600 130', { from: '600001', to: '600130' })).toBe(true);
+    expect(isPostalCodeInRange('600131', { from: '600001', to: '600130' })).toBe(false);
+    expect(isPostalCodeInRange('SW1A', { from: 'SW1A', to: 'SW1Z' })).toBe(true);
+  });
+
+  it('should price methods from weight tiers, cheapest first', () => {
+    const quotes = quoteShipping(STORE_SHIPPING_ZONES, { country: 'IN', state: 'Kerala' }, { weight: 750, subtotal: 500 });
+
+    expect(quotes.map(quote => [quote.method, quote.amount])).toEqual([
+      ['standard', 120],
+      ['express', 220],
+    ]);
+  });
+
+  it('should drop methods the parcel is too heavy for and apply free thresholds', () => {
+    const heavy = quoteShipping(STORE_SHIPPING_ZONES, { country: 'IN', state: 'Kerala' }, { weight: 5000, subtotal: 2500 });
+
+    expect(heavy).toHaveLength(1);
+    expect(heavy[0]).toMatchObject({ method: 'standard', amount: 0 });
+  });
+
+  it('should price international standard shipping by order value', () => {
+    const quotes = quoteShipping(STORE_SHIPPING_ZONES, { country: 'US' }, { weight: 100, subtotal: 150 });
+    expect(quotes.find(quote => quote.method === 'standard')?.amount).toBe(35);
+  });
+
+  it('should use the selected method for calculated shipping settings', () => {
+    const amount = calculateShipping(500, {
+      type: 'calculated',
+      amount: 0,
+      destination: { country: 'IN', state: 'Tamil Nadu', postalCode: '600001' },
+      weight: 200,
+      method: 'pickup',
+    });
+
+    expect(amount).toBe(0);
+    expect(calculateShipping(500, { type: 'calculated', amount: 0, destination: { country: 'IN', state: 'Goa' }, weight: 200, method: 'express' })).toBe(150);
+  });
+
+  it('should use the default weight for items without one', () => {
+    expect(calculateParcelWeight([{ weight: 120, quantity: 2 }, { quantity: 1 }])).toBe(290);
+  });
+});
@@ -0,0 +1,65 @@
+// Tests for jurisdiction-based tax rules
+import { calculateTaxBreakdown, resolveTaxRate, STORE_TAX_RULES, TaxRules } from '../tax-engine';
+
+const lines = [
+  { id: 'ring', taxClass: 'jewellery', amount: 1030 },
+  { id: 'polish', taxClass: 'standard', amount: 118 },
+];
+
+describe('Tax engine', () => {
+  it('should split GST into CGST and SGST within the home state', () => {
+    const breakdown = calculateTaxBreakdown(lines, 0, { country: 'IN', state: 'tamil nadu' });
+
+    expect(breakdown.pricesIncludeTax).toBe(true);
+    expect(breakdown.lines[0].taxAmount).toBe(30);
+    expect(breakdown.lines[0].taxableAmount).toBe(1000);
+    expect(breakdown.lines[0].components).toEqual([
+      { name: 'CGST', rate: 1.5, amount: 15 },
+      { name: 'SGST', rate: 1.5, amount: 15 },
+    ]);
+    expect(breakdown.lines[1].taxAmount).toBe(18);
+    expect(breakdown.taxAmount).toBe(48);
+  });
+
+  it('should charge IGST on inter-state sales', () => {
+    const breakdown = calculateTaxBreakdown(lines, 0, { country: 'India', state: 'Karnataka' });
+
+    expect(breakdown.components).toEqual([
+      { name: 'IGST', rate: 3, amount: 30 },
+      { name: 'IGST', rate: 18, amount: 18 },
+    ]);
+  });
+
+  it('should keep CGST and SGST equal to the line tax when splitting odd cents', () => {
+    const breakdown = calculateTaxBreakdown([{ id: 'a', taxClass: 'jewellery', amount: 10.33 }], 0, {
+      country: 'IN',
+      state: 'Tamil Nadu',
+    });
+    const [cgst, sgst] = breakdown.lines[0].components;
+
+    expect(Math.round((cgst.amount + sgst.amount) * 100)).toBe(Math.round(breakdown.lines[0].taxAmount * 100));
+  });
+
+  it('should add exclusive tax and apply state overrides', () => {
+    const rules: TaxRules = {
+      ...STORE_TAX_RULES,
+      jurisdictions: [
+        ...STORE_TAX_RULES.jurisdictions,
+        { country: 'US', name: 'Sales Tax', pricesIncludeTax: false, rates: { standard: 6 }, states: { CA: { standard: 7.25 } } },
+      ],
+    };
+
+    expect(resolveTaxRate(rules.jurisdictions[1], 'jewellery', 'NY')).toBe(6);
+    const breakdown = calculateTaxBreakdown([{ id: 'a', amount: 100 }], 10, { country: 'US', state: 'CA' }, rules);
+
+    expect(breakdown.pricesIncludeTax).toBe(false);
+    expect(breakdown.lines[0].taxAmount).toBe(7.25);
+    expect(breakdown.shipping?.taxAmount).toBe(0.73);
+    expect(breakdown.taxAmount).toBe(7.98);
+  });
+
+  it('should fall back to the flat rate when no address is known', () => {
+    const breakdown = calculateTaxBreakdown([{ id: 'a', amount: 100 }], 0, undefined);
+    expect(breakdown.taxAmount).toBe(8.5);
+  });
+});
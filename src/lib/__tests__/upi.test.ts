@@ -0,0 +1,29 @@
+// Tests for UPI payment intents and references
+import { buildUpiPaymentUri, isValidUtr, isValidVpa, normalizeUtr } from '../upi';
+
+describe('UPI', () => {
+  it('should build a upi://pay intent for the order', () => {
+    const uri = buildUpiPaymentUri({ vpa: 'silvers@okaxis', name: 'Silvers & Co' }, { amount: 1250.5, orderNumber: '1042', currency: 'INR' });
+
+    expect(uri).toBe('upi://pay?pa=silvers%40okaxis&pn=Silvers%20%26%20Co&am=1250.50&cu=INR&tn=Order%201042&tr=1042');
+  });
+
+  it('should refuse orders not priced in rupees', () => {
+    expect(() => buildUpiPaymentUri({ vpa: 'silvers@okaxis', name: 'Silvers' }, { amount: 20, orderNumber: '1042', currency: 'USD' }))
+      .toThrow('UPI payments must be in INR, not USD');
+  });
+
+  it('should check VPAs', () => {
+    expect(isValidVpa('silvers@okaxis')).toBe(true);
+    expect(isValidVpa('silvers.store-1@ybl')).toBe(true);
+    expect(isValidVpa('silvers')).toBe(false);
+    expect(isValidVpa('')).toBe(false);
+  });
+
+  it('should accept 12-digit UTRs with stray spaces', () => {
+    expect(normalizeUtr(' 4123 5678 9012 ')).toBe('412356789012');
+    expect(isValidUtr('4123 5678 9012')).toBe(true);
+    expect(isValidUtr('41235678901')).toBe(false);
+    expect(isValidUtr('ABCD56789012')).toBe(false);
+  });
+});
@@ -1,6 +1,28 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Alert } from 'react-native';
+import { db } from './instant';
+import { useAuth } from './auth-context';
+import { cartService, mapCartRow, getCartLineKey, calculateCartLineTotal, applyMetalRate, applyPriceList, planReorder, MAX_CART_LINE_QUANTITY, ReorderPlan, ReorderSourceLine } from '../services/cart-service';
+import { inventoryService, checkCartStock, getAvailableQuantity, ItemStock, LineStockStatus } from '../services/inventory-service';
+import { priceOrder, PricingResult, STORE_PRICING } from './pricing';
+import {
+  calculateParcelWeight,
+  quoteShipping,
+  ShippingDestination,
+  ShippingMethodId,
+  ShippingQuote,
+  STORE_SHIPPING_ZONES
+} from './shipping';
+import { evaluatePromotions, Promotion, PromotionResult } from './promotions';
+import { money, sum, toMajor } from './money';
+import { MetalPricingSpec, MetalPriceBreakdown } from './metal-pricing';
+import { useMetalRates } from '../hooks/useMetalRates';
+import { usePriceLists } from '../hooks/usePriceLists';
+import { useGuestCartMerge } from '../hooks/useGuestCartMerge';
+import { discountService, evaluateDiscount, toPricingDiscount, DiscountCode, DiscountEvaluation } from '../services/discount-service';
+import { getPaymentMethods } from '../services/payments';
+import { getPaymentFee } from './cod';
 
 export interface CartItem {
   id: string;
@@ -13,9 +35,17 @@ export interface CartItem {
   total: number;
   image?: string;
   sku?: string;
+  collectionId?: string; // Used to scope discount codes
+  taxClass?: string; // Product tax class for the tax engine
+  hsnCode?: string; // Printed on the tax invoice
+  metalPricing?: MetalPricingSpec; // Weight and charges for lines priced from the metal rate
+  metalPrice?: MetalPriceBreakdown; // Live price breakdown, locked into the order item at checkout
+  regularPrice?: number; // Price before the shopper's price list
+  priceListId?: string;
   sessionId?: string;
   userId?: string;
   createdAt: Date;
+  updatedAt?: Date;
 }
 
 export interface CartTotals {
@@ -37,80 +67,170 @@ interface CartContextType {
   updateQuantity: (itemId: string, quantity: number) => Promise<void>;
   removeItem: (itemId: string) => Promise<void>;
   clearCart: () => Promise<void>;
+  // Add a past order's lines again at today's prices, as far as stock allows
+  reorder: (lines: ReorderSourceLine[]) => Promise<ReorderPlan | null>;
   
   // Utility functions
   getItem: (itemId: string) => CartItem | undefined;
   hasItem: (productId: string, itemId?: string) => boolean;
+
+  // Inventory
+  stockStatus: Record<string, LineStockStatus>;
+  hasStockIssues: boolean;
   
-  // Settings
-  taxRate: number;
-  setTaxRate: (rate: number) => void;
+  // Full pricing breakdown, including per-line discount and tax
+  pricing: PricingResult;
+  // Delivery address used to resolve tax and shipping (set at checkout)
+  deliveryAddress: ShippingDestination | undefined;
+  setDeliveryAddress: (address: ShippingDestination | undefined) => void;
+
+  // Shipping methods available for the delivery address, cheapest first
+  shippingQuotes: ShippingQuote[];
+  selectedShipping: ShippingQuote | undefined;
+  setShippingMethod: (method: ShippingMethodId) => void;
+  parcelWeight: number;
+
+  // Payment method chosen at checkout; some methods add a fee (cash on delivery)
+  paymentMethodId: string;
+  setPaymentMethod: (methodId: string) => void;
+
+  // Automatic promotions applied to the cart
+  promotions: PromotionResult;
+
+  // Discount codes
+  appliedDiscount: DiscountCode | null;
+  discountEvaluation: DiscountEvaluation | null;
+  applyDiscountCode: (code: string) => Promise<{ success: boolean; error?: string }>;
+  removeDiscountCode: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 const CART_STORAGE_KEY = '@cart_items';
-const TAX_RATE_STORAGE_KEY = '@cart_tax_rate';
 
 export function CartProvider({ children }: { children: React.ReactNode }) {
-  const [items, setItems] = useState<CartItem[]>([]);
-  const [taxRate, setTaxRateState] = useState(0.1); // 10% default
-  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  // Guest cart lives in AsyncStorage until the shopper signs in
+  const [guestItems, setGuestItems] = useState<CartItem[]>([]);
+  const [isStorageLoading, setIsStorageLoading] = useState(true);
+  const [deliveryAddress, setDeliveryAddress] = useState<ShippingDestination | undefined>(undefined);
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethodId>('standard');
+  const [paymentMethodId, setPaymentMethod] = useState<string>(getPaymentMethods()[0].id);
+  const [appliedDiscount, setAppliedDiscount] = useState<{ discount: DiscountCode; redemptions?: number; customerRedemptions?: number } | null>(null);
+
+  // Signed-in carts are stored in the `cart` entity so they follow the user across devices
+  const { data: cartData, isLoading: isServerCartLoading } = db.useQuery(
+    user ? {
+      cart: {
+        $: {
+          where: {
+            userId: user.id
+          }
+        }
+      }
+    } : null
+  );
+
+  const serverItems = React.useMemo(() => {
+    return (cartData?.cart || [])
+      .map(mapCartRow)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }, [cartData]);
+
+  const storedItems = user ? serverItems : guestItems;
+
+  // Metal-priced lines follow the current rate until the order is placed,
+  // then the shopper's customer-group price lists apply on top
+  const { rates: metalRates } = useMetalRates();
+  const priceListContext = usePriceLists();
+  const items = React.useMemo(
+    () => storedItems.map(item => applyPriceList(applyMetalRate(item, metalRates), priceListContext)),
+    [storedItems, metalRates, priceListContext]
+  );
+  const isLoading = isStorageLoading || (!!user && isServerCartLoading);
+
+  // Live stock for every variant in the cart
+  const cartItemIds = React.useMemo(
+    () => Array.from(new Set(items.map(item => item.itemId).filter((itemId): itemId is string => !!itemId))),
+    [items]
+  );
+
+  const { data: stockData } = db.useQuery(
+    cartItemIds.length > 0 ? {
+      items: {
+        $: {
+          where: {
+            id: { $in: cartItemIds }
+          }
+        },
+        ilocations: {}
+      }
+    } : null
+  );
+
+  const stockByItemId = React.useMemo(() => {
+    const stock: Record<string, ItemStock> = {};
+    (stockData?.items || []).forEach(item => {
+      stock[item.id] = item as ItemStock;
+    });
+    return stock;
+  }, [stockData]);
+
+  const stockStatus = React.useMemo(() => {
+    const statuses: Record<string, LineStockStatus> = {};
+    checkCartStock(items, stockByItemId).forEach(status => {
+      statuses[status.lineId] = status;
+    });
+    return statuses;
+  }, [items, stockByItemId]);
+
+  const hasStockIssues = Object.values(stockStatus).some(status => status.status !== 'in_stock');
 
   // Load cart from storage on mount
   useEffect(() => {
     loadCart();
   }, []);
 
-  // Save cart to storage whenever items change
+  // Save guest cart to storage whenever it changes
   useEffect(() => {
-    if (!isLoading) {
+    if (!isStorageLoading) {
       saveCart();
     }
-  }, [items, isLoading]);
+  }, [guestItems, isStorageLoading]);
+
+  // Merge the guest cart into the server cart once per sign-in
+  useGuestCartMerge(user?.id, guestItems, isStorageLoading, async () => {
+    setGuestItems([]);
+    await AsyncStorage.removeItem(CART_STORAGE_KEY);
+  });
 
   const loadCart = async () => {
     try {
-      const [cartData, taxRateData] = await Promise.all([
-        AsyncStorage.getItem(CART_STORAGE_KEY),
-        AsyncStorage.getItem(TAX_RATE_STORAGE_KEY)
-      ]);
+      const cartData = await AsyncStorage.getItem(CART_STORAGE_KEY);
 
       if (cartData) {
         const parsedItems = JSON.parse(cartData).map((item: any) => ({
           ...item,
-          createdAt: new Date(item.createdAt)
+          createdAt: new Date(item.createdAt),
+          updatedAt: item.updatedAt ? new Date(item.updatedAt) : undefined
         }));
-        setItems(parsedItems);
-      }
-
-      if (taxRateData) {
-        setTaxRateState(parseFloat(taxRateData));
+        setGuestItems(parsedItems);
       }
     } catch (error) {
       console.error('Failed to load cart from storage:', error);
     } finally {
-      setIsLoading(false);
+      setIsStorageLoading(false);
     }
   };
 
   const saveCart = async () => {
     try {
-      await AsyncStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
+      await AsyncStorage.setItem(CART_STORAGE_KEY, JSON.stringify(guestItems));
     } catch (error) {
       console.error('Failed to save cart to storage:', error);
     }
   };
 
-  const setTaxRate = useCallback(async (rate: number) => {
-    setTaxRateState(rate);
-    try {
-      await AsyncStorage.setItem(TAX_RATE_STORAGE_KEY, rate.toString());
-    } catch (error) {
-      console.error('Failed to save tax rate:', error);
-    }
-  }, []);
-
   // Generate unique ID for cart items
   const generateId = () => {
     return Date.now().toString(36) + Math.random().toString(36).substring(2);
@@ -118,12 +238,20 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
 
   const removeItem = useCallback(async (itemId: string) => {
     try {
-      setItems(prev => prev.filter(item => item.id !== itemId));
+      if (user) {
+        const result = await cartService.removeLine(itemId);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        return;
+      }
+
+      setGuestItems(prev => prev.filter(item => item.id !== itemId));
     } catch (error) {
       console.error('Failed to remove item from cart:', error);
       Alert.alert('Error', 'Failed to remove item from cart');
     }
-  }, []);
+  }, [user]);
 
   const updateQuantity = useCallback(async (itemId: string, quantity: number) => {
     try {
@@ -131,21 +259,38 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         throw new Error('Quantity cannot be negative');
       }
 
+      const line = items.find(item => item.id === itemId);
+      const currentStock = line?.itemId ? stockByItemId[line.itemId] : undefined;
+      const available = currentStock ? getAvailableQuantity(currentStock) : undefined;
+      if (line && available !== undefined && quantity > line.quantity && quantity > available) {
+        Alert.alert('Limited Stock', available > 0 ? `Only ${available} available` : 'This item is out of stock');
+        return;
+      }
+
+      if (user) {
+        const result = await cartService.updateLineQuantity(itemId, quantity);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        return;
+      }
+
       if (quantity === 0) {
-        setItems(prev => prev.filter(item => item.id !== itemId));
+        setGuestItems(prev => prev.filter(item => item.id !== itemId));
         return;
       }
 
-      setItems(prev => prev.map(item =>
+      const cappedQuantity = Math.min(quantity, MAX_CART_LINE_QUANTITY);
+      setGuestItems(prev => prev.map(item =>
         item.id === itemId
-          ? { ...item, quantity, total: Math.round(item.price * quantity * 100) / 100 }
+          ? { ...item, quantity: cappedQuantity, total: calculateCartLineTotal(item.price, cappedQuantity), updatedAt: new Date() }
           : item
       ));
     } catch (error) {
       console.error('Failed to update item quantity:', error);
       Alert.alert('Error', 'Failed to update item quantity');
     }
-  }, []);
+  }, [user, items, stockByItemId]);
 
   const addItem = useCallback(async (newItem: Omit<CartItem, 'id' | 'total' | 'createdAt'>) => {
     try {
@@ -154,21 +299,46 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         throw new Error('Invalid item data');
       }
 
-      setItems(prev => {
+      // Check the requested quantity against current inventory
+      if (newItem.itemId) {
+        const stock = await inventoryService.getStockSnapshot([newItem.itemId]);
+        const available = stock[newItem.itemId] ? getAvailableQuantity(stock[newItem.itemId]) : undefined;
+        const inCart = items.find(item => getCartLineKey(item) === getCartLineKey(newItem))?.quantity || 0;
+
+        if (available !== undefined && inCart + newItem.quantity > available) {
+          const remaining = Math.max(0, available - inCart);
+          Alert.alert(
+            'Limited Stock',
+            remaining > 0
+              ? `Only ${remaining} more of this item can be added to your cart`
+              : 'This item is out of stock'
+          );
+          return;
+        }
+      }
+
+      if (user) {
+        const result = await cartService.addLine(user.id, serverItems, newItem);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        return;
+      }
+
+      setGuestItems(prev => {
         // Check if item already exists (same product and variant)
-        const existingItem = prev.find(item =>
-          item.productId === newItem.productId &&
-          item.itemId === newItem.itemId
-        );
+        const existingItem = prev.find(item => getCartLineKey(item) === getCartLineKey(newItem));
 
         if (existingItem) {
           // Update quantity of existing item
+          const quantity = Math.min(existingItem.quantity + newItem.quantity, MAX_CART_LINE_QUANTITY);
           return prev.map(item =>
             item.id === existingItem.id
               ? {
                   ...item,
-                  quantity: item.quantity + newItem.quantity,
-                  total: Math.round(item.price * (item.quantity + newItem.quantity) * 100) / 100
+                  quantity,
+                  total: calculateCartLineTotal(item.price, quantity),
+                  updatedAt: new Date()
                 }
               : item
           );
@@ -177,7 +347,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
           const cartItem: CartItem = {
             ...newItem,
             id: generateId(),
-            total: Math.round(newItem.price * newItem.quantity * 100) / 100,
+            total: calculateCartLineTotal(newItem.price, newItem.quantity),
             createdAt: new Date()
           };
 
@@ -188,17 +358,70 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       console.error('Failed to add item to cart:', error);
       Alert.alert('Error', 'Failed to add item to cart');
     }
-  }, []);
+  }, [user, items, serverItems]);
+
+  const reorder = useCallback(async (lines: ReorderSourceLine[]) => {
+    try {
+      const catalog = await cartService.getReorderCatalog(lines);
+      const plan = planReorder(lines, catalog, items, metalRates, priceListContext);
+
+      if (user) {
+        const result = await cartService.addLines(user.id, serverItems, plan.additions);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        return plan;
+      }
+
+      setGuestItems(prev => {
+        let next = prev;
+        plan.additions.forEach(newItem => {
+          const existingItem = next.find(item => getCartLineKey(item) === getCartLineKey(newItem));
+          if (existingItem) {
+            const quantity = Math.min(existingItem.quantity + newItem.quantity, MAX_CART_LINE_QUANTITY);
+            next = next.map(item =>
+              item.id === existingItem.id
+                ? { ...item, quantity, price: newItem.price, total: calculateCartLineTotal(newItem.price, quantity), updatedAt: new Date() }
+                : item
+            );
+          } else {
+            next = [...next, {
+              ...newItem,
+              id: generateId(),
+              total: calculateCartLineTotal(newItem.price, newItem.quantity),
+              createdAt: new Date()
+            }];
+          }
+        });
+        return next;
+      });
+      return plan;
+    } catch (error) {
+      console.error('Failed to reorder:', error);
+      Alert.alert('Error', 'Failed to add these items to your cart');
+      return null;
+    }
+  }, [user, items, serverItems, metalRates, priceListContext]);
 
   const clearCart = useCallback(async () => {
     try {
-      setItems([]);
+      setAppliedDiscount(null);
+
+      if (user) {
+        const result = await cartService.clearUserCart(user.id, serverItems);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        return;
+      }
+
+      setGuestItems([]);
       await AsyncStorage.removeItem(CART_STORAGE_KEY);
     } catch (error) {
       console.error('Failed to clear cart:', error);
       Alert.alert('Error', 'Failed to clear cart');
     }
-  }, []);
+  }, [user, serverItems]);
 
   const getItem = useCallback((itemId: string) => {
     return items.find(item => item.id === itemId);
@@ -211,22 +434,83 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     );
   }, [items]);
 
-  // Calculate totals
-  const totals: CartTotals = React.useMemo(() => {
-    const subtotal = items.reduce((sum, item) => sum + item.total, 0);
-    const tax = subtotal * taxRate;
-    const shipping = 0; // Can be calculated based on shipping rules
-    const discount = 0; // Can be calculated based on discount codes
-    const total = subtotal + tax + shipping - discount;
-
-    return {
-      subtotal,
-      tax,
-      shipping,
-      discount,
-      total
-    };
-  }, [items, taxRate]);
+  // Automatic promotions run on every cart without a code
+  const { data: promotionData } = db.useQuery({
+    promotions: {
+      $: {
+        where: {
+          isActive: true
+        }
+      }
+    }
+  });
+
+  const promotions = React.useMemo(
+    () => evaluatePromotions((promotionData?.promotions || []) as Promotion[], items),
+    [promotionData, items]
+  );
+
+  const applyDiscountCode = useCallback(async (code: string) => {
+    const result = await discountService.validateCode(code, items, user?.email || undefined);
+    if (!result.success || !result.discount) {
+      return { success: false, error: result.error };
+    }
+
+    setAppliedDiscount({ discount: result.discount, redemptions: result.redemptions, customerRedemptions: result.customerRedemptions });
+    return { success: true };
+  }, [items, user?.email]);
+
+  const removeDiscountCode = useCallback(() => {
+    setAppliedDiscount(null);
+  }, []);
+
+  // Re-check the applied code whenever the cart changes (minimums, scope)
+  const discountEvaluation = React.useMemo(() => (
+    appliedDiscount
+      ? evaluateDiscount(appliedDiscount.discount, items, {
+          redemptions: appliedDiscount.redemptions,
+          customerRedemptions: appliedDiscount.customerRedemptions,
+        })
+      : null
+  ), [appliedDiscount, items]);
+
+  // Parcel weight from variant weights, then the jewellery's gross weight; otherwise the default weight
+  const parcelWeight = React.useMemo(() => calculateParcelWeight(items.map(item => ({
+    weight: (item.itemId ? stockByItemId[item.itemId]?.weight : undefined) ?? item.metalPricing?.grossWeight,
+    quantity: item.quantity
+  }))), [items, stockByItemId]);
+
+  const shippingQuotes = React.useMemo(() => quoteShipping(STORE_SHIPPING_ZONES, deliveryAddress, {
+    weight: parcelWeight,
+    subtotal: toMajor(sum(items.map(item => money(item.total))))
+  }), [deliveryAddress, parcelWeight, items]);
+
+  const selectedShipping = shippingQuotes.find(quote => quote.method === shippingMethod) || shippingQuotes[0];
+
+  // Calculate totals with the shared pricing pipeline used at checkout
+  const pricing = React.useMemo(() => priceOrder(items, {
+    ...STORE_PRICING,
+    taxAddress: deliveryAddress,
+    shipping: selectedShipping ? {
+      type: 'calculated',
+      amount: selectedShipping.amount,
+      zones: STORE_SHIPPING_ZONES,
+      destination: deliveryAddress,
+      weight: parcelWeight,
+      method: selectedShipping.method
+    } : STORE_PRICING.shipping,
+    lineDiscounts: promotions.lineDiscounts,
+    paymentFee: getPaymentFee(paymentMethodId),
+    ...(appliedDiscount && discountEvaluation ? toPricingDiscount(appliedDiscount.discount, discountEvaluation) : {})
+  }), [items, deliveryAddress, selectedShipping, parcelWeight, promotions, appliedDiscount, discountEvaluation, paymentMethodId]);
+
+  const totals: CartTotals = React.useMemo(() => ({
+    subtotal: pricing.subtotal,
+    tax: pricing.taxAmount,
+    shipping: pricing.shippingAmount,
+    discount: pricing.discountAmount,
+    total: pricing.total
+  }), [pricing]);
 
   const itemCount = items.reduce((count, item) => count + item.quantity, 0);
 
@@ -236,13 +520,28 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     itemCount,
     isLoading,
     addItem,
+    reorder,
     updateQuantity,
     removeItem,
     clearCart,
     getItem,
     hasItem,
-    taxRate,
-    setTaxRate
+    stockStatus,
+    hasStockIssues,
+    pricing,
+    deliveryAddress,
+    setDeliveryAddress,
+    shippingQuotes,
+    selectedShipping,
+    setShippingMethod,
+    parcelWeight,
+    paymentMethodId,
+    setPaymentMethod,
+    promotions,
+    appliedDiscount: appliedDiscount?.discount || null,
+    discountEvaluation,
+    applyDiscountCode,
+    removeDiscountCode
   };
 
   return (
@@ -0,0 +1,64 @@
+// Cash-on-delivery rules: who can pay on delivery, and the fee for it
+import { formatCurrency } from './order-calculations';
+import { isPostalCodeInRange, PostalCodeRange } from './shipping';
+
+export const COD_PAYMENT_METHOD = 'cod';
+
+export interface CodRules {
+  enabled: boolean;
+  maxOrderValue: number; // Compared with the subtotal, before the COD fee
+  postalCodes: PostalCodeRange[]; // Where couriers collect cash; anywhere when empty
+  fee: number; // Added to the order total through the pricing pipeline
+  maxRefusedDeliveries: number; // Customers who refused this many COD deliveries must pay upfront
+}
+
+export interface CodCheck {
+  orderValue: number;
+  postalCode?: string;
+  refusedDeliveries?: number;
+}
+
+export interface CodEligibility {
+  eligible: boolean;
+  reason?: string;
+}
+
+/**
+ * Store COD rules. Couriers only collect cash within Tamil Nadu.
+ */
+export const STORE_COD_RULES: CodRules = {
+  enabled: true,
+  maxOrderValue: 20000,
+  postalCodes: [{ from: '600001', to: '643253' }],
+  fee: 49,
+  maxRefusedDeliveries: 1,
+};
+
+/**
+ * Whether an order may be paid in cash on delivery, with the reason when it may not
+ */
+export function checkCodEligibility(check: CodCheck, rules: CodRules = STORE_COD_RULES): CodEligibility {
+  if (!rules.enabled) {
+    return { eligible: false, reason: 'Cash on delivery is not available right now' };
+  }
+  if ((check.refusedDeliveries || 0) >= rules.maxRefusedDeliveries) {
+    return { eligible: false, reason: 'Cash on delivery is not available for your account. Please pay online.' };
+  }
+  if (check.orderValue > rules.maxOrderValue) {
+    return { eligible: false, reason: `Cash on delivery is available for orders up to ${formatCurrency(rules.maxOrderValue)}` };
+  }
+  if (rules.postalCodes.length > 0) {
+    const postalCode = check.postalCode?.trim();
+    if (!postalCode || !rules.postalCodes.some(range => isPostalCodeInRange(postalCode, range))) {
+      return { eligible: false, reason: 'Cash on delivery is not available for this delivery address' };
+    }
+  }
+  return { eligible: true };
+}
+
+/**
+ * Fee charged for a payment method; only cash on delivery has one
+ */
+export function getPaymentFee(methodId: string | undefined, rules: CodRules = STORE_COD_RULES): number {
+  return methodId === COD_PAYMENT_METHOD && rules.enabled ? rules.fee : 0;
+}
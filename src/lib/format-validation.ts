@@ -203,13 +203,11 @@ export class OrderNumberValidator {
   }
 
   /**
-   * Generates a unique order number
+   * Formats a claimed sequence number, e.g. ORD-001001.
+   * Numbers are claimed through the order number service.
    */
-  static generate(storeId: string): string {
-    const timestamp = Date.now().toString(36).toUpperCase();
-    const storePrefix = storeId.substring(0, 3).toUpperCase();
-    const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-    return `${storePrefix}-${timestamp}-${random}`;
+  static format(prefix: string, sequence: number): string {
+    return `${prefix}-${String(sequence).padStart(6, '0')}`;
   }
 }
 
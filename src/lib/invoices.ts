@@ -0,0 +1,467 @@
+// GST tax invoices: per-financial-year numbering and HTML/PDF documents for orders
+import { DEFAULT_CURRENCY, money, sum, toMajor } from './money';
+import { buildPdf, PDF_PAGE_SIZES, PdfText } from './pdf';
+import { STORE_TAX_RULES, TaxComponent } from './tax-engine';
+
+export interface InvoiceSettings {
+  legalName: string;
+  gstin: string;
+  address: string[];
+  state: string; // Decides intra-state (CGST+SGST) vs inter-state (IGST) supply
+  prefix: string; // Up to 3 characters so numbers stay within the 16 allowed by GST rules
+  // HSN code per product tax class, for products that do not set their own
+  hsnCodes: Record<string, string>;
+  shippingSac: string;
+}
+
+export interface InvoiceParty {
+  name: string;
+  address: string[];
+  state?: string;
+  stateCode?: string;
+  gstin?: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  hsnCode?: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  taxableValue: number;
+  components: TaxComponent[];
+  total: number;
+}
+
+export interface InvoiceDocument {
+  number: string;
+  issuedAt: Date;
+  orderNumber: string;
+  currency: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  placeOfSupply: string; // e.g. 'Tamil Nadu (33)'
+  taxNames: string[]; // Tax columns, e.g. ['CGST', 'SGST'] or ['IGST']
+  lines: InvoiceLine[];
+  charges: { label: string; amount: number }[]; // Not taxed, e.g. the cash on delivery fee
+  taxTotals: TaxComponent[];
+  taxableValue: number;
+  taxAmount: number;
+  roundOff: number;
+  total: number;
+}
+
+export const STORE_INVOICE_SETTINGS: InvoiceSettings = {
+  legalName: process.env.EXPO_PUBLIC_STORE_LEGAL_NAME || 'Silvers',
+  gstin: process.env.EXPO_PUBLIC_STORE_GSTIN || '',
+  address: (process.env.EXPO_PUBLIC_STORE_ADDRESS || '').split('|').map(line => line.trim()).filter(Boolean),
+  state: STORE_TAX_RULES.origin.state || 'Tamil Nadu',
+  prefix: 'SLV',
+  hsnCodes: {
+    jewellery: '7113', // Articles of jewellery of precious metal
+  },
+  shippingSac: '996812', // Courier services
+};
+
+// GST state codes, used for the place of supply
+export const GST_STATE_CODES: Record<string, string> = {
+  'jammu and kashmir': '01',
+  'himachal pradesh': '02',
+  'punjab': '03',
+  'chandigarh': '04',
+  'uttarakhand': '05',
+  'haryana': '06',
+  'delhi': '07',
+  'rajasthan': '08',
+  'uttar pradesh': '09',
+  'bihar': '10',
+  'sikkim': '11',
+  'arunachal pradesh': '12',
+  'nagaland': '13',
+  'manipur': '14',
+  'mizoram': '15',
+  'tripura': '16',
+  'meghalaya': '17',
+  'assam': '18',
+  'west bengal': '19',
+  'jharkhand': '20',
+  'odisha': '21',
+  'orissa': '21',
+  'chhattisgarh': '22',
+  'madhya pradesh': '23',
+  'gujarat': '24',
+  'dadra and nagar haveli and daman and diu': '26',
+  'maharashtra': '27',
+  'karnataka': '29',
+  'goa': '30',
+  'lakshadweep': '31',
+  'kerala': '32',
+  'tamil nadu': '33',
+  'puducherry': '34',
+  'pondicherry': '34',
+  'andaman and nicobar islands': '35',
+  'telangana': '36',
+  'andhra pradesh': '37',
+  'ladakh': '38',
+};
+
+// Payment states in which the sale is complete enough to invoice
+export const INVOICEABLE_PAYMENT_STATUSES = ['paid', 'partial', 'cod_collected', 'partially_refunded', 'refunded'];
+
+// Indian Standard Time, so financial years and invoice dates do not depend on the device
+const IST_OFFSET_MINUTES = 330;
+const toIst = (date: Date) => new Date(date.getTime() + IST_OFFSET_MINUTES * 60000);
+
+/**
+ * Financial year (April to March) an invoice date falls in, e.g. '2025-26'
+ */
+export function getFinancialYear(date: Date): string {
+  const ist = toIst(date);
+  const start = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Invoice number for a sequence within a financial year, e.g. 'SLV/25-26/000042'
+ */
+export function formatInvoiceNumber(prefix: string, financialYear: string, sequence: number): string {
+  return `${prefix}/${financialYear.slice(2)}/${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * GST state code for a state name or code, if it is an Indian state
+ */
+export function getStateCode(state?: string): string | undefined {
+  const value = (state || '').trim().toLowerCase().replace(/&/g, 'and').replace(/\s+/g, ' ');
+  if (/^\d{2}$/.test(value)) {
+    return Object.values(GST_STATE_CODES).includes(value) ? value : undefined;
+  }
+  return GST_STATE_CODES[value];
+}
+
+export function canIssueInvoice(order: { status?: string; paymentStatus?: string }): boolean {
+  return order.status !== 'cancelled' && INVOICEABLE_PAYMENT_STATUSES.includes(order.paymentStatus || '');
+}
+
+const addressLines = (address: any): string[] => {
+  if (!address) {
+    return [];
+  }
+  const cityLine = [address.city, [address.state || address.province, address.zipCode || address.zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  return [address.street || address.address1, address.address2, cityLine, address.country]
+    .filter((line): line is string => !!line && String(line).trim().length > 0);
+};
+
+const totalOf = (values: number[], currency: string) => toMajor(sum(values.map(value => money(value, currency)), currency));
+
+/**
+ * Build the invoice for an order from its stored amounts.
+ * Taxable value and tax come from the order lines as priced at checkout,
+ * so the invoice always adds up to the order total.
+ */
+export function buildInvoice(
+  order: any,
+  items: any[],
+  issue: { number: string; issuedAt: Date; hsnCodes?: Record<string, string> },
+  settings: InvoiceSettings = STORE_INVOICE_SETTINGS
+): InvoiceDocument {
+  const currency = order.currency || DEFAULT_CURRENCY;
+  const inclusive = !!order.taxesIncluded;
+
+  const lines: InvoiceLine[] = items.map(item => {
+    const discount = item.discountAmount || 0;
+    const taxAmount = item.taxAmount || 0;
+    const net = totalOf([item.lineTotal, -discount], currency);
+    const taxableValue = inclusive ? totalOf([net, -taxAmount], currency) : net;
+    return {
+      description: item.variantTitle ? `${item.title} - ${item.variantTitle}` : item.title,
+      hsnCode: item.hsnCode || issue.hsnCodes?.[item.productId] || settings.hsnCodes[item.taxClass || STORE_TAX_RULES.defaultTaxClass || ''],
+      quantity: item.quantity,
+      unitPrice: item.price,
+      discount,
+      taxableValue,
+      components: item.taxBreakdown || [],
+      total: totalOf([taxableValue, taxAmount], currency),
+    };
+  });
+
+  const shipping = order.taxBreakdown?.shipping;
+  if (order.shippingAmount > 0) {
+    const taxableValue = shipping?.taxableAmount ?? order.shippingAmount;
+    lines.push({
+      description: order.shippingMethod?.name ? `Shipping - ${order.shippingMethod.name}` : 'Shipping',
+      hsnCode: settings.shippingSac,
+      quantity: 1,
+      unitPrice: order.shippingAmount,
+      discount: 0,
+      taxableValue,
+      components: shipping?.components || [],
+      total: totalOf([taxableValue, shipping?.taxAmount || 0], currency),
+    });
+  }
+
+  const charges = order.paymentFee > 0 ? [{ label: 'Cash on delivery fee', amount: order.paymentFee }] : [];
+
+  const taxTotals = new Map<string, TaxComponent>();
+  lines.forEach(line => line.components.forEach(component => {
+    const key = `${component.name}:${component.rate}`;
+    const existing = taxTotals.get(key);
+    taxTotals.set(key, existing
+      ? { ...existing, amount: totalOf([existing.amount, component.amount], currency) }
+      : { ...component });
+  }));
+
+  const taxableValue = totalOf(lines.map(line => line.taxableValue), currency);
+  const taxAmount = totalOf(Array.from(taxTotals.values()).map(component => component.amount), currency);
+  const computed = totalOf([taxableValue, taxAmount, ...charges.map(charge => charge.amount)], currency);
+  const total = typeof order.total === 'number' ? order.total : computed;
+
+  const delivery = order.shippingAddress || order.billingAddress;
+  const supplyState = delivery?.state || delivery?.province;
+  const supplyCode = getStateCode(supplyState);
+
+  return {
+    number: issue.number,
+    issuedAt: issue.issuedAt,
+    orderNumber: order.orderNumber,
+    currency,
+    seller: {
+      name: settings.legalName,
+      address: settings.address,
+      state: settings.state,
+      stateCode: getStateCode(settings.state),
+      gstin: settings.gstin || undefined,
+    },
+    buyer: {
+      name: order.billingAddress?.name || order.customerName || 'Customer',
+      address: addressLines(order.billingAddress || order.shippingAddress),
+      state: supplyState,
+      stateCode: supplyCode,
+      gstin: order.billingAddress?.gstin,
+    },
+    placeOfSupply: supplyState ? (supplyCode ? `${supplyState} (${supplyCode})` : supplyState) : settings.state,
+    taxNames: Array.from(new Set(Array.from(taxTotals.values()).map(component => component.name))),
+    lines,
+    charges,
+    taxTotals: Array.from(taxTotals.values()),
+    taxableValue,
+    taxAmount,
+    roundOff: totalOf([total, -computed], currency),
+    total,
+  };
+}
+
+const formatAmount = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount || 0);
+
+// Invoice dates are printed as DD-MM-YYYY in Indian Standard Time
+export function formatInvoiceDate(date: Date): string {
+  const ist = toIst(date);
+  return [ist.getUTCDate(), ist.getUTCMonth() + 1]
+    .map(part => String(part).padStart(2, '0'))
+    .concat(String(ist.getUTCFullYear()))
+    .join('-');
+}
+
+const componentFor = (line: InvoiceLine, name: string) => line.components.find(component => component.name === name);
+
+const escapeHtml = (value: string) =>
+  String(value ?? '').replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+/**
+ * Printable HTML invoice
+ */
+export function renderInvoiceHtml(invoice: InvoiceDocument): string {
+  const party = (title: string, value: InvoiceParty) => `
+    <td class="party">
+      <h3>${title}</h3>
+      <strong>${escapeHtml(value.name)}</strong><br/>
+      ${value.address.map(line => `${escapeHtml(line)}<br/>`).join('')}
+      ${value.state ? `State: ${escapeHtml(value.state)}${value.stateCode ? ` (${value.stateCode})` : ''}<br/>` : ''}
+      ${value.gstin ? `GSTIN: ${escapeHtml(value.gstin)}` : ''}
+    </td>`;
+
+  const taxHeaders = invoice.taxNames.map(name => `<th>${name} %</th><th>${name}</th>`).join('');
+  const rows = invoice.lines.map((line, index) => `
+      <tr>
+        <td>${index + 1}</td>
+        <td class="text">${escapeHtml(line.description)}</td>
+        <td>${escapeHtml(line.hsnCode || '')}</td>
+        <td>${line.quantity}</td>
+        <td>${formatAmount(line.unitPrice)}</td>
+        <td>${formatAmount(line.discount)}</td>
+        <td>${formatAmount(line.taxableValue)}</td>
+        ${invoice.taxNames.map(name => {
+          const component = componentFor(line, name);
+          return `<td>${component ? component.rate : 0}</td><td>${formatAmount(component?.amount || 0)}</td>`;
+        }).join('')}
+        <td>${formatAmount(line.total)}</td>
+      </tr>`).join('');
+
+  const summary = [
+    ['Taxable value', invoice.taxableValue],
+    ...invoice.taxTotals.map(component => [`${component.name} @ ${component.rate}%`, component.amount] as [string, number]),
+    ...invoice.charges.map(charge => [charge.label, charge.amount] as [string, number]),
+    ...(invoice.roundOff !== 0 ? [['Round off', invoice.roundOff] as [string, number]] : []),
+  ].map(([label, amount]) => `<tr><td class="text">${escapeHtml(String(label))}</td><td>${formatAmount(amount as number)}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8"/>
+  <title>Tax Invoice ${escapeHtml(invoice.number)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; color: #111827; margin: 32px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    h3 { font-size: 12px; margin: 0 0 4px; color: #6B7280; text-transform: uppercase; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { border: 1px solid #E5E7EB; padding: 6px; text-align: right; vertical-align: top; }
+    th { background: #F9FAFB; }
+    .text { text-align: left; }
+    .party { text-align: left; width: 50%; }
+    .summary { width: 50%; margin-left: auto; }
+    .total td { font-weight: bold; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <h1>Tax Invoice</h1>
+  <div>Invoice No: <strong>${escapeHtml(invoice.number)}</strong></div>
+  <div>Invoice Date: ${formatInvoiceDate(invoice.issuedAt)}</div>
+  <div>Order No: ${escapeHtml(invoice.orderNumber)}</div>
+  <div>Place of Supply: ${escapeHtml(invoice.placeOfSupply)}</div>
+  <table>
+    <tr>${party('Sold by', invoice.seller)}${party('Billed to', invoice.buyer)}</tr>
+  </table>
+  <table>
+    <thead>
+      <tr>
+        <th>#</th><th class="text">Description</th><th>HSN/SAC</th><th>Qty</th><th>Rate</th><th>Discount</th><th>Taxable value</th>
+        ${taxHeaders}
+        <th>Total (${escapeHtml(invoice.currency)})</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <table class="summary">
+    ${summary}
+    <tr class="total"><td class="text">Invoice total (${escapeHtml(invoice.currency)})</td><td>${formatAmount(invoice.total)}</td></tr>
+  </table>
+  <p>For ${escapeHtml(invoice.seller.name)}<br/><br/>Authorised signatory</p>
+  <p>This is a computer-generated invoice.</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * A4 PDF with the same content as the HTML invoice
+ */
+export function renderInvoicePdf(invoice: InvoiceDocument): string {
+  const { width, height } = PDF_PAGE_SIZES.a4;
+  const margin = 40;
+  const pages: PdfText[][] = [[]];
+  let y = height - margin;
+
+  const newPage = () => {
+    pages.push([]);
+    y = height - margin;
+  };
+  const text = (x: number, value: string, size = 8, bold = false) => {
+    pages[pages.length - 1].push({ x, y, size, text: value, bold });
+  };
+  const advance = (step: number) => {
+    y -= step;
+    if (y < margin) {
+      newPage();
+    }
+  };
+  // Right-align numbers by estimating Helvetica digit width
+  const right = (x: number, value: string, size = 8, bold = false) => text(x - value.length * size * 0.55, value, size, bold);
+
+  text(margin, 'TAX INVOICE', 16, true);
+  advance(24);
+  [
+    `Invoice No: ${invoice.number}`,
+    `Invoice Date: ${formatInvoiceDate(invoice.issuedAt)}`,
+    `Order No: ${invoice.orderNumber}`,
+    `Place of Supply: ${invoice.placeOfSupply}`,
+  ].forEach(line => {
+    text(margin, line, 9);
+    advance(12);
+  });
+  advance(6);
+
+  const partyLines = (value: InvoiceParty) => [
+    value.name,
+    ...value.address,
+    value.state && `State: ${value.state}${value.stateCode ? ` (${value.stateCode})` : ''}`,
+    value.gstin && `GSTIN: ${value.gstin}`,
+  ].filter((line): line is string => !!line);
+  const seller = partyLines(invoice.seller);
+  const buyer = partyLines(invoice.buyer);
+  text(margin, 'SOLD BY', 8, true);
+  text(width / 2, 'BILLED TO', 8, true);
+  advance(11);
+  for (let index = 0; index < Math.max(seller.length, buyer.length); index++) {
+    if (seller[index]) text(margin, seller[index], 8, index === 0);
+    if (buyer[index]) text(width / 2, buyer[index], 8, index === 0);
+    advance(10);
+  }
+  advance(10);
+
+  // Description, HSN and qty on the left; amounts right-aligned in columns
+  const taxColumns = invoice.taxNames.slice(0, 2);
+  const amountColumns = ['Rate', 'Taxable', ...taxColumns, 'Total'];
+  const columnRight = (index: number) => width - margin - (amountColumns.length - 1 - index) * 62;
+  const header = () => {
+    text(margin, 'Description', 8, true);
+    text(250, 'HSN/SAC', 8, true);
+    text(290, 'Qty', 8, true);
+    amountColumns.forEach((label, index) => right(columnRight(index), label, 8, true));
+    advance(12);
+  };
+
+  header();
+  invoice.lines.forEach(line => {
+    if (y < margin + 12) {
+      newPage();
+      header();
+    }
+    text(margin, line.description.length > 42 ? `${line.description.slice(0, 41)}...` : line.description);
+    text(250, line.hsnCode || '');
+    text(290, String(line.quantity));
+    const taxes = taxColumns.map(name => {
+      const component = componentFor(line, name);
+      return component ? `${formatAmount(component.amount)} @${component.rate}%` : '0.00';
+    });
+    [formatAmount(line.unitPrice), formatAmount(line.taxableValue), ...taxes, formatAmount(line.total)]
+      .forEach((value, index) => right(columnRight(index), value));
+    advance(11);
+  });
+  advance(10);
+
+  const summary: [string, number][] = [
+    ['Taxable value', invoice.taxableValue],
+    ...invoice.taxTotals.map(component => [`${component.name} @ ${component.rate}%`, component.amount] as [string, number]),
+    ...invoice.charges.map(charge => [charge.label, charge.amount] as [string, number]),
+    ...(invoice.roundOff !== 0 ? [['Round off', invoice.roundOff] as [string, number]] : []),
+  ];
+  summary.forEach(([label, amount]) => {
+    text(width / 2, label, 9);
+    right(width - margin, formatAmount(amount), 9);
+    advance(12);
+  });
+  text(width / 2, `Invoice total (${invoice.currency})`, 10, true);
+  right(width - margin, formatAmount(invoice.total), 10, true);
+  advance(36);
+  text(margin, `For ${invoice.seller.name}`, 9);
+  advance(24);
+  text(margin, 'Authorised signatory', 9);
+  advance(12);
+  text(margin, 'This is a computer-generated invoice.', 7);
+
+  return buildPdf(pages, PDF_PAGE_SIZES.a4);
+}
@@ -0,0 +1,167 @@
+// Live jewellery pricing from the metal rate table: weight × rate + wastage + making charges
+import { add, DEFAULT_CURRENCY, money, multiply, percentage, toMajor } from './money';
+
+export type MakingChargeType = 'flat' | 'per_gram' | 'percentage';
+
+export interface MetalRate {
+  id?: string;
+  metal: string; // e.g. 'silver'
+  purity: string; // e.g. '925', '999'
+  rate: number; // Price per gram
+  effectiveAt: Date | string;
+}
+
+// Metal attributes of a product or item (item values override the product)
+export interface MetalPricingSpec {
+  metal: string;
+  purity: string;
+  netWeight: number; // Grams of metal
+  grossWeight?: number; // Grams including stones, used for display
+  makingChargeType?: MakingChargeType;
+  makingCharge?: number; // Amount, amount per gram or percentage depending on type
+  wastage?: number; // Percentage of net weight charged as wastage
+}
+
+// Price breakdown locked into an order item at purchase time
+export interface MetalPriceBreakdown {
+  metal: string;
+  purity: string;
+  rate: number;
+  rateId?: string;
+  effectiveAt: string;
+  netWeight: number;
+  wastageWeight: number;
+  metalValue: number; // Includes wastage
+  makingCharges: number;
+  price: number;
+}
+
+const SPEC_FIELDS = ['metal', 'purity', 'netWeight', 'grossWeight', 'makingChargeType', 'makingCharge', 'wastage'] as const;
+
+const normalize = (value?: string): string => (value || '').trim().toLowerCase();
+
+/**
+ * Metal pricing attributes for a product, or a variant of it.
+ * Returns undefined when the product is sold at a fixed price.
+ */
+export function getMetalPricingSpec(product: any, item?: any): MetalPricingSpec | undefined {
+  const spec: Record<string, unknown> = {};
+  SPEC_FIELDS.forEach(field => {
+    spec[field] = item?.[field] ?? product?.[field];
+  });
+
+  if (!spec.metal || !spec.purity || !(Number(spec.netWeight) > 0)) {
+    return undefined;
+  }
+  return spec as unknown as MetalPricingSpec;
+}
+
+/**
+ * The rate in force for a metal and purity at a given time (latest effective rate wins)
+ */
+export function findMetalRate(rates: MetalRate[], metal: string, purity: string, at: Date = new Date()): MetalRate | undefined {
+  return rates
+    .filter(rate =>
+      normalize(rate.metal) === normalize(metal) &&
+      normalize(rate.purity) === normalize(purity) &&
+      new Date(rate.effectiveAt) <= at
+    )
+    .sort((a, b) => new Date(b.effectiveAt).getTime() - new Date(a.effectiveAt).getTime())[0];
+}
+
+/**
+ * Price one unit from its metal weight and a rate.
+ * Wastage is charged as extra metal weight; percentage making charges apply
+ * to the metal value including wastage.
+ */
+export function calculateMetalPrice(spec: MetalPricingSpec, rate: MetalRate, currency: string = DEFAULT_CURRENCY): MetalPriceBreakdown {
+  const perGram = money(rate.rate, currency);
+  const wastageWeight = spec.netWeight * ((spec.wastage || 0) / 100);
+  const metalValue = multiply(perGram, spec.netWeight + wastageWeight);
+
+  let makingCharges = money(0, currency);
+  switch (spec.makingChargeType) {
+    case 'flat':
+      makingCharges = money(spec.makingCharge || 0, currency);
+      break;
+    case 'per_gram':
+      makingCharges = multiply(money(spec.makingCharge || 0, currency), spec.netWeight);
+      break;
+    case 'percentage':
+      makingCharges = percentage(metalValue, spec.makingCharge || 0);
+      break;
+  }
+
+  return {
+    metal: spec.metal,
+    purity: spec.purity,
+    rate: rate.rate,
+    rateId: rate.id,
+    effectiveAt: new Date(rate.effectiveAt).toISOString(),
+    netWeight: spec.netWeight,
+    wastageWeight,
+    metalValue: toMajor(metalValue),
+    makingCharges: toMajor(makingCharges),
+    price: toMajor(add(metalValue, makingCharges))
+  };
+}
+
+/**
+ * Current selling price of a product or variant.
+ * Falls back to the stored price when the product has no metal attributes
+ * or there is no rate for its metal yet.
+ */
+export function resolveLivePrice(
+  product: any,
+  item: any,
+  rates: MetalRate[],
+  at: Date = new Date()
+): { price: number; breakdown?: MetalPriceBreakdown } {
+  const fallback = item?.price || product?.price || 0;
+  const spec = getMetalPricingSpec(product, item);
+  const rate = spec && findMetalRate(rates, spec.metal, spec.purity, at);
+  if (!spec || !rate) {
+    return { price: fallback };
+  }
+
+  const breakdown = calculateMetalPrice(spec, rate);
+  return { price: breakdown.price, breakdown };
+}
+
+/**
+ * Price a product or variant is added to the cart at: the live price, or a
+ * lower sale price on fixed-price products. Metal-priced products follow
+ * today's rate and never go on sale; the cart applies price lists on top.
+ */
+export function resolveCartPrice(
+  product: any,
+  item: any,
+  rates: MetalRate[],
+  at: Date = new Date()
+): { price: number; regularPrice: number; breakdown?: MetalPriceBreakdown } {
+  const live = resolveLivePrice(product, item, rates, at);
+  const salePrice = live.breakdown ? undefined : item?.saleprice || product?.saleprice;
+  const price = salePrice && salePrice < live.price ? salePrice : live.price;
+  return { ...live, price, regularPrice: live.price };
+}
+
+/**
+ * The distinct rates behind a set of priced lines, stored on the order
+ */
+export function summarizeMetalRates(breakdowns: (MetalPriceBreakdown | undefined)[]): MetalRate[] {
+  const locked = new Map<string, MetalRate>();
+  breakdowns.forEach(breakdown => {
+    if (!breakdown) return;
+    const key = `${normalize(breakdown.metal)}:${normalize(breakdown.purity)}`;
+    if (!locked.has(key)) {
+      locked.set(key, {
+        id: breakdown.rateId,
+        metal: breakdown.metal,
+        purity: breakdown.purity,
+        rate: breakdown.rate,
+        effectiveAt: breakdown.effectiveAt
+      });
+    }
+  });
+  return Array.from(locked.values());
+}
@@ -0,0 +1,167 @@
+// Money in integer minor units (cents, paise) with explicit rounding
+
+export type RoundingMode =
+  | 'half_up' // 0.5 rounds away from zero
+  | 'half_even' // 0.5 rounds to the nearest even digit (banker's rounding)
+  | 'floor'
+  | 'ceil';
+
+export interface Money {
+  amount: number; // Integer minor units
+  currency: string;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+export const DEFAULT_ROUNDING: RoundingMode = 'half_up';
+
+// Currencies that do not use two decimal places
+const MINOR_UNIT_EXPONENTS: Record<string, number> = {
+  JPY: 0,
+  KRW: 0,
+  BHD: 3,
+  KWD: 3,
+  OMR: 3
+};
+
+/**
+ * Number of decimal places used by a currency
+ */
+export function minorUnitExponent(currency: string = DEFAULT_CURRENCY): number {
+  return MINOR_UNIT_EXPONENTS[currency.toUpperCase()] ?? 2;
+}
+
+/**
+ * Round a fractional number of minor units to an integer
+ */
+export function roundMinor(value: number, mode: RoundingMode = DEFAULT_ROUNDING): number {
+  // Drop binary noise such as 1004.9999999999999 before rounding
+  const clean = Number(value.toFixed(6));
+
+  switch (mode) {
+    case 'floor':
+      return Math.floor(clean);
+    case 'ceil':
+      return Math.ceil(clean);
+    case 'half_even': {
+      const floor = Math.floor(clean);
+      const diff = clean - floor;
+      if (diff > 0.5) return floor + 1;
+      if (diff < 0.5) return floor;
+      return floor % 2 === 0 ? floor : floor + 1;
+    }
+    case 'half_up':
+    default:
+      return Math.sign(clean) * Math.round(Math.abs(clean));
+  }
+}
+
+/**
+ * Create money from a major-unit amount such as 19.99
+ */
+export function money(amount: number, currency: string = DEFAULT_CURRENCY, mode: RoundingMode = DEFAULT_ROUNDING): Money {
+  const factor = 10 ** minorUnitExponent(currency);
+  return { amount: roundMinor(amount * factor, mode), currency };
+}
+
+/**
+ * Create money directly from minor units
+ */
+export function fromMinor(amount: number, currency: string = DEFAULT_CURRENCY): Money {
+  if (!Number.isInteger(amount)) {
+    throw new Error('Minor unit amounts must be integers');
+  }
+  return { amount, currency };
+}
+
+/**
+ * Major-unit number for storage and display
+ */
+export function toMajor(value: Money): number {
+  return value.amount / 10 ** minorUnitExponent(value.currency);
+}
+
+const assertSameCurrency = (a: Money, b: Money) => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+};
+
+export function add(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+}
+
+export function sum(values: Money[], currency: string = DEFAULT_CURRENCY): Money {
+  return values.reduce((total, value) => add(total, value), { amount: 0, currency });
+}
+
+/**
+ * Multiply by a quantity or factor, rounding the result once
+ */
+export function multiply(value: Money, factor: number, mode: RoundingMode = DEFAULT_ROUNDING): Money {
+  return { amount: roundMinor(value.amount * factor, mode), currency: value.currency };
+}
+
+/**
+ * A percentage of an amount (e.g. 8.5 for 8.5%)
+ */
+export function percentage(value: Money, rate: number, mode: RoundingMode = DEFAULT_ROUNDING): Money {
+  return multiply(value, rate / 100, mode);
+}
+
+export function min(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return a.amount <= b.amount ? a : b;
+}
+
+export function max(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return a.amount >= b.amount ? a : b;
+}
+
+/**
+ * Split an amount across weights using the largest-remainder method.
+ * The parts are whole minor units and always add back up to the amount.
+ */
+export function allocate(value: Money, weights: number[]): Money[] {
+  const totalWeight = weights.reduce((total, weight) => total + Math.max(0, weight), 0);
+  if (weights.length === 0 || totalWeight <= 0) {
+    return weights.map(() => ({ amount: 0, currency: value.currency }));
+  }
+
+  const sign = value.amount < 0 ? -1 : 1;
+  const units = Math.abs(value.amount);
+  const exact = weights.map(weight => (units * Math.max(0, weight)) / totalWeight);
+  const parts = exact.map(part => Math.floor(part));
+  let remainder = units - parts.reduce((total, part) => total + part, 0);
+
+  // Ties go to the earlier weight so results are stable
+  const order = exact
+    .map((part, index) => ({ index, fraction: part - Math.floor(part) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+  for (let i = 0; remainder > 0 && i < order.length; i++, remainder--) {
+    parts[order[i].index] += 1;
+  }
+
+  return parts.map(part => ({ amount: sign * part, currency: value.currency }));
+}
+
+/**
+ * Round a major-unit amount to the currency's minor unit
+ */
+export function roundAmount(amount: number, currency: string = DEFAULT_CURRENCY, mode: RoundingMode = DEFAULT_ROUNDING): number {
+  return toMajor(money(amount, currency, mode));
+}
+
+/**
+ * Split a major-unit amount across weights in whole minor units
+ */
+export function allocateAmount(amount: number, weights: number[], currency: string = DEFAULT_CURRENCY): number[] {
+  return allocate(money(amount, currency), weights).map(toMajor);
+}
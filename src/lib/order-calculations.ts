@@ -1,4 +1,6 @@
 // Order calculation utilities for sales system
+import { quoteShipping, ShippingDestination, ShippingMethodId, ShippingZone, STORE_SHIPPING_ZONES } from './shipping';
+import { add, DEFAULT_CURRENCY, fromMinor, min, money, multiply, percentage, roundMinor, subtract, sum, toMajor } from './money';
 
 export interface OrderItem {
   id: string;
@@ -43,15 +45,20 @@ export interface DiscountSettings {
 
 export interface ShippingSettings {
   type: 'fixed' | 'calculated';
-  amount: number;
+  amount: number; // Fixed rate, or fallback when no calculated rate applies
   freeShippingThreshold?: number;
+  // Calculated shipping
+  zones?: ShippingZone[];
+  destination?: ShippingDestination;
+  weight?: number; // Grams
+  method?: ShippingMethodId;
 }
 
 /**
  * Calculate line total for an order item
  */
-export function calculateLineTotal(item: Omit<OrderItem, 'lineTotal'>): number {
-  return item.price * item.qty;
+export function calculateLineTotal(item: Omit<OrderItem, 'lineTotal'>, currency = DEFAULT_CURRENCY): number {
+  return toMajor(multiply(money(item.price, currency), item.qty));
 }
 
 /**
@@ -59,27 +66,25 @@ export function calculateLineTotal(item: Omit<OrderItem, 'lineTotal'>): number {
  */
 export function calculateDiscount(
   amount: number,
-  discount: DiscountSettings
+  discount: DiscountSettings,
+  currency = DEFAULT_CURRENCY
 ): number {
   if (discount.minimumAmount && amount < discount.minimumAmount) {
     return 0;
   }
 
-  let discountAmount = 0;
-  
-  if (discount.type === 'percentage') {
-    discountAmount = amount * (discount.value / 100);
-  } else {
-    discountAmount = discount.value;
-  }
+  const base = money(amount, currency);
+  let discountAmount = discount.type === 'percentage'
+    ? percentage(base, discount.value)
+    : money(discount.value, currency);
 
   // Apply maximum discount limit if set
-  if (discount.maximumDiscount && discountAmount > discount.maximumDiscount) {
-    discountAmount = discount.maximumDiscount;
+  if (discount.maximumDiscount) {
+    discountAmount = min(discountAmount, money(discount.maximumDiscount, currency));
   }
 
   // Ensure discount doesn't exceed the amount
-  return Math.min(discountAmount, amount);
+  return toMajor(min(discountAmount, base));
 }
 
 /**
@@ -97,9 +102,13 @@ export function calculateShipping(
     return shipping.amount;
   }
 
-  // For calculated shipping, you would integrate with shipping APIs
-  // For now, return the fixed amount
-  return shipping.amount;
+  // Calculated shipping uses the zone rate tables for the destination
+  const quotes = quoteShipping(shipping.zones || STORE_SHIPPING_ZONES, shipping.destination, {
+    weight: shipping.weight || 0,
+    subtotal
+  });
+  const quote = quotes.find(candidate => candidate.method === shipping.method) || quotes[0];
+  return quote ? quote.amount : shipping.amount;
 }
 
 /**
@@ -107,18 +116,20 @@ export function calculateShipping(
  */
 export function calculateTax(
   taxableAmount: number,
-  tax: TaxSettings
+  tax: TaxSettings,
+  currency = DEFAULT_CURRENCY
 ): number {
   if (!tax.enabled) {
     return 0;
   }
 
+  const base = money(taxableAmount, currency);
   if (tax.inclusive) {
     // Tax is already included in the price
-    return taxableAmount - (taxableAmount / (1 + tax.rate / 100));
+    return toMajor(fromMinor(roundMinor(base.amount - base.amount / (1 + tax.rate / 100)), currency));
   } else {
     // Tax is added to the price
-    return taxableAmount * (tax.rate / 100);
+    return toMajor(percentage(base, tax.rate));
   }
 }
 
@@ -129,35 +140,36 @@ export function calculateOrderTotals(
   items: OrderItem[],
   discount?: DiscountSettings,
   shipping?: ShippingSettings,
-  tax?: TaxSettings
+  tax?: TaxSettings,
+  currency = DEFAULT_CURRENCY
 ): OrderTotals {
-  // Calculate subtotal from all items
-  const subtotal = items.reduce((sum, item) => sum + item.lineTotal, 0);
+  // Calculate subtotal from all items, in minor units
+  const subtotal = sum(items.map(item => money(item.lineTotal, currency)), currency);
   
   // Calculate discount amount
-  const discountAmount = discount ? calculateDiscount(subtotal, discount) : 0;
+  const discountAmount = money(discount ? calculateDiscount(toMajor(subtotal), discount, currency) : 0, currency);
   
   // Calculate shipping amount
-  const shippingAmount = shipping ? calculateShipping(subtotal, shipping) : 0;
+  const shippingAmount = money(shipping ? calculateShipping(toMajor(subtotal), shipping) : 0, currency);
   
   // Calculate taxable amount (subtotal - discount + shipping)
-  const taxableAmount = subtotal - discountAmount + shippingAmount;
+  const taxableAmount = add(subtract(subtotal, discountAmount), shippingAmount);
   
   // Calculate tax amount
-  const taxAmount = tax ? calculateTax(taxableAmount, tax) : 0;
+  const taxAmount = money(tax ? calculateTax(toMajor(taxableAmount), tax, currency) : 0, currency);
   
   // Calculate total
-  const total = subtotal - discountAmount + shippingAmount + taxAmount;
+  const total = add(taxableAmount, taxAmount);
   
   // Calculate item count
-  const itemCount = items.reduce((sum, item) => sum + item.qty, 0);
+  const itemCount = items.reduce((count, item) => count + item.qty, 0);
 
   return {
-    subtotal,
-    discountAmount,
-    shippingAmount,
-    taxAmount,
-    total,
+    subtotal: toMajor(subtotal),
+    discountAmount: toMajor(discountAmount),
+    shippingAmount: toMajor(shippingAmount),
+    taxAmount: toMajor(taxAmount),
+    total: toMajor(total),
     itemCount
   };
 }
@@ -268,23 +280,6 @@ export function validateOrder(
   };
 }
 
-/**
- * Generate order number
- */
-export function generateOrderNumber(prefix = '#', lastOrderNumber?: string): string {
-  if (lastOrderNumber) {
-    // Extract number from last order and increment
-    const match = lastOrderNumber.match(/(\d+)$/);
-    if (match) {
-      const lastNumber = parseInt(match[1], 10);
-      return `${prefix}${(lastNumber + 1).toString().padStart(4, '0')}`;
-    }
-  }
-  
-  // Default starting number
-  return `${prefix}1001`;
-}
-
 /**
  * Default tax settings
  */
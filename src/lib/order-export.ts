@@ -0,0 +1,473 @@
+// Order exports for accounting: order- and line-level CSV/JSON with column mappings per bookkeeping tool
+import { DEFAULT_CURRENCY, money, sum, toMajor } from './money';
+
+export type ExportFormat = 'csv' | 'json';
+export type ExportLevel = 'order' | 'line';
+export type ExportDateFormat = 'YYYY-MM-DD' | 'DD-MM-YYYY' | 'MM/DD/YYYY';
+
+// Values available to a column; line-only fields are blank in order-level exports
+export type ExportField =
+  | 'orderNumber'
+  | 'invoiceNumber'
+  | 'voucherNumber' // Invoice number, or the order number before an invoice is issued
+  | 'date'
+  | 'customerName'
+  | 'customerEmail'
+  | 'customerPhone'
+  | 'status'
+  | 'paymentStatus'
+  | 'fulfillmentStatus'
+  | 'paymentMethod'
+  | 'currency'
+  | 'subtotal'
+  | 'discount'
+  | 'shipping'
+  | 'paymentFee'
+  | 'taxableValue'
+  | 'cgst'
+  | 'sgst'
+  | 'igst'
+  | 'otherTax'
+  | 'taxAmount'
+  | 'roundOff'
+  | 'total'
+  | 'totalPaid'
+  | 'totalRefunded'
+  | 'lineType'
+  | 'sku'
+  | 'title'
+  | 'variantTitle'
+  | 'hsnCode'
+  | 'quantity'
+  | 'unitPrice'
+  | 'amount'; // Line amount including tax; line amounts add up to the order total
+
+export interface ExportColumn {
+  header: string;
+  field?: ExportField;
+  value?: string; // Fixed text, e.g. a ledger name
+}
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  dateFormat: ExportDateFormat;
+  columns: Record<ExportLevel, ExportColumn[]>;
+}
+
+export type ExportValue = string | number | Date | undefined;
+export type ExportRecord = Partial<Record<ExportField, ExportValue>>;
+
+export interface ExportTotals {
+  orders: number;
+  rows: number;
+  total: number; // Sum of order totals
+  exported: number; // Sum of the exported amounts (line amounts or order totals)
+  reconciled: boolean;
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+  totals: ExportTotals;
+}
+
+const AMOUNT_FIELDS: ExportField[] = [
+  'subtotal', 'discount', 'shipping', 'paymentFee', 'taxableValue', 'cgst', 'sgst', 'igst',
+  'otherTax', 'taxAmount', 'roundOff', 'total', 'totalPaid', 'totalRefunded', 'unitPrice', 'amount',
+];
+
+const column = (header: string, field: ExportField): ExportColumn => ({ header, field });
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'standard',
+    name: 'Spreadsheet',
+    dateFormat: 'YYYY-MM-DD',
+    columns: {
+      order: [
+        column('Order Number', 'orderNumber'),
+        column('Invoice Number', 'invoiceNumber'),
+        column('Date', 'date'),
+        column('Customer', 'customerName'),
+        column('Email', 'customerEmail'),
+        column('Phone', 'customerPhone'),
+        column('Status', 'status'),
+        column('Payment Status', 'paymentStatus'),
+        column('Fulfillment Status', 'fulfillmentStatus'),
+        column('Payment Method', 'paymentMethod'),
+        column('Currency', 'currency'),
+        column('Subtotal', 'subtotal'),
+        column('Discount', 'discount'),
+        column('Shipping', 'shipping'),
+        column('Taxable Value', 'taxableValue'),
+        column('CGST', 'cgst'),
+        column('SGST', 'sgst'),
+        column('IGST', 'igst'),
+        column('Other Tax', 'otherTax'),
+        column('Tax', 'taxAmount'),
+        column('Payment Fee', 'paymentFee'),
+        column('Round Off', 'roundOff'),
+        column('Total', 'total'),
+        column('Paid', 'totalPaid'),
+        column('Refunded', 'totalRefunded'),
+      ],
+      line: [
+        column('Order Number', 'orderNumber'),
+        column('Invoice Number', 'invoiceNumber'),
+        column('Date', 'date'),
+        column('Customer', 'customerName'),
+        column('Line Type', 'lineType'),
+        column('SKU', 'sku'),
+        column('Item', 'title'),
+        column('Variant', 'variantTitle'),
+        column('HSN/SAC', 'hsnCode'),
+        column('Quantity', 'quantity'),
+        column('Unit Price', 'unitPrice'),
+        column('Discount', 'discount'),
+        column('Taxable Value', 'taxableValue'),
+        column('CGST', 'cgst'),
+        column('SGST', 'sgst'),
+        column('IGST', 'igst'),
+        column('Other Tax', 'otherTax'),
+        column('Tax', 'taxAmount'),
+        column('Amount', 'amount'),
+      ],
+    },
+  },
+  {
+    id: 'tally',
+    name: 'Tally',
+    dateFormat: 'DD-MM-YYYY',
+    columns: {
+      order: [
+        column('Voucher Date', 'date'),
+        { header: 'Voucher Type', value: 'Sales' },
+        column('Voucher Number', 'voucherNumber'),
+        column('Party Name', 'customerName'),
+        { header: 'Sales Ledger', value: 'Sales' },
+        column('Sales Amount', 'taxableValue'),
+        column('CGST', 'cgst'),
+        column('SGST', 'sgst'),
+        column('IGST', 'igst'),
+        column('Other Charges', 'paymentFee'),
+        column('Round Off', 'roundOff'),
+        column('Voucher Total', 'total'),
+      ],
+      line: [
+        column('Voucher Date', 'date'),
+        { header: 'Voucher Type', value: 'Sales' },
+        column('Voucher Number', 'voucherNumber'),
+        column('Party Name', 'customerName'),
+        column('Stock Item', 'title'),
+        column('HSN/SAC', 'hsnCode'),
+        column('Quantity', 'quantity'),
+        column('Rate', 'unitPrice'),
+        column('Taxable Value', 'taxableValue'),
+        column('CGST', 'cgst'),
+        column('SGST', 'sgst'),
+        column('IGST', 'igst'),
+        column('Amount', 'amount'),
+      ],
+    },
+  },
+  {
+    id: 'quickbooks',
+    name: 'QuickBooks',
+    dateFormat: 'MM/DD/YYYY',
+    columns: {
+      order: [
+        column('InvoiceNo', 'voucherNumber'),
+        column('Customer', 'customerName'),
+        column('InvoiceDate', 'date'),
+        column('Currency', 'currency'),
+        column('Amount', 'taxableValue'),
+        column('TaxAmount', 'taxAmount'),
+        column('OtherCharges', 'paymentFee'),
+        column('Adjustment', 'roundOff'),
+        column('Total', 'total'),
+      ],
+      line: [
+        column('InvoiceNo', 'voucherNumber'),
+        column('Customer', 'customerName'),
+        column('InvoiceDate', 'date'),
+        column('Item(Product/Service)', 'sku'),
+        column('ItemDescription', 'title'),
+        column('ItemQuantity', 'quantity'),
+        column('ItemRate', 'unitPrice'),
+        column('ItemAmount', 'taxableValue'),
+        column('ItemTaxAmount', 'taxAmount'),
+        column('Currency', 'currency'),
+      ],
+    },
+  },
+];
+
+export function getExportProfile(profileId: string = 'standard'): ExportProfile | undefined {
+  return EXPORT_PROFILES.find(profile => profile.id === profileId);
+}
+
+const totalOf = (values: number[], currency: string) =>
+  toMajor(sum(values.map(value => money(value || 0, currency)), currency));
+
+// Tax split by GST component; anything else (VAT, sales tax) is other tax
+function splitTax(components: { name: string; amount: number }[] | undefined, currency: string) {
+  const byName = (names: string[], exclude = false) => totalOf(
+    (components || [])
+      .filter(component => names.includes(component.name) !== exclude)
+      .map(component => component.amount),
+    currency
+  );
+  return {
+    cgst: byName(['CGST']),
+    sgst: byName(['SGST']),
+    igst: byName(['IGST']),
+    otherTax: byName(['CGST', 'SGST', 'IGST'], true),
+  };
+}
+
+function orderFields(order: any): ExportRecord {
+  return {
+    orderNumber: order.orderNumber,
+    invoiceNumber: order.receiptNumber,
+    voucherNumber: order.receiptNumber || order.orderNumber,
+    date: order.createdAt ? new Date(order.createdAt) : undefined,
+    customerName: order.customerName,
+    customerEmail: order.customerEmail,
+    customerPhone: order.customerPhone,
+    status: order.status,
+    paymentStatus: order.paymentStatus,
+    fulfillmentStatus: order.fulfillmentStatus,
+    paymentMethod: order.paymentMethod,
+    currency: order.currency || DEFAULT_CURRENCY,
+  };
+}
+
+/**
+ * One record per order. Round off is whatever the stored total differs from
+ * its parts by, so taxable value + tax + fees + round off is always the total.
+ */
+export function buildOrderRecord(order: any): ExportRecord {
+  const currency = order.currency || DEFAULT_CURRENCY;
+  const taxAmount = order.taxAmount || 0;
+  const paymentFee = order.paymentFee || 0;
+  const total = order.total || 0;
+  const computed = totalOf([
+    order.subtotal,
+    -(order.discountAmount || 0),
+    order.shippingAmount,
+    order.taxesIncluded ? 0 : taxAmount,
+    paymentFee,
+  ], currency);
+  const roundOff = totalOf([total, -computed], currency);
+
+  const components = order.taxBreakdown?.components
+    || (order.orderitems || []).flatMap((item: any) => item.taxBreakdown || []);
+
+  return {
+    ...orderFields(order),
+    subtotal: order.subtotal || 0,
+    discount: order.discountAmount || 0,
+    shipping: order.shippingAmount || 0,
+    paymentFee,
+    taxableValue: totalOf([total, -taxAmount, -paymentFee, -roundOff], currency),
+    ...splitTax(components, currency),
+    taxAmount,
+    roundOff,
+    total,
+    totalPaid: order.totalPaid || 0,
+    totalRefunded: order.totalRefunded || 0,
+    amount: total,
+  };
+}
+
+/**
+ * One record per order item, plus shipping, payment fee and round off lines,
+ * so the `amount` of an order's records adds up to its total to the cent
+ */
+export function buildLineRecords(order: any): ExportRecord[] {
+  const currency = order.currency || DEFAULT_CURRENCY;
+  const inclusive = !!order.taxesIncluded;
+  const base = orderFields(order);
+
+  const records: ExportRecord[] = (order.orderitems || []).map((item: any) => {
+    const discount = item.discountAmount || 0;
+    const taxAmount = item.taxAmount || 0;
+    const net = totalOf([item.lineTotal, -discount], currency);
+    const taxableValue = inclusive ? totalOf([net, -taxAmount], currency) : net;
+    return {
+      ...base,
+      lineType: 'item',
+      sku: item.sku,
+      title: item.title,
+      variantTitle: item.variantTitle,
+      hsnCode: item.hsnCode,
+      quantity: item.quantity,
+      unitPrice: item.price,
+      discount,
+      taxableValue,
+      ...splitTax(item.taxBreakdown, currency),
+      taxAmount,
+      amount: totalOf([taxableValue, taxAmount], currency),
+    };
+  });
+
+  if (order.shippingAmount > 0) {
+    const shipping = order.taxBreakdown?.shipping;
+    const taxAmount = shipping?.taxAmount || 0;
+    const taxableValue = shipping?.taxableAmount ?? (inclusive ? totalOf([order.shippingAmount, -taxAmount], currency) : order.shippingAmount);
+    records.push({
+      ...base,
+      lineType: 'shipping',
+      sku: 'SHIPPING',
+      title: order.shippingMethod?.name || 'Shipping',
+      quantity: 1,
+      unitPrice: order.shippingAmount,
+      discount: 0,
+      taxableValue,
+      ...splitTax(shipping?.components, currency),
+      taxAmount,
+      amount: totalOf([taxableValue, taxAmount], currency),
+    });
+  }
+
+  if (order.paymentFee > 0) {
+    records.push({
+      ...base,
+      lineType: 'fee',
+      sku: 'PAYMENT-FEE',
+      title: 'Payment fee',
+      quantity: 1,
+      unitPrice: order.paymentFee,
+      discount: 0,
+      taxableValue: order.paymentFee,
+      ...splitTax([], currency),
+      taxAmount: 0,
+      amount: order.paymentFee,
+    });
+  }
+
+  const difference = totalOf([order.total || 0, ...records.map(record => -(record.amount as number))], currency);
+  if (difference !== 0) {
+    records.push({
+      ...base,
+      lineType: 'adjustment',
+      sku: 'ROUND-OFF',
+      title: 'Round off',
+      quantity: 1,
+      unitPrice: difference,
+      discount: 0,
+      taxableValue: difference,
+      ...splitTax([], currency),
+      taxAmount: 0,
+      amount: difference,
+    });
+  }
+
+  return records;
+}
+
+export function formatExportDate(date: Date, format: ExportDateFormat): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const [year, month, day] = [date.getFullYear(), pad(date.getMonth() + 1), pad(date.getDate())];
+  switch (format) {
+    case 'DD-MM-YYYY':
+      return `${day}-${month}-${year}`;
+    case 'MM/DD/YYYY':
+      return `${month}/${day}/${year}`;
+    default:
+      return `${year}-${month}-${day}`;
+  }
+}
+
+function columnValue(record: ExportRecord, exportColumn: ExportColumn, dateFormat: ExportDateFormat): string | number {
+  if (exportColumn.value !== undefined) {
+    return exportColumn.value;
+  }
+  const value = exportColumn.field ? record[exportColumn.field] : undefined;
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return formatExportDate(value, dateFormat);
+  }
+  return value;
+}
+
+// Quote fields that need it, and stop spreadsheets reading text as formulas
+function csvField(value: string | number, isAmount: boolean): string {
+  if (typeof value === 'number') {
+    // Avoid "-0.00" for tiny negative zeros
+    return isAmount ? (Math.abs(value) < 0.005 ? 0 : value).toFixed(2) : String(value);
+  }
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(records: ExportRecord[], columns: ExportColumn[], dateFormat: ExportDateFormat): string {
+  const header = columns.map(exportColumn => csvField(exportColumn.header, false)).join(',');
+  const rows = records.map(record =>
+    columns.map(exportColumn => csvField(
+      columnValue(record, exportColumn, dateFormat),
+      !!exportColumn.field && AMOUNT_FIELDS.includes(exportColumn.field)
+    )).join(',')
+  );
+  return [header, ...rows].join('\r\n') + '\r\n';
+}
+
+export function toJsonRows(records: ExportRecord[], columns: ExportColumn[], dateFormat: ExportDateFormat): Record<string, string | number>[] {
+  return records.map(record => {
+    const row: Record<string, string | number> = {};
+    columns.forEach(exportColumn => {
+      row[exportColumn.header] = columnValue(record, exportColumn, dateFormat);
+    });
+    return row;
+  });
+}
+
+/**
+ * Build an export file for a set of orders (already filtered and sorted).
+ * Amounts are summed in minor units, and the file's totals say whether the
+ * exported amounts add up to the order totals.
+ */
+export function buildOrderExport(
+  orders: any[],
+  options: { format: ExportFormat; level: ExportLevel; profile: ExportProfile; columns?: ExportColumn[]; generatedAt?: Date }
+): ExportFile {
+  const { format, level, profile } = options;
+  const generatedAt = options.generatedAt || new Date();
+  const columns = options.columns || profile.columns[level];
+  const currency = orders[0]?.currency || DEFAULT_CURRENCY;
+
+  const records = level === 'order' ? orders.map(buildOrderRecord) : orders.flatMap(buildLineRecords);
+  const total = totalOf(orders.map(order => order.total || 0), currency);
+  const exported = totalOf(records.map(record => record.amount as number), currency);
+  const totals: ExportTotals = {
+    orders: orders.length,
+    rows: records.length,
+    total,
+    exported,
+    reconciled: total === exported,
+  };
+
+  const stamp = formatExportDate(generatedAt, 'YYYY-MM-DD');
+  const fileName = `orders-${level === 'order' ? 'summary' : 'lines'}-${profile.id}-${stamp}.${format}`;
+
+  if (format === 'json') {
+    return {
+      fileName,
+      mimeType: 'application/json',
+      content: JSON.stringify({
+        profile: profile.id,
+        level,
+        generatedAt: generatedAt.toISOString(),
+        totals,
+        rows: toJsonRows(records, columns, profile.dateFormat),
+      }, null, 2),
+      totals,
+    };
+  }
+
+  return { fileName, mimeType: 'text/csv', content: toCsv(records, columns, profile.dateFormat), totals };
+}
@@ -0,0 +1,202 @@
+// Order lifecycle state machines for order, payment and fulfillment status
+
+export type OrderStatus = 'pending' | 'processing' | 'completed' | 'cancelled';
+export type PaymentStatus =
+  | 'pending'
+  | 'awaiting_payment'
+  | 'cod_pending'
+  | 'cod_collected'
+  | 'cod_refused'
+  | 'paid'
+  | 'partial'
+  | 'partially_refunded'
+  | 'refunded';
+export type FulfillmentStatus = 'unfulfilled' | 'partial' | 'fulfilled';
+export type OrderStatusField = 'status' | 'paymentStatus' | 'fulfillmentStatus';
+
+export interface OrderStatusState {
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  fulfillmentStatus: FulfillmentStatus;
+}
+
+export type OrderStatusChange = Partial<OrderStatusState>;
+
+// One row of the order timeline (`orderevents` entity)
+export interface OrderEvent {
+  field: OrderStatusField;
+  from?: string; // Empty for the event that creates the order
+  to: string;
+  actor: string; // 'customer', 'system', or the staff member's email
+  note?: string;
+  createdAt: Date;
+}
+
+export interface StatusChangePlan {
+  valid: boolean;
+  error?: string;
+  updates: Record<string, any>;
+  events: OrderEvent[];
+}
+
+// Allowed next states for each current state
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'completed', 'cancelled'],
+  processing: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+// Cash on delivery: the courier collects at the door (cod_collected), then
+// the store marks it paid once the courier's remittance is reconciled
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['awaiting_payment', 'cod_pending', 'partial', 'paid'],
+  awaiting_payment: ['partial', 'paid'],
+  cod_pending: ['cod_collected', 'cod_refused', 'paid'],
+  cod_collected: ['partial', 'paid'],
+  cod_refused: [],
+  partial: ['paid', 'partially_refunded', 'refunded'],
+  paid: ['partially_refunded', 'refunded'],
+  partially_refunded: ['refunded'],
+  refunded: [],
+};
+
+export const FULFILLMENT_STATUS_TRANSITIONS: Record<FulfillmentStatus, FulfillmentStatus[]> = {
+  unfulfilled: ['partial', 'fulfilled'],
+  partial: ['fulfilled'],
+  fulfilled: [],
+};
+
+export const INITIAL_ORDER_STATE: OrderStatusState = {
+  status: 'pending',
+  paymentStatus: 'pending',
+  fulfillmentStatus: 'unfulfilled',
+};
+
+const TRANSITIONS: Record<OrderStatusField, Record<string, string[]>> = {
+  status: ORDER_STATUS_TRANSITIONS,
+  paymentStatus: PAYMENT_STATUS_TRANSITIONS,
+  fulfillmentStatus: FULFILLMENT_STATUS_TRANSITIONS,
+};
+
+const FIELD_LABELS: Record<OrderStatusField, string> = {
+  status: 'order status',
+  paymentStatus: 'payment status',
+  fulfillmentStatus: 'fulfillment status',
+};
+
+const FIELDS: OrderStatusField[] = ['status', 'paymentStatus', 'fulfillmentStatus'];
+
+/**
+ * Whether a status field may move from one value to another
+ */
+export function canTransition(field: OrderStatusField, from: string, to: string): boolean {
+  return (TRANSITIONS[field][from] || []).includes(to);
+}
+
+/**
+ * Check a status change against the state machines and work out the order
+ * updates and timeline events for it. Unchanged fields produce no event.
+ */
+export function planStatusChange(
+  current: Partial<OrderStatusState>,
+  change: OrderStatusChange,
+  context: { actor: string; note?: string; now?: Date }
+): StatusChangePlan {
+  const now = context.now || new Date();
+  const from: OrderStatusState = { ...INITIAL_ORDER_STATE, ...current };
+  const next: OrderStatusState = { ...from };
+  const events: OrderEvent[] = [];
+
+  for (const field of FIELDS) {
+    const to = change[field];
+    if (!to || to === from[field]) {
+      continue;
+    }
+
+    if (!TRANSITIONS[field][to]) {
+      return { valid: false, error: `Unknown ${FIELD_LABELS[field]} "${to}"`, updates: {}, events: [] };
+    }
+    if (!canTransition(field, from[field], to)) {
+      return {
+        valid: false,
+        error: `Cannot change ${FIELD_LABELS[field]} from ${from[field]} to ${to}`,
+        updates: {},
+        events: []
+      };
+    }
+
+    (next as Record<OrderStatusField, string>)[field] = to;
+    events.push({ field, from: from[field], to, actor: context.actor, note: context.note, createdAt: now });
+  }
+
+  // Rules that span more than one status
+  if (next.status === 'cancelled' && from.status !== 'cancelled' && next.fulfillmentStatus !== 'unfulfilled') {
+    return { valid: false, error: 'Orders that have shipped cannot be cancelled', updates: {}, events: [] };
+  }
+  if (from.status === 'cancelled' && next.fulfillmentStatus !== from.fulfillmentStatus) {
+    return { valid: false, error: 'Cancelled orders cannot be fulfilled', updates: {}, events: [] };
+  }
+
+  const updates: Record<string, any> = {};
+  events.forEach(event => {
+    updates[event.field] = event.to;
+  });
+  if (events.length > 0) {
+    updates.updatedAt = now;
+  }
+  if (updates.status === 'completed') {
+    updates.closedAt = now;
+  } else if (updates.status === 'cancelled') {
+    updates.cancelledAt = now;
+  }
+
+  return { valid: true, updates, events };
+}
+
+/**
+ * Customers may cancel their own order until it starts being prepared or shipped
+ */
+export function canCustomerCancel(order: Partial<OrderStatusState>): boolean {
+  return (order.status || INITIAL_ORDER_STATE.status) === 'pending' &&
+    (order.fulfillmentStatus || INITIAL_ORDER_STATE.fulfillmentStatus) === 'unfulfilled';
+}
+
+/**
+ * Timeline event recorded when an order is placed
+ */
+export function orderPlacedEvent(actor: string, now: Date = new Date()): OrderEvent {
+  return { field: 'status', to: INITIAL_ORDER_STATE.status, actor, note: 'Order placed', createdAt: now };
+}
+
+const EVENT_TITLES: Record<OrderStatusField, Record<string, string>> = {
+  status: {
+    pending: 'Order placed',
+    processing: 'Order is being prepared',
+    completed: 'Order completed',
+    cancelled: 'Order cancelled',
+  },
+  paymentStatus: {
+    pending: 'Awaiting payment',
+    awaiting_payment: 'Waiting for payment confirmation',
+    cod_pending: 'Pay cash on delivery',
+    cod_collected: 'Cash collected on delivery',
+    cod_refused: 'Delivery refused',
+    partial: 'Partial payment received',
+    paid: 'Payment received',
+    partially_refunded: 'Partially refunded',
+    refunded: 'Payment refunded',
+  },
+  fulfillmentStatus: {
+    unfulfilled: 'Not yet shipped',
+    partial: 'Partially shipped',
+    fulfilled: 'Shipped',
+  },
+};
+
+/**
+ * Customer-facing title for a timeline event
+ */
+export function getOrderEventTitle(event: Pick<OrderEvent, 'field' | 'to'>): string {
+  return EVENT_TITLES[event.field]?.[event.to] || event.to;
+}
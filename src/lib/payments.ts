@@ -0,0 +1,70 @@
+// Payment attempts and how they roll up into an order's paid total and payment status
+import type { PaymentStatus } from './order-state';
+import { DEFAULT_CURRENCY, money, sum, toMajor } from './money';
+import { COD_PAYMENT_METHOD } from './cod';
+
+// `pending` attempts wait for the customer to pay outside the app (e.g. UPI) or on delivery.
+// `authorized` card payments are held by the gateway until the payments backend captures them.
+// `collected` is cash the courier took on delivery but has not yet remitted to the store.
+export type PaymentAttemptStatus = 'pending' | 'authorized' | 'collected' | 'captured' | 'voided' | 'failed';
+
+// One row of the `payments` entity
+export interface PaymentAttempt {
+  status: PaymentAttemptStatus;
+  method?: string;
+  amount: number; // Authorized amount
+  capturedAmount?: number;
+  refundedAmount?: number;
+}
+
+export interface PaymentReconciliation {
+  totalPaid: number;
+  // Undefined when the payment status should stay as it is
+  paymentStatus?: PaymentStatus;
+}
+
+/**
+ * Total captured across an order's payment attempts
+ */
+export function getCapturedTotal(attempts: PaymentAttempt[], currency: string = DEFAULT_CURRENCY): number {
+  return toMajor(sum(
+    attempts
+      .filter(attempt => attempt.status === 'captured')
+      .map(attempt => money(attempt.capturedAmount ?? attempt.amount, currency)),
+    currency
+  ));
+}
+
+/**
+ * Work out `totalPaid` and the payment status from the captured attempts.
+ * Refunds are tracked separately, so refunded orders keep their status, and so do
+ * orders whose cash-on-delivery was refused.
+ */
+export function reconcilePayments(
+  order: { total: number; currency?: string; paymentStatus?: string },
+  attempts: PaymentAttempt[]
+): PaymentReconciliation {
+  const currency = order.currency || DEFAULT_CURRENCY;
+  const totalPaid = getCapturedTotal(attempts, currency);
+
+  if (['refunded', 'partially_refunded', 'cod_refused'].includes(order.paymentStatus || '')) {
+    return { totalPaid };
+  }
+  if (totalPaid > 0 && money(totalPaid, currency).amount >= money(order.total, currency).amount) {
+    return { totalPaid, paymentStatus: 'paid' };
+  }
+  if (totalPaid > 0) {
+    return { totalPaid, paymentStatus: 'partial' };
+  }
+  if (attempts.some(attempt => attempt.status === 'collected')) {
+    return { totalPaid, paymentStatus: 'cod_collected' };
+  }
+  const pending = attempts.filter(attempt => attempt.status === 'pending' || attempt.status === 'authorized');
+  if (pending.length > 0) {
+    return {
+      totalPaid,
+      paymentStatus: pending.every(attempt => attempt.method === COD_PAYMENT_METHOD) ? 'cod_pending' : 'awaiting_payment'
+    };
+  }
+  return { totalPaid };
+}
@@ -0,0 +1,62 @@
+// Minimal PDF writer for documents generated in the app (shipping labels, invoices)
+
+export interface PdfText {
+  x: number;
+  y: number; // From the bottom of the page, in points
+  size: number;
+  text: string;
+  bold?: boolean;
+}
+
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+// Page sizes in points (72 per inch)
+export const PDF_PAGE_SIZES: Record<'label' | 'a4', PdfPageSize> = {
+  label: { width: 288, height: 432 },
+  a4: { width: 595, height: 842 },
+};
+
+// PDF documents are plain ASCII so byte offsets match string offsets
+export const toAscii = (value: string): string => value.normalize('NFKD').replace(/[^\x20-\x7E]/g, '');
+
+const escapeText = (value: string) => toAscii(value).replace(/[\\()]/g, match => `\\${match}`);
+
+/**
+ * Text-only PDF in Helvetica (F1) and Helvetica Bold (F2), one content stream per page
+ */
+export function buildPdf(pages: PdfText[][], size: PdfPageSize): string {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>',
+  ];
+
+  const pageRefs = pages.map(texts => {
+    const stream = texts
+      .map(text => `BT /${text.bold ? 'F2' : 'F1'} ${text.size} Tf ${text.x} ${text.y} Td (${escapeText(text.text)}) Tj ET`)
+      .join('\n');
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    const contents = objects.length;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${size.width} ${size.height}] /Contents ${contents} 0 R /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> >>`);
+    return `${objects.length} 0 R`;
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return pdf;
+}
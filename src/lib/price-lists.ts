@@ -0,0 +1,100 @@
+// Customer-group price lists (wholesale, staff, VIP)
+import { money, percentage, subtract, toMajor } from './money';
+
+// Shoppers without a group see retail prices
+export const DEFAULT_CUSTOMER_GROUP = 'retail';
+
+export interface PriceListEntry {
+  productId?: string;
+  itemId?: string; // A variant entry wins over a product entry
+  price?: number; // Fixed unit price
+  percentOff?: number; // Or a percentage off the regular price
+  minQuantity?: number;
+}
+
+export interface PriceList {
+  id: string;
+  name: string;
+  customerGroups: string[];
+  isActive: boolean;
+  startsAt?: Date | string;
+  endsAt?: Date | string;
+  // Applies to every product without its own entry
+  percentOff?: number;
+  minQuantity?: number;
+  entries?: PriceListEntry[];
+}
+
+export interface PriceListLine {
+  productId: string;
+  itemId?: string;
+  quantity: number;
+  price: number; // Regular unit price
+}
+
+export interface PriceListContext {
+  customerGroup: string;
+  priceLists: PriceList[];
+  now?: Date;
+}
+
+export interface ResolvedPrice {
+  price: number;
+  priceListId?: string;
+}
+
+const normalize = (value?: string): string => (value || '').trim().toLowerCase();
+
+/**
+ * Whether a price list is running and assigned to a customer group
+ */
+export function isPriceListLive(priceList: PriceList, customerGroup: string, now: Date = new Date()): boolean {
+  if (!priceList.isActive) return false;
+  if (priceList.startsAt && new Date(priceList.startsAt) > now) return false;
+  if (priceList.endsAt && new Date(priceList.endsAt) < now) return false;
+  return (priceList.customerGroups || []).some(group => normalize(group) === normalize(customerGroup));
+}
+
+// Unit price one list gives a line, or undefined when the list does not cover it
+function priceFromList(priceList: PriceList, line: PriceListLine): number | undefined {
+  const entries = priceList.entries || [];
+  const entry =
+    (line.itemId ? entries.find(candidate => candidate.itemId === line.itemId) : undefined) ||
+    entries.find(candidate => !candidate.itemId && candidate.productId === line.productId);
+
+  const minQuantity = entry ? entry.minQuantity ?? priceList.minQuantity ?? 1 : priceList.minQuantity ?? 1;
+  if (line.quantity < minQuantity) {
+    return undefined;
+  }
+
+  const regular = money(line.price);
+  if (entry?.price !== undefined) {
+    return entry.price;
+  }
+
+  const percentOff = entry ? entry.percentOff : priceList.percentOff;
+  if (percentOff === undefined) {
+    return undefined;
+  }
+  return toMajor(subtract(regular, percentage(regular, percentOff)));
+}
+
+/**
+ * Unit price for a line after the customer's price lists.
+ * When several lists apply the lowest price wins, and a list never raises
+ * the regular price.
+ */
+export function resolvePriceListPrice(line: PriceListLine, context: PriceListContext): ResolvedPrice {
+  let best: ResolvedPrice = { price: line.price };
+
+  context.priceLists
+    .filter(priceList => isPriceListLive(priceList, context.customerGroup, context.now))
+    .forEach(priceList => {
+      const price = priceFromList(priceList, line);
+      if (price !== undefined && price < best.price) {
+        best = { price, priceListId: priceList.id };
+      }
+    });
+
+  return best;
+}
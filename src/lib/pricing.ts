@@ -0,0 +1,201 @@
+// Pricing pipeline shared by the cart, checkout and order creation
+import {
+  calculateDiscount,
+  calculateOrderTotals,
+  DEFAULT_SHIPPING_SETTINGS,
+  DiscountSettings,
+  OrderItem,
+  ShippingSettings,
+  TaxSettings
+} from './order-calculations';
+import { BusinessRuleValidator, ValidationResult } from './schema-validation-rules';
+import { add, allocate, DEFAULT_CURRENCY, fromMinor, min, money, multiply, subtract, sum, toMajor } from './money';
+import {
+  calculateTaxBreakdown,
+  flatTaxJurisdiction,
+  STORE_TAX_RULES,
+  TaxAddress,
+  TaxBreakdown,
+  TaxComponent,
+  TaxRules
+} from './tax-engine';
+
+export interface PricingLine {
+  id: string;
+  productId?: string;
+  itemId?: string;
+  sku?: string;
+  title?: string;
+  price: number;
+  quantity: number;
+  taxClass?: string;
+}
+
+export interface PricingOptions {
+  currency?: string;
+  discount?: DiscountSettings;
+  shipping?: ShippingSettings;
+  // Jurisdiction rules, resolved from taxAddress
+  taxRules?: TaxRules;
+  taxAddress?: TaxAddress;
+  // A single flat rate, used when no taxRules are given
+  tax?: TaxSettings;
+  // Lines the discount applies to (scoped codes); all lines when omitted
+  discountLineIds?: string[];
+  // Automatic promotion discounts, already allocated per line id
+  lineDiscounts?: Record<string, number>;
+  // Surcharge for the chosen payment method (e.g. the COD fee); not taxed
+  paymentFee?: number;
+}
+
+export interface PricedLine {
+  id: string;
+  lineTotal: number;
+  discountAmount: number;
+  taxRate: number; // Fraction (e.g. 0.085), as stored on orderitems
+  taxAmount: number;
+  taxComponents: TaxComponent[];
+}
+
+export interface PricingResult {
+  currency: string;
+  subtotal: number;
+  discountAmount: number;
+  shippingAmount: number;
+  taxAmount: number;
+  paymentFee: number;
+  total: number;
+  itemCount: number;
+  // When true, taxAmount is already contained in the prices
+  taxesIncluded: boolean;
+  taxBreakdown: TaxBreakdown;
+  lines: PricedLine[];
+}
+
+// The store sells in rupees unless configured otherwise; UPI only takes INR
+export const STORE_CURRENCY = process.env.EXPO_PUBLIC_STORE_CURRENCY || 'INR';
+
+/**
+ * Store pricing rules used wherever an order total is shown or saved
+ */
+export const STORE_PRICING: PricingOptions = {
+  currency: STORE_CURRENCY,
+  shipping: DEFAULT_SHIPPING_SETTINGS,
+  taxRules: STORE_TAX_RULES
+};
+
+// Rules for a flat TaxSettings rate
+const flatTaxRules = (tax?: TaxSettings): TaxRules => {
+  const jurisdiction = flatTaxJurisdiction(tax || { enabled: false, rate: 0, inclusive: false });
+  return { origin: {}, jurisdictions: [], fallback: jurisdiction };
+};
+
+/**
+ * Price a set of lines with calculateOrderTotals.
+ * All arithmetic is done in integer minor units and the total is rebuilt from
+ * the parts, so stored totals always satisfy BusinessRuleValidator.validateOrderTotals.
+ * Promotion discounts stay on the lines they were earned on; a code discount
+ * is applied after them and allocated back to the lines (largest remainder).
+ * Tax comes from the tax engine for the delivery address, per line and for shipping.
+ * A payment fee is added last, after tax.
+ */
+export function priceOrder(lines: PricingLine[], options: PricingOptions = STORE_PRICING): PricingResult {
+  const currency = options.currency || DEFAULT_CURRENCY;
+  const lineTotals = lines.map(line => multiply(money(line.price, currency), line.quantity));
+
+  const orderItems: OrderItem[] = lines.map((line, index) => ({
+    id: line.id,
+    productId: line.productId || '',
+    itemId: line.itemId,
+    sku: line.sku || '',
+    title: line.title || '',
+    qty: line.quantity,
+    price: line.price,
+    lineTotal: toMajor(lineTotals[index])
+  }));
+
+  const promotionDiscounts = lineTotals.map((lineTotal, index) =>
+    min(money(options.lineDiscounts?.[lines[index].id] || 0, currency), lineTotal)
+  );
+  const promotionTotal = sum(promotionDiscounts, currency);
+
+  const discountLineIds = options.discountLineIds ? new Set(options.discountLineIds) : null;
+  const codeWeights = lineTotals.map((lineTotal, index) =>
+    !discountLineIds || discountLineIds.has(lines[index].id) ? subtract(lineTotal, promotionDiscounts[index]).amount : 0
+  );
+  const codeBase = fromMinor(codeWeights.reduce((total, weight) => total + weight, 0), currency);
+  const codeAmount = money(options.discount ? calculateDiscount(toMajor(codeBase), options.discount, currency) : 0, currency);
+
+  const orderDiscount = add(promotionTotal, codeAmount);
+  const totals = calculateOrderTotals(
+    orderItems,
+    orderDiscount.amount > 0 ? { type: 'fixed', value: toMajor(orderDiscount), code: options.discount?.code } : undefined,
+    options.shipping,
+    undefined,
+    currency
+  );
+
+  const subtotal = money(totals.subtotal, currency);
+  const discountAmount = money(totals.discountAmount, currency);
+  const shippingAmount = money(totals.shippingAmount, currency);
+
+  const codeDiscounts = allocate(codeAmount, codeWeights);
+  const lineDiscounts = promotionDiscounts.map((amount, index) => add(amount, codeDiscounts[index]));
+
+  const taxBreakdown = calculateTaxBreakdown(
+    lines.map((line, index) => ({
+      id: line.id,
+      taxClass: line.taxClass,
+      amount: toMajor(subtract(lineTotals[index], lineDiscounts[index]))
+    })),
+    toMajor(shippingAmount),
+    options.taxAddress,
+    options.taxRules || flatTaxRules(options.tax),
+    currency
+  );
+  const taxAmount = money(taxBreakdown.taxAmount, currency);
+  const taxesIncluded = taxBreakdown.pricesIncludeTax;
+  const paymentFee = money(options.paymentFee || 0, currency);
+  const total = add(
+    add(add(subtract(subtotal, discountAmount), shippingAmount), paymentFee),
+    taxesIncluded ? fromMinor(0, currency) : taxAmount
+  );
+
+  return {
+    currency,
+    subtotal: toMajor(subtotal),
+    discountAmount: toMajor(discountAmount),
+    shippingAmount: toMajor(shippingAmount),
+    taxAmount: toMajor(taxAmount),
+    paymentFee: toMajor(paymentFee),
+    total: toMajor(total),
+    itemCount: totals.itemCount,
+    taxesIncluded,
+    taxBreakdown,
+    lines: orderItems.map((item, index) => ({
+      id: item.id,
+      lineTotal: item.lineTotal,
+      discountAmount: toMajor(lineDiscounts[index]),
+      taxRate: taxBreakdown.lines[index].rate / 100,
+      taxAmount: taxBreakdown.lines[index].taxAmount,
+      taxComponents: taxBreakdown.lines[index].components
+    }))
+  };
+}
+
+/**
+ * Check priced totals with the same rule used for stored orders
+ */
+export function validatePricing(
+  pricing: Pick<PricingResult, 'subtotal' | 'taxAmount' | 'shippingAmount' | 'discountAmount' | 'total'> & { taxesIncluded?: boolean; paymentFee?: number }
+): ValidationResult {
+  return BusinessRuleValidator.validateOrderTotals(
+    pricing.subtotal,
+    pricing.taxAmount,
+    pricing.shippingAmount,
+    pricing.discountAmount,
+    pricing.total,
+    pricing.taxesIncluded,
+    pricing.paymentFee
+  );
+}
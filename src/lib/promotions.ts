@@ -0,0 +1,248 @@
+// Automatic promotion rules evaluated over cart lines
+import { allocateAmount, roundAmount } from './money';
+
+export type PromotionType = 'bogo' | 'buy_x_get_y' | 'tiered' | 'gift';
+
+export interface PromotionTier {
+  minimumAmount: number;
+  type: 'percentage' | 'fixed';
+  value: number;
+}
+
+export interface PromotionConfig {
+  // buy_x_get_y / bogo: for every `buyQuantity` units, `getQuantity` more are discounted
+  buyQuantity?: number;
+  getQuantity?: number;
+  discountPercent?: number; // Defaults to 100 (free)
+  // tiered: the highest tier reached by the eligible subtotal applies
+  tiers?: PromotionTier[];
+  // gift: one unit of this product is free once the eligible subtotal is reached
+  giftProductId?: string;
+  giftItemId?: string;
+  minimumAmount?: number;
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  isActive: boolean;
+  priority?: number; // Lower runs first
+  startsAt?: Date | string;
+  endsAt?: Date | string;
+  collectionIds?: string[];
+  productIds?: string[];
+  config: PromotionConfig;
+}
+
+export interface PromotionLine {
+  id: string;
+  productId: string;
+  itemId?: string;
+  collectionId?: string;
+  price: number;
+  quantity: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  amount: number;
+  lineAmounts: Record<string, number>;
+}
+
+export interface PromotionResult {
+  applied: AppliedPromotion[];
+  // Total promotion discount per line id, ready for priceOrder
+  lineDiscounts: Record<string, number>;
+  total: number;
+  // Gift promotions the cart qualifies for but the gift has not been added yet
+  availableGifts: Promotion[];
+}
+
+const lineTotal = (line: PromotionLine): number => roundAmount(line.price * line.quantity);
+
+/**
+ * Whether a promotion's collection/product scope includes a cart line
+ */
+export function isPromotionLine(promotion: Promotion, line: PromotionLine): boolean {
+  const hasCollections = !!promotion.collectionIds?.length;
+  const hasProducts = !!promotion.productIds?.length;
+  if (!hasCollections && !hasProducts) {
+    return true;
+  }
+
+  return (
+    (hasProducts && promotion.productIds!.includes(line.productId)) ||
+    (hasCollections && !!line.collectionId && promotion.collectionIds!.includes(line.collectionId))
+  );
+}
+
+/**
+ * Whether a promotion is running at the given time
+ */
+export function isPromotionLive(promotion: Promotion, now: Date = new Date()): boolean {
+  if (!promotion.isActive) return false;
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) return false;
+  if (promotion.endsAt && new Date(promotion.endsAt) < now) return false;
+  return true;
+}
+
+// Buy X get Y: units are sorted by price, and in every group of X + Y units the
+// cheapest Y are discounted, so the customer never gets the priciest item free
+function evaluateBuyXGetY(promotion: Promotion, lines: PromotionLine[], remaining: Record<string, number>): Record<string, number> {
+  const buy = promotion.config.buyQuantity || 1;
+  const get = promotion.config.getQuantity || 1;
+  const percent = promotion.config.discountPercent ?? 100;
+  const groupSize = buy + get;
+
+  const units: { lineId: string; price: number }[] = [];
+  lines.forEach(line => {
+    for (let i = 0; i < line.quantity; i++) {
+      units.push({ lineId: line.id, price: line.price });
+    }
+  });
+  units.sort((a, b) => b.price - a.price);
+
+  const amounts: Record<string, number> = {};
+  const groups = Math.floor(units.length / groupSize);
+  for (let group = 0; group < groups; group++) {
+    const start = group * groupSize;
+    units.slice(start + buy, start + groupSize).forEach(unit => {
+      amounts[unit.lineId] = (amounts[unit.lineId] || 0) + unit.price * (percent / 100);
+    });
+  }
+
+  Object.keys(amounts).forEach(lineId => {
+    amounts[lineId] = roundAmount(Math.min(amounts[lineId], remaining[lineId]));
+  });
+  return amounts;
+}
+
+function evaluateTiered(promotion: Promotion, lines: PromotionLine[], remaining: Record<string, number>): Record<string, number> {
+  const base = roundAmount(lines.reduce((sum, line) => sum + remaining[line.id], 0));
+  const tier = [...(promotion.config.tiers || [])]
+    .sort((a, b) => b.minimumAmount - a.minimumAmount)
+    .find(candidate => base >= candidate.minimumAmount);
+  if (!tier) {
+    return {};
+  }
+
+  const amount = Math.min(base, tier.type === 'percentage' ? base * (tier.value / 100) : tier.value);
+  const parts = allocateAmount(roundAmount(amount), lines.map(line => remaining[line.id]));
+
+  const amounts: Record<string, number> = {};
+  lines.forEach((line, index) => {
+    if (parts[index] > 0) {
+      amounts[line.id] = parts[index];
+    }
+  });
+  return amounts;
+}
+
+function evaluateGift(
+  promotion: Promotion,
+  eligibleLines: PromotionLine[],
+  allLines: PromotionLine[],
+  remaining: Record<string, number>
+): Record<string, number> | null {
+  const { giftProductId, giftItemId, minimumAmount = 0 } = promotion.config;
+  // The gift itself does not count towards the qualifying spend
+  const isGift = (line: PromotionLine) =>
+    line.productId === giftProductId && (!giftItemId || line.itemId === giftItemId);
+
+  const qualifying = eligibleLines
+    .filter(line => !isGift(line))
+    .reduce((sum, line) => sum + lineTotal(line), 0);
+  if (!giftProductId || qualifying <= 0 || qualifying < minimumAmount) {
+    return {};
+  }
+
+  const giftLine = allLines.find(line => isGift(line) && remaining[line.id] > 0);
+  if (!giftLine) {
+    // Qualifies, but the gift is not in the cart yet
+    return null;
+  }
+
+  return { [giftLine.id]: roundAmount(Math.min(giftLine.price, remaining[giftLine.id])) };
+}
+
+/**
+ * Apply every live promotion to the cart, in priority order.
+ * Each line's discount is capped at what is left of its total after earlier
+ * promotions, and amounts stay on the lines that earned them so returns and
+ * refunds can be prorated per order item.
+ */
+export function evaluatePromotions(
+  promotions: Promotion[],
+  lines: PromotionLine[],
+  now: Date = new Date()
+): PromotionResult {
+  const remaining: Record<string, number> = {};
+  lines.forEach(line => {
+    remaining[line.id] = lineTotal(line);
+  });
+
+  const applied: AppliedPromotion[] = [];
+  const availableGifts: Promotion[] = [];
+
+  const live = promotions
+    .filter(promotion => isPromotionLive(promotion, now))
+    .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+
+  live.forEach(promotion => {
+    const eligibleLines = lines.filter(line => isPromotionLine(promotion, line));
+    if (eligibleLines.length === 0) {
+      return;
+    }
+
+    let lineAmounts: Record<string, number> | null = {};
+    switch (promotion.type) {
+      case 'bogo':
+        lineAmounts = evaluateBuyXGetY(
+          { ...promotion, config: { buyQuantity: 1, getQuantity: 1, ...promotion.config } },
+          eligibleLines,
+          remaining
+        );
+        break;
+      case 'buy_x_get_y':
+        lineAmounts = evaluateBuyXGetY(promotion, eligibleLines, remaining);
+        break;
+      case 'tiered':
+        lineAmounts = evaluateTiered(promotion, eligibleLines, remaining);
+        break;
+      case 'gift':
+        lineAmounts = evaluateGift(promotion, eligibleLines, lines, remaining);
+        break;
+    }
+
+    if (lineAmounts === null) {
+      availableGifts.push(promotion);
+      return;
+    }
+
+    const amount = roundAmount(Object.values(lineAmounts).reduce((sum, value) => sum + value, 0));
+    if (amount <= 0) {
+      return;
+    }
+
+    Object.entries(lineAmounts).forEach(([lineId, value]) => {
+      remaining[lineId] = roundAmount(remaining[lineId] - value);
+    });
+    applied.push({ promotionId: promotion.id, name: promotion.name, amount, lineAmounts });
+  });
+
+  const lineDiscounts: Record<string, number> = {};
+  applied.forEach(promotion => {
+    Object.entries(promotion.lineAmounts).forEach(([lineId, value]) => {
+      lineDiscounts[lineId] = roundAmount((lineDiscounts[lineId] || 0) + value);
+    });
+  });
+
+  return {
+    applied,
+    lineDiscounts,
+    total: roundAmount(applied.reduce((sum, promotion) => sum + promotion.amount, 0)),
+    availableGifts,
+  };
+}
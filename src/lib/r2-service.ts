@@ -235,6 +235,48 @@ class R2Service {
     return results;
   }
 
+  // Upload content generated in the app (e.g. shipping labels) rather than read from a file URI
+  async uploadContent(
+    content: string | Uint8Array,
+    fileName: string,
+    contentType: string,
+    prefix: string = 'documents'
+  ): Promise<UploadResult> {
+    if (!this.client) {
+      return {
+        success: false,
+        error: 'R2 client not initialized - check configuration',
+        errorType: UploadErrorType.CONFIGURATION
+      };
+    }
+
+    const body = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+    if (body.byteLength === 0) {
+      return { success: false, error: 'Content is empty', errorType: UploadErrorType.FILE_READ };
+    }
+
+    try {
+      const key = generateFileKey(fileName, prefix);
+      await this.client.send(new PutObjectCommand({
+        Bucket: r2Config.bucketName,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        ContentLength: body.byteLength,
+      }));
+
+      return { success: true, url: getPublicUrl(key), key };
+    } catch (error) {
+      const errorType = this.categorizeError(error);
+      trackError(error as Error, 'R2Service', { fileName, contentType, errorType });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Upload failed',
+        errorType
+      };
+    }
+  }
+
   // Extract key from URL
   extractKeyFromUrl(url: string): string | null {
     try {
@@ -0,0 +1,226 @@
+// Refund ledger: what can still be refunded on an order and how a refund splits into lines, shipping and tax
+import { add, allocate, DEFAULT_CURRENCY, fromMinor, max, min, money, Money, subtract, sum, toMajor } from './money';
+
+export type RefundType = 'full' | 'partial' | 'shipping' | 'line';
+
+export type RefundRequest =
+  | { type: 'full' }
+  | { type: 'shipping' }
+  | { type: 'line'; lines: { orderItemId: string; quantity: number }[] }
+  | { type: 'partial'; amount: number };
+
+// One order item's share of a refund (`refunds.lines`)
+export interface RefundLedgerLine {
+  orderItemId: string;
+  quantity: number;
+  subtotal: number; // Merchandise after discounts
+  taxAmount: number;
+}
+
+// A refund already recorded against the order
+export interface RecordedRefund {
+  amount: number;
+  status?: string;
+  shippingAmount?: number;
+  lines?: RefundLedgerLine[];
+}
+
+export interface RefundLedgerOrder {
+  total: number;
+  currency?: string;
+  paymentStatus?: string;
+  totalPaid?: number;
+  totalRefunded?: number;
+  taxAmount?: number;
+  taxesIncluded?: boolean;
+  shippingAmount?: number;
+  taxBreakdown?: { shipping?: { taxAmount: number } };
+}
+
+export interface RefundLedgerItem {
+  id: string;
+  quantity: number;
+  lineTotal: number;
+  discountAmount?: number;
+  taxAmount?: number;
+}
+
+export interface RefundPlan {
+  valid: boolean;
+  error?: string;
+  type: RefundType;
+  amount: number; // What goes back to the customer
+  subtotal: number;
+  shippingAmount: number;
+  taxAmount: number; // Tax contained in the amount (or added to it when prices exclude tax)
+  lines: RefundLedgerLine[];
+  paymentStatus?: 'partially_refunded' | 'refunded';
+}
+
+/**
+ * Amount captured from the customer.
+ * Orders marked paid before totalPaid was tracked count their full total as paid.
+ */
+export function getCapturedAmount(order: RefundLedgerOrder): number {
+  return order.totalPaid || (order.paymentStatus === 'paid' ? order.total : 0);
+}
+
+/**
+ * Amount that can still be refunded on an order
+ */
+export function getRefundableAmount(order: RefundLedgerOrder): number {
+  const currency = order.currency || DEFAULT_CURRENCY;
+  const remaining = subtract(money(getCapturedAmount(order), currency), money(order.totalRefunded || 0, currency));
+  return toMajor(max(remaining, fromMinor(0, currency)));
+}
+
+const invalid = (type: RefundType, error: string): RefundPlan => ({
+  valid: false, error, type, amount: 0, subtotal: 0, shippingAmount: 0, taxAmount: 0, lines: []
+});
+
+// Failed refunds never reached the customer
+const settled = (refunds: RecordedRefund[]) => refunds.filter(refund => refund.status !== 'failed');
+
+/**
+ * Units, merchandise and tax of an order item not yet refunded
+ */
+export function getRefundableLine(item: RefundLedgerItem, refunds: RecordedRefund[], currency: string = DEFAULT_CURRENCY) {
+  const refunded = settled(refunds).flatMap(refund => refund.lines || []).filter(line => line.orderItemId === item.id);
+  const net = subtract(money(item.lineTotal, currency), money(item.discountAmount || 0, currency));
+
+  return {
+    quantity: Math.max(0, item.quantity - refunded.reduce((total, line) => total + line.quantity, 0)),
+    subtotal: subtract(net, sum(refunded.map(line => money(line.subtotal, currency)), currency)),
+    taxAmount: subtract(money(item.taxAmount || 0, currency), sum(refunded.map(line => money(line.taxAmount, currency)), currency)),
+  };
+}
+
+/**
+ * Work out a refund against the ledger. Line refunds take their share of the
+ * line's remaining merchandise and tax, so the last unit refunded picks up any
+ * rounding left over. Refunds larger than what is left of the captured amount
+ * are rejected, except a full refund, which is capped to it.
+ */
+export function planRefund(
+  order: RefundLedgerOrder,
+  items: RefundLedgerItem[],
+  refunds: RecordedRefund[],
+  request: RefundRequest
+): RefundPlan {
+  const currency = order.currency || DEFAULT_CURRENCY;
+  const zero = fromMinor(0, currency);
+  const refundable = money(getRefundableAmount(order), currency);
+  if (refundable.amount <= 0) {
+    return invalid(request.type, 'Nothing left to refund on this order');
+  }
+
+  // Prices that exclude tax were charged tax on top
+  const charged = (subtotal: Money, tax: Money) => (order.taxesIncluded ? subtotal : add(subtotal, tax));
+
+  let subtotal = zero;
+  let shipping = zero;
+  let tax = zero;
+  const lines: RefundLedgerLine[] = [];
+
+  const addLine = (item: RefundLedgerItem, quantity: number) => {
+    const remaining = getRefundableLine(item, refunds, currency);
+    const weights = [quantity, remaining.quantity - quantity];
+    const [lineSubtotal] = allocate(remaining.subtotal, weights);
+    const [lineTax] = allocate(remaining.taxAmount, weights);
+
+    subtotal = add(subtotal, lineSubtotal);
+    tax = add(tax, lineTax);
+    lines.push({ orderItemId: item.id, quantity, subtotal: toMajor(lineSubtotal), taxAmount: toMajor(lineTax) });
+  };
+
+  const shippingRefunded = settled(refunds).some(refund => (refund.shippingAmount || 0) > 0);
+  const addShipping = () => {
+    shipping = money(order.shippingAmount || 0, currency);
+    tax = add(tax, money(order.taxBreakdown?.shipping?.taxAmount || 0, currency));
+  };
+
+  switch (request.type) {
+    case 'partial': {
+      const amount = money(request.amount, currency);
+      if (amount.amount <= 0) {
+        return invalid(request.type, 'Refund amount must be greater than zero');
+      }
+      if (amount.amount > refundable.amount) {
+        return invalid(request.type, `Refund cannot exceed ${toMajor(refundable)} still captured on this order`);
+      }
+      // Tax is refunded in the same proportion it was charged across the order
+      const orderTax = money(order.taxAmount || 0, currency);
+      const [partialTax] = allocate(amount, [orderTax.amount, Math.max(0, money(order.total, currency).amount - orderTax.amount)]);
+      return {
+        valid: true,
+        type: request.type,
+        amount: toMajor(amount),
+        subtotal: toMajor(subtract(amount, partialTax)),
+        shippingAmount: 0,
+        taxAmount: toMajor(partialTax),
+        lines: [],
+        paymentStatus: amount.amount === refundable.amount ? 'refunded' : 'partially_refunded',
+      };
+    }
+
+    case 'shipping':
+      if (shippingRefunded || !order.shippingAmount) {
+        return invalid(request.type, 'There is no shipping left to refund');
+      }
+      addShipping();
+      break;
+
+    case 'line':
+      if (request.lines.length === 0) {
+        return invalid(request.type, 'Choose at least one item to refund');
+      }
+      for (const line of request.lines) {
+        const item = items.find(candidate => candidate.id === line.orderItemId);
+        if (!item) {
+          return invalid(request.type, 'Item not found on this order');
+        }
+        const remaining = getRefundableLine(item, refunds, currency).quantity;
+        if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > remaining) {
+          return invalid(request.type, `Only ${remaining} of this item can be refunded`);
+        }
+        addLine(item, line.quantity);
+      }
+      break;
+
+    case 'full':
+      items.forEach(item => {
+        const remaining = getRefundableLine(item, refunds, currency).quantity;
+        if (remaining > 0) {
+          addLine(item, remaining);
+        }
+      });
+      if (!shippingRefunded && order.shippingAmount) {
+        addShipping();
+      }
+      break;
+  }
+
+  let amount = add(charged(subtotal, tax), shipping);
+  if (amount.amount > refundable.amount) {
+    if (request.type !== 'full') {
+      return invalid(request.type, `Refund cannot exceed ${toMajor(refundable)} still captured on this order`);
+    }
+    // Earlier ad-hoc refunds are not itemized, so scale the tax down with the amount
+    [tax] = allocate(refundable, [tax.amount, Math.max(0, amount.amount - tax.amount)]);
+    amount = refundable;
+  }
+  if (request.type === 'full' && amount.amount < refundable.amount) {
+    amount = refundable;
+  }
+
+  return {
+    valid: true,
+    type: request.type,
+    amount: toMajor(amount),
+    subtotal: toMajor(subtotal),
+    shippingAmount: toMajor(shipping),
+    taxAmount: toMajor(min(tax, amount)),
+    lines,
+    paymentStatus: amount.amount === refundable.amount ? 'refunded' : 'partially_refunded',
+  };
+}
@@ -0,0 +1,115 @@
+// Return (RMA) rules: return window, reason codes and status flow
+
+export type ReturnReasonCode = 'damaged' | 'wrong_item' | 'not_as_described' | 'size_fit' | 'changed_mind' | 'other';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded' | 'exchanged';
+
+export type ReturnResolution = 'refund' | 'exchange';
+
+export interface ReturnPolicy {
+  windowDays: number; // Days after the order is delivered
+  reasons: Record<ReturnReasonCode, string>;
+}
+
+export const RETURN_POLICY: ReturnPolicy = {
+  windowDays: 15,
+  reasons: {
+    damaged: 'Arrived damaged',
+    wrong_item: 'Wrong item sent',
+    not_as_described: 'Not as described',
+    size_fit: 'Size or fit',
+    changed_mind: 'No longer needed',
+    other: 'Other',
+  },
+};
+
+// Allowed next states for each return status
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['received', 'rejected'],
+  received: ['refunded', 'exchanged'],
+  rejected: [],
+  refunded: [],
+  exchanged: [],
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Return requested',
+  approved: 'Return approved',
+  rejected: 'Return rejected',
+  received: 'Return received',
+  refunded: 'Refunded',
+  exchanged: 'Exchanged',
+};
+
+export interface ReturnableOrder {
+  status?: string;
+  fulfillmentStatus?: string;
+  closedAt?: Date | string | number;
+  shipments?: { deliveredAt?: Date | string | number | null }[];
+}
+
+export interface ReturnLine {
+  orderItemId: string;
+  quantity: number;
+  status: ReturnStatus;
+}
+
+/**
+ * Last day a return can be requested, or undefined when nothing has shipped yet
+ */
+export function getReturnDeadline(order: ReturnableOrder, policy: ReturnPolicy = RETURN_POLICY): Date | undefined {
+  if (order.status === 'cancelled' || (order.fulfillmentStatus !== 'fulfilled' && order.fulfillmentStatus !== 'partial')) {
+    return undefined;
+  }
+
+  const start = getReturnWindowStart(order);
+  if (!start) {
+    return undefined;
+  }
+  return new Date(start.getTime() + policy.windowDays * 24 * 60 * 60 * 1000);
+}
+
+// The window opens when the last package is delivered, or when the order is closed.
+// Dates that move on later edits (like updatedAt) would keep extending it.
+function getReturnWindowStart(order: ReturnableOrder): Date | undefined {
+  const deliveries = (order.shipments || [])
+    .filter(shipment => shipment.deliveredAt != null)
+    .map(shipment => new Date(shipment.deliveredAt!).getTime());
+  if (deliveries.length > 0) {
+    return new Date(Math.max(...deliveries));
+  }
+  return order.closedAt != null ? new Date(order.closedAt) : undefined;
+}
+
+/**
+ * Whether the order is still inside its return window
+ */
+export function isWithinReturnWindow(order: ReturnableOrder, now: Date = new Date(), policy: ReturnPolicy = RETURN_POLICY): boolean {
+  const deadline = getReturnDeadline(order, policy);
+  return !!deadline && now <= deadline;
+}
+
+/**
+ * Units of an order item that can still be returned (rejected returns do not count)
+ */
+export function getReturnableQuantity(orderItem: { id: string; quantity: number }, returns: ReturnLine[]): number {
+  const returned = returns
+    .filter(line => line.orderItemId === orderItem.id && line.status !== 'rejected')
+    .reduce((total, line) => total + line.quantity, 0);
+  return Math.max(0, orderItem.quantity - returned);
+}
+
+/**
+ * Whether a return may move from one status to another
+ */
+export function canTransitionReturn(from: ReturnStatus, to: ReturnStatus): boolean {
+  return RETURN_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Return authorisation number shown to the customer and used as the inventory reference
+ */
+export function generateRmaNumber(orderNumber: string, sequence: number): string {
+  return `RMA-${orderNumber}-${sequence}`;
+}
@@ -505,12 +505,14 @@ export const BusinessRuleValidator = {
     };
   },
   
-  validateOrderTotals: (subtotal: number, tax: number | null, shipping: number | null, discount: number | null, total: number): ValidationResult => {
+  // When prices include tax, the tax is already part of the subtotal and is not added again.
+  // Fees are payment method surcharges such as the cash-on-delivery fee.
+  validateOrderTotals: (subtotal: number, tax: number | null, shipping: number | null, discount: number | null, total: number, taxesIncluded = false, fees = 0): ValidationResult => {
     const errors: string[] = [];
     
-    const expectedTotal = subtotal + (tax || 0) + (shipping || 0) - (discount || 0);
+    const expectedTotal = subtotal + (taxesIncluded ? 0 : (tax || 0)) + (shipping || 0) + fees - (discount || 0);
     if (Math.abs(total - expectedTotal) > 0.01) {
-      errors.push('Order total must equal subtotal + tax + shipping - discount');
+      errors.push(fees ? 'Order total must equal subtotal + tax + shipping + fees - discount' : 'Order total must equal subtotal + tax + shipping - discount');
     }
     
     return {
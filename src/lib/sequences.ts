@@ -0,0 +1,36 @@
+// Numbered sequences (order numbers, invoice numbers) that several devices claim from at once
+
+// Retries when another device takes the same number first
+export const MAX_SEQUENCE_ATTEMPTS = 5;
+
+export interface SequenceClaim<T> {
+  start: number; // First number when nothing has been claimed yet
+  latest: () => Promise<number | undefined>; // Highest number claimed so far
+  claim: (sequence: number) => Promise<T>; // Must throw when the number is already taken
+  onConflict?: (sequence: number, attempt: number) => Promise<T | undefined>; // A result here stops the retries
+}
+
+/**
+ * Claim the number after the latest one. The claim has to fail when the
+ * number is taken (e.g. through a unique attribute), so two devices cannot
+ * both succeed; the one that loses reads the latest claim and tries again.
+ * The last conflict is rethrown once the attempts run out.
+ */
+export async function claimNextInSequence<T>({ start, latest, claim, onConflict }: SequenceClaim<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const current = await latest();
+    const sequence = current ? current + 1 : start;
+
+    try {
+      return await claim(sequence);
+    } catch (error) {
+      const resolved = await onConflict?.(sequence, attempt);
+      if (resolved !== undefined) {
+        return resolved;
+      }
+      if (attempt >= MAX_SEQUENCE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+// Shipments: packages of order item quantities, and the fulfillment status they add up to
+import type { FulfillmentStatus } from './order-state';
+
+export type ShipmentStatus = 'pending' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface ShipmentLine {
+  orderItemId: string;
+  quantity: number;
+}
+
+// One row of the `shipments` entity
+export interface ShipmentRecord {
+  status: ShipmentStatus;
+  lines: ShipmentLine[];
+  carrier?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+}
+
+export interface FulfillableItem {
+  id: string;
+  quantity: number;
+}
+
+export interface ShippingCarrier {
+  id: string;
+  name: string;
+  // `{trackingNumber}` is replaced with the package's tracking number
+  trackingUrlTemplate?: string;
+}
+
+// Allowed next states for each shipment status. Packages can only be
+// cancelled before they leave, so fulfillment never goes backwards.
+export const SHIPMENT_STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  pending: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  pending: 'Packed',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export const SHIPPING_CARRIERS: ShippingCarrier[] = [
+  { id: 'delhivery', name: 'Delhivery', trackingUrlTemplate: 'https://www.delhivery.com/track/package/{trackingNumber}' },
+  { id: 'bluedart', name: 'Blue Dart', trackingUrlTemplate: 'https://www.bluedart.com/tracking?trackNo={trackingNumber}' },
+  { id: 'indiapost', name: 'India Post' },
+  { id: 'store', name: 'Store delivery' },
+  { id: 'mock', name: 'Mock Carrier' },
+];
+
+// Packages that have left the store count towards fulfillment
+const SENT: ShipmentStatus[] = ['shipped', 'delivered'];
+
+export function canTransitionShipment(from: ShipmentStatus, to: ShipmentStatus): boolean {
+  return (SHIPMENT_STATUS_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Units of an order item in packages, optionally only packages in the given statuses.
+ * Cancelled packages never count.
+ */
+export function getPackedQuantity(orderItemId: string, shipments: ShipmentRecord[], statuses?: ShipmentStatus[]): number {
+  return shipments
+    .filter(shipment => shipment.status !== 'cancelled' && (!statuses || statuses.includes(shipment.status)))
+    .reduce((total, shipment) =>
+      total + (shipment.lines || [])
+        .filter(line => line.orderItemId === orderItemId)
+        .reduce((sum, line) => sum + line.quantity, 0),
+    0);
+}
+
+/**
+ * Units of an order item not yet in any package
+ */
+export function getUnpackedQuantity(item: FulfillableItem, shipments: ShipmentRecord[]): number {
+  return Math.max(0, item.quantity - getPackedQuantity(item.id, shipments));
+}
+
+/**
+ * Check a new package's lines against what is left to pack on the order
+ */
+export function validateShipmentLines(
+  items: FulfillableItem[],
+  shipments: ShipmentRecord[],
+  lines: ShipmentLine[]
+): { valid: boolean; error?: string } {
+  const requested = lines.filter(line => line.quantity > 0);
+  if (requested.length === 0) {
+    return { valid: false, error: 'Add at least one item to the package' };
+  }
+
+  for (const line of requested) {
+    const item = items.find(candidate => candidate.id === line.orderItemId);
+    if (!item) {
+      return { valid: false, error: 'Item not found on this order' };
+    }
+    if (!Number.isInteger(line.quantity)) {
+      return { valid: false, error: 'Package quantities must be whole units' };
+    }
+
+    const quantity = requested
+      .filter(candidate => candidate.orderItemId === line.orderItemId)
+      .reduce((total, candidate) => total + candidate.quantity, 0);
+    const unpacked = getUnpackedQuantity(item, shipments);
+    if (quantity > unpacked) {
+      return { valid: false, error: unpacked > 0 ? `Only ${unpacked} of this item are left to pack` : 'This item is already packed' };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Fulfillment status of one order item from the packages that have shipped
+ */
+export function getLineFulfillmentStatus(item: FulfillableItem, shipments: ShipmentRecord[]): FulfillmentStatus {
+  const shipped = getPackedQuantity(item.id, shipments, SENT);
+  if (shipped <= 0) {
+    return 'unfulfilled';
+  }
+  return shipped >= item.quantity ? 'fulfilled' : 'partial';
+}
+
+/**
+ * Order fulfillment status: fulfilled once every unit has shipped, partial once any has
+ */
+export function deriveFulfillmentStatus(items: FulfillableItem[], shipments: ShipmentRecord[]): FulfillmentStatus {
+  const statuses = items.map(item => getLineFulfillmentStatus(item, shipments));
+  if (statuses.length > 0 && statuses.every(status => status === 'fulfilled')) {
+    return 'fulfilled';
+  }
+  return statuses.some(status => status !== 'unfulfilled') ? 'partial' : 'unfulfilled';
+}
+
+/**
+ * Tracking page for a package, when the carrier has one
+ */
+export function buildTrackingUrl(carrierId: string | undefined, trackingNumber: string | undefined): string | undefined {
+  const template = SHIPPING_CARRIERS.find(carrier => carrier.id === carrierId)?.trackingUrlTemplate;
+  if (!template || !trackingNumber) {
+    return undefined;
+  }
+  return template.replace('{trackingNumber}', encodeURIComponent(trackingNumber.trim()));
+}
+
+export function getCarrierName(carrierId: string | undefined): string | undefined {
+  return SHIPPING_CARRIERS.find(carrier => carrier.id === carrierId)?.name ?? carrierId;
+}
@@ -0,0 +1,96 @@
+// Shipping label documents: 4x6 inch labels as ZPL (thermal printers) or PDF
+import { buildPdf, PDF_PAGE_SIZES, PdfText, toAscii } from './pdf';
+
+export type LabelFormat = 'pdf' | 'zpl';
+
+export interface LabelAddress {
+  name: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  phone?: string;
+}
+
+export interface LabelContent {
+  trackingNumber: string;
+  carrierName: string;
+  service: string;
+  reference: string; // Order number
+  weight: number; // Grams
+  from: LabelAddress;
+  to: LabelAddress;
+}
+
+export const LABEL_CONTENT_TYPES: Record<LabelFormat, string> = {
+  pdf: 'application/pdf',
+  zpl: 'application/x-zpl',
+};
+
+/**
+ * Address as printed on a label, one line per entry
+ */
+export function formatLabelAddress(address: LabelAddress): string[] {
+  const cityLine = [address.city, [address.state, address.postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  return [address.name, address.street, cityLine, address.country, address.phone && `Ph: ${address.phone}`]
+    .filter((line): line is string => !!line && line.trim().length > 0)
+    .map(line => toAscii(line).trim());
+}
+
+/**
+ * 4x6 inch label at 203 dpi with a Code 128 barcode of the tracking number
+ */
+export function buildZplLabel(content: LabelContent): string {
+  // ^ and ~ start ZPL commands, so they cannot appear in field data
+  const field = (value: string) => toAscii(value).replace(/[\^~]/g, ' ');
+  const lines: string[] = ['^XA', '^CI28'];
+  let y = 40;
+
+  const text = (value: string, size: number) => {
+    lines.push(`^CF0,${size}^FO40,${y}^FD${field(value)}^FS`);
+    y += size + 10;
+  };
+
+  text(`${content.carrierName} - ${content.service}`, 40);
+  text(`Order ${content.reference}  ${(content.weight / 1000).toFixed(2)} kg`, 28);
+  y += 20;
+  text('FROM:', 24);
+  formatLabelAddress(content.from).forEach(line => text(line, 24));
+  y += 20;
+  text('TO:', 34);
+  formatLabelAddress(content.to).forEach(line => text(line, 34));
+  y += 30;
+  lines.push(`^BY3^FO40,${y}^BCN,150,Y,N,N^FD${field(content.trackingNumber)}^FS`);
+  lines.push('^XZ');
+
+  return lines.join('\n');
+}
+
+/**
+ * Single-page 4x6 inch PDF with the same content as the ZPL label
+ */
+export function buildPdfLabel(content: LabelContent): string {
+  const rows: [number, string][] = [
+    [16, `${content.carrierName} - ${content.service}`],
+    [10, `Order ${content.reference}    ${(content.weight / 1000).toFixed(2)} kg`],
+    [9, 'FROM:'],
+    ...formatLabelAddress(content.from).map(line => [9, line] as [number, string]),
+    [12, 'TO:'],
+    ...formatLabelAddress(content.to).map(line => [12, line] as [number, string]),
+    [10, 'TRACKING:'],
+    [18, content.trackingNumber],
+  ];
+
+  let y = 400;
+  const texts = rows.map(([size, text]): PdfText => {
+    y -= size + 8;
+    return { x: 20, y, size, text };
+  });
+
+  return buildPdf([texts], PDF_PAGE_SIZES.label);
+}
+
+export function buildLabel(format: LabelFormat, content: LabelContent): string {
+  return format === 'zpl' ? buildZplLabel(content) : buildPdfLabel(content);
+}
@@ -0,0 +1,271 @@
+// Shipping zones and rate tables for calculated shipping
+
+export type ShippingMethodId = 'standard' | 'express' | 'pickup';
+
+export interface ShippingDestination {
+  country?: string;
+  state?: string;
+  postalCode?: string;
+}
+
+export interface PostalCodeRange {
+  from: string;
+  to: string;
+}
+
+export interface ShippingRateTier {
+  min: number; // Inclusive
+  max?: number; // Exclusive; open-ended when omitted
+  amount: number;
+}
+
+export interface ShippingMethodRate {
+  method: ShippingMethodId;
+  name: string;
+  estimatedDays?: string;
+  // Which parcel value the rate tiers are matched against
+  basis: 'weight' | 'price' | 'flat';
+  rates: ShippingRateTier[];
+  freeShippingThreshold?: number;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  countries: string[]; // ISO codes or names; '*' matches any country
+  states?: string[];
+  postalCodes?: PostalCodeRange[];
+  methods: ShippingMethodRate[];
+  // Applies to every method in the zone unless the method sets its own
+  freeShippingThreshold?: number;
+}
+
+export interface ShippingParcel {
+  weight: number; // Grams
+  subtotal: number;
+}
+
+export interface ShippingQuote {
+  method: ShippingMethodId;
+  name: string;
+  amount: number;
+  estimatedDays?: string;
+  zoneId: string;
+}
+
+// Used for items that have no weight recorded
+export const DEFAULT_ITEM_WEIGHT = 50;
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  india: 'in',
+  'united states': 'us',
+  usa: 'us'
+};
+
+const normalize = (value?: string): string => (value || '').trim().toLowerCase();
+const normalizeCountry = (value?: string): string => COUNTRY_ALIASES[normalize(value)] || normalize(value);
+
+/**
+ * Store shipping zones. Zones are checked in order and the first match wins,
+ * so list postal-code zones before state zones before country zones.
+ */
+export const STORE_SHIPPING_ZONES: ShippingZone[] = [
+  {
+    id: 'chennai',
+    name: 'Chennai',
+    countries: ['IN'],
+    postalCodes: [{ from: '600001', to: '600130' }],
+    methods: [
+      { method: 'standard', name: 'Standard', estimatedDays: '2-3 days', basis: 'flat', rates: [{ min: 0, amount: 40 }], freeShippingThreshold: 999 },
+      { method: 'express', name: 'Same day', estimatedDays: 'Today', basis: 'weight', rates: [{ min: 0, max: 2000, amount: 120 }] },
+      { method: 'pickup', name: 'Store pickup', estimatedDays: 'Ready in 2 hours', basis: 'flat', rates: [{ min: 0, amount: 0 }] }
+    ]
+  },
+  {
+    id: 'tamil-nadu',
+    name: 'Tamil Nadu',
+    countries: ['IN'],
+    states: ['Tamil Nadu', 'TN'],
+    freeShippingThreshold: 999,
+    methods: [
+      {
+        method: 'standard',
+        name: 'Standard',
+        estimatedDays: '3-5 days',
+        basis: 'weight',
+        rates: [
+          { min: 0, max: 500, amount: 50 },
+          { min: 500, max: 2000, amount: 80 },
+          { min: 2000, amount: 150 }
+        ]
+      },
+      {
+        method: 'express',
+        name: 'Express',
+        estimatedDays: '1-2 days',
+        basis: 'weight',
+        rates: [
+          { min: 0, max: 500, amount: 100 },
+          { min: 500, max: 2000, amount: 150 }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'india',
+    name: 'Rest of India',
+    countries: ['IN'],
+    methods: [
+      {
+        method: 'standard',
+        name: 'Standard',
+        estimatedDays: '5-7 days',
+        basis: 'weight',
+        freeShippingThreshold: 1999,
+        rates: [
+          { min: 0, max: 500, amount: 80 },
+          { min: 500, max: 2000, amount: 120 },
+          { min: 2000, max: 10000, amount: 250 }
+        ]
+      },
+      {
+        method: 'express',
+        name: 'Express',
+        estimatedDays: '2-3 days',
+        basis: 'weight',
+        rates: [
+          { min: 0, max: 500, amount: 150 },
+          { min: 500, max: 2000, amount: 220 }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'international',
+    name: 'International',
+    countries: ['*'],
+    methods: [
+      {
+        method: 'standard',
+        name: 'International standard',
+        estimatedDays: '10-15 days',
+        basis: 'price',
+        rates: [
+          { min: 0, max: 100, amount: 25 },
+          { min: 100, max: 300, amount: 35 },
+          { min: 300, amount: 0 }
+        ]
+      },
+      {
+        method: 'express',
+        name: 'International express',
+        estimatedDays: '4-6 days',
+        basis: 'weight',
+        rates: [
+          { min: 0, max: 1000, amount: 60 },
+          { min: 1000, max: 5000, amount: 120 }
+        ]
+      }
+    ]
+  }
+];
+
+/**
+ * Whether a postal code falls inside a range. Numeric codes are compared as
+ * numbers; anything else is compared as text.
+ */
+export function isPostalCodeInRange(postalCode: string, range: PostalCodeRange): boolean {
+  const code = postalCode.replace(/\s+/g, '').toUpperCase();
+  const from = range.from.toUpperCase();
+  const to = range.to.toUpperCase();
+
+  if (/^\d+$/.test(code) && /^\d+$/.test(from) && /^\d+$/.test(to)) {
+    const value = parseInt(code, 10);
+    return value >= parseInt(from, 10) && value <= parseInt(to, 10);
+  }
+
+  return code >= from && code <= to;
+}
+
+/**
+ * Find the first zone that covers a destination
+ */
+export function findShippingZone(zones: ShippingZone[], destination?: ShippingDestination): ShippingZone | undefined {
+  if (!destination?.country) {
+    return undefined;
+  }
+
+  const country = normalizeCountry(destination.country);
+  const state = normalize(destination.state);
+
+  return zones.find(zone => {
+    const countryMatch = zone.countries.some(candidate => candidate === '*' || normalizeCountry(candidate) === country);
+    if (!countryMatch) return false;
+
+    if (zone.states?.length && !zone.states.some(candidate => normalize(candidate) === state)) {
+      return false;
+    }
+
+    if (zone.postalCodes?.length) {
+      return !!destination.postalCode && zone.postalCodes.some(range => isPostalCodeInRange(destination.postalCode!, range));
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Rate for one method, or undefined when the parcel is outside its rate table
+ */
+export function calculateMethodRate(method: ShippingMethodRate, parcel: ShippingParcel, zoneThreshold?: number): number | undefined {
+  const threshold = method.freeShippingThreshold ?? zoneThreshold;
+  const value = method.basis === 'weight' ? parcel.weight : method.basis === 'price' ? parcel.subtotal : 0;
+  const tier = method.rates.find(rate => value >= rate.min && (rate.max === undefined || value < rate.max));
+
+  if (!tier) {
+    return undefined;
+  }
+
+  if (threshold !== undefined && parcel.subtotal >= threshold) {
+    return 0;
+  }
+
+  return tier.amount;
+}
+
+/**
+ * Available shipping methods and prices for a destination, cheapest first
+ */
+export function quoteShipping(
+  zones: ShippingZone[],
+  destination: ShippingDestination | undefined,
+  parcel: ShippingParcel
+): ShippingQuote[] {
+  const zone = findShippingZone(zones, destination);
+  if (!zone) {
+    return [];
+  }
+
+  const quotes: ShippingQuote[] = [];
+  zone.methods.forEach(method => {
+    const amount = calculateMethodRate(method, parcel, zone.freeShippingThreshold);
+    if (amount !== undefined) {
+      quotes.push({
+        method: method.method,
+        name: method.name,
+        amount,
+        estimatedDays: method.estimatedDays,
+        zoneId: zone.id
+      });
+    }
+  });
+
+  return quotes.sort((a, b) => a.amount - b.amount);
+}
+
+/**
+ * Total parcel weight in grams
+ */
+export function calculateParcelWeight(lines: { weight?: number; quantity: number }[], defaultWeight = DEFAULT_ITEM_WEIGHT): number {
+  return lines.reduce((sum, line) => sum + (line.weight ?? defaultWeight) * line.quantity, 0);
+}
@@ -0,0 +1,233 @@
+// Jurisdiction-based tax rules, including Indian GST (CGST/SGST/IGST)
+import { DEFAULT_TAX_SETTINGS, TaxSettings } from './order-calculations';
+import { allocateAmount, DEFAULT_CURRENCY, roundAmount } from './money';
+
+export const DEFAULT_TAX_CLASS = 'standard';
+
+export interface TaxJurisdiction {
+  country: string; // ISO code, e.g. 'IN'
+  aliases?: string[]; // Other spellings found in saved addresses
+  name: string; // e.g. 'GST', 'VAT', 'Sales Tax'
+  pricesIncludeTax: boolean;
+  gst?: boolean; // Split into CGST+SGST (intra-state) or IGST (inter-state)
+  // Percentage rates per tax class; 'standard' is used for unknown classes
+  rates: Record<string, number>;
+  // State-specific rate overrides, keyed by state name or code
+  states?: Record<string, Record<string, number>>;
+}
+
+export interface TaxRules {
+  origin: TaxAddress; // Where the store ships from (decides intra/inter-state GST)
+  jurisdictions: TaxJurisdiction[];
+  // Used when the address is missing or no jurisdiction matches
+  fallback: TaxJurisdiction;
+  // Tax class for products that do not set one
+  defaultTaxClass?: string;
+  // Shipping follows the tax class of the goods it carries
+  shippingTaxClass?: string;
+}
+
+export interface TaxAddress {
+  country?: string;
+  state?: string;
+}
+
+export interface TaxableLine {
+  id: string;
+  taxClass?: string;
+  amount: number; // Line amount after discounts
+}
+
+export interface TaxComponent {
+  name: string; // e.g. 'CGST', 'SGST', 'IGST', 'Sales Tax'
+  rate: number; // Percentage
+  amount: number;
+}
+
+export interface LineTaxBreakdown {
+  lineId: string;
+  taxClass: string;
+  rate: number; // Percentage
+  taxableAmount: number; // Net of tax
+  taxAmount: number;
+  components: TaxComponent[];
+}
+
+export interface TaxBreakdown {
+  jurisdiction: string;
+  pricesIncludeTax: boolean;
+  lines: LineTaxBreakdown[];
+  shipping?: LineTaxBreakdown;
+  components: TaxComponent[]; // Totals per component across lines and shipping
+  taxAmount: number;
+}
+
+const normalize = (value?: string): string => (value || '').trim().toLowerCase();
+
+/**
+ * Store tax rules. Prices in India are GST-inclusive; other countries
+ * fall back to the flat sales tax from order-calculations.
+ */
+export const STORE_TAX_RULES: TaxRules = {
+  origin: { country: 'IN', state: 'Tamil Nadu' },
+  jurisdictions: [
+    {
+      country: 'IN',
+      aliases: ['india'],
+      name: 'GST',
+      pricesIncludeTax: true,
+      gst: true,
+      rates: {
+        standard: 18,
+        jewellery: 3, // HSN 7113, silver articles
+        exempt: 0
+      }
+    }
+  ],
+  fallback: flatTaxJurisdiction(DEFAULT_TAX_SETTINGS),
+  defaultTaxClass: 'jewellery',
+  shippingTaxClass: 'jewellery'
+};
+
+/**
+ * Express a single flat TaxSettings rate as a jurisdiction
+ */
+export function flatTaxJurisdiction(tax: TaxSettings): TaxJurisdiction {
+  return {
+    country: '*',
+    name: tax.name || 'Tax',
+    pricesIncludeTax: tax.inclusive,
+    rates: { [DEFAULT_TAX_CLASS]: tax.enabled ? tax.rate : 0 }
+  };
+}
+
+/**
+ * Find the jurisdiction for an address
+ */
+export function resolveJurisdiction(rules: TaxRules, address?: TaxAddress): TaxJurisdiction {
+  const country = normalize(address?.country);
+  if (!country) {
+    return rules.fallback;
+  }
+
+  return rules.jurisdictions.find(jurisdiction =>
+    normalize(jurisdiction.country) === country ||
+    (jurisdiction.aliases || []).some(alias => normalize(alias) === country)
+  ) || rules.fallback;
+}
+
+/**
+ * Percentage rate for a tax class in a jurisdiction, honouring state overrides
+ */
+export function resolveTaxRate(jurisdiction: TaxJurisdiction, taxClass: string = DEFAULT_TAX_CLASS, state?: string): number {
+  const stateRates = Object.entries(jurisdiction.states || {})
+    .find(([name]) => normalize(name) === normalize(state))?.[1];
+
+  const rates = { ...jurisdiction.rates, ...(stateRates || {}) };
+  return rates[taxClass] ?? rates[DEFAULT_TAX_CLASS] ?? 0;
+}
+
+/**
+ * Whether a GST sale is within the store's own state (CGST+SGST) or not (IGST)
+ */
+export function isIntraStateSale(rules: TaxRules, address?: TaxAddress): boolean {
+  return !!address?.state && normalize(address.state) === normalize(rules.origin.state);
+}
+
+// Tax contained in (inclusive) or added to (exclusive) an amount
+function taxFor(amount: number, rate: number, inclusive: boolean): number {
+  return inclusive ? amount - amount / (1 + rate / 100) : amount * (rate / 100);
+}
+
+function splitComponents(
+  jurisdiction: TaxJurisdiction,
+  rate: number,
+  taxAmount: number,
+  intraState: boolean,
+  currency: string
+): TaxComponent[] {
+  if (rate <= 0) {
+    return [];
+  }
+
+  if (!jurisdiction.gst) {
+    return [{ name: jurisdiction.name, rate, amount: taxAmount }];
+  }
+
+  if (!intraState) {
+    return [{ name: 'IGST', rate, amount: taxAmount }];
+  }
+
+  // Split in minor units so CGST + SGST always equals the line tax
+  const [cgst, sgst] = allocateAmount(taxAmount, [1, 1], currency);
+  return [
+    { name: 'CGST', rate: rate / 2, amount: cgst },
+    { name: 'SGST', rate: rate / 2, amount: sgst }
+  ];
+}
+
+function lineBreakdown(
+  lineId: string,
+  taxClass: string,
+  amount: number,
+  jurisdiction: TaxJurisdiction,
+  address: TaxAddress | undefined,
+  intraState: boolean,
+  currency: string
+): LineTaxBreakdown {
+  const rate = resolveTaxRate(jurisdiction, taxClass, address?.state);
+  const taxAmount = roundAmount(taxFor(amount, rate, jurisdiction.pricesIncludeTax), currency);
+
+  return {
+    lineId,
+    taxClass,
+    rate,
+    taxableAmount: roundAmount(jurisdiction.pricesIncludeTax ? amount - taxAmount : amount, currency),
+    taxAmount,
+    components: splitComponents(jurisdiction, rate, taxAmount, intraState, currency)
+  };
+}
+
+/**
+ * Work out tax for each line (and shipping) for a delivery address.
+ * Every line is taxed and rounded on its own, and the order tax is the sum
+ * of the line taxes, so stored orderitems always add up to the order.
+ */
+export function calculateTaxBreakdown(
+  lines: TaxableLine[],
+  shippingAmount: number,
+  address: TaxAddress | undefined,
+  rules: TaxRules = STORE_TAX_RULES,
+  currency: string = DEFAULT_CURRENCY
+): TaxBreakdown {
+  const jurisdiction = resolveJurisdiction(rules, address);
+  const intraState = isIntraStateSale(rules, address);
+
+  const lineBreakdowns = lines.map(line =>
+    lineBreakdown(line.id, line.taxClass || rules.defaultTaxClass || DEFAULT_TAX_CLASS, line.amount, jurisdiction, address, intraState, currency)
+  );
+  const shipping = shippingAmount > 0
+    ? lineBreakdown('shipping', rules.shippingTaxClass || DEFAULT_TAX_CLASS, shippingAmount, jurisdiction, address, intraState, currency)
+    : undefined;
+
+  const all = shipping ? [...lineBreakdowns, shipping] : lineBreakdowns;
+  const componentTotals = new Map<string, TaxComponent>();
+  all.forEach(line => {
+    line.components.forEach(component => {
+      const key = `${component.name}:${component.rate}`;
+      const existing = componentTotals.get(key);
+      componentTotals.set(key, existing
+        ? { ...existing, amount: roundAmount(existing.amount + component.amount, currency) }
+        : { ...component });
+    });
+  });
+
+  return {
+    jurisdiction: jurisdiction.name,
+    pricesIncludeTax: jurisdiction.pricesIncludeTax,
+    lines: lineBreakdowns,
+    shipping,
+    components: Array.from(componentTotals.values()),
+    taxAmount: roundAmount(all.reduce((sum, line) => sum + line.taxAmount, 0), currency)
+  };
+}
@@ -0,0 +1,58 @@
+// UPI payment intents (NPCI `upi://pay` deep links) and UTR references
+
+export interface UpiPayee {
+  vpa: string; // Virtual payment address, e.g. silvers@okaxis
+  name: string;
+}
+
+export const STORE_UPI_PAYEE: UpiPayee = {
+  vpa: process.env.EXPO_PUBLIC_UPI_VPA || '',
+  name: process.env.EXPO_PUBLIC_UPI_PAYEE_NAME || 'Silvers',
+};
+
+// UPI only moves rupees
+export const UPI_CURRENCY = 'INR';
+
+const VPA_PATTERN = /^[a-z0-9._-]{2,256}@[a-z][a-z0-9.-]{1,64}$/i;
+
+/**
+ * Whether a VPA looks like handle@bank
+ */
+export function isValidVpa(vpa: string): boolean {
+  return VPA_PATTERN.test(vpa.trim());
+}
+
+/**
+ * Build the intent URI UPI apps open, for a QR code or a deep link.
+ * The order number goes in as the transaction reference so payments can be matched.
+ * Throws for orders not priced in rupees.
+ */
+export function buildUpiPaymentUri(
+  payee: UpiPayee,
+  payment: { amount: number; orderNumber: string; currency: string }
+): string {
+  if (payment.currency !== UPI_CURRENCY) {
+    throw new Error(`UPI payments must be in ${UPI_CURRENCY}, not ${payment.currency}`);
+  }
+
+  const params: [string, string][] = [
+    ['pa', payee.vpa.trim()],
+    ['pn', payee.name],
+    ['am', payment.amount.toFixed(2)],
+    ['cu', UPI_CURRENCY],
+    ['tn', `Order ${payment.orderNumber}`],
+    ['tr', payment.orderNumber],
+  ];
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&')}`;
+}
+
+/**
+ * Tidy a UTR (the 12-digit bank reference a UPI app shows after paying)
+ */
+export function normalizeUtr(utr: string): string {
+  return utr.replace(/\s+/g, '').toUpperCase();
+}
+
+export function isValidUtr(utr: string): boolean {
+  return /^\d{12}$/.test(normalizeUtr(utr));
+}
@@ -1,19 +1,28 @@
-import React, { useState } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, RefreshControl, Alert } from 'react-native';
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, RefreshControl, Alert, ActivityIndicator } from 'react-native';
 import { id } from '@instantdb/react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
 import { useAuth } from '../lib/auth-context';
+import { useCart } from '../lib/cart-context';
 import { db } from '../lib/instant';
+import { isCloseToBottom, usePaginatedQuery } from '../hooks/usePaginatedQuery';
+import { OrderService } from '../services/order-service';
+import { orderNumberService } from '../services/order-number-service';
 import { formatCurrency } from '../lib/order-calculations';
+import CancelOrderButton from '../components/ui/cancel-order-button';
+import type { ReorderPlan } from '../services/cart-service';
 
 interface MyOrdersScreenProps {
   onClose?: () => void;
   onOrderSelect?: (order: any) => void;
+  onNavigateToCart?: () => void;
 }
 
 interface OrderItem {
   id: string;
+  productId?: string;
+  itemId?: string;
   title: string;
   quantity: number;
   price: number;
@@ -41,31 +50,31 @@ interface Order {
   customerPhone?: string;
 }
 
-export default function MyOrdersScreen({ onClose, onOrderSelect }: MyOrdersScreenProps) {
+export default function MyOrdersScreen({ onClose, onOrderSelect, onNavigateToCart }: MyOrdersScreenProps) {
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
+  const { reorder } = useCart();
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [reorderingId, setReorderingId] = useState<string | null>(null);
   const [expandedOrders, setExpandedOrders] = useState<Set<string>>(new Set());
 
-  // Use InstantDB reactive query to get orders by customer email
-  const { data, isLoading, error } = db.useQuery(
-    user?.email ? {
-      orders: {
-        $: {
-          where: {
-            customerEmail: user.email
-          },
-          order: {
-            createdAt: 'desc'
-          }
-        },
-        orderitems: {}
-      }
-    } : null
-  );
+  // The customer's orders, newest first, a page at a time
+  const ordersQuery = useMemo(() => {
+    if (!user?.email) return null;
+    const plan = OrderService.getInstance().buildOrderQuery({ customerEmail: user.email });
+    return { $: { where: plan.where, order: plan.order }, orderitems: {} };
+  }, [user?.email]);
+
+  const {
+    items: orderRows,
+    isLoading,
+    isLoadingMore,
+    loadMore,
+    error,
+  } = usePaginatedQuery('orders', ordersQuery, 10);
 
   // Transform orders with their items
-  const orders: Order[] = data?.orders?.map(order => ({
+  const orders: Order[] = orderRows.map(order => ({
     id: order.id,
     orderNumber: order.orderNumber,
     total: order.total,
@@ -81,7 +90,7 @@ export default function MyOrdersScreen({ onClose, onOrderSelect }: MyOrdersScree
     customerName: order.customerName,
     customerEmail: order.customerEmail,
     customerPhone: order.customerPhone
-  })) || [];
+  }));
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
@@ -106,8 +115,13 @@ export default function MyOrdersScreen({ onClose, onOrderSelect }: MyOrdersScree
     if (!user?.email) return;
 
     try {
+      const claimed = await orderNumberService.next('TEST');
+      if (!claimed.success || !claimed.orderNumber) {
+        throw new Error(claimed.error);
+      }
+
       const orderId = id();
-      const orderNumber = 'TEST-' + Date.now().toString().slice(-6);
+      const orderNumber = claimed.orderNumber;
 
       const orderData = {
         orderNumber,
@@ -164,6 +178,63 @@ export default function MyOrdersScreen({ onClose, onOrderSelect }: MyOrdersScree
     }
   };
 
+  // One line per order item that did not go back into the cart as it was
+  const describeReorder = (plan: ReorderPlan) => {
+    return plan.lines.map(line => {
+      const title = line.variantTitle ? `${line.title} (${line.variantTitle})` : line.title;
+      switch (line.status) {
+        case 'discontinued':
+          return `${title} is no longer available`;
+        case 'out_of_stock':
+          return `${title} is out of stock`;
+        case 'reduced':
+          return line.quantity > 0
+            ? `${title}: only ${line.quantity} of ${line.requested} added`
+            : `${title}: no more can be added`;
+        default:
+          return line.currentPrice !== undefined && line.currentPrice !== line.previousPrice
+            ? `${title} is now ${formatCurrency(line.currentPrice)} (was ${formatCurrency(line.previousPrice)})`
+            : null;
+      }
+    }).filter((message): message is string => !!message);
+  };
+
+  const handleBuyAgain = async (order: Order) => {
+    setReorderingId(order.id);
+    try {
+      const plan = await reorder(order.items.map(item => ({
+        productId: item.productId,
+        itemId: item.itemId,
+        title: item.title,
+        variantTitle: item.variantTitle,
+        price: item.price,
+        quantity: item.quantity,
+      })));
+      if (!plan) {
+        return;
+      }
+
+      const changes = describeReorder(plan);
+      if (plan.additions.length === 0) {
+        Alert.alert('Nothing Added', changes.join('\n') || 'None of these items are available right now');
+        return;
+      }
+
+      Alert.alert(
+        'Added to Cart',
+        changes.length > 0
+          ? `Some things changed since this order:\n\n${changes.join('\n')}`
+          : 'Everything from this order is in your cart at the same price',
+        [
+          { text: 'Keep Browsing', style: 'cancel' },
+          ...(onNavigateToCart ? [{ text: 'View Cart', onPress: onNavigateToCart }] : [])
+        ]
+      );
+    } finally {
+      setReorderingId(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
@@ -291,6 +362,23 @@ export default function MyOrdersScreen({ onClose, onOrderSelect }: MyOrdersScree
     );
   };
 
+  const renderBuyAgainButton = (order: Order) => {
+    const isReordering = reorderingId === order.id;
+
+    return (
+      <TouchableOpacity
+        onPress={() => handleBuyAgain(order)}
+        disabled={reorderingId !== null}
+        className={'flex-row items-center px-4 py-2 rounded-xl ' + (isReordering ? 'bg-gray-300' : 'bg-blue-600')}
+      >
+        <Feather name="refresh-cw" size={14} color="#FFFFFF" />
+        <Text className="text-white text-sm font-medium ml-2">
+          {isReordering ? 'Adding...' : 'Buy Again'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   const renderOrderCard = (order: Order) => {
     const isExpanded = expandedOrders.has(order.id);
     const safeOrderNumber = order.orderNumber || 'Unknown';
@@ -374,6 +462,12 @@ export default function MyOrdersScreen({ onClose, onOrderSelect }: MyOrdersScree
           </View>
         )}
 
+        {isExpanded && (
+          <View className="mb-4">
+            <CancelOrderButton order={order} size="small" />
+          </View>
+        )}
+
         {/* Order Total */}
         {!isExpanded && (
           <View className="flex-row items-center justify-between pt-4 border-t border-gray-100">
@@ -385,6 +479,13 @@ export default function MyOrdersScreen({ onClose, onOrderSelect }: MyOrdersScree
                 {safePaymentStatus === 'paid' ? 'Paid' : 'Payment ' + safePaymentStatus}
               </Text>
             </View>
+            {itemCount > 0 && renderBuyAgainButton(order)}
+          </View>
+        )}
+
+        {isExpanded && itemCount > 0 && (
+          <View className="items-end">
+            {renderBuyAgainButton(order)}
           </View>
         )}
       </View>
@@ -440,7 +541,7 @@ export default function MyOrdersScreen({ onClose, onOrderSelect }: MyOrdersScree
       ) : error ? (
         <View className="flex-1 items-center justify-center px-6">
           <Text className="text-red-600 text-center mb-4">
-            Error loading orders: {error?.message || 'Unknown error'}
+            Error loading orders: {error || 'Unknown error'}
           </Text>
           <TouchableOpacity
             onPress={handleRefresh}
@@ -455,6 +556,12 @@ export default function MyOrdersScreen({ onClose, onOrderSelect }: MyOrdersScree
         <ScrollView
           className="flex-1"
           showsVerticalScrollIndicator={false}
+          scrollEventThrottle={200}
+          onScroll={({ nativeEvent }) => {
+            if (isCloseToBottom(nativeEvent)) {
+              loadMore();
+            }
+          }}
           refreshControl={
             <RefreshControl
               refreshing={isRefreshing}
@@ -465,6 +572,11 @@ export default function MyOrdersScreen({ onClose, onOrderSelect }: MyOrdersScree
         >
           <View className="px-6 py-4">
             {orders.map(renderOrderCard)}
+            {isLoadingMore && (
+              <View className="py-4 items-center">
+                <ActivityIndicator size="small" color="#3B82F6" />
+              </View>
+            )}
           </View>
         </ScrollView>
       )}
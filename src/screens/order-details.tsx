@@ -1,9 +1,18 @@
-import React, { useEffect } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Alert, Linking } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
 import { db } from '../lib/instant';
 import { formatCurrency } from '../lib/order-calculations';
+import { DEFAULT_CURRENCY } from '../lib/money';
+import { getOrderEventTitle, OrderEvent } from '../lib/order-state';
+import { getReturnableQuantity, isWithinReturnWindow, RETURN_STATUS_LABELS, ReturnLine, ReturnStatus } from '../lib/returns';
+import { getCarrierName, SHIPMENT_STATUS_LABELS, ShipmentLine, ShipmentStatus } from '../lib/shipments';
+import { canIssueInvoice } from '../lib/invoices';
+import { invoiceService, InvoiceFormat } from '../services/invoice-service';
+import CancelOrderButton from '../components/ui/cancel-order-button';
+import ReturnRequestModal from '../components/ui/return-request-modal';
+import UpiPaymentPanel from '../components/ui/upi-payment-panel';
 
 interface OrderDetailsScreenProps {
   order: any;
@@ -23,8 +32,28 @@ interface OrderItemWithDetails {
   discountAmount?: number;
 }
 
+interface OrderShipment {
+  id: string;
+  status: ShipmentStatus;
+  lines: ShipmentLine[];
+  carrier?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  shippedAt?: Date;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+interface OrderReturn extends ReturnLine {
+  id: string;
+  rmaNumber: string;
+  resolutionNote?: string;
+}
+
 export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScreenProps) {
   const insets = useSafeAreaInsets();
+  const [returnItem, setReturnItem] = useState<OrderItemWithDetails | null>(null);
+  const [downloadingInvoice, setDownloadingInvoice] = useState<InvoiceFormat | null>(null);
 
   // Use InstantDB reactive query to get order with its items using relationship
   const { data, isLoading, error } = db.useQuery({
@@ -34,10 +63,17 @@ export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScree
           id: order.id
         }
       },
-      orderitems: {}
+      orderitems: {},
+      events: {},
+      returns: {},
+      shipments: {},
+      invoice: {}
     }
   });
 
+  // Statuses change while the screen is open (e.g. after cancelling), so prefer the live row
+  const currentOrder = data?.orders?.[0] || order;
+
   // Transform order items from the relationship
   const orderItems: OrderItemWithDetails[] = data?.orders?.[0]?.orderitems?.map(item => ({
     id: item.id,
@@ -52,9 +88,44 @@ export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScree
     discountAmount: item.discountAmount
   })) || [];
 
+  // Timeline of status changes, oldest first
+  const events: (OrderEvent & { id: string })[] = (data?.orders?.[0]?.events || [])
+    .map(event => ({
+      id: event.id,
+      field: event.field as OrderEvent['field'],
+      from: event.from,
+      to: event.to,
+      actor: event.actor,
+      note: event.note,
+      createdAt: new Date(event.createdAt)
+    }))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
 
+  const returns: OrderReturn[] = (data?.orders?.[0]?.returns || []).map(record => ({
+    id: record.id,
+    orderItemId: record.orderItemId,
+    quantity: record.quantity,
+    status: record.status as ReturnStatus,
+    rmaNumber: record.rmaNumber,
+    resolutionNote: record.resolutionNote
+  }));
+  const canRequestReturn = isWithinReturnWindow(currentOrder);
 
-
+  // Packages in the order they were packed; cancelled ones are not shown
+  const shipments: OrderShipment[] = (data?.orders?.[0]?.shipments || [])
+    .filter(shipment => shipment.status !== 'cancelled')
+    .map(shipment => ({
+      id: shipment.id,
+      status: shipment.status as ShipmentStatus,
+      lines: (shipment.lines || []) as ShipmentLine[],
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      trackingUrl: shipment.trackingUrl,
+      shippedAt: shipment.shippedAt ? new Date(shipment.shippedAt) : undefined,
+      deliveredAt: shipment.deliveredAt ? new Date(shipment.deliveredAt) : undefined,
+      createdAt: new Date(shipment.createdAt)
+    }))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -152,11 +223,44 @@ export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScree
               )}
             </View>
           )}
+
+          {renderItemReturns(item)}
         </View>
       </View>
     </View>
   );
 
+  // RMA status for an item, and the button to start a new return
+  const renderItemReturns = (item: OrderItemWithDetails) => {
+    const itemReturns = returns.filter(record => record.orderItemId === item.id);
+    const returnable = getReturnableQuantity(item, returns);
+
+    if (itemReturns.length === 0 && !(canRequestReturn && returnable > 0)) {
+      return null;
+    }
+
+    return (
+      <View className="mt-2 pt-2 border-t border-gray-100">
+        {itemReturns.map(record => (
+          <View key={record.id} className="mb-1">
+            <Text className={`text-xs font-medium ${record.status === 'rejected' ? 'text-red-600' : 'text-blue-600'}`}>
+              {record.rmaNumber} · {RETURN_STATUS_LABELS[record.status] || record.status} ({record.quantity})
+            </Text>
+            {record.resolutionNote && (
+              <Text className="text-xs text-gray-500">{record.resolutionNote}</Text>
+            )}
+          </View>
+        ))}
+        {canRequestReturn && returnable > 0 && (
+          <TouchableOpacity onPress={() => setReturnItem(item)} className="flex-row items-center mt-1">
+            <Feather name="rotate-ccw" size={14} color="#2563EB" />
+            <Text className="text-sm text-blue-600 font-medium ml-1">Return item</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   const renderOrderSummary = () => (
     <View className="bg-white rounded-xl p-6 mb-4 shadow-sm">
       <Text className="text-lg font-semibold text-gray-900 mb-4">Order Summary</Text>
@@ -187,7 +291,14 @@ export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScree
             <Text className="text-green-600">-{formatCurrency(order.discountAmount)}</Text>
           </View>
         )}
-        
+
+        {order.paymentFee > 0 && (
+          <View className="flex-row justify-between">
+            <Text className="text-gray-600">Cash on delivery fee</Text>
+            <Text className="text-gray-900">{formatCurrency(order.paymentFee)}</Text>
+          </View>
+        )}
+
         <View className="pt-3 border-t border-gray-200">
           <View className="flex-row justify-between">
             <Text className="text-lg font-semibold text-gray-900">Total</Text>
@@ -195,11 +306,152 @@ export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScree
               {formatCurrency(order.total)}
             </Text>
           </View>
+          {currentOrder.totalRefunded > 0 && (
+            <View className="flex-row justify-between mt-2">
+              <Text className="text-gray-600">Refunded</Text>
+              <Text className="text-gray-900">-{formatCurrency(currentOrder.totalRefunded)}</Text>
+            </View>
+          )}
         </View>
       </View>
     </View>
   );
 
+  const renderTimeline = () => {
+    if (events.length === 0) return null;
+
+    return (
+      <View className="bg-white rounded-xl p-6 mb-4 shadow-sm">
+        <Text className="text-lg font-semibold text-gray-900 mb-4">Order Timeline</Text>
+        {events.map((event, index) => {
+          const isLatest = index === events.length - 1;
+          return (
+            <View key={event.id} className="flex-row">
+              <View className="items-center mr-3">
+                <View className={`w-3 h-3 rounded-full mt-1 ${isLatest ? 'bg-blue-600' : 'bg-gray-300'}`} />
+                {!isLatest && <View className="w-0.5 flex-1 bg-gray-200" />}
+              </View>
+              <View className="flex-1 pb-4">
+                <Text className={`font-medium ${isLatest ? 'text-gray-900' : 'text-gray-600'}`}>
+                  {getOrderEventTitle(event)}
+                </Text>
+                {event.note && event.note !== getOrderEventTitle(event) && (
+                  <Text className="text-sm text-gray-600 mt-1">{event.note}</Text>
+                )}
+                <Text className="text-xs text-gray-400 mt-1">
+                  {formatDate(event.createdAt)}
+                </Text>
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const openTracking = async (url: string) => {
+    try {
+      await Linking.openURL(url);
+    } catch {
+      Alert.alert('Tracking Unavailable', 'Could not open the tracking page.');
+    }
+  };
+
+  const openInvoice = async (format: InvoiceFormat) => {
+    setDownloadingInvoice(format);
+    try {
+      const result = await invoiceService.getInvoiceUrl(currentOrder.id, format);
+      if (!result.success || !result.url) {
+        Alert.alert('Invoice Unavailable', result.error || 'Could not prepare the invoice.');
+        return;
+      }
+      await Linking.openURL(result.url);
+    } catch {
+      Alert.alert('Invoice Unavailable', 'Could not open the invoice.');
+    } finally {
+      setDownloadingInvoice(null);
+    }
+  };
+
+  const renderInvoice = () => {
+    const invoice = data?.orders?.[0]?.invoice;
+    if (!invoice && !canIssueInvoice(currentOrder)) return null;
+
+    return (
+      <View className="bg-white rounded-xl p-6 mb-4 shadow-sm">
+        <Text className="text-lg font-semibold text-gray-900 mb-1">Tax Invoice</Text>
+        <Text className="text-sm text-gray-500 mb-4">
+          {invoice ? `Invoice ${invoice.number}` : 'Your GST invoice is ready to download'}
+        </Text>
+        <View className="flex-row">
+          {(['pdf', 'html'] as InvoiceFormat[]).map(format => (
+            <TouchableOpacity
+              key={format}
+              onPress={() => openInvoice(format)}
+              disabled={downloadingInvoice !== null}
+              className="flex-row items-center border border-gray-200 rounded-lg px-4 py-2 mr-3"
+            >
+              <Feather name="download" size={14} color="#2563EB" />
+              <Text className="text-sm text-blue-600 font-medium ml-2">
+                {downloadingInvoice === format ? 'Preparing...' : format.toUpperCase()}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderShipments = () => {
+    if (shipments.length === 0) return null;
+
+    return (
+      <View className="bg-white rounded-xl p-6 mb-4 shadow-sm">
+        <Text className="text-lg font-semibold text-gray-900 mb-4">
+          {shipments.length === 1 ? 'Package' : `Packages (${shipments.length})`}
+        </Text>
+        {shipments.map((shipment, index) => (
+          <View key={shipment.id} className={index > 0 ? 'pt-4 mt-4 border-t border-gray-100' : ''}>
+            <View className="flex-row items-center justify-between mb-2">
+              <Text className="text-base font-medium text-gray-900">Package {index + 1}</Text>
+              <Text className={`text-sm font-medium ${shipment.status === 'delivered' ? 'text-green-600' : 'text-blue-600'}`}>
+                {SHIPMENT_STATUS_LABELS[shipment.status] || shipment.status}
+              </Text>
+            </View>
+            {shipment.lines.map(line => {
+              const item = orderItems.find(candidate => candidate.id === line.orderItemId);
+              return (
+                <Text key={line.orderItemId} className="text-sm text-gray-600">
+                  {item?.title || 'Item'} × {line.quantity}
+                </Text>
+              );
+            })}
+            {shipment.trackingNumber && (
+              <View className="flex-row items-center justify-between mt-2">
+                <Text className="text-sm text-gray-600">
+                  {[getCarrierName(shipment.carrier), shipment.trackingNumber].filter(Boolean).join(' · ')}
+                </Text>
+                {shipment.trackingUrl && (
+                  <TouchableOpacity onPress={() => openTracking(shipment.trackingUrl!)} className="flex-row items-center">
+                    <Feather name="truck" size={14} color="#2563EB" />
+                    <Text className="text-sm text-blue-600 font-medium ml-1">Track</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+            {(shipment.deliveredAt || shipment.shippedAt) && (
+              <Text className="text-xs text-gray-400 mt-1">
+                {shipment.deliveredAt
+                  ? `Delivered ${formatDate(shipment.deliveredAt)}`
+                  : `Shipped ${formatDate(shipment.shippedAt!)}`}
+              </Text>
+            )}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const renderShippingAddress = () => {
     if (!order.shippingAddress) return null;
 
@@ -243,9 +495,9 @@ export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScree
               </Text>
             </View>
           </View>
-          <View className={`px-3 py-1 rounded-full ${getStatusColor(order.status)}`}>
-            <Text className={`text-sm font-medium ${getStatusColor(order.status).split(' ')[0]}`}>
-              {getStatusText(order.status)}
+          <View className={`px-3 py-1 rounded-full ${getStatusColor(currentOrder.status)}`}>
+            <Text className={`text-sm font-medium ${getStatusColor(currentOrder.status).split(' ')[0]}`}>
+              {getStatusText(currentOrder.status)}
             </Text>
           </View>
         </View>
@@ -279,12 +531,37 @@ export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScree
             )}
           </View>
 
+          {currentOrder.paymentStatus === 'awaiting_payment' && currentOrder.paymentMethod === 'upi' && (
+            <UpiPaymentPanel
+              orderId={currentOrder.id}
+              orderNumber={currentOrder.orderNumber}
+              amount={currentOrder.total}
+              currency={currentOrder.currency || DEFAULT_CURRENCY}
+              paymentReference={currentOrder.paymentReference}
+            />
+          )}
+
+          {/* Packages and tracking */}
+          {renderShipments()}
+
+          {/* Order Timeline */}
+          {renderTimeline()}
+
           {/* Order Summary */}
           {renderOrderSummary()}
 
+          {/* Tax Invoice */}
+          {renderInvoice()}
+
           {/* Shipping Address */}
           {renderShippingAddress()}
 
+          {currentOrder.status === 'cancelled' && currentOrder.cancelReason && (
+            <View className="bg-red-50 rounded-xl p-4 mb-4">
+              <Text className="text-red-700 font-medium">Cancelled: {currentOrder.cancelReason}</Text>
+            </View>
+          )}
+
           {/* Payment Status */}
           <View className="bg-white rounded-xl p-6 mb-4 shadow-sm">
             <Text className="text-lg font-semibold text-gray-900 mb-4">Payment & Fulfillment</Text>
@@ -292,23 +569,43 @@ export default function OrderDetailsScreen({ order, onClose }: OrderDetailsScree
               <View className="flex-row justify-between">
                 <Text className="text-gray-600">Payment Status</Text>
                 <Text className={`font-medium ${
-                  order.paymentStatus === 'paid' ? 'text-green-600' : 'text-yellow-600'
+                  currentOrder.paymentStatus === 'paid' ? 'text-green-600' : 'text-yellow-600'
                 }`}>
-                  {order.paymentStatus === 'paid' ? 'Paid' : 'Payment ' + order.paymentStatus}
+                  {currentOrder.paymentStatus === 'paid'
+                    ? 'Paid'
+                    : getOrderEventTitle({ field: 'paymentStatus', to: currentOrder.paymentStatus })}
                 </Text>
               </View>
+              {currentOrder.paymentReference && (
+                <View className="flex-row justify-between">
+                  <Text className="text-gray-600">Payment Reference</Text>
+                  <Text className="text-gray-900">{currentOrder.paymentReference}</Text>
+                </View>
+              )}
               <View className="flex-row justify-between">
                 <Text className="text-gray-600">Fulfillment Status</Text>
                 <Text className={`font-medium ${
-                  order.fulfillmentStatus === 'fulfilled' ? 'text-green-600' : 'text-blue-600'
+                  currentOrder.fulfillmentStatus === 'fulfilled' ? 'text-green-600' : 'text-blue-600'
                 }`}>
-                  {order.fulfillmentStatus === 'fulfilled' ? 'Fulfilled' : order.fulfillmentStatus}
+                  {currentOrder.fulfillmentStatus === 'fulfilled' ? 'Fulfilled' : currentOrder.fulfillmentStatus}
                 </Text>
               </View>
             </View>
           </View>
+
+          <View className="mb-6">
+            <CancelOrderButton order={currentOrder} />
+          </View>
         </View>
       </ScrollView>
+
+      <ReturnRequestModal
+        visible={!!returnItem}
+        orderId={order.id}
+        orderItem={returnItem}
+        returnableQuantity={returnItem ? getReturnableQuantity(returnItem, returns) : 0}
+        onClose={() => setReturnItem(null)}
+      />
     </View>
   );
 }
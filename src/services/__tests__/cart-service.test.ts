@@ -0,0 +1,213 @@
+// Tests for cart service merge rules
+import { cartService, mergeCartLines, getCartLineKey, applyMetalRate, applyPriceList, planReorder, MAX_CART_LINE_QUANTITY } from '../cart-service';
+import { db } from '../../lib/instant';
+import type { CartItem } from '../../lib/cart-context';
+
+// Mock the database; each cart update records the line it writes
+jest.mock('../../lib/instant', () => ({
+  db: {
+    transact: jest.fn(),
+    queryOnce: jest.fn(),
+    tx: {
+      cart: new Proxy({}, {
+        get: (_, lineId) => ({
+          update: (data: any) => ({ id: lineId, data, link: () => ({ id: lineId, data }) }),
+          delete: () => ({ id: lineId, deleted: true }),
+        }),
+      }),
+    },
+  },
+}));
+
+// Mock the logger
+jest.mock('../../lib/logger', () => ({
+  log: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  },
+  trackError: jest.fn(),
+}));
+
+// Mock id generator
+jest.mock('@instantdb/react-native', () => ({
+  id: jest.fn(() => 'new-line-id'),
+}));
+
+const line = (overrides: Partial<CartItem>): CartItem => ({
+  id: 'line-1',
+  productId: 'product-1',
+  title: 'Silver Anklet',
+  price: 20,
+  quantity: 1,
+  total: 20,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('CartService merge rules', () => {
+  it('should treat product and variant together as the line key', () => {
+    expect(getCartLineKey({ productId: 'p1', itemId: 'v1' })).not.toBe(getCartLineKey({ productId: 'p1' }));
+    expect(getCartLineKey({ productId: 'p1', itemId: undefined })).toBe(getCartLineKey({ productId: 'p1' }));
+  });
+
+  it('should add quantities of matching lines and keep the server line id', () => {
+    const server = [line({ id: 'server-1', quantity: 2, total: 40 })];
+    const guest = [line({ id: 'guest-1', quantity: 3, total: 60 })];
+
+    const result = mergeCartLines(server, guest);
+
+    expect(result.updated).toHaveLength(1);
+    expect(result.created).toHaveLength(0);
+    expect(result.merged).toHaveLength(1);
+    expect(result.merged[0].id).toBe('server-1');
+    expect(result.merged[0].quantity).toBe(5);
+    expect(result.merged[0].total).toBe(100);
+  });
+
+  it('should take price from the most recently updated line', () => {
+    const server = [line({ id: 'server-1', price: 20, updatedAt: new Date('2024-01-02T00:00:00Z') })];
+    const guest = [line({ id: 'guest-1', price: 25, updatedAt: new Date('2024-01-03T00:00:00Z') })];
+
+    const result = mergeCartLines(server, guest);
+
+    expect(result.merged[0].price).toBe(25);
+    expect(result.merged[0].total).toBe(50);
+  });
+
+  it('should save the tax and pricing details of the newer line when merging into the server cart', async () => {
+    const metalPricing = { metal: 'silver', purity: '925', netWeight: 12, makingChargeType: 'flat' as const, makingCharge: 150 };
+    const server = line({ id: 'server-1', updatedAt: new Date('2024-01-02T00:00:00Z') });
+    const guest = line({
+      id: 'guest-1',
+      collectionId: 'anklets',
+      taxClass: 'jewellery',
+      hsnCode: '7113',
+      metalPricing,
+      updatedAt: new Date('2024-01-03T00:00:00Z'),
+    });
+    (db.queryOnce as jest.Mock).mockResolvedValueOnce({ data: { cart: [server] } });
+
+    expect((await cartService.mergeGuestCart('user-1', [guest])).success).toBe(true);
+
+    const [writes] = (db.transact as jest.Mock).mock.calls[0];
+    expect(writes).toContainEqual(expect.objectContaining({
+      id: 'server-1',
+      data: expect.objectContaining({ collectionId: 'anklets', taxClass: 'jewellery', hsnCode: '7113', metalPricing, quantity: 2 }),
+    }));
+  });
+
+  it('should cap merged quantities', () => {
+    const server = [line({ id: 'server-1', quantity: 90 })];
+    const guest = [line({ id: 'guest-1', quantity: 20 })];
+
+    const result = mergeCartLines(server, guest);
+
+    expect(result.merged[0].quantity).toBe(MAX_CART_LINE_QUANTITY);
+  });
+
+  it('should create new server lines for guest-only variants', () => {
+    const server = [line({ id: 'server-1', itemId: 'small' })];
+    const guest = [
+      line({ id: 'guest-1', itemId: 'large', quantity: 1 }),
+      line({ id: 'guest-2', itemId: 'large', quantity: 2 }),
+    ];
+
+    const result = mergeCartLines(server, guest);
+
+    expect(result.updated).toHaveLength(0);
+    expect(result.created).toHaveLength(1);
+    expect(result.created[0].id).toBe('new-line-id');
+    expect(result.created[0].quantity).toBe(3);
+    expect(result.merged).toHaveLength(2);
+  });
+
+  it('should fold duplicate server lines into the first and delete the rest', () => {
+    const server = [
+      line({ id: 'server-1', quantity: 1 }),
+      line({ id: 'server-2', quantity: 2 }),
+      line({ id: 'server-3', itemId: 'large', quantity: 1 }),
+      line({ id: 'server-4', itemId: 'large', quantity: 4 }),
+    ];
+    const guest = [line({ id: 'guest-1', quantity: 1 })];
+
+    const result = mergeCartLines(server, guest);
+
+    expect(result.removed.map(removed => removed.id)).toEqual(['server-2', 'server-4']);
+    expect(result.updated.map(updated => [updated.id, updated.quantity])).toEqual([['server-1', 4], ['server-3', 5]]);
+    expect(result.merged).toHaveLength(2);
+  });
+
+  it('should reprice metal lines at the current rate and leave fixed-price lines alone', () => {
+    const rates = [{ id: 'rate-1', metal: 'silver', purity: '925', rate: 90, effectiveAt: '2024-01-01T00:00:00Z' }];
+    const metalLine = line({
+      quantity: 2,
+      metalPricing: { metal: 'silver', purity: '925', netWeight: 10, makingChargeType: 'flat', makingCharge: 100 },
+    });
+
+    const repriced = applyMetalRate(metalLine, rates, new Date('2024-02-01T00:00:00Z'));
+
+    expect(repriced.price).toBe(1000);
+    expect(repriced.total).toBe(2000);
+    expect(repriced.metalPrice?.rateId).toBe('rate-1');
+    expect(applyMetalRate(line({}), rates)).toEqual(line({}));
+  });
+
+  it('should apply the shopper\'s price list and keep the regular price for display', () => {
+    const context = {
+      customerGroup: 'vip',
+      priceLists: [{ id: 'vip', name: 'VIP', customerGroups: ['vip'], isActive: true, percentOff: 10 }],
+    };
+
+    const priced = applyPriceList(line({ quantity: 3 }), context);
+
+    expect(priced.price).toBe(18);
+    expect(priced.total).toBe(54);
+    expect(priced.regularPrice).toBe(20);
+    expect(priced.priceListId).toBe('vip');
+    expect(applyPriceList(line({}), { ...context, customerGroup: 'retail' })).toEqual(line({}));
+  });
+});
+
+describe('CartService reorder planning', () => {
+  const catalog = {
+    products: {
+      'product-1': { id: 'product-1', title: 'Silver Anklet', status: 'active', price: 25 },
+      'product-2': { id: 'product-2', title: 'Toe Ring', status: 'archived', price: 10 },
+    },
+    items: {
+      'item-1': { id: 'item-1', productId: 'product-1', sku: 'ANK-M', price: 25, totalAvailable: 3 },
+      'item-2': { id: 'item-2', productId: 'product-1', sku: 'ANK-L', price: 20, totalAvailable: 0 },
+    },
+  };
+  const retail = { customerGroup: 'retail', priceLists: [] };
+  const source = (overrides: object) => ({ productId: 'product-1', itemId: 'item-1', title: 'Silver Anklet', price: 20, quantity: 1, ...overrides });
+
+  it('should reprice available lines at today\'s price', () => {
+    const plan = planReorder([source({ quantity: 2 })], catalog, [], [], retail);
+
+    expect(plan.lines[0]).toMatchObject({ status: 'added', quantity: 2, previousPrice: 20, currentPrice: 25 });
+    expect(plan.additions).toEqual([expect.objectContaining({ productId: 'product-1', itemId: 'item-1', price: 25, quantity: 2, sku: 'ANK-M' })]);
+  });
+
+  it('should skip discontinued and out of stock variants', () => {
+    const plan = planReorder([
+      source({ productId: 'product-2', itemId: undefined }),
+      source({ itemId: 'item-gone' }),
+      source({ itemId: 'item-2', price: 20 }),
+      source({ productId: undefined, itemId: undefined }),
+    ], catalog, [], [], retail);
+
+    expect(plan.lines.map(planned => planned.status)).toEqual(['discontinued', 'discontinued', 'out_of_stock', 'discontinued']);
+    expect(plan.additions).toHaveLength(0);
+  });
+
+  it('should limit quantities to stock not already in the cart and combine repeated lines', () => {
+    const inCart = [line({ itemId: 'item-1', quantity: 1 })];
+    const plan = planReorder([source({ quantity: 1 }), source({ quantity: 3 })], catalog, inCart, [], retail);
+
+    expect(plan.lines.map(planned => [planned.status, planned.quantity])).toEqual([['added', 1], ['reduced', 1]]);
+    expect(plan.additions).toHaveLength(1);
+    expect(plan.additions[0].quantity).toBe(2);
+  });
+});
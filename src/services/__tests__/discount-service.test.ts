@@ -0,0 +1,154 @@
+// Tests for discount code rules
+import { discountService, evaluateDiscount, isLineEligible, normalizeDiscountCode, DiscountCode } from '../discount-service';
+import { db } from '../../lib/instant';
+
+// Mock the database
+jest.mock('../../lib/instant', () => ({
+  db: {
+    transact: jest.fn(),
+    queryOnce: jest.fn(),
+    tx: {
+      discounts: {},
+      discountredemptions: new Proxy({}, {
+        get: (_, redemptionId) => ({ update: (data: any) => ({ redemptionId, data, link: () => ({ redemptionId, data }) }) }),
+      }),
+      discountuses: new Proxy({}, {
+        get: (_, useId) => ({ update: (data: any) => ({ useId, data, link: () => ({ useId, data }) }) }),
+      }),
+    },
+  },
+}));
+
+// Mock the logger
+jest.mock('../../lib/logger', () => ({
+  log: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  },
+  trackError: jest.fn(),
+}));
+
+// Mock id generator
+jest.mock('@instantdb/react-native', () => ({
+  id: jest.fn(() => 'redemption-id'),
+}));
+
+const discount = (overrides: Partial<DiscountCode>): DiscountCode => ({
+  id: 'discount-1',
+  code: 'SILVER10',
+  type: 'percentage',
+  value: 10,
+  isActive: true,
+  ...overrides,
+});
+
+const lines = [
+  { id: 'line-1', productId: 'ring', collectionId: 'rings', price: 40, quantity: 2 },
+  { id: 'line-2', productId: 'chain', collectionId: 'chains', price: 25, quantity: 1 },
+];
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+describe('DiscountService rules', () => {
+  it('should normalize codes typed by customers', () => {
+    expect(normalizeDiscountCode('  silver10 ')).toBe('SILVER10');
+  });
+
+  it('should apply percentage codes to the whole cart', () => {
+    const result = evaluateDiscount(discount({}), lines, { now });
+
+    expect(result.valid).toBe(true);
+    expect(result.amount).toBe(10.5);
+    expect(result.eligibleLineIds).toEqual(['line-1', 'line-2']);
+  });
+
+  it('should cap the discount at the maximum discount', () => {
+    const result = evaluateDiscount(discount({ value: 50, maximumDiscount: 20 }), lines, { now });
+    expect(result.amount).toBe(20);
+  });
+
+  it('should limit scoped codes to matching collections and products', () => {
+    const scoped = discount({ type: 'fixed', value: 5, collectionIds: ['chains'] });
+
+    expect(isLineEligible(scoped, lines[0])).toBe(false);
+    expect(isLineEligible(scoped, lines[1])).toBe(true);
+    expect(evaluateDiscount(scoped, lines, { now }).eligibleLineIds).toEqual(['line-2']);
+    expect(evaluateDiscount(discount({ productIds: ['ring'] }), lines, { now }).amount).toBe(8);
+  });
+
+  it('should enforce the minimum against eligible items only', () => {
+    const result = evaluateDiscount(discount({ collectionIds: ['chains'], minimumAmount: 50 }), lines, { now });
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('$50.00');
+  });
+
+  it('should reject codes outside their dates or usage limits', () => {
+    expect(evaluateDiscount(discount({ isActive: false }), lines, { now }).valid).toBe(false);
+    expect(evaluateDiscount(discount({ startsAt: new Date('2024-07-01') }), lines, { now }).error).toBe('This code is not valid yet');
+    expect(evaluateDiscount(discount({ endsAt: new Date('2024-05-01') }), lines, { now }).error).toBe('This code has expired');
+    expect(evaluateDiscount(discount({ usageLimit: 100 }), lines, { now, redemptions: 100 }).error).toBe('This code has reached its usage limit');
+    expect(evaluateDiscount(discount({ usageLimit: 100 }), lines, { now, redemptions: 99 }).valid).toBe(true);
+    expect(
+      evaluateDiscount(discount({ usageLimitPerCustomer: 1 }), lines, { now, customerRedemptions: 1 }).error
+    ).toBe('You have already used this code');
+    expect(
+      evaluateDiscount(discount({ usageLimitPerCustomer: 1 }), lines, { now }).error
+    ).toBe('Sign in to use this code');
+  });
+});
+
+describe('DiscountService redemptions', () => {
+  it('should not count redemptions reversed by a cancelled order', async () => {
+    (db.queryOnce as jest.Mock).mockResolvedValue({
+      data: {
+        discountredemptions: [
+          { id: 'redemption-1' },
+          { id: 'redemption-2', reversedAt: '2024-06-02T00:00:00Z' },
+        ],
+      },
+    });
+
+    await expect(discountService.countCustomerRedemptions('discount-1', 'shopper@example.com')).resolves.toBe(1);
+  });
+
+  it('should reverse only the redemptions still in use', () => {
+    const transactions = discountService.buildReversalTransactions([
+      { id: 'redemption-1' },
+      { id: 'redemption-2', reversedAt: '2024-06-02T00:00:00Z' },
+    ]);
+
+    expect(transactions).toEqual([
+      expect.objectContaining({ redemptionId: 'redemption-1', data: { reversedAt: expect.any(Date) } }),
+      expect.objectContaining({ useId: 'redemption-1', data: { reversedAt: expect.any(Date) } }),
+    ]);
+  });
+
+  it('should count every customer\'s uses toward the total usage limit', async () => {
+    (db.queryOnce as jest.Mock).mockImplementation(async (query: any) => query.discountuses
+      ? { data: { discountuses: [{ id: 'use-1' }, { id: 'use-2' }, { id: 'use-3', reversedAt: '2024-06-02T00:00:00Z' }] } }
+      : query.discounts
+        ? { data: { discounts: [discount({ usageLimit: 2 })] } }
+        : { data: { discountredemptions: [] } });
+
+    const result = await discountService.validateCode('silver10', lines, 'shopper@example.com');
+
+    expect(db.queryOnce).toHaveBeenCalledWith({ discountuses: { $: { where: { discountId: 'discount-1' } } } });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('This code has reached its usage limit');
+  });
+
+  it('should record a use alongside each redemption', () => {
+    const evaluation = evaluateDiscount(discount({}), lines, { now });
+    const transactions = discountService.buildRedemptionTransactions(discount({}), evaluation, {
+      orderId: 'order-1',
+      customerEmail: 'shopper@example.com',
+    });
+
+    expect(transactions).toContainEqual({
+      useId: 'redemption-id',
+      data: { createdAt: expect.any(Date), discountId: 'discount-1', orderId: 'order-1' },
+    });
+  });
+});
@@ -0,0 +1,147 @@
+// Tests for inventory stock checks and reservation planning
+import { checkCartStock, planReservation, getAvailableQuantity, inventoryService, ItemStock, MAX_STOCK_WRITE_ATTEMPTS } from '../inventory-service';
+import { db } from '../../lib/instant';
+
+// Mock the database
+jest.mock('../../lib/instant', () => {
+  const update = () => jest.fn(() => ({ link: jest.fn() }));
+  return {
+    db: {
+      transact: jest.fn(),
+      queryOnce: jest.fn(),
+      tx: {
+        items: { ring: { update: update() } },
+        ilocations: { 'il-1': { update: update() } },
+        iadjust: { 'adjust-1': { update: update() } },
+      },
+    },
+  };
+});
+
+// Mock the logger
+jest.mock('../../lib/logger', () => ({
+  log: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  },
+  trackError: jest.fn(),
+}));
+
+// Mock id generator
+jest.mock('@instantdb/react-native', () => ({
+  id: jest.fn(() => 'adjust-1'),
+}));
+
+const stock: Record<string, ItemStock> = {
+  ring: {
+    id: 'ring',
+    ilocations: [
+      { id: 'il-1', locationId: 'store', available: 2, committed: 0 },
+      { id: 'il-2', locationId: 'warehouse', available: 5, committed: 1 },
+      { id: 'il-3', locationId: 'closed', available: 10, isActive: false },
+    ],
+  },
+  chain: { id: 'chain', totalAvailable: 0 },
+  preorder: { id: 'preorder', allowPreorder: true, totalAvailable: 0 },
+};
+
+describe('InventoryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should sum available quantity across active locations only', () => {
+    expect(getAvailableQuantity(stock.ring)).toBe(7);
+    expect(getAvailableQuantity(stock.chain)).toBe(0);
+    expect(getAvailableQuantity(stock.preorder)).toBeUndefined();
+  });
+
+  it('should flag insufficient and out of stock lines', () => {
+    const result = checkCartStock(
+      [
+        { id: 'line-1', itemId: 'ring', quantity: 8 },
+        { id: 'line-2', itemId: 'chain', quantity: 1 },
+        { id: 'line-3', itemId: 'preorder', quantity: 3 },
+        { id: 'line-4', quantity: 1 },
+      ],
+      stock
+    );
+
+    expect(result.map(status => status.status)).toEqual(['insufficient', 'out_of_stock', 'in_stock', 'in_stock']);
+    expect(result[0].available).toBe(7);
+  });
+
+  it('should allocate from the location with the most stock first', () => {
+    const plan = planReservation([{ id: 'line-1', itemId: 'ring', quantity: 6 }], stock);
+
+    expect(plan.shortages).toEqual({});
+    expect(plan.allocations).toEqual([
+      { itemId: 'ring', ilocationId: 'il-2', locationId: 'warehouse', quantity: 5 },
+      { itemId: 'ring', ilocationId: 'il-1', locationId: 'store', quantity: 1 },
+    ]);
+  });
+
+  it('should report shortages when stock runs out', () => {
+    const plan = planReservation(
+      [
+        { id: 'line-1', itemId: 'ring', quantity: 4 },
+        { id: 'line-2', itemId: 'ring', quantity: 4 },
+      ],
+      stock
+    );
+
+    expect(plan.shortages).toEqual({ ring: 1 });
+  });
+
+  it('should put received goods on hand and record the adjustment', () => {
+    const item = { ...stock.ring, ilocations: [{ id: 'il-1', locationId: 'store', available: 2, onHand: 3 }] };
+    inventoryService.buildReceiptTransactions(
+      { itemId: 'ring', locationId: 'store', quantity: 2, reason: 'customer_return', reference: 'RMA-1042-1', actor: 'staff@silvers.test' },
+      item
+    );
+
+    const tx = db.tx as any;
+    expect(tx.ilocations['il-1'].update).toHaveBeenCalledWith(expect.objectContaining({ onHand: 5, available: 4 }));
+    expect(tx.iadjust['adjust-1'].update).toHaveBeenCalledWith(expect.objectContaining({
+      quantityBefore: 3,
+      quantityAfter: 5,
+      quantityChange: 2,
+      reason: 'customer_return',
+      reference: 'RMA-1042-1',
+    }));
+    expect(tx.items.ring.update).toHaveBeenCalledWith(expect.objectContaining({ totalAvailable: 4 }));
+  });
+
+  it('should bump the version each reservation was built from', () => {
+    const item = { ...stock.ring, version: 4, ilocations: [{ id: 'il-1', locationId: 'store', available: 2, committed: 0, version: 7 }] };
+    inventoryService.buildReservationTransactions(planReservation([{ id: 'line-1', itemId: 'ring', quantity: 1 }], { ring: item }), { ring: item }, 'ORD-1');
+
+    const tx = db.tx as any;
+    expect(tx.ilocations['il-1'].update).toHaveBeenCalledWith(expect.objectContaining({ available: 1, committed: 1, version: 8 }));
+    expect(tx.items.ring.update).toHaveBeenCalledWith(expect.objectContaining({ totalAvailable: 1, totalCommitted: 1, version: 5 }));
+  });
+
+  it('should rebuild a rejected stock write from fresh stock', async () => {
+    (db.queryOnce as jest.Mock)
+      .mockResolvedValueOnce({ data: { items: [{ id: 'ring', version: 1 }] } })
+      .mockResolvedValueOnce({ data: { items: [{ id: 'ring', version: 2 }] } });
+    (db.transact as jest.Mock)
+      .mockRejectedValueOnce(new Error('Permission denied'))
+      .mockResolvedValueOnce({});
+    const build = jest.fn((snapshot: Record<string, ItemStock>) => [snapshot.ring.version]);
+
+    await inventoryService.transactWithStock(['ring'], build);
+
+    expect(db.transact).toHaveBeenNthCalledWith(1, [1]);
+    expect(db.transact).toHaveBeenNthCalledWith(2, [2]);
+  });
+
+  it('should give up after the last attempt', async () => {
+    (db.queryOnce as jest.Mock).mockResolvedValue({ data: { items: [{ id: 'ring' }] } });
+    (db.transact as jest.Mock).mockRejectedValue(new Error('Permission denied'));
+
+    await expect(inventoryService.transactWithStock(['ring'], () => [])).rejects.toThrow('Permission denied');
+    expect(db.transact).toHaveBeenCalledTimes(MAX_STOCK_WRITE_ATTEMPTS);
+  });
+});
@@ -0,0 +1,107 @@
+// Tests for issuing invoice numbers across customers
+import { invoiceService } from '../invoice-service';
+import { db } from '../../lib/instant';
+
+// Mock the database; each tx call records the write so transact can apply it
+jest.mock('../../lib/instant', () => {
+  const tx = new Proxy({}, {
+    get: (_, entity) => new Proxy({}, {
+      get: (__, entityId) => ({
+        update: (data: any) => {
+          const write = { entity, id: entityId, data };
+          return { ...write, link: () => write };
+        },
+      }),
+    }),
+  });
+  return { db: { transact: jest.fn(), queryOnce: jest.fn(), tx } };
+});
+
+// Mock the logger
+jest.mock('../../lib/logger', () => ({
+  log: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  },
+  trackError: jest.fn(),
+}));
+
+jest.mock('../../lib/r2-service', () => ({
+  r2Service: {
+    uploadFileWithStructuredPath: jest.fn(async (file: { name: string }) => ({ success: true, key: file.name, url: `https://files/${file.name}` })),
+    deleteFiles: jest.fn(),
+  },
+}));
+
+// Mock id generator
+let mockNextId = 0;
+jest.mock('@instantdb/react-native', () => ({
+  id: jest.fn(() => `id-${++mockNextId}`),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const paidOrder = (id: string, customerEmail: string) => ({
+  id,
+  orderNumber: `ORD-${id}`,
+  customerEmail,
+  status: 'pending',
+  paymentStatus: 'paid',
+  currency: 'INR',
+  total: 1080,
+  orderitems: [{ productId: 'product-1', title: 'Silver Anklet', quantity: 1, price: 1080, lineTotal: 1080, hsnCode: '7113' }],
+});
+
+describe('InvoiceService', () => {
+  // What the rules let the signed-in customer see: every claimed number, but only their own invoices
+  let shopper: string;
+  let invoiceNumbers: any[];
+  let invoices: any[];
+  const orders = [paidOrder('order-1', 'asha@example.com'), paidOrder('order-2', 'ravi@example.com')];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    invoiceNumbers = [];
+    invoices = [];
+
+    mockDb.queryOnce.mockImplementation(async (query: any) => {
+      if (query.invoicenumbers) {
+        const latest = invoiceNumbers
+          .filter(claim => claim.financialYear === query.invoicenumbers.$.where.financialYear)
+          .sort((a, b) => b.sequence - a.sequence);
+        return { data: { invoicenumbers: latest.slice(0, 1) } } as any;
+      }
+      const order = orders.find(candidate => candidate.id === query.orders.$.where.id)!;
+      const invoice = invoices.find(candidate => candidate.orderId === order.id && order.customerEmail === shopper);
+      return { data: { orders: [{ ...order, invoice }] } } as any;
+    });
+    mockDb.transact.mockImplementation(async (writes: any) => {
+      for (const write of writes) {
+        if (write.entity === 'invoicenumbers') {
+          if (invoiceNumbers.some(claim => claim.number === write.data.number)) {
+            throw new Error('Unique attribute number already exists');
+          }
+          invoiceNumbers.push(write.data);
+        }
+        if (write.entity === 'invoices') {
+          invoices.push({ id: write.id, ...write.data });
+        }
+      }
+      return {} as any;
+    });
+  });
+
+  it('should continue the sequence when another customer issued the last invoice', async () => {
+    shopper = 'asha@example.com';
+    const first = await invoiceService.issueInvoice('order-1');
+    shopper = 'ravi@example.com';
+    const second = await invoiceService.issueInvoice('order-2');
+
+    expect(first.success).toBe(true);
+    expect(second.success).toBe(true);
+    expect(first.invoice!.number).toMatch(/\/000001$/);
+    expect(second.invoice!.number).toMatch(/\/000002$/);
+    expect(mockDb.transact).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,52 @@
+// Tests for the local mock carrier
+import { MockCarrierAdapter } from '../carriers/mock-carrier';
+import { toLabelAddress } from '../carriers';
+
+describe('MockCarrierAdapter', () => {
+  const request = {
+    from: { name: 'Silvers', city: 'Chennai', postalCode: '600002' },
+    to: { name: 'Priya', city: 'Madurai', postalCode: '625001' },
+    parcel: { weight: 1200, value: 4500 },
+  };
+
+  it('should quote rates from the parcel weight', async () => {
+    const rates = await new MockCarrierAdapter().quoteRates(request);
+
+    expect(rates.map(rate => [rate.service, rate.amount])).toEqual([['standard', 100], ['express', 200]]);
+  });
+
+  it('should create labels with repeatable tracking numbers', async () => {
+    const carrier = new MockCarrierAdapter();
+    const first = await carrier.createShipment({ ...request, service: 'standard', reference: 'ORD-1', labelFormat: 'zpl' });
+    const second = await carrier.createShipment({ ...request, service: 'express', reference: 'ORD-1', labelFormat: 'pdf' });
+
+    expect([first.trackingNumber, second.trackingNumber]).toEqual(['MOCK00000001', 'MOCK00000002']);
+    expect(first.label?.contentType).toBe('application/x-zpl');
+    expect(second.label?.data.startsWith('%PDF')).toBe(true);
+    expect((await carrier.createShipment({ ...request, service: 'overnight', reference: 'ORD-1', labelFormat: 'pdf' })).success).toBe(false);
+  });
+
+  it('should track scans and only cancel labels the carrier has not picked up', async () => {
+    const carrier = new MockCarrierAdapter();
+    const { trackingNumber } = await carrier.createShipment({ ...request, service: 'standard', reference: 'ORD-1', labelFormat: 'pdf' });
+
+    carrier.simulateScan(trackingNumber!, 'in_transit', 'Chennai hub');
+    const tracking = await carrier.track(trackingNumber!);
+
+    expect(tracking.status).toBe('in_transit');
+    expect(tracking.events).toHaveLength(2);
+    expect((await carrier.cancelShipment(trackingNumber!)).error).toBe('The carrier already has this parcel');
+  });
+
+  it('should map stored addresses for carriers', () => {
+    expect(toLabelAddress({ firstName: 'Priya', lastName: 'R', address1: '4 Main Rd', province: 'TN', zip: '625001' })).toEqual({
+      name: 'Priya R',
+      street: '4 Main Rd',
+      city: undefined,
+      state: 'TN',
+      postalCode: '625001',
+      country: undefined,
+      phone: undefined,
+    });
+  });
+});
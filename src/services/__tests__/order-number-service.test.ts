@@ -0,0 +1,82 @@
+// Tests for the order number sequence
+import { orderNumberService } from '../order-number-service';
+import { db } from '../../lib/instant';
+
+// Mock the database
+jest.mock('../../lib/instant', () => require('../../__tests__/mock-instant').mockInstant());
+
+// Mock the logger
+jest.mock('../../lib/logger', () => ({
+  log: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  },
+  trackError: jest.fn(),
+}));
+
+// Mock id generator
+jest.mock('@instantdb/react-native', () => ({
+  id: jest.fn(() => 'claim-id'),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const latest = (sequence?: number) => ({
+  data: { ordernumbers: sequence ? [{ id: `claim-${sequence}`, sequence }] : [] },
+} as any);
+
+describe('OrderNumberService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should start a new prefix at the configured first number', async () => {
+    mockDb.queryOnce.mockResolvedValue(latest());
+    mockDb.transact.mockResolvedValue({} as any);
+
+    const result = await orderNumberService.next('ORD');
+
+    expect(result).toEqual({ success: true, orderNumber: 'ORD-001001' });
+  });
+
+  it('should continue after the latest claimed number', async () => {
+    mockDb.queryOnce.mockResolvedValue(latest(1041));
+    mockDb.transact.mockResolvedValue({} as any);
+
+    const result = await orderNumberService.next('ORD');
+
+    expect(result.orderNumber).toBe('ORD-001042');
+  });
+
+  it('should take the next number when another device claims it first', async () => {
+    mockDb.queryOnce
+      .mockResolvedValueOnce(latest(1041))
+      .mockResolvedValueOnce(latest(1042));
+    mockDb.transact
+      .mockRejectedValueOnce(new Error('Unique attribute number already exists'))
+      .mockResolvedValueOnce({} as any);
+
+    const result = await orderNumberService.next('ORD');
+
+    expect(result.orderNumber).toBe('ORD-001043');
+    expect(mockDb.transact).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after repeated conflicts', async () => {
+    mockDb.queryOnce.mockResolvedValue(latest(1041));
+    mockDb.transact.mockRejectedValue(new Error('Unique attribute number already exists'));
+
+    const result = await orderNumberService.next('ORD');
+
+    expect(result.success).toBe(false);
+    expect(mockDb.transact).toHaveBeenCalledTimes(5);
+  });
+
+  it('should reject prefixes that would not pass order number validation', async () => {
+    const result = await orderNumberService.next('ord#');
+
+    expect(result.success).toBe(false);
+    expect(mockDb.queryOnce).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,214 @@
+// Tests for idempotent order placement
+import { OrderService, OrderData } from '../order-service';
+import { db } from '../../lib/instant';
+import { userCustomerService } from '../user-customer-service';
+import { orderNumberService } from '../order-number-service';
+import { inventoryService } from '../inventory-service';
+
+// Mock the database
+jest.mock('../../lib/instant', () => require('../../__tests__/mock-instant').mockInstant());
+
+// Mock the logger
+jest.mock('../../lib/logger', () => ({
+  log: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  trackError: jest.fn(),
+  PerformanceMonitor: {
+    measure: jest.fn((name, fn) => fn()),
+  },
+}));
+
+jest.mock('../user-customer-service', () => ({
+  userCustomerService: {
+    updateCustomerOrderStats: jest.fn(),
+  },
+}));
+
+jest.mock('../order-number-service', () => ({
+  orderNumberService: {
+    next: jest.fn(),
+  },
+}));
+
+// Mock id generator
+jest.mock('@instantdb/react-native', () => ({
+  id: jest.fn(() => 'new-order-id'),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const orderData: Omit<OrderData, 'orderNumber'> = {
+  referenceId: 'checkout-key-1',
+  customerId: 'customer-1',
+  customerEmail: 'shopper@example.com',
+  status: 'pending',
+  paymentStatus: 'pending',
+  fulfillmentStatus: 'unfulfilled',
+  subtotal: 100,
+  taxAmount: 0,
+  shippingAmount: 0,
+  discountAmount: 0,
+  total: 100,
+  items: [{ productId: 'product-1', title: 'Silver Anklet', quantity: 1, price: 100, lineTotal: 100 }],
+};
+
+describe('OrderService.placeOrder', () => {
+  const orderService = OrderService.getInstance();
+  const clearCart = jest.fn();
+  let collectPayment: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (orderNumberService.next as jest.Mock).mockResolvedValue({ success: true, orderNumber: 'ORD-001001' });
+    collectPayment = jest.spyOn(orderService, 'collectPayment').mockResolvedValue({ success: true });
+  });
+
+  afterEach(() => {
+    collectPayment.mockRestore();
+  });
+
+  it('should create, pay for and complete a new order', async () => {
+    mockDb.queryOnce.mockResolvedValue({ data: { orders: [] } } as any);
+    mockDb.transact.mockResolvedValue({} as any);
+
+    const result = await orderService.placeOrder(orderData, { actor: 'shopper@example.com', paymentMethodId: 'card', clearCart });
+
+    expect(result).toEqual({
+      success: true,
+      orderId: 'new-order-id',
+      orderNumber: 'ORD-001001',
+      paymentPending: false,
+      duplicate: false,
+    });
+    expect(mockDb.transact).toHaveBeenCalledTimes(1);
+    expect(collectPayment).toHaveBeenCalledWith('new-order-id', expect.objectContaining({ methodId: 'card' }));
+    expect(userCustomerService.updateCustomerOrderStats).toHaveBeenCalledWith('shopper@example.com');
+    expect(clearCart).toHaveBeenCalled();
+  });
+
+  it('should return the order already placed with the same key', async () => {
+    mockDb.queryOnce.mockResolvedValue({
+      data: {
+        orders: [{ id: 'order-1', orderNumber: 'ORD-000001', status: 'pending', paymentStatus: 'paid', payments: [{ id: 'payment-1' }] }],
+      },
+    } as any);
+
+    const result = await orderService.placeOrder(orderData, { actor: 'shopper@example.com', paymentMethodId: 'card', clearCart });
+
+    expect(result).toEqual({
+      success: true,
+      orderId: 'order-1',
+      orderNumber: 'ORD-000001',
+      paymentPending: false,
+      duplicate: true,
+    });
+    expect(mockDb.transact).not.toHaveBeenCalled();
+    expect(orderNumberService.next).not.toHaveBeenCalled();
+    expect(collectPayment).not.toHaveBeenCalled();
+    expect(clearCart).toHaveBeenCalled();
+  });
+
+  it('should take payment for an order whose first attempt stopped before paying', async () => {
+    mockDb.queryOnce.mockResolvedValue({
+      data: {
+        orders: [{ id: 'order-1', orderNumber: 'ORD-000001', status: 'pending', paymentStatus: 'pending', payments: [] }],
+      },
+    } as any);
+
+    const result = await orderService.placeOrder(orderData, { actor: 'shopper@example.com', paymentMethodId: 'card', clearCart });
+
+    expect(result.success).toBe(true);
+    expect(result.orderId).toBe('order-1');
+    expect(result.orderNumber).toBe('ORD-000001');
+    expect(mockDb.transact).not.toHaveBeenCalled();
+    expect(collectPayment).toHaveBeenCalledWith('order-1', expect.anything());
+  });
+
+  it('should not pay again when a concurrent attempt created the order first', async () => {
+    mockDb.queryOnce
+      .mockResolvedValueOnce({ data: { orders: [] } } as any)
+      .mockResolvedValueOnce({
+        data: {
+          orders: [{ id: 'order-2', orderNumber: 'ORD-000002', status: 'pending', paymentStatus: 'pending', payments: [] }],
+        },
+      } as any);
+    mockDb.transact.mockRejectedValue(new Error('Unique attribute referenceId already exists'));
+
+    const result = await orderService.placeOrder(orderData, { actor: 'shopper@example.com', paymentMethodId: 'card', clearCart });
+
+    expect(result).toEqual({
+      success: true,
+      orderId: 'order-2',
+      orderNumber: 'ORD-000002',
+      paymentPending: true,
+      duplicate: true,
+    });
+    expect(collectPayment).not.toHaveBeenCalled();
+    expect(userCustomerService.updateCustomerOrderStats).toHaveBeenCalledWith('shopper@example.com');
+    expect(clearCart).toHaveBeenCalled();
+  });
+
+  it('should re-check stock and retry when another order took it first', async () => {
+    const stockedOrder = { ...orderData, items: [{ ...orderData.items[0], itemId: 'item-1' }] };
+    const reservation = {
+      plan: { allocations: [{ itemId: 'item-1', ilocationId: 'il-1', locationId: 'store', quantity: 1 }], shortages: {} },
+      stock: { 'item-1': { id: 'item-1', ilocations: [{ id: 'il-1', locationId: 'store', available: 2, committed: 0 }] } },
+    };
+    const prepareReservation = jest.spyOn(inventoryService, 'prepareReservation').mockResolvedValue({ success: true, ...reservation });
+    mockDb.queryOnce.mockResolvedValue({ data: { orders: [] } } as any);
+    mockDb.transact
+      .mockRejectedValueOnce(new Error('Permission denied'))
+      .mockResolvedValueOnce({} as any);
+
+    const result = await orderService.placeOrder(stockedOrder, { actor: 'shopper@example.com', paymentMethodId: 'card', reservation, clearCart });
+
+    expect(result.success).toBe(true);
+    expect(prepareReservation).toHaveBeenCalledWith([{ id: '0', itemId: 'item-1', quantity: 1 }]);
+    expect(mockDb.transact).toHaveBeenCalledTimes(2);
+    expect(orderNumberService.next).toHaveBeenCalledTimes(1);
+    prepareReservation.mockRestore();
+  });
+
+  it('should stop when the re-checked stock is no longer enough', async () => {
+    const reservation = { plan: { allocations: [], shortages: {} }, stock: {} };
+    const prepareReservation = jest.spyOn(inventoryService, 'prepareReservation')
+      .mockResolvedValue({ success: false, error: 'Some items are no longer available in the requested quantity' });
+    mockDb.queryOnce.mockResolvedValue({ data: { orders: [] } } as any);
+    mockDb.transact.mockRejectedValue(new Error('Permission denied'));
+
+    const result = await orderService.placeOrder(orderData, { actor: 'shopper@example.com', paymentMethodId: 'card', reservation, clearCart });
+
+    expect(result).toEqual({ success: false, error: 'Some items are no longer available in the requested quantity' });
+    expect(mockDb.transact).toHaveBeenCalledTimes(1);
+    expect(collectPayment).not.toHaveBeenCalled();
+    prepareReservation.mockRestore();
+  });
+
+  it('should not claim a number for a payment method that is not available', async () => {
+    mockDb.queryOnce.mockResolvedValue({ data: { orders: [] } } as any);
+
+    const result = await orderService.placeOrder(orderData, { actor: 'shopper@example.com', paymentMethodId: 'cheque', clearCart });
+
+    expect(result).toEqual({ success: false, error: 'This payment method is not available' });
+    expect(orderNumberService.next).not.toHaveBeenCalled();
+    expect(mockDb.transact).not.toHaveBeenCalled();
+  });
+
+  it('should cancel the order when payment fails', async () => {
+    mockDb.queryOnce.mockResolvedValue({ data: { orders: [] } } as any);
+    mockDb.transact.mockResolvedValue({} as any);
+    collectPayment.mockResolvedValue({ success: false, error: 'Card declined' });
+    const cancelOrder = jest.spyOn(orderService, 'cancelOrder').mockResolvedValue({ success: true });
+
+    const result = await orderService.placeOrder(orderData, { actor: 'shopper@example.com', paymentMethodId: 'card', clearCart });
+
+    expect(result).toEqual({ success: false, error: 'Card declined', orderId: 'new-order-id' });
+    expect(cancelOrder).toHaveBeenCalledWith('new-order-id', expect.objectContaining({ reason: 'Payment failed' }));
+    expect(clearCart).not.toHaveBeenCalled();
+    cancelOrder.mockRestore();
+  });
+});
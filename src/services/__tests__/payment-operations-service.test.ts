@@ -0,0 +1,65 @@
+// Tests for staff and gateway payment operations
+import { paymentOperationsService } from '../payment-operations-service';
+import { db } from '../../lib/instant';
+
+// Mock the database
+jest.mock('../../lib/instant', () => require('../../__tests__/mock-instant').mockInstant());
+
+// Mock the logger
+jest.mock('../../lib/logger', () => ({
+  log: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  trackError: jest.fn(),
+  PerformanceMonitor: {
+    measure: jest.fn((name, fn) => fn()),
+  },
+}));
+
+// Mock id generator
+jest.mock('@instantdb/react-native', () => ({
+  id: jest.fn(() => 'event-1'),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+describe('PaymentOperationsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should only mark cash collected for cash-on-delivery attempts', async () => {
+    mockDb.queryOnce.mockResolvedValue({
+      data: { payments: [{ id: 'payment-1', method: 'upi', provider: 'upi', status: 'pending' }] },
+    } as any);
+
+    expect((await paymentOperationsService.recordCollection('order-1')).success).toBe(false);
+    expect(mockDb.transact).not.toHaveBeenCalled();
+  });
+
+  it('should reject webhooks with a bad signature', async () => {
+    const body = JSON.stringify({ type: 'payment.captured', providerPaymentId: 'mock_pay_1', amount: 120.5 });
+
+    expect(await paymentOperationsService.applyWebhook('mock', body, 'forged')).toEqual({ success: false, error: 'Invalid webhook signature' });
+    expect(mockDb.queryOnce).not.toHaveBeenCalled();
+  });
+
+  it('should match a reported reference to the order still waiting on it', async () => {
+    mockDb.queryOnce.mockResolvedValue({
+      data: {
+        orders: [
+          { id: 'order-1', payments: [{ id: 'payment-1', status: 'voided', amount: 80 }] },
+          { id: 'order-2', payments: [{ id: 'payment-2', status: 'pending', amount: 120.5 }] },
+        ],
+      },
+    } as any);
+
+    expect(await paymentOperationsService.findPendingByReference('123456789012')).toEqual({ orderId: 'order-2', amount: 120.5 });
+    expect(mockDb.queryOnce).toHaveBeenCalledWith(expect.objectContaining({
+      orders: expect.objectContaining({ $: { where: { paymentReference: '123456789012' } } }),
+    }));
+  });
+});
@@ -0,0 +1,184 @@
+// Tests for payment collection against the mock gateway
+import { paymentService } from '../payment-service';
+import { MockPaymentProvider, MOCK_PAYMENT_TOKENS, signMockWebhook } from '../payments/mock-provider';
+import { getPaymentMethodOptions } from '../payments';
+import { priceOrder, STORE_PRICING } from '../../lib/pricing';
+import { checkCodEligibility } from '../../lib/cod';
+import { db } from '../../lib/instant';
+
+// Mock the database
+jest.mock('../../lib/instant', () => {
+  const link = jest.fn(() => 'payment-tx');
+  return {
+    db: {
+      transact: jest.fn(),
+      queryOnce: jest.fn(),
+      tx: {
+        payments: {
+          'payment-1': { update: jest.fn(() => ({ link })) },
+        },
+        orders: {
+          'order-1': { update: jest.fn(() => 'order-tx') },
+        },
+      },
+    },
+  };
+});
+
+// Mock the logger
+jest.mock('../../lib/logger', () => ({
+  log: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  trackError: jest.fn(),
+}));
+
+// Mock id generator
+jest.mock('@instantdb/react-native', () => ({
+  id: jest.fn(() => 'payment-1'),
+}));
+
+const order = { id: 'order-1', orderNumber: '1042', total: 120.5, currency: 'USD' };
+
+describe('PaymentService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should authorize and record a card payment for the backend to capture', async () => {
+    const result = await paymentService.collectPayment(order, { methodId: 'card' });
+    const update = (db.tx.payments as any)['payment-1'].update;
+
+    expect(result).toEqual({ success: true, paymentId: 'payment-1', pending: true });
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({
+      orderId: 'order-1',
+      provider: 'mock',
+      status: 'authorized',
+      capturedAmount: 0,
+    }));
+    expect(db.transact).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record declined attempts', async () => {
+    const result = await paymentService.collectPayment(order, { methodId: 'card', token: MOCK_PAYMENT_TOKENS.declined });
+    const update = (db.tx.payments as any)['payment-1'].update;
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Card declined');
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed', capturedAmount: 0 }));
+  });
+
+  it('should leave UPI payments pending until they are confirmed', async () => {
+    const result = await paymentService.collectPayment({ ...order, currency: 'INR' }, { methodId: 'upi' });
+    const update = (db.tx.payments as any)['payment-1'].update;
+
+    expect(result).toEqual({ success: true, paymentId: 'payment-1', pending: true });
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({
+      provider: 'upi',
+      providerPaymentId: 'upi_1042',
+      status: 'pending',
+      capturedAmount: 0,
+    }));
+  });
+
+  it('should refuse UPI for orders not priced in rupees', async () => {
+    const result = await paymentService.collectPayment(order, { methodId: 'upi' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('UPI payments must be in INR');
+  });
+
+  it('should leave cash on delivery pending until the courier remits it', async () => {
+    const result = await paymentService.collectPayment(order, { methodId: 'cod' });
+    const update = (db.tx.payments as any)['payment-1'].update;
+
+    expect(result).toEqual({ success: true, paymentId: 'payment-1', pending: true });
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({
+      provider: 'cod',
+      method: 'cod',
+      providerPaymentId: 'cod_1042',
+      status: 'pending',
+    }));
+  });
+
+  it('should reject unknown payment methods', async () => {
+    const result = await paymentService.collectPayment(order, { methodId: 'cheque' });
+
+    expect(result.success).toBe(false);
+    expect(db.transact).not.toHaveBeenCalled();
+  });
+
+  it('should void only the attempts still waiting on money when an order is cancelled', () => {
+    const transactions = paymentService.buildVoidTransactions([
+      { id: 'payment-1', status: 'pending' },
+      { id: 'payment-2', status: 'captured' },
+    ], 'Changed my mind');
+
+    expect(transactions).toHaveLength(1);
+    expect((db.tx.payments as any)['payment-1'].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'voided',
+      error: 'Changed my mind',
+    }));
+  });
+
+  it('should only store the customer\'s reference on the order', async () => {
+    expect((await paymentService.recordReference('order-1', '123456789012')).success).toBe(true);
+    expect((db.tx as any).orders['order-1'].update).toHaveBeenCalledWith(expect.objectContaining({ paymentReference: '123456789012' }));
+    expect(db.transact).toHaveBeenCalledWith(['order-tx']);
+  });
+});
+
+describe('Checkout payment options', () => {
+  const reasons = (currency: string, postalCode = '600002') => {
+    const pricing = priceOrder([{ id: 'line-1', price: 1500, quantity: 1 }], { ...STORE_PRICING, currency });
+    const codEligibility = checkCodEligibility({ orderValue: pricing.subtotal, postalCode, refusedDeliveries: 0 });
+    return Object.fromEntries(getPaymentMethodOptions({ currency: pricing.currency, codEligibility })
+      .map(option => [option.method.id, option.unavailableReason]));
+  };
+
+  it('should offer UPI for a cart priced in rupees', () => {
+    expect(priceOrder([{ id: 'line-1', price: 1500, quantity: 1 }]).currency).toBe('INR');
+    expect(reasons('INR')).toEqual({ upi: undefined, card: undefined, cod: undefined });
+  });
+
+  it('should say why a method cannot pay for the order', () => {
+    expect(reasons('USD', '110001')).toEqual({
+      upi: 'UPI is only available for orders in INR',
+      card: undefined,
+      cod: expect.any(String),
+    });
+  });
+});
+
+describe('MockPaymentProvider', () => {
+  it('should behave the same way every run', async () => {
+    const provider = new MockPaymentProvider();
+    const request = { orderId: 'order-1', orderNumber: '1042', amount: 50, currency: 'USD' };
+
+    const first = await provider.authorize(request);
+    const second = await provider.authorize(request);
+    expect([first.providerPaymentId, second.providerPaymentId]).toEqual(['mock_pay_1', 'mock_pay_2']);
+    expect((await provider.capture('mock_pay_1', 60)).error).toBe('Cannot capture more than was authorized');
+    expect((await provider.void('mock_pay_2')).status).toBe('voided');
+  });
+
+  it('should not refund more than was captured', async () => {
+    const provider = new MockPaymentProvider();
+    const { providerPaymentId } = await provider.authorize({ orderId: 'order-1', orderNumber: '1042', amount: 50, currency: 'USD' });
+    await provider.capture(providerPaymentId!, 50);
+
+    expect((await provider.refund(providerPaymentId!, 30)).success).toBe(true);
+    expect((await provider.refund(providerPaymentId!, 30)).error).toBe('Only 20 can be refunded');
+  });
+
+  it('should verify its own webhook signatures', () => {
+    const provider = new MockPaymentProvider();
+    const body = JSON.stringify({ type: 'payment.refunded', providerPaymentId: 'mock_pay_1', amount: 10 });
+
+    expect(provider.verifyWebhook(body, signMockWebhook(body))).toEqual(JSON.parse(body));
+    expect(provider.verifyWebhook(body, signMockWebhook(body, 'other-secret'))).toBeNull();
+  });
+});
@@ -199,6 +199,36 @@ describe('ProductService', () => {
     });
   });
 
+  describe('buildProductQuery', () => {
+    it('should filter on indexed fields in the database', () => {
+      const plan = productService.buildProductQuery({ category: 'rings', brand: 'b1', status: 'Active' });
+
+      expect(plan.where).toEqual({ categoryId: 'rings', brandId: 'b1', status: 'active' });
+      expect(plan.order).toEqual({ createdAt: 'desc' });
+    });
+
+    it('should search title, description, sku, barcode and tags', () => {
+      const plan = productService.buildProductQuery({ search: ' anklet ' });
+
+      expect(plan.where.or).toEqual([
+        { title: { $ilike: '%anklet%' } },
+        { description: { $ilike: '%anklet%' } },
+        { sku: { $ilike: '%anklet%' } },
+        { barcode: { $ilike: '%anklet%' } },
+        { tags: { $ilike: '%anklet%' } },
+      ]);
+    });
+
+    it('should not filter on status when showing all products', () => {
+      expect(productService.buildProductQuery({ status: 'All' }).where).toEqual({});
+    });
+
+    it('should fall back to newest first for unindexed sorts', () => {
+      expect(productService.buildProductQuery({}, { field: 'title', direction: 'asc' }).order).toEqual({ title: 'asc' });
+      expect(productService.buildProductQuery({}, { field: 'price', direction: 'asc' }).order).toEqual({ createdAt: 'desc' });
+    });
+  });
+
   describe('createProduct', () => {
     it('should create a product successfully', async () => {
       const { db } = require('../../lib/instant');
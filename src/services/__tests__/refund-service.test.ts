@@ -0,0 +1,64 @@
+// Tests for refund records
+import { refundService } from '../refund-service';
+import { db } from '../../lib/instant';
+
+// Mock the database
+jest.mock('../../lib/instant', () => {
+  const link = jest.fn(() => 'refund-tx');
+  return {
+    db: {
+      transact: jest.fn(),
+      tx: {
+        refunds: {
+          'refund-1': { update: jest.fn(() => ({ link })) },
+        },
+      },
+    },
+  };
+});
+
+// Mock the logger
+jest.mock('../../lib/logger', () => ({
+  log: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    error: jest.fn(),
+  },
+  trackError: jest.fn(),
+}));
+
+// Mock id generator
+jest.mock('@instantdb/react-native', () => ({
+  id: jest.fn(() => 'refund-1'),
+}));
+
+describe('RefundService', () => {
+  it('should record a pending refund linked to the order', () => {
+    const transactions = refundService.buildRefundTransactions('order-1', { amount: 40, reason: 'Changed my mind', actor: 'customer@silvers.test' });
+    const update = (db.tx.refunds as any)['refund-1'].update;
+
+    expect(transactions).toEqual(['refund-tx']);
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({
+      orderId: 'order-1',
+      amount: 40,
+      reason: 'Changed my mind',
+      status: 'pending',
+    }));
+    expect(update.mock.results[0].value.link).toHaveBeenCalledWith({ order: 'order-1' });
+  });
+
+  it('should link line refunds to their order items', () => {
+    refundService.buildRefundTransactions('order-1', {
+      type: 'line',
+      amount: 33.6,
+      subtotal: 30,
+      taxAmount: 3.6,
+      lines: [{ orderItemId: 'line-1', quantity: 1, subtotal: 30, taxAmount: 3.6 }],
+      actor: 'staff@silvers.test',
+    });
+    const update = (db.tx.refunds as any)['refund-1'].update;
+
+    expect(update).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'line', subtotal: 30, taxAmount: 3.6 }));
+    expect(update.mock.results[1].value.link).toHaveBeenLastCalledWith({ order: 'order-1', orderitems: ['line-1'] });
+  });
+});
@@ -0,0 +1,41 @@
+// Shipping carriers available to staff when buying labels
+import type { LabelAddress } from '../../lib/shipping-labels';
+import { MockCarrierAdapter } from './mock-carrier';
+import { CarrierAdapter } from './types';
+
+export * from './types';
+
+const carriers = new Map<string, CarrierAdapter>();
+
+/**
+ * Make a carrier available by its id; replaces any carrier with the same id
+ */
+export function registerCarrier(carrier: CarrierAdapter): void {
+  carriers.set(carrier.id, carrier);
+}
+
+export function getCarrier(carrierId: string): CarrierAdapter | undefined {
+  return carriers.get(carrierId);
+}
+
+export function getCarriers(): CarrierAdapter[] {
+  return [...carriers.values()];
+}
+
+// Until a carrier account is connected, labels come from the mock carrier
+registerCarrier(new MockCarrierAdapter());
+
+/**
+ * Map a stored address (order shipping address or location address) to what carriers need
+ */
+export function toLabelAddress(address: any, fallbackName: string = ''): LabelAddress {
+  return {
+    name: address?.name || [address?.firstName, address?.lastName].filter(Boolean).join(' ') || fallbackName,
+    street: address?.street || address?.address1,
+    city: address?.city,
+    state: address?.state || address?.province,
+    postalCode: address?.zipCode || address?.zip || address?.postalCode,
+    country: address?.country,
+    phone: address?.phone,
+  };
+}
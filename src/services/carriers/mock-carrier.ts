@@ -0,0 +1,105 @@
+// In-process carrier for development and offline tests.
+// Rates depend only on the parcel, and tracking numbers on call order, so results are repeatable.
+import { buildLabel, LABEL_CONTENT_TYPES } from '../../lib/shipping-labels';
+import {
+  CarrierAdapter,
+  CarrierRate,
+  CarrierRateRequest,
+  CarrierShipmentRequest,
+  CarrierShipmentResult,
+  CarrierTrackingEvent,
+  CarrierTrackingResult,
+  CarrierTrackingStatus,
+} from './types';
+
+const MOCK_SERVICES = [
+  { service: 'standard', name: 'Mock Standard', base: 60, perHalfKilo: 20, estimatedDays: '3-5 days' },
+  { service: 'express', name: 'Mock Express', base: 120, perHalfKilo: 40, estimatedDays: '1-2 days' },
+];
+
+const DESCRIPTIONS: Record<CarrierTrackingStatus, string> = {
+  label_created: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery exception',
+  cancelled: 'Shipment cancelled',
+};
+
+export class MockCarrierAdapter implements CarrierAdapter {
+  readonly id = 'mock';
+  readonly name = 'Mock Carrier';
+  private shipments = new Map<string, CarrierTrackingEvent[]>();
+  private sequence = 0;
+
+  async quoteRates(request: CarrierRateRequest): Promise<CarrierRate[]> {
+    const halfKilos = Math.max(1, Math.ceil(request.parcel.weight / 500));
+    return MOCK_SERVICES.map(option => ({
+      carrierId: this.id,
+      service: option.service,
+      name: option.name,
+      amount: option.base + option.perHalfKilo * (halfKilos - 1),
+      estimatedDays: option.estimatedDays,
+    }));
+  }
+
+  async createShipment(request: CarrierShipmentRequest): Promise<CarrierShipmentResult> {
+    const option = MOCK_SERVICES.find(candidate => candidate.service === request.service);
+    if (!option) {
+      return { success: false, error: `Unknown service "${request.service}"` };
+    }
+    if (!request.to.postalCode) {
+      return { success: false, error: 'Delivery address needs a postal code' };
+    }
+
+    const trackingNumber = `MOCK${String(++this.sequence).padStart(8, '0')}`;
+    const [rate] = (await this.quoteRates(request)).filter(candidate => candidate.service === request.service);
+    this.shipments.set(trackingNumber, [{ status: 'label_created', description: DESCRIPTIONS.label_created, occurredAt: new Date() }]);
+
+    return {
+      success: true,
+      trackingNumber,
+      amount: rate.amount,
+      label: {
+        format: request.labelFormat,
+        contentType: LABEL_CONTENT_TYPES[request.labelFormat],
+        data: buildLabel(request.labelFormat, {
+          trackingNumber,
+          carrierName: this.name,
+          service: option.name,
+          reference: request.reference,
+          weight: request.parcel.weight,
+          from: request.from,
+          to: request.to,
+        }),
+      },
+    };
+  }
+
+  async track(trackingNumber: string): Promise<CarrierTrackingResult> {
+    const events = this.shipments.get(trackingNumber);
+    if (!events) {
+      return { success: false, error: 'Tracking number not found', events: [] };
+    }
+    return { success: true, status: events[events.length - 1].status, events: [...events] };
+  }
+
+  async cancelShipment(trackingNumber: string): Promise<{ success: boolean; error?: string }> {
+    const events = this.shipments.get(trackingNumber);
+    if (!events) {
+      return { success: false, error: 'Tracking number not found' };
+    }
+    if (events[events.length - 1].status !== 'label_created') {
+      return { success: false, error: 'The carrier already has this parcel' };
+    }
+    this.simulateScan(trackingNumber, 'cancelled');
+    return { success: true };
+  }
+
+  /**
+   * Record a tracking scan, as the carrier would while the parcel moves
+   */
+  simulateScan(trackingNumber: string, status: CarrierTrackingStatus, location?: string): void {
+    this.shipments.get(trackingNumber)?.push({ status, description: DESCRIPTIONS[status], location, occurredAt: new Date() });
+  }
+}
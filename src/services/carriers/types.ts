@@ -0,0 +1,68 @@
+// Contract every shipping carrier implements
+import type { LabelAddress, LabelFormat } from '../../lib/shipping-labels';
+
+export interface CarrierParcel {
+  weight: number; // Grams
+  value: number; // Declared value
+}
+
+export interface CarrierRateRequest {
+  from: LabelAddress;
+  to: LabelAddress;
+  parcel: CarrierParcel;
+}
+
+export interface CarrierRate {
+  carrierId: string;
+  service: string;
+  name: string;
+  amount: number;
+  estimatedDays?: string;
+}
+
+export interface CarrierShipmentRequest extends CarrierRateRequest {
+  service: string;
+  reference: string; // Order number, printed on the label
+  labelFormat: LabelFormat;
+}
+
+export interface CarrierLabel {
+  format: LabelFormat;
+  contentType: string;
+  data: string;
+}
+
+export interface CarrierShipmentResult {
+  success: boolean;
+  error?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  amount?: number; // What the carrier charges for the label
+  label?: CarrierLabel;
+}
+
+export type CarrierTrackingStatus = 'label_created' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception' | 'cancelled';
+
+export interface CarrierTrackingEvent {
+  status: CarrierTrackingStatus;
+  description: string;
+  location?: string;
+  occurredAt: Date;
+}
+
+export interface CarrierTrackingResult {
+  success: boolean;
+  error?: string;
+  status?: CarrierTrackingStatus;
+  events: CarrierTrackingEvent[];
+}
+
+export interface CarrierAdapter {
+  readonly id: string;
+  readonly name: string;
+  quoteRates(request: CarrierRateRequest): Promise<CarrierRate[]>;
+  createShipment(request: CarrierShipmentRequest): Promise<CarrierShipmentResult>;
+  track(trackingNumber: string): Promise<CarrierTrackingResult>;
+  // Void a label that has not been handed over yet
+  cancelShipment(trackingNumber: string): Promise<{ success: boolean; error?: string }>;
+}
@@ -0,0 +1,540 @@
+// Cart service for syncing signed-in carts with InstantDB
+import { db } from '../lib/instant';
+import { log, trackError } from '../lib/logger';
+import { money, multiply, toMajor } from '../lib/money';
+import { calculateMetalPrice, findMetalRate, getMetalPricingSpec, resolveLivePrice, MetalRate } from '../lib/metal-pricing';
+import { resolvePriceListPrice, PriceListContext } from '../lib/price-lists';
+import { id } from '@instantdb/react-native';
+import { inventoryService, getAvailableQuantity, ItemStock } from './inventory-service';
+import type { CartItem } from '../lib/cart-context';
+
+// Highest quantity a single cart line can hold (matches the quantity selector)
+export const MAX_CART_LINE_QUANTITY = 99;
+
+export type CartLineInput = Omit<CartItem, 'id' | 'total' | 'createdAt'>;
+
+// Why a line from a past order could not go back into the cart as it was
+export type ReorderLineStatus = 'added' | 'reduced' | 'out_of_stock' | 'discontinued';
+
+// One order line the shopper wants to buy again
+export interface ReorderSourceLine {
+  productId?: string;
+  itemId?: string;
+  title: string;
+  variantTitle?: string;
+  price: number;
+  quantity: number;
+}
+
+export interface ReorderLine {
+  title: string;
+  variantTitle?: string;
+  status: ReorderLineStatus;
+  requested: number;
+  quantity: number;
+  previousPrice: number;
+  // Today's unit price, after metal rates and price lists
+  currentPrice?: number;
+  input?: CartLineInput;
+}
+
+export interface ReorderPlan {
+  lines: ReorderLine[];
+  // Lines to add to the cart, one per product/variant
+  additions: CartLineInput[];
+}
+
+export interface ReorderCatalog {
+  products: Record<string, any>;
+  // Variants with their inventory, as returned by `getStockSnapshot`
+  items: Record<string, ItemStock & Record<string, any>>;
+}
+
+export interface CartMergeResult {
+  // Lines that exist in both carts and need their quantity/details updated
+  updated: CartItem[];
+  // Guest lines with no server counterpart that need to be created
+  created: CartItem[];
+  // Duplicate server lines folded into another line that need to be deleted
+  removed: CartItem[];
+  // Final merged cart, in display order
+  merged: CartItem[];
+}
+
+/**
+ * Key used to decide whether two cart lines are the same product/variant
+ */
+export function getCartLineKey(line: Pick<CartItem, 'productId' | 'itemId'>): string {
+  return `${line.productId}::${line.itemId || ''}`;
+}
+
+/**
+ * Calculate the line total for a cart line
+ */
+export function calculateCartLineTotal(price: number, quantity: number): number {
+  return toMajor(multiply(money(price), quantity));
+}
+
+const lastTouched = (line: CartItem): number =>
+  new Date(line.updatedAt || line.createdAt).getTime();
+
+const combineLines = (target: CartItem, source: CartItem): CartItem => {
+  const quantity = Math.min(target.quantity + source.quantity, MAX_CART_LINE_QUANTITY);
+  // Price and display details come from whichever line was touched last
+  const newest = lastTouched(source) > lastTouched(target) ? source : target;
+
+  return {
+    ...target,
+    title: newest.title,
+    variantTitle: newest.variantTitle,
+    price: newest.price,
+    image: newest.image,
+    sku: newest.sku,
+    collectionId: newest.collectionId,
+    taxClass: newest.taxClass,
+    hsnCode: newest.hsnCode,
+    metalPricing: newest.metalPricing,
+    quantity,
+    total: calculateCartLineTotal(newest.price, quantity),
+    updatedAt: new Date(Math.max(lastTouched(target), lastTouched(source))),
+  };
+};
+
+/**
+ * Merge an anonymous (guest) cart into a signed-in user's server cart.
+ *
+ * Rules:
+ * - Lines are the same when productId and itemId (variant) both match.
+ * - Duplicate lines inside each cart are collapsed first; extra server
+ *   lines are deleted once folded into the first one.
+ * - Matching lines keep the server line id; quantities are added together
+ *   and capped at MAX_CART_LINE_QUANTITY.
+ * - Price and display details come from the most recently updated line.
+ * - Guest lines without a server match are added as new server lines.
+ */
+export function mergeCartLines(serverLines: CartItem[], guestLines: CartItem[]): CartMergeResult {
+  const merged = new Map<string, CartItem>();
+  const removed: CartItem[] = [];
+  const collapsedKeys = new Set<string>();
+  serverLines.forEach(line => {
+    const key = getCartLineKey(line);
+    const existing = merged.get(key);
+    if (existing) {
+      merged.set(key, combineLines(existing, line));
+      removed.push(line);
+      collapsedKeys.add(key);
+    } else {
+      merged.set(key, line);
+    }
+  });
+
+  const serverKeys = new Set(serverLines.map(getCartLineKey));
+  const guestByKey = new Map<string, CartItem>();
+  guestLines.forEach(line => {
+    const key = getCartLineKey(line);
+    const existing = guestByKey.get(key);
+    guestByKey.set(key, existing ? combineLines(existing, line) : line);
+  });
+
+  const updated: CartItem[] = [];
+  const created: CartItem[] = [];
+
+  guestByKey.forEach((guestLine, key) => {
+    if (serverKeys.has(key)) {
+      const combined = combineLines(merged.get(key)!, guestLine);
+      merged.set(key, combined);
+      updated.push(combined);
+      collapsedKeys.delete(key);
+    } else {
+      const newLine = { ...guestLine, id: id() };
+      merged.set(key, newLine);
+      created.push(newLine);
+    }
+  });
+
+  // Server lines that absorbed duplicates need saving even without a guest line
+  collapsedKeys.forEach(key => updated.push(merged.get(key)!));
+
+  return { updated, created, removed, merged: Array.from(merged.values()) };
+}
+
+/**
+ * Reprice a metal-priced line at the current rate; other lines keep their stored price
+ */
+export function applyMetalRate(line: CartItem, rates: MetalRate[], at: Date = new Date()): CartItem {
+  if (!line.metalPricing) {
+    return line;
+  }
+
+  const rate = findMetalRate(rates, line.metalPricing.metal, line.metalPricing.purity, at);
+  if (!rate) {
+    return line;
+  }
+
+  const metalPrice = calculateMetalPrice(line.metalPricing, rate);
+  return {
+    ...line,
+    price: metalPrice.price,
+    total: calculateCartLineTotal(metalPrice.price, line.quantity),
+    metalPrice,
+  };
+}
+
+/**
+ * Apply the shopper's price lists to a line priced at the regular price
+ */
+export function applyPriceList(line: CartItem, context: PriceListContext): CartItem {
+  const resolved = resolvePriceListPrice(
+    { productId: line.productId, itemId: line.itemId, quantity: line.quantity, price: line.price },
+    context
+  );
+  if (!resolved.priceListId) {
+    return line;
+  }
+
+  return {
+    ...line,
+    price: resolved.price,
+    total: calculateCartLineTotal(resolved.price, line.quantity),
+    regularPrice: line.price,
+    priceListId: resolved.priceListId,
+  };
+}
+
+/**
+ * Plan a "buy again" from a past order's lines.
+ *
+ * Rules:
+ * - Lines whose product or variant is gone or no longer active are discontinued.
+ * - Lines are repriced at today's metal rate and the shopper's price lists.
+ * - Quantities are limited by stock left after what is already in the cart,
+ *   and by MAX_CART_LINE_QUANTITY; nothing left means out of stock.
+ * - Repeated product/variant lines are added to the cart as one line.
+ */
+export function planReorder(
+  sourceLines: ReorderSourceLine[],
+  catalog: ReorderCatalog,
+  cartLines: CartItem[],
+  rates: MetalRate[],
+  priceListContext: PriceListContext
+): ReorderPlan {
+  const claimed = new Map<string, number>();
+  cartLines.forEach(line => {
+    const key = getCartLineKey(line);
+    claimed.set(key, (claimed.get(key) || 0) + line.quantity);
+  });
+
+  const lines = sourceLines.map((source): ReorderLine => {
+    const base = {
+      title: source.title,
+      variantTitle: source.variantTitle,
+      requested: source.quantity,
+      previousPrice: source.price,
+    };
+
+    const product = source.productId ? catalog.products[source.productId] : undefined;
+    const item = source.itemId ? catalog.items[source.itemId] : undefined;
+    if (!product || product.status !== 'active' || (source.itemId && !item)) {
+      return { ...base, status: 'discontinued', quantity: 0 };
+    }
+
+    const key = getCartLineKey({ productId: product.id, itemId: item?.id });
+    const inCart = claimed.get(key) || 0;
+    const available = item ? getAvailableQuantity(item) : undefined;
+    const room = Math.max(0, Math.min(available ?? Infinity, MAX_CART_LINE_QUANTITY) - inCart);
+    const quantity = Math.min(source.quantity, room);
+
+    const input: CartLineInput = {
+      productId: product.id,
+      itemId: item?.id,
+      title: product.title || source.title,
+      variantTitle: source.variantTitle,
+      price: resolveLivePrice(product, item, rates).price,
+      quantity,
+      image: item?.image || product.image,
+      sku: item?.sku || product.sku || '',
+      collectionId: product.collectionId,
+      taxClass: product.taxClass,
+      hsnCode: product.hsnCode,
+      metalPricing: getMetalPricingSpec(product, item),
+    };
+    const currentPrice = applyPriceList(
+      { ...input, id: key, total: 0, createdAt: new Date() },
+      priceListContext
+    ).price;
+
+    if (quantity <= 0) {
+      return { ...base, status: available !== undefined && available - inCart <= 0 ? 'out_of_stock' : 'reduced', quantity: 0, currentPrice };
+    }
+
+    claimed.set(key, inCart + quantity);
+    return {
+      ...base,
+      status: quantity < source.quantity ? 'reduced' : 'added',
+      quantity,
+      currentPrice,
+      input,
+    };
+  });
+
+  const additions = new Map<string, CartLineInput>();
+  lines.forEach(line => {
+    if (!line.input) {
+      return;
+    }
+    const key = getCartLineKey(line.input);
+    const existing = additions.get(key);
+    additions.set(key, existing ? { ...existing, quantity: existing.quantity + line.quantity } : line.input);
+  });
+
+  return { lines, additions: Array.from(additions.values()) };
+}
+
+/**
+ * Convert a `cart` entity row into a CartItem
+ */
+export function mapCartRow(row: any): CartItem {
+  return {
+    id: row.id,
+    productId: row.productId,
+    itemId: row.itemId,
+    title: row.title,
+    variantTitle: row.variantTitle,
+    price: row.price,
+    quantity: row.quantity,
+    total: calculateCartLineTotal(row.price, row.quantity),
+    image: row.image,
+    sku: row.sku,
+    collectionId: row.collectionId,
+    taxClass: row.taxClass,
+    hsnCode: row.hsnCode,
+    metalPricing: row.metalPricing,
+    sessionId: row.sessionId,
+    userId: row.userId,
+    createdAt: new Date(row.createdAt),
+    updatedAt: row.updatedAt ? new Date(row.updatedAt) : undefined,
+  };
+}
+
+export class CartService {
+  // Build the transaction that writes a cart line and links it to its owner
+  private lineTransaction(userId: string, line: CartItem) {
+    const links: Record<string, string> = { $users: userId, product: line.productId };
+    if (line.itemId) {
+      links.item = line.itemId;
+    }
+
+    return db.tx.cart[line.id]
+      .update({
+        productId: line.productId,
+        itemId: line.itemId,
+        title: line.title,
+        variantTitle: line.variantTitle,
+        price: line.price,
+        quantity: line.quantity,
+        image: line.image,
+        sku: line.sku,
+        collectionId: line.collectionId,
+        taxClass: line.taxClass,
+        hsnCode: line.hsnCode,
+        metalPricing: line.metalPricing,
+        userId,
+        createdAt: line.createdAt,
+        updatedAt: line.updatedAt || new Date(),
+      })
+      .link(links);
+  }
+
+  /**
+   * Fetch the server cart for a user
+   */
+  async getUserCart(userId: string): Promise<CartItem[]> {
+    const query = await db.queryOnce({
+      cart: {
+        $: {
+          where: {
+            userId
+          }
+        }
+      }
+    });
+
+    return (query.data.cart || []).map(mapCartRow);
+  }
+
+  // Build the transaction that adds an input to the cart, combining with an existing line
+  private addTransaction(userId: string, currentLines: CartItem[], input: CartLineInput, now: Date) {
+    const existing = currentLines.find(line => getCartLineKey(line) === getCartLineKey(input));
+
+    if (existing) {
+      const quantity = Math.min(existing.quantity + input.quantity, MAX_CART_LINE_QUANTITY);
+      return db.tx.cart[existing.id].update({ quantity, price: input.price, updatedAt: now });
+    }
+
+    const line: CartItem = {
+      ...input,
+      id: id(),
+      quantity: Math.min(input.quantity, MAX_CART_LINE_QUANTITY),
+      total: calculateCartLineTotal(input.price, input.quantity),
+      createdAt: now,
+      updatedAt: now,
+    };
+    return this.lineTransaction(userId, line);
+  }
+
+  /**
+   * Add a line to the user's server cart, combining with an existing line
+   */
+  async addLine(userId: string, currentLines: CartItem[], input: CartLineInput): Promise<{ success: boolean; error?: string }> {
+    try {
+      await db.transact([this.addTransaction(userId, currentLines, input, new Date())]);
+      return { success: true };
+    } catch (error: any) {
+      trackError(error, 'CartService', { operation: 'addLine', userId });
+      return { success: false, error: error.message || 'Failed to add item to cart' };
+    }
+  }
+
+  /**
+   * Add several lines to the user's server cart in one transaction.
+   * Inputs must be distinct product/variant lines (see `planReorder`).
+   */
+  async addLines(userId: string, currentLines: CartItem[], inputs: CartLineInput[]): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (inputs.length > 0) {
+        const now = new Date();
+        await db.transact(inputs.map(input => this.addTransaction(userId, currentLines, input, now)));
+      }
+      return { success: true };
+    } catch (error: any) {
+      trackError(error, 'CartService', { operation: 'addLines', userId });
+      return { success: false, error: error.message || 'Failed to add items to cart' };
+    }
+  }
+
+  /**
+   * Load the current products and variants (with stock) behind a past order's lines
+   */
+  async getReorderCatalog(lines: ReorderSourceLine[]): Promise<ReorderCatalog> {
+    const productIds = Array.from(new Set(lines.map(line => line.productId).filter((value): value is string => !!value)));
+    const itemIds = lines.map(line => line.itemId).filter((value): value is string => !!value);
+
+    const products: Record<string, any> = {};
+    if (productIds.length > 0) {
+      const query = await db.queryOnce({
+        products: {
+          $: {
+            where: {
+              id: { $in: productIds }
+            }
+          }
+        }
+      });
+      (query.data.products || []).forEach(product => {
+        products[product.id] = product;
+      });
+    }
+
+    return { products, items: await inventoryService.getStockSnapshot(itemIds) };
+  }
+
+  /**
+   * Set the quantity of a server cart line (0 removes it)
+   */
+  async updateLineQuantity(lineId: string, quantity: number): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (quantity <= 0) {
+        return this.removeLine(lineId);
+      }
+
+      await db.transact([
+        db.tx.cart[lineId].update({
+          quantity: Math.min(quantity, MAX_CART_LINE_QUANTITY),
+          updatedAt: new Date(),
+        })
+      ]);
+      return { success: true };
+    } catch (error: any) {
+      trackError(error, 'CartService', { operation: 'updateLineQuantity', lineId });
+      return { success: false, error: error.message || 'Failed to update cart' };
+    }
+  }
+
+  /**
+   * Remove a line from the server cart
+   */
+  async removeLine(lineId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await db.transact([db.tx.cart[lineId].delete()]);
+      return { success: true };
+    } catch (error: any) {
+      trackError(error, 'CartService', { operation: 'removeLine', lineId });
+      return { success: false, error: error.message || 'Failed to remove item from cart' };
+    }
+  }
+
+  /**
+   * Remove every line from the user's server cart
+   */
+  async clearUserCart(userId: string, lines?: CartItem[]): Promise<{ success: boolean; error?: string }> {
+    try {
+      const cartLines = lines || await this.getUserCart(userId);
+      if (cartLines.length > 0) {
+        await db.transact(cartLines.map(line => db.tx.cart[line.id].delete()));
+      }
+      return { success: true };
+    } catch (error: any) {
+      trackError(error, 'CartService', { operation: 'clearUserCart', userId });
+      return { success: false, error: error.message || 'Failed to clear cart' };
+    }
+  }
+
+  /**
+   * Merge a guest cart into the user's server cart after sign-in
+   */
+  async mergeGuestCart(userId: string, guestLines: CartItem[]): Promise<{ success: boolean; merged?: CartItem[]; error?: string }> {
+    try {
+      if (guestLines.length === 0) {
+        return { success: true };
+      }
+
+      const serverLines = await this.getUserCart(userId);
+      const result = mergeCartLines(serverLines, guestLines);
+
+      log.info('Merging guest cart', 'CartService', {
+        userId,
+        updated: result.updated.length,
+        created: result.created.length,
+        removed: result.removed.length,
+      });
+
+      await db.transact([
+        ...result.updated.map(line =>
+          db.tx.cart[line.id].update({
+            title: line.title,
+            variantTitle: line.variantTitle,
+            price: line.price,
+            image: line.image,
+            sku: line.sku,
+            collectionId: line.collectionId,
+            taxClass: line.taxClass,
+            hsnCode: line.hsnCode,
+            metalPricing: line.metalPricing,
+            quantity: line.quantity,
+            updatedAt: line.updatedAt || new Date(),
+          })
+        ),
+        ...result.created.map(line => this.lineTransaction(userId, line)),
+        ...result.removed.map(line => db.tx.cart[line.id].delete()),
+      ]);
+
+      return { success: true, merged: result.merged };
+    } catch (error: any) {
+      trackError(error, 'CartService', { operation: 'mergeGuestCart', userId });
+      return { success: false, error: error.message || 'Failed to merge cart' };
+    }
+  }
+}
+
+// Export singleton instance
+export const cartService = new CartService();
@@ -0,0 +1,292 @@
+// Discount code service for validating, applying and redeeming codes
+import { db } from '../lib/instant';
+import { log, trackError } from '../lib/logger';
+import { id } from '@instantdb/react-native';
+import { calculateDiscount, formatCurrency } from '../lib/order-calculations';
+import { money, multiply, sum, toMajor } from '../lib/money';
+import { PricingOptions } from '../lib/pricing';
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  type: DiscountType;
+  value: number;
+  description?: string;
+  minimumAmount?: number;
+  maximumDiscount?: number;
+  startsAt?: Date | string;
+  endsAt?: Date | string;
+  usageLimit?: number;
+  usageLimitPerCustomer?: number;
+  usageCount?: number;
+  // When either list is set, only matching lines are discounted
+  collectionIds?: string[];
+  productIds?: string[];
+  isActive: boolean;
+}
+
+export interface DiscountLine {
+  id: string;
+  productId: string;
+  collectionId?: string;
+  price: number;
+  quantity: number;
+}
+
+export interface DiscountEvaluation {
+  valid: boolean;
+  error?: string;
+  amount: number;
+  eligibleLineIds: string[];
+}
+
+export interface RedemptionContext {
+  orderId: string;
+  customerId?: string;
+  customerEmail?: string;
+}
+
+/**
+ * Normalize a code as typed by the customer
+ */
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Whether a discount's collection/product scope includes a cart line
+ */
+export function isLineEligible(discount: DiscountCode, line: DiscountLine): boolean {
+  const hasCollections = !!discount.collectionIds?.length;
+  const hasProducts = !!discount.productIds?.length;
+  if (!hasCollections && !hasProducts) {
+    return true;
+  }
+
+  return (
+    (hasProducts && discount.productIds!.includes(line.productId)) ||
+    (hasCollections && !!line.collectionId && discount.collectionIds!.includes(line.collectionId))
+  );
+}
+
+/**
+ * Check a discount against the cart and work out how much it takes off.
+ * `redemptions` is how many times the code has been used by anyone, and
+ * `customerRedemptions` how many times by the current customer; codes with a
+ * per-customer limit are refused when the customer's count is unknown.
+ */
+export function evaluateDiscount(
+  discount: DiscountCode,
+  lines: DiscountLine[],
+  options: { now?: Date; redemptions?: number; customerRedemptions?: number } = {}
+): DiscountEvaluation {
+  const now = options.now || new Date();
+  const invalid = (error: string): DiscountEvaluation => ({ valid: false, error, amount: 0, eligibleLineIds: [] });
+
+  if (!discount.isActive) {
+    return invalid('This code is not active');
+  }
+  if (discount.startsAt && new Date(discount.startsAt) > now) {
+    return invalid('This code is not valid yet');
+  }
+  if (discount.endsAt && new Date(discount.endsAt) < now) {
+    return invalid('This code has expired');
+  }
+  if (discount.usageLimit != null && (options.redemptions || 0) >= discount.usageLimit) {
+    return invalid('This code has reached its usage limit');
+  }
+  if (discount.usageLimitPerCustomer != null) {
+    if (options.customerRedemptions == null) {
+      return invalid('Sign in to use this code');
+    }
+    if (options.customerRedemptions >= discount.usageLimitPerCustomer) {
+      return invalid('You have already used this code');
+    }
+  }
+
+  const eligibleLines = lines.filter(line => isLineEligible(discount, line));
+  if (eligibleLines.length === 0) {
+    return invalid('This code does not apply to the items in your cart');
+  }
+
+  const eligibleSubtotal = toMajor(sum(eligibleLines.map(line => multiply(money(line.price), line.quantity))));
+  if (discount.minimumAmount && eligibleSubtotal < discount.minimumAmount) {
+    return invalid(`Spend ${formatCurrency(discount.minimumAmount)} on eligible items to use this code`);
+  }
+
+  const amount = calculateDiscount(eligibleSubtotal, {
+    type: discount.type,
+    value: discount.value,
+    maximumDiscount: discount.maximumDiscount,
+  });
+
+  return { valid: true, amount, eligibleLineIds: eligibleLines.map(line => line.id) };
+}
+
+/**
+ * Pricing options for an evaluated discount, to pass to priceOrder
+ */
+export function toPricingDiscount(discount: DiscountCode, evaluation: DiscountEvaluation): Pick<PricingOptions, 'discount' | 'discountLineIds'> {
+  if (!evaluation.valid) {
+    return {};
+  }
+
+  return {
+    discount: { type: 'fixed', value: evaluation.amount, code: discount.code },
+    discountLineIds: evaluation.eligibleLineIds,
+  };
+}
+
+export class DiscountService {
+  /**
+   * Look up a discount by code
+   */
+  async getDiscountByCode(code: string): Promise<DiscountCode | null> {
+    const query = await db.queryOnce({
+      discounts: {
+        $: {
+          where: {
+            code: normalizeDiscountCode(code)
+          }
+        }
+      }
+    });
+
+    return (query.data.discounts?.[0] as DiscountCode | undefined) || null;
+  }
+
+  /**
+   * Count how many times a discount has been redeemed by anyone, from the
+   * uses recorded with each redemption
+   */
+  async countRedemptions(discountId: string): Promise<number> {
+    const query = await db.queryOnce({
+      discountuses: {
+        $: {
+          where: {
+            discountId
+          }
+        }
+      }
+    });
+
+    return (query.data.discountuses || []).filter(use => !use.reversedAt).length;
+  }
+
+  /**
+   * Count how many times a customer has redeemed a discount.
+   * Redemptions are only visible to the customer by email, so without one
+   * the count is unknown rather than zero.
+   */
+  async countCustomerRedemptions(discountId: string, customerEmail?: string): Promise<number | undefined> {
+    if (!customerEmail) {
+      return undefined;
+    }
+
+    const query = await db.queryOnce({
+      discountredemptions: {
+        $: {
+          where: {
+            discountId,
+            customerEmail
+          }
+        }
+      }
+    });
+
+    // Redemptions reversed by a cancelled order give the use back
+    return (query.data.discountredemptions || []).filter(redemption => !redemption.reversedAt).length;
+  }
+
+  /**
+   * Validate a code for the current cart and customer
+   */
+  async validateCode(code: string, lines: DiscountLine[], customerEmail?: string): Promise<{
+    success: boolean;
+    discount?: DiscountCode;
+    evaluation?: DiscountEvaluation;
+    redemptions?: number;
+    customerRedemptions?: number;
+    error?: string;
+  }> {
+    try {
+      if (!code.trim()) {
+        return { success: false, error: 'Please enter a discount code' };
+      }
+
+      const discount = await this.getDiscountByCode(code);
+      if (!discount) {
+        return { success: false, error: 'This code is not valid' };
+      }
+
+      const redemptions = await this.countRedemptions(discount.id);
+      const customerRedemptions = await this.countCustomerRedemptions(discount.id, customerEmail);
+      const evaluation = evaluateDiscount(discount, lines, { redemptions, customerRedemptions });
+      if (!evaluation.valid) {
+        return { success: false, discount, evaluation, error: evaluation.error };
+      }
+
+      return { success: true, discount, evaluation, redemptions, customerRedemptions };
+    } catch (error: any) {
+      trackError(error, 'DiscountService', { operation: 'validateCode', code });
+      return { success: false, error: error.message || 'Failed to check discount code' };
+    }
+  }
+
+  /**
+   * Build the transactions that record a redemption against an order.
+   * Callers add these to the same `db.transact` that creates the order.
+   * The use shares the redemption's id and is what total usage limits count.
+   */
+  buildRedemptionTransactions(discount: DiscountCode, evaluation: DiscountEvaluation, context: RedemptionContext) {
+    const redemptionId = id();
+    const now = new Date();
+
+    log.info('Recording discount redemption', 'DiscountService', {
+      code: discount.code,
+      orderId: context.orderId,
+      amount: evaluation.amount,
+    });
+
+    return [
+      db.tx.discountredemptions[redemptionId]
+        .update({
+          amount: evaluation.amount,
+          code: discount.code,
+          createdAt: now,
+          customerEmail: context.customerEmail,
+          customerId: context.customerId,
+          discountId: discount.id,
+          orderId: context.orderId,
+        })
+        .link({ discount: discount.id, order: context.orderId }),
+      db.tx.discountuses[redemptionId]
+        .update({
+          createdAt: now,
+          discountId: discount.id,
+          orderId: context.orderId,
+        })
+        .link({ order: context.orderId }),
+    ];
+  }
+
+  /**
+   * Build the transactions that reverse an order's redemptions when it is
+   * cancelled, so the code counts as unused again.
+   * Callers add these to the same `db.transact` that cancels the order.
+   */
+  buildReversalTransactions(redemptions: { id: string; reversedAt?: Date | string | number | null }[]) {
+    const now = new Date();
+    return redemptions
+      .filter(redemption => !redemption.reversedAt)
+      .flatMap(redemption => [
+        db.tx.discountredemptions[redemption.id].update({ reversedAt: now }),
+        db.tx.discountuses[redemption.id].update({ reversedAt: now }),
+      ]);
+  }
+}
+
+// Export singleton instance
+export const discountService = new DiscountService();
@@ -0,0 +1,406 @@
+// Inventory service for stock checks and order reservations
+import { db } from '../lib/instant';
+import { log, trackError } from '../lib/logger';
+import { id } from '@instantdb/react-native';
+
+export type StockStatus = 'in_stock' | 'insufficient' | 'out_of_stock';
+
+export interface InventoryLocationStock {
+  id: string;
+  locationId: string;
+  available?: number;
+  committed?: number;
+  onHand?: number;
+  isActive?: boolean;
+  version?: number;
+}
+
+export interface ItemStock {
+  id: string;
+  trackQty?: boolean;
+  allowPreorder?: boolean;
+  available?: number;
+  totalAvailable?: number;
+  totalCommitted?: number;
+  totalOnHand?: number;
+  weight?: number; // Grams, used for shipping rates
+  version?: number;
+  ilocations?: InventoryLocationStock[];
+}
+
+export interface StockCheckLine {
+  id: string;
+  itemId?: string;
+  quantity: number;
+}
+
+export interface LineStockStatus {
+  lineId: string;
+  itemId?: string;
+  status: StockStatus;
+  requested: number;
+  // Undefined when the item is not tracked (unlimited)
+  available?: number;
+}
+
+export interface ReservationAllocation {
+  itemId: string;
+  ilocationId: string;
+  locationId: string;
+  quantity: number;
+}
+
+export interface StockReceipt {
+  itemId: string;
+  locationId: string;
+  quantity: number;
+  reason: string; // Stored on the inventory adjustment, e.g. 'customer_return'
+  reference: string;
+  actor: string;
+  notes?: string;
+}
+
+export interface ReservationPlan {
+  allocations: ReservationAllocation[];
+  // Items that could not be fully allocated, keyed by itemId
+  shortages: Record<string, number>;
+}
+
+// Attempts at a stock write before giving up, each rebuilt from fresh stock
+export const MAX_STOCK_WRITE_ATTEMPTS = 3;
+
+// Every stock write bumps the version it was built from (see the stock rules)
+const nextVersion = (row?: { version?: number }): number => (row?.version || 0) + 1;
+
+const activeLocations = (item: ItemStock): InventoryLocationStock[] =>
+  (item.ilocations || []).filter(location => location.isActive !== false);
+
+/**
+ * Whether an item's stock should be enforced at all
+ */
+export function isStockTracked(item: ItemStock): boolean {
+  return item.trackQty !== false && !item.allowPreorder;
+}
+
+/**
+ * Quantity available to sell for an item, or undefined when it is not tracked
+ */
+export function getAvailableQuantity(item: ItemStock): number | undefined {
+  if (!isStockTracked(item)) {
+    return undefined;
+  }
+
+  const locations = activeLocations(item);
+  if (locations.length > 0) {
+    return Math.max(0, locations.reduce((sum, location) => sum + (location.available || 0), 0));
+  }
+
+  return Math.max(0, item.totalAvailable ?? item.available ?? 0);
+}
+
+/**
+ * Check requested cart quantities against inventory.
+ * Lines without a variant or without inventory data are treated as in stock.
+ */
+export function checkCartStock(lines: StockCheckLine[], stockByItemId: Record<string, ItemStock>): LineStockStatus[] {
+  return lines.map(line => {
+    const item = line.itemId ? stockByItemId[line.itemId] : undefined;
+    const available = item ? getAvailableQuantity(item) : undefined;
+
+    let status: StockStatus = 'in_stock';
+    if (available !== undefined) {
+      if (available <= 0) {
+        status = 'out_of_stock';
+      } else if (line.quantity > available) {
+        status = 'insufficient';
+      }
+    }
+
+    return {
+      lineId: line.id,
+      itemId: line.itemId,
+      status,
+      requested: line.quantity,
+      available,
+    };
+  });
+}
+
+/**
+ * Allocate order quantities across inventory locations.
+ * Locations with the most stock are used first to keep shipments together.
+ */
+export function planReservation(lines: StockCheckLine[], stockByItemId: Record<string, ItemStock>): ReservationPlan {
+  const allocations: ReservationAllocation[] = [];
+  const shortages: Record<string, number> = {};
+
+  const requestedByItem = new Map<string, number>();
+  lines.forEach(line => {
+    if (line.itemId) {
+      requestedByItem.set(line.itemId, (requestedByItem.get(line.itemId) || 0) + line.quantity);
+    }
+  });
+
+  requestedByItem.forEach((requested, itemId) => {
+    const item = stockByItemId[itemId];
+    if (!item || !isStockTracked(item)) {
+      return;
+    }
+
+    let remaining = requested;
+    const locations = [...activeLocations(item)].sort((a, b) => (b.available || 0) - (a.available || 0));
+
+    for (const location of locations) {
+      if (remaining <= 0) break;
+      const quantity = Math.min(remaining, Math.max(0, location.available || 0));
+      if (quantity > 0) {
+        allocations.push({ itemId, ilocationId: location.id, locationId: location.locationId, quantity });
+        remaining -= quantity;
+      }
+    }
+
+    if (remaining > 0) {
+      shortages[itemId] = remaining;
+    }
+  });
+
+  return { allocations, shortages };
+}
+
+export class InventoryService {
+  /**
+   * Load current stock for a set of items, including per-location quantities
+   */
+  async getStockSnapshot(itemIds: string[]): Promise<Record<string, ItemStock>> {
+    const uniqueIds = Array.from(new Set(itemIds.filter(Boolean)));
+    if (uniqueIds.length === 0) {
+      return {};
+    }
+
+    const query = await db.queryOnce({
+      items: {
+        $: {
+          where: {
+            id: { $in: uniqueIds }
+          }
+        },
+        ilocations: {}
+      }
+    });
+
+    const snapshot: Record<string, ItemStock> = {};
+    (query.data.items || []).forEach(item => {
+      snapshot[item.id] = item as ItemStock;
+    });
+    return snapshot;
+  }
+
+  /**
+   * Build the transactions that commit reserved stock for an order.
+   * Callers add these to the same `db.transact` that creates the order.
+   */
+  buildReservationTransactions(
+    plan: ReservationPlan,
+    stockByItemId: Record<string, ItemStock>,
+    reference: string
+  ) {
+    const now = new Date();
+    const reservedByItem = new Map<string, number>();
+
+    const locationTransactions = plan.allocations.map(allocation => {
+      reservedByItem.set(allocation.itemId, (reservedByItem.get(allocation.itemId) || 0) + allocation.quantity);
+
+      const location = stockByItemId[allocation.itemId].ilocations!.find(loc => loc.id === allocation.ilocationId)!;
+      return db.tx.ilocations[allocation.ilocationId].update({
+        committed: (location.committed || 0) + allocation.quantity,
+        available: (location.available || 0) - allocation.quantity,
+        version: nextVersion(location),
+        lastMovementDate: now,
+        lastMovementType: 'reservation',
+        lastMovementReference: reference,
+        updatedAt: now,
+      });
+    });
+
+    const itemTransactions = Array.from(reservedByItem.entries()).map(([itemId, quantity]) => {
+      const item = stockByItemId[itemId];
+      return db.tx.items[itemId].update({
+        totalCommitted: (item.totalCommitted || 0) + quantity,
+        totalAvailable: Math.max(0, (getAvailableQuantity(item) || 0) - quantity),
+        version: nextVersion(item),
+        updatedAt: now,
+      });
+    });
+
+    log.debug('Built inventory reservation', 'InventoryService', { reference, allocations: plan.allocations.length });
+    return [...locationTransactions, ...itemTransactions];
+  }
+
+  /**
+   * Build the transactions that return reserved stock, e.g. when an order is cancelled.
+   * `allocations` are the reservations stored on the order items.
+   */
+  buildReleaseTransactions(
+    allocations: ReservationAllocation[],
+    stockByItemId: Record<string, ItemStock>,
+    reference: string
+  ) {
+    const now = new Date();
+    const releasedByItem = new Map<string, number>();
+
+    const locationTransactions = allocations
+      .filter(allocation => stockByItemId[allocation.itemId])
+      .map(allocation => {
+        releasedByItem.set(allocation.itemId, (releasedByItem.get(allocation.itemId) || 0) + allocation.quantity);
+
+        const location = stockByItemId[allocation.itemId].ilocations?.find(loc => loc.id === allocation.ilocationId);
+        return db.tx.ilocations[allocation.ilocationId].update({
+          committed: Math.max(0, (location?.committed || 0) - allocation.quantity),
+          available: (location?.available || 0) + allocation.quantity,
+          version: nextVersion(location),
+          lastMovementDate: now,
+          lastMovementType: 'release',
+          lastMovementReference: reference,
+          updatedAt: now,
+        });
+      });
+
+    const itemTransactions = Array.from(releasedByItem.entries()).map(([itemId, quantity]) => {
+      const item = stockByItemId[itemId];
+      return db.tx.items[itemId].update({
+        totalCommitted: Math.max(0, (item.totalCommitted || 0) - quantity),
+        totalAvailable: (getAvailableQuantity(item) || 0) + quantity,
+        version: nextVersion(item),
+        updatedAt: now,
+      });
+    });
+
+    log.debug('Built inventory release', 'InventoryService', { reference, allocations: allocations.length });
+    return [...locationTransactions, ...itemTransactions];
+  }
+
+  /**
+   * Build the transactions that put goods back on hand at a location, e.g. a customer return.
+   * Records an inventory adjustment and creates the item's stock row at the location if needed.
+   */
+  buildReceiptTransactions(receipt: StockReceipt, item: ItemStock | undefined) {
+    const now = new Date();
+    const location = item?.ilocations?.find(loc => loc.locationId === receipt.locationId);
+    const ilocationId = location?.id || id();
+    const onHandBefore = location?.onHand || 0;
+    const onHandAfter = onHandBefore + receipt.quantity;
+
+    const locationUpdate = {
+      onHand: onHandAfter,
+      available: (location?.available || 0) + receipt.quantity,
+      version: nextVersion(location),
+      lastReceived: now,
+      lastReceivedBy: receipt.actor,
+      lastReceivedQuantity: receipt.quantity,
+      lastMovementDate: now,
+      lastMovementType: receipt.reason,
+      lastMovementReference: receipt.reference,
+      updatedAt: now,
+    };
+
+    const stockTransactions = [
+      location
+        ? db.tx.ilocations[ilocationId].update(locationUpdate)
+        : db.tx.ilocations[ilocationId]
+            .update({
+              ...locationUpdate,
+              itemId: receipt.itemId,
+              locationId: receipt.locationId,
+              committed: 0,
+              isActive: true,
+              createdAt: now,
+            })
+            .link({ item: receipt.itemId, location: receipt.locationId }),
+      db.tx.iadjust[id()]
+        .update({
+          itemId: receipt.itemId,
+          locationId: receipt.locationId,
+          type: 'receipt',
+          reason: receipt.reason,
+          reference: receipt.reference,
+          notes: receipt.notes,
+          quantityBefore: onHandBefore,
+          quantityAfter: onHandAfter,
+          quantityChange: receipt.quantity,
+          userName: receipt.actor,
+          createdAt: now,
+        })
+        .link({ item: receipt.itemId, location: receipt.locationId }),
+    ];
+
+    const itemTransactions = item
+      ? [
+          db.tx.items[receipt.itemId].update({
+            totalOnHand: (item.totalOnHand || 0) + receipt.quantity,
+            totalAvailable: (getAvailableQuantity(item) || 0) + receipt.quantity,
+            version: nextVersion(item),
+            updatedAt: now,
+          })
+        ]
+      : [];
+
+    log.debug('Built inventory receipt', 'InventoryService', { reference: receipt.reference, quantity: receipt.quantity });
+    return [...stockTransactions, ...itemTransactions];
+  }
+
+  /**
+   * Commit a transaction built from the latest stock of `itemIds`. When another
+   * order changes that stock first, the rules reject the stale write and the
+   * transaction is rebuilt from fresh stock, up to MAX_STOCK_WRITE_ATTEMPTS times.
+   */
+  async transactWithStock(
+    itemIds: string[],
+    build: (stock: Record<string, ItemStock>) => any[]
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const transactions = build(await this.getStockSnapshot(itemIds));
+      try {
+        await db.transact(transactions);
+        return;
+      } catch (error) {
+        if (attempt >= MAX_STOCK_WRITE_ATTEMPTS) {
+          throw error;
+        }
+        log.info('Stock changed while writing, retrying', 'InventoryService', { attempt });
+      }
+    }
+  }
+
+  /**
+   * Re-check stock for order lines and plan the reservation.
+   * Fails when any line can no longer be fulfilled.
+   */
+  async prepareReservation(lines: StockCheckLine[]): Promise<{
+    success: boolean;
+    plan?: ReservationPlan;
+    stock?: Record<string, ItemStock>;
+    issues?: LineStockStatus[];
+    error?: string;
+  }> {
+    try {
+      const stock = await this.getStockSnapshot(lines.map(line => line.itemId || ''));
+      const issues = checkCartStock(lines, stock).filter(status => status.status !== 'in_stock');
+      if (issues.length > 0) {
+        return { success: false, issues, error: 'Some items are no longer available in the requested quantity' };
+      }
+
+      const plan = planReservation(lines, stock);
+      if (Object.keys(plan.shortages).length > 0) {
+        return { success: false, error: 'Unable to reserve stock for all items' };
+      }
+
+      return { success: true, plan, stock };
+    } catch (error: any) {
+      trackError(error, 'InventoryService', { operation: 'prepareReservation' });
+      return { success: false, error: error.message || 'Failed to check inventory' };
+    }
+  }
+}
+
+// Export singleton instance
+export const inventoryService = new InventoryService();
@@ -0,0 +1,245 @@
+// Invoices: gapless per-financial-year numbering and stored GST invoice documents
+import { db } from '../lib/instant';
+import { log, trackError } from '../lib/logger';
+import { id } from '@instantdb/react-native';
+import {
+  buildInvoice,
+  canIssueInvoice,
+  formatInvoiceNumber,
+  getFinancialYear,
+  InvoiceDocument,
+  renderInvoiceHtml,
+  renderInvoicePdf,
+  STORE_INVOICE_SETTINGS,
+} from '../lib/invoices';
+import { MediaFile, r2Service } from '../lib/r2-service';
+import { claimNextInSequence } from '../lib/sequences';
+
+export type InvoiceFormat = 'pdf' | 'html';
+
+interface InvoiceFiles {
+  pdfKey?: string;
+  pdfUrl?: string;
+  htmlKey?: string;
+  htmlUrl?: string;
+}
+
+export interface IssuedInvoice {
+  id: string;
+  number: string;
+  pdfUrl?: string;
+  htmlUrl?: string;
+}
+
+// Generated documents are uploaded as data URIs so they go through the same path as picked files
+function toDataUri(content: string, contentType: string): string {
+  const bytes = new TextEncoder().encode(content);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:${contentType};base64,${btoa(binary)}`;
+}
+
+export class InvoiceService {
+  /**
+   * Issue the tax invoice for an order, or return the one already issued.
+   * Numbers are claimed in the same transaction that records them on the
+   * order, so a number is only used once the invoice exists. Issued invoices
+   * are never changed, so the documents are stored before the number is claimed.
+   */
+  async issueInvoice(orderId: string): Promise<{ success: boolean; error?: string; invoice?: IssuedInvoice }> {
+    try {
+      const order = await this.getOrder(orderId);
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
+
+      if (order.invoice) {
+        return { success: true, invoice: this.toIssued(order.invoice) };
+      }
+      if (!canIssueInvoice(order)) {
+        return { success: false, error: 'An invoice is available once the order is paid' };
+      }
+
+      const claimed = await this.claimNumber(order);
+      if (!claimed.success) {
+        return { success: false, error: claimed.error };
+      }
+      return { success: true, invoice: this.toIssued(claimed.invoice) };
+    } catch (error: any) {
+      trackError(error, 'InvoiceService', { operation: 'issueInvoice', orderId });
+      return { success: false, error: error.message || 'Failed to issue invoice' };
+    }
+  }
+
+  /**
+   * Link to download an order's invoice, issuing it first when needed
+   */
+  async getInvoiceUrl(orderId: string, format: InvoiceFormat = 'pdf'): Promise<{ success: boolean; error?: string; url?: string }> {
+    const result = await this.issueInvoice(orderId);
+    if (!result.success || !result.invoice) {
+      return { success: false, error: result.error };
+    }
+
+    const url = format === 'pdf' ? result.invoice.pdfUrl : result.invoice.htmlUrl;
+    return url ? { success: true, url } : { success: false, error: 'The invoice file is not available yet' };
+  }
+
+  /**
+   * Build the invoice document for an order that already has a number
+   */
+  async getInvoiceDocument(orderId: string): Promise<InvoiceDocument | null> {
+    const order = await this.getOrder(orderId);
+    if (!order?.invoice) {
+      return null;
+    }
+    return this.buildDocument(order, order.invoice);
+  }
+
+  private async claimNumber(order: any): Promise<{ success: boolean; error?: string; invoice?: any }> {
+    const issuedAt = new Date();
+    const financialYear = getFinancialYear(issuedAt);
+
+    return claimNextInSequence<{ success: boolean; error?: string; invoice?: any }>({
+      start: 1,
+      latest: async () => {
+        // Customers only see their own invoices, so the sequence is read from the shared claims
+        const query = await db.queryOnce({
+          invoicenumbers: {
+            $: {
+              where: {
+                financialYear
+              },
+              order: {
+                sequence: 'desc'
+              },
+              limit: 1
+            }
+          }
+        });
+        return query.data.invoicenumbers?.[0]?.sequence;
+      },
+      claim: async sequence => {
+        const number = formatInvoiceNumber(STORE_INVOICE_SETTINGS.prefix, financialYear, sequence);
+        const document = await this.buildDocument(order, { number, createdAt: issuedAt });
+        const stored = await this.uploadDocuments(order, document);
+        if (!stored.success) {
+          return { success: false, error: stored.error };
+        }
+
+        const invoiceId = id();
+        const invoice = {
+          number,
+          sequence,
+          financialYear,
+          orderId: order.id,
+          currency: document.currency,
+          placeOfSupply: document.placeOfSupply,
+          sellerGstin: document.seller.gstin,
+          taxableValue: document.taxableValue,
+          taxAmount: document.taxAmount,
+          total: document.total,
+          ...stored.files,
+          createdAt: issuedAt,
+        };
+
+        // `number` and `orderId` are unique, so a concurrent claim fails here instead of duplicating
+        try {
+          await db.transact([
+            db.tx.invoicenumbers[id()].update({ number, financialYear, sequence, createdAt: issuedAt }),
+            db.tx.invoices[invoiceId].update(invoice).link({ order: order.id }),
+            db.tx.orders[order.id].update({ receiptNumber: number, updatedAt: issuedAt }),
+          ]);
+        } catch (error) {
+          // The documents carry a number this order did not get
+          await r2Service.deleteFiles([stored.files?.pdfKey, stored.files?.htmlKey].filter((key): key is string => !!key));
+          throw error;
+        }
+
+        log.info('Invoice issued', 'InvoiceService', { orderId: order.id, number });
+        return { success: true, invoice: { id: invoiceId, ...invoice } };
+      },
+      onConflict: async (sequence, attempt) => {
+        // Another device may have issued this order's invoice meanwhile
+        const current = await this.getOrder(order.id);
+        if (current?.invoice) {
+          return { success: true, invoice: current.invoice };
+        }
+        log.info('Invoice number taken, retrying', 'InvoiceService', { orderId: order.id, sequence, attempt });
+        return undefined;
+      },
+    });
+  }
+
+  // Render the invoice and upload the PDF and HTML copies
+  private async uploadDocuments(order: any, document: InvoiceDocument): Promise<{ success: boolean; error?: string; files?: InvoiceFiles }> {
+    const fileName = `invoice-${document.number.replace(/\//g, '-')}`;
+    const owner = order.customerId || 'store';
+
+    const upload = (content: string, extension: InvoiceFormat, type: string) => {
+      const file: MediaFile = { uri: toDataUri(content, type), name: `${fileName}.${extension}`, type };
+      return r2Service.uploadFileWithStructuredPath(file, owner, 'invoices');
+    };
+
+    const [pdf, html] = await Promise.all([
+      upload(renderInvoicePdf(document), 'pdf', 'application/pdf'),
+      upload(renderInvoiceHtml(document), 'html', 'text/html'),
+    ]);
+    if (!pdf.success || !html.success) {
+      return { success: false, error: `Invoice ${document.number} could not be saved: ${pdf.error || html.error}` };
+    }
+
+    return { success: true, files: { pdfKey: pdf.key, pdfUrl: pdf.url, htmlKey: html.key, htmlUrl: html.url } };
+  }
+
+  // Products can set their own HSN code; order lines placed before that fall back to it
+  private async buildDocument(order: any, invoice: any): Promise<InvoiceDocument> {
+    const items = order.orderitems || [];
+    const productIds = items
+      .filter((item: any) => !item.hsnCode && item.productId)
+      .map((item: any) => item.productId as string);
+
+    const hsnCodes: Record<string, string> = {};
+    if (productIds.length > 0) {
+      const query = await db.queryOnce({
+        products: {
+          $: {
+            where: {
+              id: { $in: Array.from(new Set(productIds)) }
+            }
+          }
+        }
+      });
+      (query.data.products || []).forEach(product => {
+        if (product.hsnCode) {
+          hsnCodes[product.id] = product.hsnCode;
+        }
+      });
+    }
+
+    return buildInvoice(order, items, { number: invoice.number, issuedAt: new Date(invoice.createdAt), hsnCodes });
+  }
+
+  private toIssued(invoice: any): IssuedInvoice {
+    return { id: invoice.id, number: invoice.number, pdfUrl: invoice.pdfUrl, htmlUrl: invoice.htmlUrl };
+  }
+
+  private async getOrder(orderId: string): Promise<any | null> {
+    const query = await db.queryOnce({
+      orders: {
+        $: {
+          where: {
+            id: orderId
+          }
+        },
+        orderitems: {},
+        invoice: {}
+      }
+    });
+    return query.data.orders?.[0] || null;
+  }
+}
+
+// Export singleton instance
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,84 @@
+// Order exports for bookkeeping: filtered orders as CSV or JSON files
+import { db } from '../lib/instant';
+import { log, trackError } from '../lib/logger';
+import {
+  buildOrderExport,
+  ExportColumn,
+  ExportFile,
+  ExportFormat,
+  ExportLevel,
+  getExportProfile,
+} from '../lib/order-export';
+import { OrderFilters, OrderService, OrderSortOptions } from './order-service';
+
+export interface OrderExportOptions {
+  format: ExportFormat;
+  level: ExportLevel;
+  profileId?: string; // 'standard', 'tally' or 'quickbooks'
+  columns?: ExportColumn[]; // Overrides the profile's columns for this level
+  filters?: OrderFilters;
+  sort?: OrderSortOptions;
+}
+
+const DEFAULT_SORT: OrderSortOptions = { field: 'createdAt', direction: 'asc' };
+
+export class OrderExportService {
+  /**
+   * Export the orders matching the same filters as the order list.
+   * Exports hold customers' names, addresses and phone numbers, so the file is
+   * handed back for the caller to save or share from the device, never uploaded.
+   */
+  async exportOrders(options: OrderExportOptions): Promise<{ success: boolean; error?: string; file?: ExportFile }> {
+    try {
+      const profile = getExportProfile(options.profileId);
+      if (!profile) {
+        return { success: false, error: 'Unknown export format' };
+      }
+      if (options.columns && options.columns.length === 0) {
+        return { success: false, error: 'Choose at least one column to export' };
+      }
+
+      const orderService = OrderService.getInstance();
+      const { where } = orderService.buildOrderQuery(options.filters || {});
+      const query = await db.queryOnce({
+        orders: {
+          $: {
+            where
+          },
+          orderitems: {}
+        }
+      });
+
+      // `$ilike` treats % and _ as wildcards, so the list's own filters run again here
+      const filtered = orderService.filterOrders(query.data.orders || [], options.filters || {});
+      const orders = orderService.sortOrders(filtered, options.sort || DEFAULT_SORT);
+
+      const file = buildOrderExport(orders, {
+        format: options.format,
+        level: options.level,
+        profile,
+        columns: options.columns,
+      });
+
+      if (!file.totals.reconciled) {
+        // Never hand the accountant a file that does not add up
+        log.warn('Export totals do not match order totals', 'OrderExportService', { ...file.totals });
+        return { success: false, error: 'Exported amounts do not add up to the order totals' };
+      }
+
+      log.info('Orders exported', 'OrderExportService', {
+        profile: profile.id,
+        level: options.level,
+        format: options.format,
+        orders: file.totals.orders,
+      });
+      return { success: true, file };
+    } catch (error: any) {
+      trackError(error, 'OrderExportService', { operation: 'exportOrders', profileId: options.profileId });
+      return { success: false, error: error.message || 'Failed to export orders' };
+    }
+  }
+}
+
+// Export singleton instance
+export const orderExportService = new OrderExportService();
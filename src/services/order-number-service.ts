@@ -0,0 +1,73 @@
+// Order numbers: one increasing sequence per prefix, claimed so devices never share a number
+import { db } from '../lib/instant';
+import { log, trackError } from '../lib/logger';
+import { id } from '@instantdb/react-native';
+import { OrderNumberValidator } from '../lib/format-validation';
+import { claimNextInSequence } from '../lib/sequences';
+
+export interface OrderNumberSettings {
+  prefix: string;
+  start: number; // First sequence number for a prefix with no orders yet
+}
+
+export const ORDER_NUMBER_SETTINGS: OrderNumberSettings = {
+  prefix: process.env.EXPO_PUBLIC_ORDER_NUMBER_PREFIX || 'ORD',
+  start: 1001,
+};
+
+export class OrderNumberService {
+  /**
+   * Claim the next order number for a prefix, e.g. ORD-001001.
+   * `number` is unique, so two devices cannot claim the same sequence.
+   */
+  async next(prefix: string = ORDER_NUMBER_SETTINGS.prefix): Promise<{ success: boolean; error?: string; orderNumber?: string }> {
+    const check = OrderNumberValidator.validate(OrderNumberValidator.format(prefix, ORDER_NUMBER_SETTINGS.start));
+    if (!check.isValid) {
+      return { success: false, error: `Invalid order number prefix "${prefix}": ${check.errors.join(', ')}` };
+    }
+
+    try {
+      return await claimNextInSequence<{ success: boolean; error?: string; orderNumber?: string }>({
+        start: ORDER_NUMBER_SETTINGS.start,
+        latest: async () => {
+          const query = await db.queryOnce({
+            ordernumbers: {
+              $: {
+                where: {
+                  prefix
+                },
+                order: {
+                  sequence: 'desc'
+                },
+                limit: 1
+              }
+            }
+          });
+          return query.data.ordernumbers?.[0]?.sequence;
+        },
+        claim: async sequence => {
+          const orderNumber = OrderNumberValidator.format(prefix, sequence);
+          const valid = OrderNumberValidator.validate(orderNumber);
+          if (!valid.isValid) {
+            return { success: false, error: valid.errors.join(', ') };
+          }
+
+          await db.transact([
+            db.tx.ordernumbers[id()].update({ number: orderNumber, prefix, sequence, createdAt: new Date() })
+          ]);
+          return { success: true, orderNumber };
+        },
+        onConflict: async (sequence, attempt) => {
+          log.info('Order number taken, retrying', 'OrderNumberService', { orderNumber: OrderNumberValidator.format(prefix, sequence), attempt });
+          return undefined;
+        },
+      });
+    } catch (error: any) {
+      trackError(error, 'OrderNumberService', { operation: 'next', prefix });
+      return { success: false, error: error.message || 'Could not assign an order number' };
+    }
+  }
+}
+
+// Export singleton instance
+export const orderNumberService = new OrderNumberService();
@@ -2,6 +2,21 @@
 import { db } from '../lib/instant';
 import { log, trackError, PerformanceMonitor } from '../lib/logger';
 import { ValidationService, OrderValidationData } from './validation-service';
+import { validatePricing } from '../lib/pricing';
+import { TaxComponent } from '../lib/tax-engine';
+import { add, fromMinor, money, roundMinor, toMajor } from '../lib/money';
+import { MetalPriceBreakdown, MetalRate } from '../lib/metal-pricing';
+import { canCustomerCancel, orderPlacedEvent, planStatusChange, FulfillmentStatus, OrderEvent, OrderStatus, PaymentStatus } from '../lib/order-state';
+import { inventoryService, ItemStock, MAX_STOCK_WRITE_ATTEMPTS, ReservationAllocation, ReservationPlan } from './inventory-service';
+import { discountService, DiscountCode, DiscountEvaluation } from './discount-service';
+import { userCustomerService } from './user-customer-service';
+import { orderNumberService } from './order-number-service';
+import { refundService } from './refund-service';
+import { paymentService } from './payment-service';
+import { getPaymentMethod } from './payments';
+import { isValidUtr, normalizeUtr } from '../lib/upi';
+import { checkCodEligibility, COD_PAYMENT_METHOD } from '../lib/cod';
+import { getRefundableAmount, planRefund, RefundLedgerOrder, RefundPlan } from '../lib/refunds';
 import { id } from '@instantdb/react-native';
 
 export interface OrderFilters {
@@ -10,6 +25,7 @@ export interface OrderFilters {
   paymentStatus?: string;
   fulfillmentStatus?: string;
   customerId?: string;
+  customerEmail?: string;
   locationId?: string;
   dateRange?: {
     start?: Date;
@@ -17,6 +33,15 @@ export interface OrderFilters {
   };
 }
 
+// InstantDB `where`/`order` clauses for an order list; cursor pagination is added by the caller
+export interface OrderQueryPlan {
+  where: Record<string, any>;
+  order: Record<string, 'asc' | 'desc'>;
+}
+
+// Sort fields with a database index; others fall back to newest first
+const INDEXED_ORDER_SORTS: OrderSortOptions['field'][] = ['orderNumber', 'createdAt', 'customerName'];
+
 export interface OrderSortOptions {
   field: 'orderNumber' | 'createdAt' | 'total' | 'customerName';
   direction: 'asc' | 'desc';
@@ -33,6 +58,14 @@ export interface OrderItemData {
   variantTitle?: string;
   taxAmount?: number;
   taxRate?: number;
+  taxClass?: string;
+  hsnCode?: string;
+  taxBreakdown?: TaxComponent[];
+  discountAmount?: number;
+  metalPrice?: MetalPriceBreakdown; // Rate and charges the line was priced at
+  compareAtPrice?: number;
+  priceListId?: string;
+  reservations?: ReservationAllocation[]; // Stock held for this line, filled in by placeOrder
 }
 
 export interface OrderData {
@@ -51,11 +84,43 @@ export interface OrderData {
   billingAddress?: any;
   shippingAddress?: any;
   taxAmount?: number;
+  taxesIncluded?: boolean;
+  taxBreakdown?: any;
   discountAmount?: number;
   shippingAmount?: number;
+  shippingMethod?: any;
+  paymentFee?: number;
+  metalRates?: MetalRate[];
+  paymentMethod?: string;
+  currency?: string;
+  discountCode?: string;
+  appliedPromotions?: { promotionId: string; name: string; amount: number }[];
+  source?: string;
+  market?: string;
   items: OrderItemData[];
 }
 
+export interface PlaceOrderOptions {
+  actor: string;
+  paymentMethodId: string;
+  paymentToken?: string;
+  // Stock re-checked just before placing; committed with the order
+  reservation?: { plan: ReservationPlan; stock: Record<string, ItemStock> };
+  // Re-validated discount code; its usage is recorded with the order
+  redemption?: { discount: DiscountCode; evaluation: DiscountEvaluation };
+  // Empties the shopper's cart once the order is placed (guest carts only live on the device)
+  clearCart?: () => Promise<void>;
+}
+
+export interface PlaceOrderResult {
+  success: boolean;
+  error?: string;
+  orderId?: string;
+  orderNumber?: string;
+  paymentPending?: boolean;
+  duplicate?: boolean; // An earlier attempt with the same idempotency key placed this order
+}
+
 export class OrderService {
   private static instance: OrderService;
   private validationService: ValidationService;
@@ -110,6 +175,10 @@ export class OrderService {
         filtered = filtered.filter(order => order.customerId === filters.customerId);
       }
 
+      if (filters.customerEmail) {
+        filtered = filtered.filter(order => order.customerEmail === filters.customerEmail);
+      }
+
       // Location filter - use new relationship
       if (filters.locationId) {
         filtered = filtered.filter(order => order.locationId === filters.locationId);
@@ -132,6 +201,39 @@ export class OrderService {
     });
   }
 
+  // Translate list filters into a database query on indexed fields, so only
+  // the requested page of orders is downloaded
+  buildOrderQuery(filters: OrderFilters, sortOptions?: OrderSortOptions): OrderQueryPlan {
+    const where: Record<string, any> = {};
+
+    (['status', 'paymentStatus', 'fulfillmentStatus', 'customerId', 'customerEmail', 'locationId'] as const).forEach(field => {
+      if (filters[field]) {
+        where[field] = filters[field];
+      }
+    });
+
+    const { start, end } = filters.dateRange || {};
+    if (start || end) {
+      where.createdAt = {
+        ...(start ? { $gte: start.toISOString() } : {}),
+        ...(end ? { $lte: end.toISOString() } : {}),
+      };
+    }
+
+    const search = filters.search?.trim();
+    if (search) {
+      const pattern = `%${search}%`;
+      where.or = ['orderNumber', 'referenceId', 'customerName', 'customerEmail']
+        .map(field => ({ [field]: { $ilike: pattern } }));
+    }
+
+    const sort = sortOptions && INDEXED_ORDER_SORTS.includes(sortOptions.field)
+      ? sortOptions
+      : { field: 'createdAt', direction: 'desc' as const };
+
+    return { where, order: { [sort.field]: sort.direction } };
+  }
+
   // Sort orders - updated for optimized schema
   sortOrders(orders: any[], sortOptions: OrderSortOptions): any[] {
     return PerformanceMonitor.measure('sort-orders', () => {
@@ -171,8 +273,12 @@ export class OrderService {
     });
   }
 
-  // Create a new order - updated for optimized schema
-  async createOrder(orderData: OrderData): Promise<{ success: boolean; orderId?: string; error?: string }> {
+  // Create a new order - updated for optimized schema. `transactions` adds
+  // writes (e.g. stock reservations) that must commit together with the order.
+  async createOrder(
+    orderData: OrderData,
+    options: { actor?: string; transactions?: (orderId: string) => any[] } = {}
+  ): Promise<{ success: boolean; orderId?: string; error?: string }> {
     try {
       log.info('Creating order', 'OrderService', { orderData });
 
@@ -182,6 +288,19 @@ export class OrderService {
         return { success: false, error: `Validation failed: ${Object.values(validation.errors).join(', ')}` };
       }
 
+      const totalsCheck = validatePricing({
+        subtotal: orderData.subtotal,
+        taxAmount: orderData.taxAmount || 0,
+        shippingAmount: orderData.shippingAmount || 0,
+        discountAmount: orderData.discountAmount || 0,
+        total: orderData.total,
+        taxesIncluded: orderData.taxesIncluded,
+        paymentFee: orderData.paymentFee,
+      });
+      if (!totalsCheck.isValid) {
+        return { success: false, error: `Validation failed: ${totalsCheck.errors.join(', ')}` };
+      }
+
       const newOrderId = id();
       const timestamp = new Date();
 
@@ -203,8 +322,21 @@ export class OrderService {
         billingAddress: orderData.billingAddress,
         shippingAddress: orderData.shippingAddress,
         taxAmount: orderData.taxAmount,
+        taxesIncluded: orderData.taxesIncluded,
+        taxBreakdown: orderData.taxBreakdown,
         discountAmount: orderData.discountAmount,
         shippingAmount: orderData.shippingAmount,
+        shippingMethod: orderData.shippingMethod,
+        paymentFee: orderData.paymentFee,
+        metalRates: orderData.metalRates,
+        paymentMethod: orderData.paymentMethod,
+        currency: orderData.currency,
+        discountCode: orderData.discountCode,
+        appliedPromotions: orderData.appliedPromotions,
+        source: orderData.source,
+        market: orderData.market,
+        totalPaid: 0,
+        totalRefunded: 0,
         createdAt: timestamp,
         updatedAt: timestamp,
       };
@@ -220,8 +352,16 @@ export class OrderService {
         lineTotal: item.lineTotal,
         sku: item.sku,
         variantTitle: item.variantTitle,
+        hsnCode: item.hsnCode,
         taxAmount: item.taxAmount,
         taxRate: item.taxRate,
+        taxBreakdown: item.taxBreakdown,
+        discountAmount: item.discountAmount,
+        metalPrice: item.metalPrice,
+        compareAtPrice: item.compareAtPrice,
+        priceListId: item.priceListId,
+        fulfillmentStatus: 'unfulfilled',
+        reservations: item.reservations || [],
       }));
 
       // Execute transaction with relationship linking
@@ -231,7 +371,9 @@ export class OrderService {
         // Link order items to order using the relationship
         ...orderItems.map(item =>
           db.tx.orders[newOrderId].link({ orderitems: item.id })
-        )
+        ),
+        ...(options.transactions ? options.transactions(newOrderId) : []),
+        ...this.buildEventTransactions(newOrderId, [orderPlacedEvent(options.actor || 'system')])
       ];
 
       await db.transact(transactions);
@@ -244,6 +386,155 @@ export class OrderService {
     }
   }
 
+  /**
+   * Place a shopper's order: claim its number, create it with its stock and
+   * discount writes, take payment, then update customer stats and empty the
+   * cart. The order's `referenceId` is the idempotency key, so retrying with
+   * the same key returns the order already placed instead of creating another.
+   */
+  async placeOrder(orderData: Omit<OrderData, 'orderNumber'>, options: PlaceOrderOptions): Promise<PlaceOrderResult> {
+    try {
+      const existing = await this.findOrderByReference(orderData.referenceId);
+      let orderId = existing?.id;
+      let orderNumber = existing?.orderNumber;
+
+      if (!existing) {
+        // Nothing is claimed or reserved for an order that cannot be paid
+        if (!getPaymentMethod(options.paymentMethodId)) {
+          return { success: false, error: 'This payment method is not available' };
+        }
+
+        const claimed = await orderNumberService.next();
+        if (!claimed.success || !claimed.orderNumber) {
+          return { success: false, error: claimed.error };
+        }
+        const claimedNumber = claimed.orderNumber;
+        orderNumber = claimedNumber;
+
+        const redemption = options.redemption;
+        const createWithStock = (reservation: PlaceOrderOptions['reservation']) => this.createOrder(
+          {
+            ...orderData,
+            orderNumber: claimedNumber,
+            items: orderData.items.map(item => ({
+              ...item,
+              reservations: item.itemId && reservation
+                ? reservation.plan.allocations.filter(allocation => allocation.itemId === item.itemId)
+                : [],
+            })),
+          },
+          {
+            actor: options.actor,
+            transactions: newOrderId => [
+              ...(reservation
+                ? inventoryService.buildReservationTransactions(reservation.plan, reservation.stock, claimedNumber)
+                : []),
+              ...(redemption
+                ? discountService.buildRedemptionTransactions(redemption.discount, redemption.evaluation, {
+                    orderId: newOrderId,
+                    customerId: orderData.customerId,
+                    customerEmail: orderData.customerEmail,
+                  })
+                : []),
+            ],
+          }
+        );
+
+        let reservation = options.reservation;
+        let created = await createWithStock(reservation);
+        for (let attempt = 1; !created.success; attempt++) {
+          // `referenceId` is unique, so a concurrent attempt with the same key fails here
+          const raced = await this.findOrderByReference(orderData.referenceId);
+          if (raced) {
+            log.info('Order already placed by a concurrent attempt', 'OrderService', { referenceId: orderData.referenceId });
+            return this.finishDuplicate(raced, orderData, options);
+          }
+          if (!reservation || attempt >= MAX_STOCK_WRITE_ATTEMPTS) {
+            return { success: false, error: created.error };
+          }
+
+          // Another order may have taken the stock this one was reserving; re-check and try again
+          const recheck = await inventoryService.prepareReservation(
+            orderData.items.map((item, index) => ({ id: String(index), itemId: item.itemId, quantity: item.quantity }))
+          );
+          if (!recheck.success || !recheck.plan || !recheck.stock) {
+            return { success: false, error: recheck.error };
+          }
+          reservation = { plan: recheck.plan, stock: recheck.stock };
+          created = await createWithStock(reservation);
+        }
+        orderId = created.orderId!;
+      } else if ((existing.payments || []).length > 0) {
+        log.info('Order already placed', 'OrderService', { orderId, referenceId: orderData.referenceId });
+        return this.finishDuplicate(existing, orderData, options);
+      }
+
+      // Take payment; a failed payment cancels the order so its stock is released
+      const payment = await this.collectPayment(orderId!, {
+        methodId: options.paymentMethodId,
+        token: options.paymentToken,
+        actor: options.actor,
+      });
+      if (!payment.success) {
+        await this.cancelOrder(orderId!, { reason: 'Payment failed', actor: options.actor });
+        return { success: false, error: payment.error || 'Your payment could not be completed.', orderId };
+      }
+
+      await this.completePlacement(orderData, options);
+
+      log.info('Order placed', 'OrderService', { orderId, orderNumber, duplicate: !!existing });
+      return {
+        success: true,
+        orderId,
+        orderNumber,
+        paymentPending: !!payment.pending,
+        duplicate: !!existing,
+      };
+    } catch (error) {
+      trackError(error as Error, 'OrderService', { operation: 'placeOrder', referenceId: orderData.referenceId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Stats and the cart are safe to update again when an order is retried
+  private async completePlacement(orderData: Omit<OrderData, 'orderNumber'>, options: PlaceOrderOptions) {
+    if (orderData.customerId && orderData.customerEmail) {
+      await userCustomerService.updateCustomerOrderStats(orderData.customerEmail);
+    }
+    if (options.clearCart) {
+      await options.clearCart();
+    }
+  }
+
+  // Report an order placed by an earlier attempt as it stands now, finishing its placement
+  private async finishDuplicate(order: any, orderData: Omit<OrderData, 'orderNumber'>, options: PlaceOrderOptions): Promise<PlaceOrderResult> {
+    if (order.status === 'cancelled') {
+      return { success: false, error: 'This order was cancelled. Please try again.', orderId: order.id };
+    }
+    await this.completePlacement(orderData, options);
+    return {
+      success: true,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      paymentPending: order.paymentStatus !== 'paid',
+      duplicate: true,
+    };
+  }
+
+  private async findOrderByReference(referenceId: string): Promise<any | null> {
+    const query = await db.queryOnce({
+      orders: {
+        $: {
+          where: {
+            referenceId
+          }
+        },
+        payments: {}
+      }
+    });
+    return query.data.orders?.[0] || null;
+  }
+
   // Update an existing order - updated for optimized schema
   async updateOrder(orderId: string, updates: Partial<OrderData>): Promise<{ success: boolean; error?: string }> {
     try {
@@ -272,31 +563,67 @@ export class OrderService {
     }
   }
 
-  // Update order status - optimized for indexed fields
-  async updateOrderStatus(orderId: string, status: string, paymentStatus?: string, fulfillmentStatus?: string): Promise<{ success: boolean; error?: string }> {
+  // Build the transactions that add events to an order's timeline
+  buildEventTransactions(orderId: string, events: OrderEvent[]) {
+    return events.map(event =>
+      db.tx.orderevents[id()]
+        .update({ ...event, orderId })
+        .link({ order: orderId })
+    );
+  }
+
+  // Update order status through the lifecycle state machines; every change is recorded as an order event
+  async updateOrderStatus(
+    orderId: string,
+    status?: OrderStatus,
+    paymentStatus?: PaymentStatus,
+    fulfillmentStatus?: FulfillmentStatus,
+    options: { actor?: string; note?: string } = {}
+  ): Promise<{ success: boolean; error?: string }> {
     try {
       log.info('Updating order status', 'OrderService', { orderId, status, paymentStatus, fulfillmentStatus });
 
-      const updates: any = {
-        status,
-        updatedAt: new Date(),
-      };
-
-      if (paymentStatus) updates.paymentStatus = paymentStatus;
-      if (fulfillmentStatus) updates.fulfillmentStatus = fulfillmentStatus;
+      const query = await db.queryOnce({
+        orders: {
+          $: {
+            where: {
+              id: orderId
+            }
+          }
+        }
+      });
+      const order = query.data.orders?.[0];
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
 
-      // Add completion timestamps based on status
-      if (status === 'completed') {
-        updates.closedAt = new Date();
-      } else if (status === 'cancelled') {
-        updates.cancelledAt = new Date();
+      const plan = planStatusChange(
+        {
+          status: order.status as OrderStatus,
+          paymentStatus: order.paymentStatus as PaymentStatus,
+          fulfillmentStatus: order.fulfillmentStatus as FulfillmentStatus,
+        },
+        { status, paymentStatus, fulfillmentStatus },
+        { actor: options.actor || 'system', note: options.note }
+      );
+      if (!plan.valid) {
+        return { success: false, error: plan.error };
+      }
+      if (plan.events.length === 0) {
+        return { success: true };
       }
 
+      // A fully paid order has captured its total
+      const updates = plan.updates.paymentStatus === 'paid' && !order.totalPaid
+        ? { ...plan.updates, totalPaid: order.total }
+        : plan.updates;
+
       await db.transact([
-        db.tx.orders[orderId].update(updates)
+        db.tx.orders[orderId].update(updates),
+        ...this.buildEventTransactions(orderId, plan.events)
       ]);
 
-      log.info('Order status updated successfully', 'OrderService', { orderId });
+      log.info('Order status updated successfully', 'OrderService', { orderId, events: plan.events.length });
       return { success: true };
     } catch (error) {
       trackError(error as Error, 'OrderService', { operation: 'updateOrderStatus', orderId, status });
@@ -304,6 +631,192 @@ export class OrderService {
     }
   }
 
+  // Cancel an order on the customer's behalf: releases reserved stock, gives back the discount code,
+  // voids cash-on-delivery and other unpaid attempts and records a refund of any payment
+  async cancelOrder(orderId: string, options: { reason: string; actor: string }): Promise<{ success: boolean; error?: string; refundAmount?: number }> {
+    try {
+      log.info('Cancelling order', 'OrderService', { orderId, reason: options.reason });
+
+      const query = await db.queryOnce({
+        orders: {
+          $: {
+            where: {
+              id: orderId
+            }
+          },
+          orderitems: {},
+          refunds: {},
+          payments: {},
+          discountredemptions: {}
+        }
+      });
+      const order = query.data.orders?.[0];
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
+
+      const state = {
+        status: order.status as OrderStatus,
+        paymentStatus: order.paymentStatus as PaymentStatus,
+        fulfillmentStatus: order.fulfillmentStatus as FulfillmentStatus,
+      };
+      if (!canCustomerCancel(state)) {
+        return { success: false, error: 'This order can no longer be cancelled' };
+      }
+
+      const plan = planStatusChange(state, { status: 'cancelled' }, { actor: options.actor, note: options.reason });
+      if (!plan.valid) {
+        return { success: false, error: plan.error };
+      }
+
+      // Refund whatever was captured
+      const orderItems = order.orderitems || [];
+      const refundPlan = getRefundableAmount(order) > 0
+        ? planRefund(order, orderItems, order.refunds || [], { type: 'full' })
+        : undefined;
+      if (refundPlan && !refundPlan.valid) {
+        return { success: false, error: refundPlan.error };
+      }
+
+      // Put reserved stock back at the locations it was taken from
+      const allocations: ReservationAllocation[] = orderItems.flatMap(item => (item.reservations || []) as ReservationAllocation[]);
+
+      await inventoryService.transactWithStock(allocations.map(allocation => allocation.itemId), stock => [
+        db.tx.orders[orderId].update({
+          ...plan.updates,
+          cancelReason: options.reason,
+        }),
+        ...orderItems
+          .filter(item => (item.reservations || []).length > 0)
+          .map(item => db.tx.orderitems[item.id].update({ reservations: [] })),
+        ...inventoryService.buildReleaseTransactions(allocations, stock, order.orderNumber),
+        ...discountService.buildReversalTransactions(order.discountredemptions || []),
+        ...paymentService.buildVoidTransactions(order.payments || [], options.reason),
+        ...this.buildEventTransactions(orderId, plan.events),
+        ...(refundPlan
+          ? this.buildRefundTransactions({ ...order, status: 'cancelled' }, refundPlan, options)
+          : [])
+      ]);
+
+      const refundAmount = refundPlan?.amount || 0;
+      log.info('Order cancelled', 'OrderService', { orderId, refundAmount });
+      return { success: true, refundAmount };
+    } catch (error) {
+      trackError(error as Error, 'OrderService', { operation: 'cancelOrder', orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Build the transactions for a planned refund: the ledger entry, the order's
+   * refunded total and payment status, and the timeline events
+   */
+  buildRefundTransactions(
+    order: RefundLedgerOrder & { id: string; status?: string; fulfillmentStatus?: string },
+    plan: RefundPlan,
+    options: { reason?: string; actor: string }
+  ) {
+    const statusPlan = planStatusChange(
+      {
+        status: order.status as OrderStatus,
+        paymentStatus: order.paymentStatus as PaymentStatus,
+        fulfillmentStatus: order.fulfillmentStatus as FulfillmentStatus,
+      },
+      { paymentStatus: plan.paymentStatus },
+      { actor: options.actor, note: options.reason }
+    );
+    if (!statusPlan.valid) {
+      throw new Error(statusPlan.error);
+    }
+
+    const currency = order.currency || undefined;
+    return [
+      db.tx.orders[order.id].update({
+        ...statusPlan.updates,
+        totalRefunded: toMajor(add(money(order.totalRefunded || 0, currency), money(plan.amount, currency))),
+      }),
+      ...refundService.buildRefundTransactions(order.id, { ...plan, reason: options.reason, actor: options.actor }),
+      ...this.buildEventTransactions(order.id, statusPlan.events)
+    ];
+  }
+
+  // Take payment for an order with the customer's chosen method
+  async collectPayment(
+    orderId: string,
+    options: { methodId: string; token?: string; actor: string }
+  ): Promise<{ success: boolean; error?: string; pending?: boolean }> {
+    try {
+      const query = await db.queryOnce({
+        orders: {
+          $: {
+            where: {
+              id: orderId
+            }
+          }
+        }
+      });
+      const order = query.data.orders?.[0];
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
+
+      if (options.methodId === COD_PAYMENT_METHOD) {
+        const eligibility = await this.checkCodEligibility(order);
+        if (!eligibility.eligible) {
+          return { success: false, error: eligibility.reason };
+        }
+      }
+
+      const result = await paymentService.collectPayment(order, options);
+      if (result.success) {
+        // Cash is due at the door; everything else waits for the gateway or staff to confirm it
+        await this.updateOrderStatus(
+          orderId,
+          undefined,
+          options.methodId === COD_PAYMENT_METHOD ? 'cod_pending' : 'awaiting_payment',
+          undefined,
+          { actor: options.actor }
+        );
+      }
+      return result;
+    } catch (error) {
+      trackError(error as Error, 'OrderService', { operation: 'collectPayment', orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Customer tells us the UTR of the UPI payment they made; staff still confirm it
+  async submitPaymentReference(orderId: string, utr: string): Promise<{ success: boolean; error?: string }> {
+    if (!isValidUtr(utr)) {
+      return { success: false, error: 'Enter the 12-digit UTR number shown in your UPI app' };
+    }
+    return paymentService.recordReference(orderId, normalizeUtr(utr));
+  }
+
+  // Check the cash-on-delivery rules against an order's value, delivery address and customer history
+  async checkCodEligibility(order: { subtotal: number; customerId?: string; shippingAddress?: any }) {
+    const customer = order.customerId ? await this.getCustomer(order.customerId) : undefined;
+
+    return checkCodEligibility({
+      orderValue: order.subtotal,
+      postalCode: order.shippingAddress?.zipCode || order.shippingAddress?.zip,
+      refusedDeliveries: customer?.refusedDeliveries || 0,
+    });
+  }
+
+  async getCustomer(customerId: string) {
+    const query = await db.queryOnce({
+      customers: {
+        $: {
+          where: {
+            id: customerId
+          }
+        }
+      }
+    });
+    return query.data.customers?.[0];
+  }
+
   // Get order statistics - updated for optimized schema
   getOrderStats(orders: any[]): {
     total: number;
@@ -328,6 +841,8 @@ export class OrderService {
         unpaidOrders: 0,
         unfulfilledOrders: 0,
       };
+      // Summed in minor units so many orders do not drift
+      let revenue = fromMinor(0);
 
       orders.forEach(order => {
         // Status counts
@@ -358,23 +873,17 @@ export class OrderService {
 
         // Revenue calculation (only for completed orders)
         if (order.status === 'completed' && order.total) {
-          stats.totalRevenue += order.total;
+          revenue = add(revenue, money(order.total));
         }
       });
 
-      stats.averageOrderValue = stats.total > 0 ? stats.totalRevenue / stats.total : 0;
+      stats.totalRevenue = toMajor(revenue);
+      stats.averageOrderValue = stats.total > 0 ? toMajor(fromMinor(roundMinor(revenue.amount / stats.total))) : 0;
 
       return stats;
     });
   }
 
-  // Generate unique order number
-  generateOrderNumber(): string {
-    const timestamp = Date.now().toString().slice(-6);
-    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
-    return `ORD-${timestamp}-${random}`;
-  }
-
   // Generate unique reference ID
   generateReferenceId(): string {
     return id();
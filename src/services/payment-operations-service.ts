@@ -0,0 +1,416 @@
+// Staff and gateway payment operations: confirming and capturing payments, webhooks,
+// refunds and cash-on-delivery outcomes. These run from the admin app or the payments
+// backend with admin credentials; the permission rules refuse them to shopper sessions.
+import { db } from '../lib/instant';
+import { log, trackError } from '../lib/logger';
+import { DEFAULT_CURRENCY, money, subtract, toMajor } from '../lib/money';
+import { planStatusChange, FulfillmentStatus, OrderStatus, PaymentStatus } from '../lib/order-state';
+import { reconcilePayments, PaymentAttemptStatus } from '../lib/payments';
+import { normalizeUtr } from '../lib/upi';
+import { COD_PAYMENT_METHOD } from '../lib/cod';
+import { planRefund, RefundRequest } from '../lib/refunds';
+import { OrderService } from './order-service';
+import { paymentService } from './payment-service';
+import { getPaymentProvider } from './payments';
+
+export class PaymentOperationsService {
+  // Refund all or part of an order: full, shipping only, specific items, or a set amount
+  async refundOrder(
+    orderId: string,
+    request: RefundRequest,
+    options: { reason?: string; actor: string }
+  ): Promise<{ success: boolean; error?: string; refundAmount?: number }> {
+    try {
+      log.info('Refunding order', 'PaymentOperationsService', { orderId, type: request.type });
+
+      const query = await db.queryOnce({
+        orders: {
+          $: {
+            where: {
+              id: orderId
+            }
+          },
+          orderitems: {},
+          refunds: {}
+        }
+      });
+      const order = query.data.orders?.[0];
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
+
+      const plan = planRefund(order, order.orderitems || [], order.refunds || [], request);
+      if (!plan.valid) {
+        return { success: false, error: plan.error };
+      }
+
+      await db.transact(OrderService.getInstance().buildRefundTransactions(order, plan, options));
+      await this.settleRefunds(orderId);
+
+      log.info('Order refunded', 'PaymentOperationsService', { orderId, amount: plan.amount });
+      return { success: true, refundAmount: plan.amount };
+    } catch (error) {
+      trackError(error as Error, 'PaymentOperationsService', { operation: 'refundOrder', orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Staff confirm money sent outside the app (e.g. UPI, or a courier's cash-on-delivery remittance) has arrived
+  async confirmPayment(orderId: string, options: { reference?: string; actor: string }): Promise<{ success: boolean; error?: string }> {
+    log.info('Confirming payment', 'PaymentOperationsService', { orderId, actor: options.actor });
+
+    const result = await this.capturePending(orderId, options.reference ? normalizeUtr(options.reference) : undefined);
+    if (!result.success) {
+      return result;
+    }
+    return this.reconcilePayments(orderId, options.actor);
+  }
+
+  // Match a UTR from the bank statement to the order whose customer reported it
+  async matchPaymentReference(utr: string, amount: number, actor: string): Promise<{ success: boolean; error?: string; orderId?: string }> {
+    try {
+      const pending = await this.findPendingByReference(normalizeUtr(utr));
+      if (!pending) {
+        return { success: false, error: 'No order is waiting for this reference' };
+      }
+      if (money(amount).amount !== money(pending.amount).amount) {
+        return { success: false, error: `Received ${amount} but the order expects ${pending.amount}`, orderId: pending.orderId };
+      }
+
+      const result = await this.confirmPayment(pending.orderId, { reference: utr, actor });
+      return { ...result, orderId: pending.orderId };
+    } catch (error) {
+      trackError(error as Error, 'PaymentOperationsService', { operation: 'matchPaymentReference' });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // The courier collected the cash at delivery; the order is paid once their remittance is confirmed
+  async recordCodCollection(orderId: string, actor: string): Promise<{ success: boolean; error?: string }> {
+    log.info('Recording cash collection', 'PaymentOperationsService', { orderId, actor });
+
+    const result = await this.recordCollection(orderId);
+    if (!result.success) {
+      return result;
+    }
+    return this.reconcilePayments(orderId, actor);
+  }
+
+  // The customer refused a cash-on-delivery order at the door. Refusals count
+  // against the customer's cash-on-delivery eligibility.
+  async recordRefusedDelivery(orderId: string, options: { actor: string; note?: string }): Promise<{ success: boolean; error?: string }> {
+    try {
+      const query = await db.queryOnce({
+        orders: {
+          $: {
+            where: {
+              id: orderId
+            }
+          }
+        }
+      });
+      const order = query.data.orders?.[0];
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
+
+      const plan = planStatusChange(
+        {
+          status: order.status as OrderStatus,
+          paymentStatus: order.paymentStatus as PaymentStatus,
+          fulfillmentStatus: order.fulfillmentStatus as FulfillmentStatus,
+        },
+        { paymentStatus: 'cod_refused' },
+        { actor: options.actor, note: options.note || 'Delivery refused' }
+      );
+      if (!plan.valid) {
+        return { success: false, error: plan.error };
+      }
+
+      const orderService = OrderService.getInstance();
+      const customer = order.customerId ? await orderService.getCustomer(order.customerId) : undefined;
+
+      const voided = await paymentService.voidPending(orderId, 'Delivery refused');
+      if (!voided.success) {
+        return voided;
+      }
+
+      await db.transact([
+        db.tx.orders[orderId].update(plan.updates),
+        ...orderService.buildEventTransactions(orderId, plan.events),
+        ...(customer
+          ? [db.tx.customers[customer.id].update({ refusedDeliveries: (customer.refusedDeliveries || 0) + 1, updatedAt: new Date() })]
+          : [])
+      ]);
+
+      log.info('Delivery refused', 'PaymentOperationsService', { orderId, customerId: order.customerId });
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'PaymentOperationsService', { operation: 'recordRefusedDelivery', orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Apply a payment gateway webhook and bring the order's payment status up to date
+  async handlePaymentWebhook(providerId: string, body: string, signature: string): Promise<{ success: boolean; error?: string }> {
+    const result = await this.applyWebhook(providerId, body, signature);
+    if (!result.success || !result.orderId) {
+      return { success: false, error: result.error };
+    }
+    return this.reconcilePayments(result.orderId, providerId);
+  }
+
+  // Roll captured payment attempts up into totalPaid and the payment status
+  async reconcilePayments(orderId: string, actor: string = 'system'): Promise<{ success: boolean; error?: string }> {
+    try {
+      const query = await db.queryOnce({
+        orders: {
+          $: {
+            where: {
+              id: orderId
+            }
+          },
+          payments: {}
+        }
+      });
+      const order = query.data.orders?.[0];
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
+
+      const reconciliation = reconcilePayments(order, (order.payments || []).map(payment => ({
+        status: payment.status as PaymentAttemptStatus,
+        method: payment.method,
+        amount: payment.amount,
+        capturedAmount: payment.capturedAmount,
+        refundedAmount: payment.refundedAmount,
+      })));
+      const plan = planStatusChange(
+        {
+          status: order.status as OrderStatus,
+          paymentStatus: order.paymentStatus as PaymentStatus,
+          fulfillmentStatus: order.fulfillmentStatus as FulfillmentStatus,
+        },
+        { paymentStatus: reconciliation.paymentStatus },
+        { actor }
+      );
+      if (!plan.valid) {
+        log.warn('Payment status not changed', 'PaymentOperationsService', { orderId, error: plan.error });
+      }
+
+      await db.transact([
+        db.tx.orders[orderId].update({
+          ...(plan.valid ? plan.updates : {}),
+          totalPaid: reconciliation.totalPaid,
+        }),
+        ...(plan.valid ? OrderService.getInstance().buildEventTransactions(orderId, plan.events) : [])
+      ]);
+
+      log.info('Payments reconciled', 'PaymentOperationsService', { orderId, totalPaid: reconciliation.totalPaid });
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'PaymentOperationsService', { operation: 'reconcilePayments', orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Capture an order's pending and authorized attempts once the money has arrived,
+   * including cash on delivery the courier has remitted
+   */
+  async capturePending(orderId: string, reference?: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const payments = await paymentService.getPendingPayments(orderId, ['pending', 'authorized', 'collected']);
+      if (payments.length === 0) {
+        return { success: false, error: 'No payment is waiting for confirmation' };
+      }
+
+      const now = new Date();
+      const transactions = [];
+      for (const payment of payments) {
+        const provider = getPaymentProvider(payment.provider);
+        const result = provider && payment.providerPaymentId
+          ? await provider.capture(payment.providerPaymentId, payment.amount)
+          : undefined;
+        if (!result?.success) {
+          return { success: false, error: result?.error || 'Payment provider is not available' };
+        }
+        transactions.push(db.tx.payments[payment.id].update({
+          status: 'captured' as PaymentAttemptStatus,
+          capturedAmount: result.amount,
+          ...(reference ? { reference } : {}),
+          updatedAt: now,
+        }));
+      }
+      if (reference) {
+        transactions.push(db.tx.orders[orderId].update({ paymentReference: reference }));
+      }
+
+      await db.transact(transactions);
+      log.info('Captured pending payments', 'PaymentOperationsService', { orderId, count: payments.length });
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'PaymentOperationsService', { operation: 'capturePending', orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Record that the courier collected the cash for an order's cash-on-delivery attempts
+   */
+  async recordCollection(orderId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const payments = (await paymentService.getPendingPayments(orderId)).filter(payment => payment.method === COD_PAYMENT_METHOD);
+      if (payments.length === 0) {
+        return { success: false, error: 'No cash on delivery payment is waiting for collection' };
+      }
+
+      await db.transact(payments.map(payment =>
+        db.tx.payments[payment.id].update({ status: 'collected' as PaymentAttemptStatus, updatedAt: new Date() })
+      ));
+      log.info('Cash collected on delivery', 'PaymentOperationsService', { orderId, count: payments.length });
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'PaymentOperationsService', { operation: 'recordCollection', orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Find the order whose customer reported a payment reference, and the amount still waiting on it
+   */
+  async findPendingByReference(reference: string): Promise<{ orderId: string; amount: number } | undefined> {
+    const query = await db.queryOnce({
+      orders: {
+        $: {
+          where: {
+            paymentReference: reference
+          }
+        },
+        payments: {}
+      }
+    });
+    for (const order of query.data.orders || []) {
+      const payment = (order.payments || []).find(candidate => ['pending', 'authorized'].includes(candidate.status));
+      if (payment) {
+        return { orderId: order.id, amount: payment.amount };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Apply a provider webhook to the matching payment attempt.
+   * Returns the order id so the caller can reconcile the order.
+   */
+  async applyWebhook(providerId: string, body: string, signature: string): Promise<{ success: boolean; error?: string; orderId?: string }> {
+    const provider = getPaymentProvider(providerId);
+    const event = provider?.verifyWebhook(body, signature);
+    if (!event) {
+      log.warn('Rejected payment webhook', 'PaymentOperationsService', { providerId });
+      return { success: false, error: 'Invalid webhook signature' };
+    }
+
+    try {
+      const query = await db.queryOnce({
+        payments: {
+          $: {
+            where: {
+              providerPaymentId: event.providerPaymentId
+            }
+          }
+        }
+      });
+      const payment = query.data.payments?.[0];
+      if (!payment) {
+        return { success: false, error: 'Payment not found' };
+      }
+
+      const updates: Record<string, any> = { updatedAt: new Date() };
+      switch (event.type) {
+        case 'payment.captured':
+          updates.status = 'captured' as PaymentAttemptStatus;
+          updates.capturedAmount = event.amount;
+          break;
+        case 'payment.failed':
+          updates.status = 'failed' as PaymentAttemptStatus;
+          break;
+        case 'payment.voided':
+          updates.status = 'voided' as PaymentAttemptStatus;
+          break;
+        case 'payment.refunded':
+          updates.refundedAmount = event.amount;
+          break;
+      }
+
+      await db.transact([db.tx.payments[payment.id].update(updates)]);
+      log.info('Applied payment webhook', 'PaymentOperationsService', { paymentId: payment.id, type: event.type });
+      return { success: true, orderId: payment.orderId };
+    } catch (error) {
+      trackError(error as Error, 'PaymentOperationsService', { operation: 'applyWebhook', providerId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Send pending refunds on an order to the provider that captured the payment.
+   * Refunds the provider cannot take stay pending for staff to handle.
+   */
+  async settleRefunds(orderId: string): Promise<{ success: boolean; processed: number; error?: string }> {
+    try {
+      const query = await db.queryOnce({
+        orders: {
+          $: {
+            where: {
+              id: orderId
+            }
+          },
+          payments: {},
+          refunds: {}
+        }
+      });
+      const order = query.data.orders?.[0];
+      if (!order) {
+        return { success: false, processed: 0, error: 'Order not found' };
+      }
+
+      const payments = (order.payments || []).filter(payment => payment.status === 'captured' && payment.providerPaymentId);
+      const refunded = new Map(payments.map(payment => [payment.id, payment.refundedAmount || 0]));
+      let processed = 0;
+
+      for (const refund of (order.refunds || []).filter(candidate => candidate.status === 'pending')) {
+        const currency = order.currency || DEFAULT_CURRENCY;
+        const payment = payments.find(candidate =>
+          subtract(money(candidate.capturedAmount || 0, currency), money(refunded.get(candidate.id) || 0, currency)).amount >=
+            money(refund.amount, currency).amount
+        );
+        const provider = payment ? getPaymentProvider(payment.provider) : undefined;
+        if (!payment || !provider) {
+          continue;
+        }
+
+        const result = await provider.refund(payment.providerPaymentId!, refund.amount);
+        if (!result.success) {
+          log.warn('Provider refund failed', 'PaymentOperationsService', { refundId: refund.id, error: result.error });
+          continue;
+        }
+
+        const refundedAmount = toMajor(money((refunded.get(payment.id) || 0) + refund.amount, currency));
+        refunded.set(payment.id, refundedAmount);
+        await db.transact([
+          db.tx.refunds[refund.id].update({ status: 'processed', processedAt: new Date() }),
+          db.tx.payments[payment.id].update({ refundedAmount, updatedAt: new Date() })
+        ]);
+        processed++;
+      }
+
+      return { success: true, processed };
+    } catch (error) {
+      trackError(error as Error, 'PaymentOperationsService', { operation: 'settleRefunds', orderId });
+      return { success: false, processed: 0, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
+
+// Export singleton instance
+export const paymentOperationsService = new PaymentOperationsService();
@@ -0,0 +1,158 @@
+// Payment attempts made from the shopper's app. Capturing, webhooks and refunds
+// are staff operations; see payment-operations-service.
+import { db } from '../lib/instant';
+import { log, trackError } from '../lib/logger';
+import { id } from '@instantdb/react-native';
+import { DEFAULT_CURRENCY } from '../lib/money';
+import { PaymentAttemptStatus } from '../lib/payments';
+import { getPaymentMethod, getPaymentProvider, PaymentResult } from './payments';
+
+export interface PayableOrder {
+  id: string;
+  orderNumber: string;
+  total: number;
+  currency?: string;
+  customerEmail?: string;
+}
+
+export class PaymentService {
+  /**
+   * Authorize an order's total with the chosen method.
+   * Every attempt is recorded, including declines; the money is captured once
+   * the gateway or staff confirm it.
+   */
+  async collectPayment(
+    order: PayableOrder,
+    options: { methodId: string; token?: string }
+  ): Promise<{ success: boolean; error?: string; paymentId?: string; pending?: boolean }> {
+    const method = getPaymentMethod(options.methodId);
+    const provider = method ? getPaymentProvider(method.providerId) : undefined;
+    if (!method || !provider) {
+      return { success: false, error: 'This payment method is not available' };
+    }
+
+    const paymentId = id();
+    const currency = order.currency || DEFAULT_CURRENCY;
+    const now = new Date();
+
+    try {
+      log.info('Collecting payment', 'PaymentService', { orderId: order.id, method: method.id });
+
+      const result: PaymentResult = await provider.authorize({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        amount: order.total,
+        currency,
+        customerEmail: order.customerEmail,
+        token: options.token,
+      });
+
+      await db.transact([
+        db.tx.payments[paymentId]
+          .update({
+            orderId: order.id,
+            provider: provider.id,
+            method: method.id,
+            providerPaymentId: result.providerPaymentId,
+            amount: order.total,
+            capturedAmount: 0,
+            refundedAmount: 0,
+            currency,
+            status: result.status,
+            error: result.error,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .link({ order: order.id })
+      ]);
+
+      if (!result.success) {
+        log.info('Payment declined', 'PaymentService', { orderId: order.id, error: result.error });
+        return { success: false, error: result.error || 'Payment failed', paymentId };
+      }
+      return { success: true, paymentId, pending: true };
+    } catch (error) {
+      trackError(error as Error, 'PaymentService', { operation: 'collectPayment', orderId: order.id });
+      return { success: false, error: error instanceof Error ? error.message : 'Payment failed' };
+    }
+  }
+
+  /**
+   * Store the customer's payment reference (e.g. a UPI UTR) on the order for staff to match
+   */
+  async recordReference(orderId: string, reference: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await db.transact([
+        db.tx.orders[orderId].update({ paymentReference: reference, updatedAt: new Date() })
+      ]);
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'PaymentService', { operation: 'recordReference', orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Void an order's pending attempts, e.g. when a cash-on-delivery order is refused at the door
+   */
+  async voidPending(orderId: string, reason: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const payments = await this.getPendingPayments(orderId);
+      const transactions = [];
+      for (const payment of payments) {
+        const provider = getPaymentProvider(payment.provider);
+        if (provider && payment.providerPaymentId) {
+          await provider.void(payment.providerPaymentId);
+        }
+        transactions.push(db.tx.payments[payment.id].update({
+          status: 'voided' as PaymentAttemptStatus,
+          error: reason,
+          updatedAt: new Date(),
+        }));
+      }
+
+      if (transactions.length > 0) {
+        await db.transact(transactions);
+      }
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'PaymentService', { operation: 'voidPending', orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Build the transactions that void an order's attempts still waiting on money
+   * paid outside the app, e.g. cash on delivery, when the customer cancels it.
+   * Authorized card holds are released by the payments backend.
+   */
+  buildVoidTransactions(payments: { id: string; status: string }[], reason: string) {
+    const now = new Date();
+    return payments
+      .filter(payment => payment.status === 'pending')
+      .map(payment => db.tx.payments[payment.id].update({
+        status: 'voided' as PaymentAttemptStatus,
+        error: reason,
+        updatedAt: now,
+      }));
+  }
+
+  /**
+   * An order's attempts that are still waiting on the money
+   */
+  async getPendingPayments(orderId: string, statuses: PaymentAttemptStatus[] = ['pending', 'authorized']) {
+    const query = await db.queryOnce({
+      payments: {
+        $: {
+          where: {
+            orderId
+          }
+        }
+      }
+    });
+    return (query.data.payments || []).filter(payment => statuses.includes(payment.status as PaymentAttemptStatus));
+  }
+}
+
+// Export singleton instance
+export const paymentService = new PaymentService();
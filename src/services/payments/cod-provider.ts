@@ -0,0 +1,32 @@
+// Cash on delivery. The courier collects the cash at the door and remits it to
+// the store later, so an attempt stays pending until the remittance is reconciled.
+import { PaymentProvider, PaymentRequest, PaymentResult, PaymentWebhookEvent } from './types';
+
+export class CodPaymentProvider implements PaymentProvider {
+  readonly id = 'cod';
+
+  async authorize(request: PaymentRequest): Promise<PaymentResult> {
+    if (request.amount <= 0) {
+      return { success: false, status: 'failed', amount: request.amount, error: 'Amount must be greater than zero' };
+    }
+    return { success: true, providerPaymentId: `cod_${request.orderNumber}`, status: 'pending', amount: request.amount };
+  }
+
+  // Called when the courier's remittance is reconciled
+  async capture(providerPaymentId: string, amount: number): Promise<PaymentResult> {
+    return { success: true, providerPaymentId, status: 'captured', amount };
+  }
+
+  async void(providerPaymentId: string): Promise<PaymentResult> {
+    return { success: true, providerPaymentId, status: 'voided', amount: 0 };
+  }
+
+  // Cash is returned by bank transfer, so refunds stay with staff
+  async refund(providerPaymentId: string, amount: number): Promise<PaymentResult> {
+    return { success: false, providerPaymentId, status: 'captured', amount, error: 'Cash on delivery refunds are sent manually' };
+  }
+
+  verifyWebhook(): PaymentWebhookEvent | null {
+    return null;
+  }
+}
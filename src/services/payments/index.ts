@@ -0,0 +1,69 @@
+// Payment providers available to the app and the methods offered at checkout
+import { MockPaymentProvider } from './mock-provider';
+import { UpiPaymentProvider } from './upi-provider';
+import { CodPaymentProvider } from './cod-provider';
+import { PaymentMethod, PaymentProvider } from './types';
+import { CodEligibility, COD_PAYMENT_METHOD } from '../../lib/cod';
+import { UPI_CURRENCY } from '../../lib/upi';
+
+export * from './types';
+
+const providers = new Map<string, PaymentProvider>();
+
+/**
+ * Make a provider available by its id; replaces any provider with the same id
+ */
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getPaymentProvider(providerId: string): PaymentProvider | undefined {
+  return providers.get(providerId);
+}
+
+// The mock gateway only exists in development and tests; card payments are
+// offered once a live gateway is registered under the same provider id.
+// UPI is always registered, so every order in rupees has a way to pay.
+if (__DEV__) {
+  registerPaymentProvider(new MockPaymentProvider());
+}
+registerPaymentProvider(new UpiPaymentProvider());
+registerPaymentProvider(new CodPaymentProvider());
+
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  { id: 'upi', label: 'UPI', description: 'Scan a QR code or pay from any UPI app', providerId: 'upi' },
+  { id: 'card', label: 'Credit / Debit Card', description: 'Test mode: no real charge is made', providerId: 'mock' },
+  { id: COD_PAYMENT_METHOD, label: 'Cash on Delivery', description: 'Pay the courier when your order arrives', providerId: 'cod' },
+];
+
+/**
+ * Methods whose provider is registered, in the order checkout shows them
+ */
+export function getPaymentMethods(): PaymentMethod[] {
+  return PAYMENT_METHODS.filter(method => providers.has(method.providerId));
+}
+
+export interface PaymentMethodOption {
+  method: PaymentMethod;
+  // Why this order cannot be paid this way; undefined when it can
+  unavailableReason?: string;
+}
+
+/**
+ * The methods checkout offers for an order, with the reason any of them cannot be used
+ */
+export function getPaymentMethodOptions(order: { currency: string; codEligibility: CodEligibility }): PaymentMethodOption[] {
+  return getPaymentMethods().map(method => {
+    if (method.id === COD_PAYMENT_METHOD && !order.codEligibility.eligible) {
+      return { method, unavailableReason: order.codEligibility.reason || 'Cash on delivery is not available for this order' };
+    }
+    if (method.providerId === 'upi' && order.currency !== UPI_CURRENCY) {
+      return { method, unavailableReason: `UPI is only available for orders in ${UPI_CURRENCY}` };
+    }
+    return { method };
+  });
+}
+
+export function getPaymentMethod(methodId: string): PaymentMethod | undefined {
+  return getPaymentMethods().find(method => method.id === methodId);
+}
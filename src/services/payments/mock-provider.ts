@@ -0,0 +1,121 @@
+// In-process payment gateway for development and offline tests.
+// Behaviour depends only on the token and call order, so results are repeatable.
+import { money, subtract, toMajor } from '../../lib/money';
+import type { PaymentAttemptStatus } from '../../lib/payments';
+import { PaymentProvider, PaymentRequest, PaymentResult, PaymentWebhookEvent } from './types';
+
+// Tokens that trigger each outcome; any other token succeeds
+export const MOCK_PAYMENT_TOKENS = {
+  success: 'tok_success',
+  declined: 'tok_declined',
+  insufficientFunds: 'tok_insufficient_funds',
+};
+
+// Fixed so tests can sign webhooks. A live gateway's webhook secret belongs to the
+// payments backend's server environment and never ships in the app bundle.
+export const MOCK_WEBHOOK_SECRET = 'mock_webhook_secret';
+
+interface MockPayment {
+  status: PaymentAttemptStatus;
+  amount: number;
+  currency: string;
+  captured: number;
+  refunded: number;
+}
+
+// djb2 string hash; stands in for the HMAC a real gateway signs webhooks with
+function hash(value: string): string {
+  let result = 5381;
+  for (let i = 0; i < value.length; i++) {
+    result = ((result << 5) + result + value.charCodeAt(i)) >>> 0;
+  }
+  return result.toString(16);
+}
+
+/**
+ * Signature the mock gateway sends with a webhook body
+ */
+export function signMockWebhook(body: string, secret: string = MOCK_WEBHOOK_SECRET): string {
+  return `mock_${hash(`${secret}.${body}`)}`;
+}
+
+export class MockPaymentProvider implements PaymentProvider {
+  readonly id = 'mock';
+  private payments = new Map<string, MockPayment>();
+  private sequence = 0;
+
+  constructor(private webhookSecret: string = MOCK_WEBHOOK_SECRET) {}
+
+  async authorize(request: PaymentRequest): Promise<PaymentResult> {
+    if (request.amount <= 0) {
+      return { success: false, status: 'failed', amount: request.amount, error: 'Amount must be greater than zero' };
+    }
+    if (request.token === MOCK_PAYMENT_TOKENS.declined) {
+      return { success: false, status: 'failed', amount: request.amount, error: 'Card declined' };
+    }
+    if (request.token === MOCK_PAYMENT_TOKENS.insufficientFunds) {
+      return { success: false, status: 'failed', amount: request.amount, error: 'Insufficient funds' };
+    }
+
+    const providerPaymentId = `mock_pay_${++this.sequence}`;
+    this.payments.set(providerPaymentId, {
+      status: 'authorized',
+      amount: request.amount,
+      currency: request.currency,
+      captured: 0,
+      refunded: 0,
+    });
+    return { success: true, providerPaymentId, status: 'authorized', amount: request.amount };
+  }
+
+  async capture(providerPaymentId: string, amount: number): Promise<PaymentResult> {
+    const payment = this.payments.get(providerPaymentId);
+    if (!payment || payment.status !== 'authorized') {
+      return { success: false, providerPaymentId, status: payment?.status || 'failed', amount, error: 'Payment is not authorized' };
+    }
+    if (amount > payment.amount) {
+      return { success: false, providerPaymentId, status: payment.status, amount, error: 'Cannot capture more than was authorized' };
+    }
+
+    payment.status = 'captured';
+    payment.captured = amount;
+    return { success: true, providerPaymentId, status: 'captured', amount };
+  }
+
+  async void(providerPaymentId: string): Promise<PaymentResult> {
+    const payment = this.payments.get(providerPaymentId);
+    if (!payment || payment.status !== 'authorized') {
+      return { success: false, providerPaymentId, status: payment?.status || 'failed', amount: 0, error: 'Only authorized payments can be voided' };
+    }
+
+    payment.status = 'voided';
+    return { success: true, providerPaymentId, status: 'voided', amount: payment.amount };
+  }
+
+  async refund(providerPaymentId: string, amount: number): Promise<PaymentResult> {
+    const payment = this.payments.get(providerPaymentId);
+    if (!payment || payment.status !== 'captured') {
+      return { success: false, providerPaymentId, status: payment?.status || 'failed', amount, error: 'Only captured payments can be refunded' };
+    }
+
+    const remaining = subtract(money(payment.captured, payment.currency), money(payment.refunded, payment.currency));
+    if (money(amount, payment.currency).amount > remaining.amount) {
+      return { success: false, providerPaymentId, status: payment.status, amount, error: `Only ${toMajor(remaining)} can be refunded` };
+    }
+
+    payment.refunded = toMajor(money(payment.refunded + amount, payment.currency));
+    return { success: true, providerPaymentId, status: payment.status, amount };
+  }
+
+  verifyWebhook(body: string, signature: string): PaymentWebhookEvent | null {
+    if (signature !== signMockWebhook(body, this.webhookSecret)) {
+      return null;
+    }
+    try {
+      const event = JSON.parse(body) as PaymentWebhookEvent;
+      return event.type && event.providerPaymentId ? event : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+// Contract every payment gateway implements
+import type { PaymentAttemptStatus } from '../../lib/payments';
+
+export interface PaymentRequest {
+  orderId: string;
+  orderNumber: string;
+  amount: number;
+  currency: string;
+  customerEmail?: string;
+  // Card token or wallet reference collected by the gateway's SDK
+  token?: string;
+}
+
+export interface PaymentResult {
+  success: boolean;
+  providerPaymentId?: string;
+  status: PaymentAttemptStatus;
+  amount: number;
+  error?: string;
+}
+
+export type PaymentWebhookType = 'payment.captured' | 'payment.failed' | 'payment.voided' | 'payment.refunded';
+
+export interface PaymentWebhookEvent {
+  type: PaymentWebhookType;
+  providerPaymentId: string;
+  amount: number;
+}
+
+export interface PaymentProvider {
+  readonly id: string;
+  authorize(request: PaymentRequest): Promise<PaymentResult>;
+  capture(providerPaymentId: string, amount: number): Promise<PaymentResult>;
+  void(providerPaymentId: string): Promise<PaymentResult>;
+  refund(providerPaymentId: string, amount: number): Promise<PaymentResult>;
+  // Returns the event when the signature is genuine, otherwise null
+  verifyWebhook(body: string, signature: string): PaymentWebhookEvent | null;
+}
+
+// A way to pay offered at checkout, backed by a provider
+export interface PaymentMethod {
+  id: string;
+  label: string;
+  description?: string;
+  providerId: string;
+}
@@ -0,0 +1,38 @@
+// UPI collected by QR code or deep link. The customer pays from their own UPI app,
+// so an attempt stays pending until staff confirm the money arrived.
+import { UPI_CURRENCY } from '../../lib/upi';
+import { PaymentProvider, PaymentRequest, PaymentResult, PaymentWebhookEvent } from './types';
+
+export class UpiPaymentProvider implements PaymentProvider {
+  readonly id = 'upi';
+
+  async authorize(request: PaymentRequest): Promise<PaymentResult> {
+    if (request.amount <= 0) {
+      return { success: false, status: 'failed', amount: request.amount, error: 'Amount must be greater than zero' };
+    }
+    if (request.currency !== UPI_CURRENCY) {
+      return { success: false, status: 'failed', amount: request.amount, error: `UPI payments must be in ${UPI_CURRENCY}` };
+    }
+    // The order number is the `tr` reference in the payment intent
+    return { success: true, providerPaymentId: `upi_${request.orderNumber}`, status: 'pending', amount: request.amount };
+  }
+
+  // Called when staff confirm receipt
+  async capture(providerPaymentId: string, amount: number): Promise<PaymentResult> {
+    return { success: true, providerPaymentId, status: 'captured', amount };
+  }
+
+  async void(providerPaymentId: string): Promise<PaymentResult> {
+    return { success: true, providerPaymentId, status: 'voided', amount: 0 };
+  }
+
+  // Money goes back by bank transfer, so refunds stay with staff
+  async refund(providerPaymentId: string, amount: number): Promise<PaymentResult> {
+    return { success: false, providerPaymentId, status: 'captured', amount, error: 'UPI refunds are sent manually' };
+  }
+
+  // Collect-to-VPA payments do not send webhooks
+  verifyWebhook(): PaymentWebhookEvent | null {
+    return null;
+  }
+}
@@ -20,6 +20,18 @@ export interface ProductSortOptions {
   direction: 'asc' | 'desc';
 }
 
+// InstantDB `where`/`order` clauses for a product list; cursor pagination is added by the caller
+export interface ProductQueryPlan {
+  where: Record<string, any>;
+  order: Record<string, 'asc' | 'desc'>;
+}
+
+// Product list filters the database can apply; tags and price have no index
+export type ProductQueryFilters = Omit<ProductFilters, 'tags' | 'priceRange'>;
+
+// Sort fields with a database index; others fall back to newest first
+const INDEXED_PRODUCT_SORTS: ProductSortOptions['field'][] = ['title', 'createdAt'];
+
 export class ProductService {
   private static instance: ProductService;
 
@@ -111,6 +123,37 @@ export class ProductService {
     });
   }
 
+  // Translate list filters into a database query on indexed fields, so large
+  // catalogs are loaded a page at a time
+  buildProductQuery(filters: ProductQueryFilters, sortOptions?: ProductSortOptions): ProductQueryPlan {
+    const where: Record<string, any> = {};
+
+    if (filters.status && filters.status !== 'All') {
+      where.status = filters.status === 'Draft' ? 'draft' : 'active';
+    }
+    if (filters.category) {
+      where.categoryId = filters.category;
+    }
+    if (filters.brand) {
+      where.brandId = filters.brand;
+    }
+
+    const search = filters.search?.trim();
+    if (search) {
+      const pattern = `%${search}%`;
+      where.or = ['title', 'description', 'sku', 'barcode', 'tags'].map(field => ({ [field]: { $ilike: pattern } }));
+    }
+
+    const sort = sortOptions && INDEXED_PRODUCT_SORTS.includes(sortOptions.field)
+      ? sortOptions
+      : { field: 'createdAt', direction: 'desc' as const };
+
+    return {
+      where,
+      order: { [sort.field]: sort.direction },
+    };
+  }
+
   // Sort products
   sortProducts(products: Product[], sortOptions: ProductSortOptions): Product[] {
     return PerformanceMonitor.measure('sort-products', () => {
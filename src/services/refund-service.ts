@@ -0,0 +1,51 @@
+// Refund records for cancelled and returned orders
+import { db } from '../lib/instant';
+import { log } from '../lib/logger';
+import { id } from '@instantdb/react-native';
+import { RefundLedgerLine, RefundType } from '../lib/refunds';
+
+export type RefundStatus = 'pending' | 'processed' | 'failed';
+
+export interface RefundInput {
+  type?: RefundType;
+  amount: number;
+  subtotal?: number;
+  shippingAmount?: number;
+  taxAmount?: number;
+  lines?: RefundLedgerLine[];
+  reason?: string;
+  actor: string;
+}
+
+export class RefundService {
+  /**
+   * Build the transactions that record a refund against an order and the items it covers.
+   * The refund starts as pending until the payment provider confirms it.
+   */
+  buildRefundTransactions(orderId: string, refund: RefundInput) {
+    const refundId = id();
+    const orderItemIds = Array.from(new Set((refund.lines || []).map(line => line.orderItemId)));
+    log.debug('Built refund', 'RefundService', { orderId, amount: refund.amount, type: refund.type });
+
+    return [
+      db.tx.refunds[refundId]
+        .update({
+          orderId,
+          type: refund.type || 'partial',
+          amount: refund.amount,
+          subtotal: refund.subtotal,
+          shippingAmount: refund.shippingAmount,
+          taxAmount: refund.taxAmount,
+          lines: refund.lines || [],
+          reason: refund.reason,
+          actor: refund.actor,
+          status: 'pending' as RefundStatus,
+          createdAt: new Date(),
+        })
+        .link(orderItemIds.length > 0 ? { order: orderId, orderitems: orderItemIds } : { order: orderId })
+    ];
+  }
+}
+
+// Export singleton instance
+export const refundService = new RefundService();
@@ -0,0 +1,277 @@
+// Return (RMA) requests: customer request, staff approval, restock and refund or exchange
+import { db } from '../lib/instant';
+import { log, trackError } from '../lib/logger';
+import { id } from '@instantdb/react-native';
+import { planRefund } from '../lib/refunds';
+import {
+  canTransitionReturn,
+  generateRmaNumber,
+  getReturnableQuantity,
+  isWithinReturnWindow,
+  RETURN_POLICY,
+  ReturnLine,
+  ReturnReasonCode,
+  ReturnResolution,
+  ReturnStatus,
+} from '../lib/returns';
+import { inventoryService } from './inventory-service';
+import { OrderService } from './order-service';
+
+export interface ReturnRequestInput {
+  orderId: string;
+  orderItemId: string;
+  quantity: number;
+  reason: ReturnReasonCode;
+  note?: string;
+  actor: string;
+}
+
+export class ReturnService {
+  /**
+   * Customer asks to return units of one order item
+   */
+  async requestReturn(input: ReturnRequestInput): Promise<{ success: boolean; error?: string; returnId?: string; rmaNumber?: string }> {
+    try {
+      log.info('Requesting return', 'ReturnService', { orderId: input.orderId, orderItemId: input.orderItemId });
+
+      if (!RETURN_POLICY.reasons[input.reason]) {
+        return { success: false, error: 'Please choose a reason for the return' };
+      }
+      if (!Number.isInteger(input.quantity) || input.quantity < 1) {
+        return { success: false, error: 'Return quantity must be at least 1' };
+      }
+
+      const query = await db.queryOnce({
+        orders: {
+          $: {
+            where: {
+              id: input.orderId
+            }
+          },
+          orderitems: {},
+          returns: {},
+          shipments: {}
+        }
+      });
+      const order = query.data.orders?.[0];
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
+      if (!isWithinReturnWindow(order)) {
+        return { success: false, error: `Returns are accepted within ${RETURN_POLICY.windowDays} days of delivery` };
+      }
+
+      const orderItem = (order.orderitems || []).find(item => item.id === input.orderItemId);
+      if (!orderItem) {
+        return { success: false, error: 'Item not found on this order' };
+      }
+
+      const returns = (order.returns || []) as ReturnLine[];
+      const returnable = getReturnableQuantity(orderItem, returns);
+      if (input.quantity > returnable) {
+        return {
+          success: false,
+          error: returnable > 0 ? `Only ${returnable} of this item can be returned` : 'This item has already been returned'
+        };
+      }
+
+      const returnId = id();
+      const rmaNumber = generateRmaNumber(order.orderNumber, returns.length + 1);
+      const now = new Date();
+
+      await db.transact([
+        db.tx.returns[returnId]
+          .update({
+            orderId: input.orderId,
+            orderItemId: input.orderItemId,
+            quantity: input.quantity,
+            reason: input.reason,
+            note: input.note,
+            status: 'requested' as ReturnStatus,
+            rmaNumber,
+            actor: input.actor,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .link({ order: input.orderId, orderitem: input.orderItemId })
+      ]);
+
+      log.info('Return requested', 'ReturnService', { returnId, rmaNumber });
+      return { success: true, returnId, rmaNumber };
+    } catch (error) {
+      trackError(error as Error, 'ReturnService', { operation: 'requestReturn', orderId: input.orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Staff accept a return request; the customer can now send the goods back
+   */
+  async approveReturn(returnId: string, options: { actor: string; note?: string }): Promise<{ success: boolean; error?: string }> {
+    return this.changeStatus(returnId, 'approved', options);
+  }
+
+  /**
+   * Staff decline a return request
+   */
+  async rejectReturn(returnId: string, options: { actor: string; note?: string }): Promise<{ success: boolean; error?: string }> {
+    return this.changeStatus(returnId, 'rejected', options);
+  }
+
+  /**
+   * Staff receive the goods back into a location, adding them to stock
+   */
+  async receiveReturn(returnId: string, options: { locationId: string; actor: string }): Promise<{ success: boolean; error?: string }> {
+    try {
+      log.info('Receiving return', 'ReturnService', { returnId, locationId: options.locationId });
+
+      const record = await this.getReturn(returnId);
+      if (!record) {
+        return { success: false, error: 'Return not found' };
+      }
+      if (!canTransitionReturn(record.status as ReturnStatus, 'received')) {
+        return { success: false, error: `Cannot receive a return that is ${record.status}` };
+      }
+
+      const itemId = record.orderitem?.itemId;
+      const now = new Date();
+
+      await inventoryService.transactWithStock(itemId ? [itemId] : [], stock => [
+        db.tx.returns[returnId].update({
+          status: 'received' as ReturnStatus,
+          locationId: options.locationId,
+          receivedAt: now,
+          updatedAt: now,
+        }),
+        ...(itemId
+          ? inventoryService.buildReceiptTransactions(
+              {
+                itemId,
+                locationId: options.locationId,
+                quantity: record.quantity,
+                reason: 'customer_return',
+                reference: record.rmaNumber,
+                actor: options.actor,
+                notes: RETURN_POLICY.reasons[record.reason as ReturnReasonCode] || record.reason,
+              },
+              stock[itemId]
+            )
+          : [])
+      ]);
+
+      log.info('Return received', 'ReturnService', { returnId });
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'ReturnService', { operation: 'receiveReturn', returnId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Close a received return with a refund of the returned units or an exchange.
+   * Exchanges are shipped by staff as a new order, so only the return is updated.
+   */
+  async resolveReturn(
+    returnId: string,
+    options: { resolution: ReturnResolution; actor: string }
+  ): Promise<{ success: boolean; error?: string; refundAmount?: number }> {
+    try {
+      log.info('Resolving return', 'ReturnService', { returnId, resolution: options.resolution });
+
+      const record = await this.getReturn(returnId);
+      if (!record || !record.order || !record.orderitem) {
+        return { success: false, error: 'Return not found' };
+      }
+
+      const status: ReturnStatus = options.resolution === 'refund' ? 'refunded' : 'exchanged';
+      if (!canTransitionReturn(record.status as ReturnStatus, status)) {
+        return { success: false, error: `Cannot resolve a return that is ${record.status}` };
+      }
+
+      const order = record.order;
+      const now = new Date();
+
+      if (options.resolution === 'exchange') {
+        await db.transact([
+          db.tx.returns[returnId].update({ status, resolution: options.resolution, updatedAt: now })
+        ]);
+        log.info('Return exchanged', 'ReturnService', { returnId });
+        return { success: true };
+      }
+
+      const plan = planRefund(order, order.orderitems || [], order.refunds || [], {
+        type: 'line',
+        lines: [{ orderItemId: record.orderitem.id, quantity: record.quantity }]
+      });
+      if (!plan.valid) {
+        return { success: false, error: plan.error };
+      }
+      const refundAmount = plan.amount;
+
+      await db.transact([
+        db.tx.returns[returnId].update({ status, resolution: options.resolution, refundAmount, updatedAt: now }),
+        ...OrderService.getInstance().buildRefundTransactions(order, plan, {
+          reason: `Return ${record.rmaNumber}`,
+          actor: options.actor
+        })
+      ]);
+
+      log.info('Return refunded', 'ReturnService', { returnId, refundAmount });
+      return { success: true, refundAmount };
+    } catch (error) {
+      trackError(error as Error, 'ReturnService', { operation: 'resolveReturn', returnId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async getReturn(returnId: string) {
+    const query = await db.queryOnce({
+      returns: {
+        $: {
+          where: {
+            id: returnId
+          }
+        },
+        order: {
+          orderitems: {},
+          refunds: {}
+        },
+        orderitem: {}
+      }
+    });
+    return query.data.returns?.[0];
+  }
+
+  private async changeStatus(
+    returnId: string,
+    status: ReturnStatus,
+    options: { actor: string; note?: string }
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      log.info('Updating return status', 'ReturnService', { returnId, status, actor: options.actor });
+
+      const record = await this.getReturn(returnId);
+      if (!record) {
+        return { success: false, error: 'Return not found' };
+      }
+      if (!canTransitionReturn(record.status as ReturnStatus, status)) {
+        return { success: false, error: `Cannot change return from ${record.status} to ${status}` };
+      }
+
+      await db.transact([
+        db.tx.returns[returnId].update({
+          status,
+          ...(options.note ? { resolutionNote: options.note } : {}),
+          updatedAt: new Date(),
+        })
+      ]);
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'ReturnService', { operation: 'changeStatus', returnId, status });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
+
+// Export singleton instance
+export const returnService = new ReturnService();
@@ -0,0 +1,454 @@
+// Shipments: packing order items into packages, shipping and delivery
+import { db } from '../lib/instant';
+import { log, trackError } from '../lib/logger';
+import { id } from '@instantdb/react-native';
+import { planStatusChange, FulfillmentStatus, OrderStatus, PaymentStatus } from '../lib/order-state';
+import {
+  buildTrackingUrl,
+  canTransitionShipment,
+  deriveFulfillmentStatus,
+  getCarrierName,
+  getLineFulfillmentStatus,
+  SHIPMENT_STATUS_LABELS,
+  ShipmentLine,
+  ShipmentRecord,
+  ShipmentStatus,
+  validateShipmentLines,
+} from '../lib/shipments';
+import { DEFAULT_ITEM_WEIGHT } from '../lib/shipping';
+import { LabelFormat } from '../lib/shipping-labels';
+import { r2Service } from '../lib/r2-service';
+import { OrderService } from './order-service';
+import { CarrierRate, CarrierRateRequest, getCarrier, getCarriers, toLabelAddress } from './carriers';
+
+export interface ShipmentInput {
+  orderId: string;
+  lines: ShipmentLine[];
+  carrier?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  actor: string;
+}
+
+export interface ShipmentTracking {
+  carrier?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+}
+
+export interface LabelPurchase {
+  carrierId: string;
+  service: string;
+  labelFormat?: LabelFormat;
+  locationId?: string; // Where the parcel ships from; the order's or the default location otherwise
+  actor: string;
+}
+
+type StoredShipment = ShipmentRecord & { id: string; shippedAt?: Date | string | number };
+
+export class ShipmentService {
+  /**
+   * Pack units of one or more order items into a new package
+   */
+  async createShipment(input: ShipmentInput): Promise<{ success: boolean; error?: string; shipmentId?: string }> {
+    try {
+      log.info('Creating shipment', 'ShipmentService', { orderId: input.orderId, lines: input.lines.length });
+
+      const query = await db.queryOnce({
+        orders: {
+          $: {
+            where: {
+              id: input.orderId
+            }
+          },
+          orderitems: {},
+          shipments: {}
+        }
+      });
+      const order = query.data.orders?.[0];
+      if (!order) {
+        return { success: false, error: 'Order not found' };
+      }
+      if (order.status === 'cancelled') {
+        return { success: false, error: 'Cancelled orders cannot be shipped' };
+      }
+
+      const lines = input.lines.filter(line => line.quantity > 0);
+      const validation = validateShipmentLines(order.orderitems || [], (order.shipments || []) as ShipmentRecord[], lines);
+      if (!validation.valid) {
+        return { success: false, error: validation.error };
+      }
+
+      const shipmentId = id();
+      const now = new Date();
+      await db.transact([
+        db.tx.shipments[shipmentId]
+          .update({
+            orderId: input.orderId,
+            lines,
+            status: 'pending' as ShipmentStatus,
+            ...this.getTrackingUpdates(input),
+            actor: input.actor,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .link({ order: input.orderId, orderitems: [...new Set(lines.map(line => line.orderItemId))] })
+      ]);
+
+      log.info('Shipment created', 'ShipmentService', { shipmentId });
+      return { success: true, shipmentId };
+    } catch (error) {
+      trackError(error as Error, 'ShipmentService', { operation: 'createShipment', orderId: input.orderId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Hand a package to the carrier; the order's fulfillment status follows
+   */
+  async markShipped(shipmentId: string, options: ShipmentTracking & { actor: string }): Promise<{ success: boolean; error?: string }> {
+    return this.changeStatus(shipmentId, 'shipped', options.actor, { shippedAt: new Date() }, options);
+  }
+
+  async markDelivered(shipmentId: string, options: { actor: string }): Promise<{ success: boolean; error?: string }> {
+    return this.changeStatus(shipmentId, 'delivered', options.actor, { deliveredAt: new Date() });
+  }
+
+  /**
+   * Unpack a package that has not shipped, so its items can be packed again.
+   * A label bought for it is voided with the carrier first.
+   */
+  async cancelShipment(shipmentId: string, options: { actor: string }): Promise<{ success: boolean; error?: string }> {
+    const shipment = await this.getShipment(shipmentId);
+    const carrier = shipment?.labelKey && shipment.carrier ? getCarrier(shipment.carrier) : undefined;
+    if (shipment?.status === 'pending' && carrier && shipment.trackingNumber) {
+      const voided = await carrier.cancelShipment(shipment.trackingNumber);
+      if (!voided.success) {
+        return voided;
+      }
+    }
+    return this.changeStatus(shipmentId, 'cancelled', options.actor, carrier ? { trackingStatus: 'cancelled' } : {});
+  }
+
+  /**
+   * Rates from every carrier for a package, cheapest first
+   */
+  async quoteRates(shipmentId: string, options: { locationId?: string } = {}): Promise<{ success: boolean; error?: string; rates: CarrierRate[] }> {
+    try {
+      const shipment = await this.getShipment(shipmentId);
+      if (!shipment?.order) {
+        return { success: false, error: 'Shipment not found', rates: [] };
+      }
+
+      const request = await this.buildRateRequest(shipment, options.locationId);
+      if ('error' in request) {
+        return { success: false, error: request.error, rates: [] };
+      }
+
+      const quotes = await Promise.all(getCarriers().map(carrier => carrier.quoteRates(request)));
+      return { success: true, rates: quotes.flat().sort((a, b) => a.amount - b.amount) };
+    } catch (error) {
+      trackError(error as Error, 'ShipmentService', { operation: 'quoteRates', shipmentId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error', rates: [] };
+    }
+  }
+
+  /**
+   * Buy a label from a carrier and store it through R2. The carrier's tracking
+   * number is saved on the package.
+   */
+  async buyLabel(shipmentId: string, purchase: LabelPurchase): Promise<{ success: boolean; error?: string; trackingNumber?: string; labelUrl?: string }> {
+    try {
+      log.info('Buying shipping label', 'ShipmentService', { shipmentId, carrierId: purchase.carrierId, service: purchase.service });
+
+      const shipment = await this.getShipment(shipmentId);
+      if (!shipment?.order) {
+        return { success: false, error: 'Shipment not found' };
+      }
+      if (shipment.status !== 'pending') {
+        return { success: false, error: 'Labels can only be bought for packages that have not shipped' };
+      }
+      if (shipment.labelKey) {
+        return { success: false, error: 'This package already has a label' };
+      }
+
+      const carrier = getCarrier(purchase.carrierId);
+      if (!carrier) {
+        return { success: false, error: 'This carrier is not available' };
+      }
+
+      const request = await this.buildRateRequest(shipment, purchase.locationId);
+      if ('error' in request) {
+        return { success: false, error: request.error };
+      }
+
+      const labelFormat = purchase.labelFormat || 'pdf';
+      const result = await carrier.createShipment({
+        ...request,
+        service: purchase.service,
+        reference: shipment.order.orderNumber,
+        labelFormat,
+      });
+      if (!result.success || !result.trackingNumber || !result.label) {
+        return { success: false, error: result.error || 'The carrier did not return a label' };
+      }
+
+      const upload = await r2Service.uploadContent(
+        result.label.data,
+        `${shipment.order.orderNumber}-${result.trackingNumber}.${result.label.format}`,
+        result.label.contentType,
+        'labels'
+      );
+      if (!upload.success) {
+        // Do not leave a paid label behind that nobody can print
+        await carrier.cancelShipment(result.trackingNumber);
+        return { success: false, error: `Label could not be saved: ${upload.error}` };
+      }
+
+      const updates = {
+        ...this.getTrackingUpdates({ carrier: carrier.id, trackingNumber: result.trackingNumber, trackingUrl: result.trackingUrl }),
+        service: purchase.service,
+        labelFormat,
+        labelKey: upload.key,
+        labelUrl: upload.url,
+        labelCost: result.amount,
+        trackingStatus: 'label_created',
+      };
+      const shipments = (shipment.order.shipments || [])
+        .map(candidate => candidate.id === shipmentId ? { ...candidate, ...updates } : candidate) as StoredShipment[];
+
+      await db.transact([
+        db.tx.shipments[shipmentId].update({ ...updates, updatedAt: new Date() }),
+        ...this.buildFulfillmentTransactions(shipment.order, shipment.order.orderitems || [], shipments, { actor: purchase.actor })
+      ]);
+
+      log.info('Shipping label bought', 'ShipmentService', { shipmentId, trackingNumber: result.trackingNumber });
+      return { success: true, trackingNumber: result.trackingNumber, labelUrl: upload.url };
+    } catch (error) {
+      trackError(error as Error, 'ShipmentService', { operation: 'buyLabel', shipmentId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Ask the carrier where a package is, and mark it shipped or delivered to match
+   */
+  async syncTracking(shipmentId: string, options: { actor: string }): Promise<{ success: boolean; error?: string }> {
+    try {
+      const shipment = await this.getShipment(shipmentId);
+      const carrier = shipment?.carrier ? getCarrier(shipment.carrier) : undefined;
+      if (!shipment || !carrier || !shipment.trackingNumber) {
+        return { success: false, error: 'This package has no carrier tracking' };
+      }
+
+      const tracking = await carrier.track(shipment.trackingNumber);
+      if (!tracking.success || !tracking.status) {
+        return { success: false, error: tracking.error || 'Tracking is not available yet' };
+      }
+      await db.transact([db.tx.shipments[shipmentId].update({ trackingStatus: tracking.status, updatedAt: new Date() })]);
+
+      const moving = ['in_transit', 'out_for_delivery', 'delivered'].includes(tracking.status);
+      if (moving && shipment.status === 'pending') {
+        const shipped = await this.markShipped(shipmentId, { actor: options.actor });
+        if (!shipped.success) {
+          return shipped;
+        }
+      }
+      if (tracking.status === 'delivered' && shipment.status !== 'delivered') {
+        return this.markDelivered(shipmentId, { actor: options.actor });
+      }
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'ShipmentService', { operation: 'syncTracking', shipmentId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Record the carrier and tracking number for a package, e.g. once a label is bought
+   */
+  async updateTracking(shipmentId: string, tracking: ShipmentTracking & { actor: string }): Promise<{ success: boolean; error?: string }> {
+    try {
+      const shipment = await this.getShipment(shipmentId);
+      if (!shipment?.order) {
+        return { success: false, error: 'Shipment not found' };
+      }
+
+      const updated = { ...shipment, ...this.getTrackingUpdates(tracking) } as StoredShipment;
+      const shipments = (shipment.order.shipments || []).map(candidate => candidate.id === shipmentId ? updated : candidate) as StoredShipment[];
+
+      await db.transact([
+        db.tx.shipments[shipmentId].update({ ...this.getTrackingUpdates(tracking), updatedAt: new Date() }),
+        ...this.buildFulfillmentTransactions(shipment.order, shipment.order.orderitems || [], shipments, { actor: tracking.actor })
+      ]);
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'ShipmentService', { operation: 'updateTracking', shipmentId });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Build the transactions that bring order items and the order in line with
+   * its packages: each line's fulfillment status and latest tracking, and the
+   * order's derived fulfillment status with its timeline event
+   */
+  buildFulfillmentTransactions(
+    order: { id: string; status?: string; paymentStatus?: string; fulfillmentStatus?: string },
+    items: { id: string; quantity: number; fulfillmentStatus?: string; trackingNumber?: string; trackingUrl?: string }[],
+    shipments: StoredShipment[],
+    context: { actor: string; note?: string }
+  ) {
+    const fulfillmentStatus = deriveFulfillmentStatus(items, shipments);
+    const plan = planStatusChange(
+      {
+        status: order.status as OrderStatus,
+        paymentStatus: order.paymentStatus as PaymentStatus,
+        fulfillmentStatus: order.fulfillmentStatus as FulfillmentStatus,
+      },
+      { fulfillmentStatus },
+      context
+    );
+    if (!plan.valid) {
+      throw new Error(plan.error);
+    }
+
+    const itemTransactions = items.flatMap(item => {
+      // The most recently shipped package holding the item carries its tracking
+      const latest = shipments
+        .filter(shipment =>
+          (shipment.status === 'shipped' || shipment.status === 'delivered') &&
+          (shipment.lines || []).some(line => line.orderItemId === item.id)
+        )
+        .sort((a, b) => new Date(b.shippedAt || 0).getTime() - new Date(a.shippedAt || 0).getTime())[0];
+      const updates = {
+        fulfillmentStatus: getLineFulfillmentStatus(item, shipments),
+        trackingNumber: latest?.trackingNumber,
+        trackingUrl: latest?.trackingUrl,
+      };
+      if (
+        updates.fulfillmentStatus === (item.fulfillmentStatus || 'unfulfilled') &&
+        updates.trackingNumber === item.trackingNumber &&
+        updates.trackingUrl === item.trackingUrl
+      ) {
+        return [];
+      }
+      return [db.tx.orderitems[item.id].update(updates)];
+    });
+
+    return [
+      ...itemTransactions,
+      ...(plan.events.length > 0 ? [db.tx.orders[order.id].update(plan.updates)] : []),
+      ...OrderService.getInstance().buildEventTransactions(order.id, plan.events)
+    ];
+  }
+
+  private async changeStatus(
+    shipmentId: string,
+    status: ShipmentStatus,
+    actor: string,
+    changes: Record<string, any>,
+    tracking?: ShipmentTracking
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      log.info('Changing shipment status', 'ShipmentService', { shipmentId, status });
+
+      const shipment = await this.getShipment(shipmentId);
+      if (!shipment?.order) {
+        return { success: false, error: 'Shipment not found' };
+      }
+      if (!canTransitionShipment(shipment.status as ShipmentStatus, status)) {
+        return { success: false, error: `Cannot mark a ${SHIPMENT_STATUS_LABELS[shipment.status as ShipmentStatus]?.toLowerCase() || shipment.status} package as ${SHIPMENT_STATUS_LABELS[status].toLowerCase()}` };
+      }
+
+      const updates = tracking ? { ...changes, ...this.getTrackingUpdates(tracking, shipment) } : changes;
+
+      const updated = { ...shipment, ...updates, status } as StoredShipment;
+      const shipments = (shipment.order.shipments || []).map(candidate => candidate.id === shipmentId ? updated : candidate) as StoredShipment[];
+      const carrier = getCarrierName(updated.carrier);
+      const note = status === 'shipped' && (carrier || updated.trackingNumber)
+        ? ['Shipped', carrier && `via ${carrier}`, updated.trackingNumber && `(tracking ${updated.trackingNumber})`].filter(Boolean).join(' ')
+        : undefined;
+
+      await db.transact([
+        db.tx.shipments[shipmentId].update({ ...updates, status, updatedAt: new Date() }),
+        ...this.buildFulfillmentTransactions(shipment.order, shipment.order.orderitems || [], shipments, { actor, note })
+      ]);
+
+      log.info('Shipment status changed', 'ShipmentService', { shipmentId, status });
+      return { success: true };
+    } catch (error) {
+      trackError(error as Error, 'ShipmentService', { operation: 'changeStatus', shipmentId, status });
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Ship-from address, parcel weight and declared value for a package
+  private async buildRateRequest(
+    shipment: NonNullable<Awaited<ReturnType<ShipmentService['getShipment']>>>,
+    locationId?: string
+  ): Promise<CarrierRateRequest | { error: string }> {
+    const order = shipment.order!;
+    const query = await db.queryOnce({ locations: {} });
+    const locations = query.data.locations || [];
+    const location = locations.find(candidate => candidate.id === (locationId || order.locationId)) ||
+      locations.find(candidate => candidate.isDefault) ||
+      locations.find(candidate => candidate.fulfillsOnlineOrders);
+    if (!location?.address) {
+      return { error: 'Set an address for the location this package ships from' };
+    }
+    if (!order.shippingAddress) {
+      return { error: 'This order has no shipping address' };
+    }
+
+    const items = order.orderitems || [];
+    const lines = (shipment.lines || []) as ShipmentLine[];
+    const units = lines.reduce((total, line) => total + line.quantity, 0);
+    const orderUnits = items.reduce((total, item) => total + item.quantity, 0);
+    // Share of the parcel weight recorded at checkout, by units in this package
+    const weight = order.shippingMethod?.weight && orderUnits > 0
+      ? Math.round(order.shippingMethod.weight * units / orderUnits)
+      : units * DEFAULT_ITEM_WEIGHT;
+    const value = lines.reduce((total, line) => {
+      const item = items.find(candidate => candidate.id === line.orderItemId);
+      return total + (item ? item.price * line.quantity : 0);
+    }, 0);
+
+    return {
+      from: toLabelAddress(location.address, location.name),
+      to: toLabelAddress(order.shippingAddress, order.customerName),
+      parcel: { weight, value },
+    };
+  }
+
+  // Only fields that are known are returned, so a tracking URL already on the package is never cleared
+  private getTrackingUpdates(tracking: ShipmentTracking, stored: ShipmentTracking = {}): ShipmentTracking {
+    const trackingNumber = tracking.trackingNumber?.trim() || undefined;
+    const trackingUrl = tracking.trackingUrl || buildTrackingUrl(tracking.carrier || stored.carrier, trackingNumber);
+    return {
+      ...(tracking.carrier ? { carrier: tracking.carrier } : {}),
+      ...(trackingNumber ? { trackingNumber } : {}),
+      ...(trackingUrl ? { trackingUrl } : {}),
+    };
+  }
+
+  private async getShipment(shipmentId: string) {
+    const query = await db.queryOnce({
+      shipments: {
+        $: {
+          where: {
+            id: shipmentId
+          }
+        },
+        order: {
+          orderitems: {},
+          shipments: {}
+        }
+      }
+    });
+    return query.data.shipments?.[0];
+  }
+}
+
+// Export singleton instance
+export const shipmentService = new ShipmentService();
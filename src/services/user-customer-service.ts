@@ -16,6 +16,7 @@ export interface Customer {
   totalSpent?: number;
   notes?: string;
   tags?: string;
+  customerGroup?: string; // Decides which price lists apply, e.g. 'wholesale'
   createdAt: Date;
   updatedAt?: Date;
 }
@@ -52,6 +53,10 @@ export class UserCustomerService {
 
       if (existingCustomer) {
         log.info('Found existing customer', 'UserCustomerService', { customerId: existingCustomer.id });
+        // Linking is idempotent; the link is how permission rules find the shopper's customer group
+        await db.transact([
+          db.tx.customers[existingCustomer.id].link({ $users: user.id })
+        ]);
         return { success: true, customer: existingCustomer };
       }
 
@@ -68,7 +73,7 @@ export class UserCustomerService {
       const customerId = id();
 
       await db.transact([
-        db.tx.customers[customerId].update(customerData)
+        db.tx.customers[customerId].update(customerData).link({ $users: user.id })
       ]);
 
       const newCustomer: Customer = {